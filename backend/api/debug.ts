@@ -6,7 +6,8 @@ export default function handler(req: VercelRequest, res: VercelResponse) {
         SUPABASE_URL: process.env.SUPABASE_URL ? 'Set' : 'Missing',
         SUPABASE_ANON_KEY: process.env.SUPABASE_ANON_KEY ? 'Set' : 'Missing',
         SUPABASE_SERVICE_ROLE_KEY: process.env.SUPABASE_SERVICE_ROLE_KEY ? 'Set' : 'Missing',
-        SITE_NAME: process.env.SITE_NAME || 'Not set',
+        DEFAULT_SITE_NAME: process.env.DEFAULT_SITE_NAME || 'Not set',
+        SITE_BASE_DOMAIN: process.env.SITE_BASE_DOMAIN || 'Not set',
         NODE_ENV: process.env.NODE_ENV || 'Not set'
     };
 
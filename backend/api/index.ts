@@ -10,14 +10,15 @@ import { createCorsOptions, logCorsConfiguration } from '../src/utils/corsConfig
 import { getCurrentEnvironment, logEnvironmentInfo, getEnvironmentInfo } from '../src/utils/environmentDetector';
 
 // Import API route handlers
-import applicantsRouter from '../src/routes/applicants';
-import reviewersRouter from '../src/routes/reviewers';
-import reviewsRouter from '../src/routes/reviews';
-import progressRouter from '../src/routes/progress';
+import { mountApiRoutes, API_ENDPOINTS, AVAILABLE_ENDPOINTS } from '../src/routes';
 
 // Import data seeder
 import { DataSeeder } from '../src/utils/dataSeeder';
 
+// Import tenant resolution and authentication
+import { resolveTenant } from '../src/middleware/tenant';
+import { requireAuth, requirePermission } from '../src/middleware/auth';
+
 // Load environment variables
 dotenv.config();
 
@@ -26,6 +27,9 @@ logEnvironmentInfo();
 
 const app = express();
 
+// Vercel sets X-Forwarded-For to the caller's address, so req.ip (used to throttle sign-ins) reads it
+app.set('trust proxy', true);
+
 // Dynamic CORS configuration for Vercel
 const corsOptions = createCorsOptions();
 app.use(cors(corsOptions));
@@ -43,6 +47,9 @@ app.use((req, res, next) => {
     next();
 });
 
+// Each request acts for one site (tenant): the X-Site-Name header, the subdomain, or DEFAULT_SITE_NAME
+app.use(resolveTenant);
+
 // Health check endpoint
 app.get('/api/health', (req, res) => {
     const envInfo = getEnvironmentInfo();
@@ -71,7 +78,8 @@ app.get('/api/health', (req, res) => {
 });
 
 // Database seeding endpoint
-app.post('/api/seed', async (req, res) => {
+// Program directors only, and only for their own site: seeding creates program director accounts
+app.post('/api/seed', requireAuth, requirePermission('reviewers:manage'), async (req, res) => {
     try {
         console.log('🌱 Starting database seeding via API endpoint...');
         await DataSeeder.seedAll();
@@ -92,10 +100,7 @@ app.post('/api/seed', async (req, res) => {
 });
 
 // Mount API routes synchronously
-app.use('/api/applicants', applicantsRouter);
-app.use('/api/reviewers', reviewersRouter);
-app.use('/api/reviews', reviewsRouter);
-app.use('/api/progress', progressRouter);
+mountApiRoutes(app);
 
 // Root endpoint
 app.get('/api', (req, res) => {
@@ -105,10 +110,7 @@ app.get('/api', (req, res) => {
         endpoints: {
             health: '/api/health',
             seed: 'POST /api/seed',
-            applicants: '/api/applicants',
-            reviewers: '/api/reviewers',
-            reviews: '/api/reviews',
-            progress: '/api/progress'
+            ...API_ENDPOINTS
         },
         timestamp: new Date().toISOString()
     });
@@ -127,13 +129,7 @@ app.use('/api/*', (req, res) => {
             'GET /api',
             'GET /api/health',
             'POST /api/seed',
-            'GET /api/applicants',
-            'POST /api/applicants',
-            'GET /api/reviewers',
-            'POST /api/reviewers',
-            'GET /api/reviews',
-            'POST /api/reviews',
-            'GET /api/progress'
+            ...AVAILABLE_ENDPOINTS
         ]
     });
 });
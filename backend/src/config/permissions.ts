@@ -0,0 +1,74 @@
+import { DatabaseReviewer, Permission, ReviewerRole } from '../types';
+
+// Permissions granted to each role
+// Program directors are the admins; coordinators run logistics but do not score or decide
+export const ROLE_PERMISSIONS: Record<ReviewerRole, Permission[]> = {
+    reviewer: [
+        'reviews:write',
+        'interviews:evaluate'
+    ],
+    program_director: [
+        'applicants:write',
+        'applicants:delete',
+        'reviewers:manage',
+        'assignments:manage',
+        'reviews:write',
+        'reviews:read_all',
+        'final_selections:read',
+        'final_selections:decide',
+        'progress:read_all',
+        'rubrics:manage',
+        'interview_targets:manage',
+        'cycles:manage',
+        'audit:read',
+        'data:export',
+        'rank_list:manage',
+        'interviews:manage',
+        'interviews:evaluate'
+    ],
+    coordinator: [
+        'applicants:write',
+        'assignments:manage',
+        'reviews:read_all',
+        'final_selections:read',
+        'progress:read_all',
+        'interview_targets:manage',
+        'audit:read',
+        'data:export',
+        'interviews:manage'
+    ]
+};
+
+export const REVIEWER_ROLES: ReviewerRole[] = ['reviewer', 'program_director', 'coordinator'];
+
+/**
+ * Check whether a value from a request body is a known role
+ */
+export function isReviewerRole(value: unknown): value is ReviewerRole {
+    return (REVIEWER_ROLES as readonly unknown[]).includes(value);
+}
+
+/**
+ * Resolve a reviewer's effective role
+ * Rows created before roles existed only carry is_admin
+ */
+export function getReviewerRole(reviewer: Pick<DatabaseReviewer, 'role' | 'is_admin'>): ReviewerRole {
+    if (reviewer.role && reviewer.role !== 'reviewer') {
+        return reviewer.role;
+    }
+    return reviewer.is_admin ? 'program_director' : 'reviewer';
+}
+
+/**
+ * Get all permissions for a reviewer
+ */
+export function getPermissions(reviewer: Pick<DatabaseReviewer, 'role' | 'is_admin'>): Permission[] {
+    return ROLE_PERMISSIONS[getReviewerRole(reviewer)];
+}
+
+/**
+ * Check whether a reviewer holds a permission
+ */
+export function hasPermission(reviewer: Pick<DatabaseReviewer, 'role' | 'is_admin'>, permission: Permission): boolean {
+    return getPermissions(reviewer).includes(permission);
+}
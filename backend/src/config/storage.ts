@@ -0,0 +1,120 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as dotenv from 'dotenv';
+import { supabaseAdmin } from './supabase';
+import { isVercelDeployment } from '../utils/environmentDetector';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Where applicant documents are kept
+ * Keys are relative paths such as 'urology_review/<cycle>/<applicant>/<id>.pdf'
+ */
+export interface DocumentStorage {
+    put(key: string, data: Buffer): Promise<void>;
+    get(key: string): Promise<Buffer>;
+    delete(key: string): Promise<void>;
+}
+
+/**
+ * Keep documents on the server's own disk, under one root directory
+ * Not for serverless hosts such as Vercel, whose filesystem is read-only and discarded between requests
+ */
+export class LocalDocumentStorage implements DocumentStorage {
+    private readonly root: string;
+
+    constructor(root: string) {
+        this.root = path.resolve(root);
+    }
+
+    async put(key: string, data: Buffer): Promise<void> {
+        const filePath = this.resolve(key);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, data);
+    }
+
+    async get(key: string): Promise<Buffer> {
+        return fs.readFile(this.resolve(key));
+    }
+
+    async delete(key: string): Promise<void> {
+        try {
+            await fs.unlink(this.resolve(key));
+        } catch (err) {
+            // Already gone is as good as deleted
+            if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+                throw err;
+            }
+        }
+    }
+
+    /**
+     * Map a key to a file path, refusing keys that would escape the root directory
+     */
+    private resolve(key: string): string {
+        const filePath = path.resolve(this.root, key);
+        if (!filePath.startsWith(this.root + path.sep)) {
+            throw new Error(`Invalid document storage key: ${key}`);
+        }
+        return filePath;
+    }
+}
+
+/**
+ * Keep documents in a private Supabase Storage bucket, using the service role
+ */
+export class SupabaseDocumentStorage implements DocumentStorage {
+    constructor(private readonly bucket: string) {}
+
+    async put(key: string, data: Buffer): Promise<void> {
+        const { error } = await supabaseAdmin.storage
+            .from(this.bucket)
+            .upload(key, data, { contentType: 'application/pdf', upsert: false });
+
+        if (error) {
+            throw new Error(`Failed to upload ${key}: ${error.message}`);
+        }
+    }
+
+    async get(key: string): Promise<Buffer> {
+        const { data, error } = await supabaseAdmin.storage.from(this.bucket).download(key);
+
+        if (error || !data) {
+            throw new Error(`Failed to download ${key}: ${error?.message || 'no data'}`);
+        }
+
+        return Buffer.from(await data.arrayBuffer());
+    }
+
+    async delete(key: string): Promise<void> {
+        // Storage reports no error for a key that is already gone
+        const { error } = await supabaseAdmin.storage.from(this.bucket).remove([key]);
+
+        if (error) {
+            throw new Error(`Failed to delete ${key}: ${error.message}`);
+        }
+    }
+}
+
+/**
+ * Build the storage backend named by DOCUMENT_STORAGE (default 'supabase' on Vercel, 'local' elsewhere)
+ */
+function createDocumentStorage(): DocumentStorage {
+    const backend = process.env.DOCUMENT_STORAGE || (isVercelDeployment() ? 'supabase' : 'local');
+    switch (backend) {
+        case 'local':
+            if (isVercelDeployment()) {
+                console.error('❌ DOCUMENT_STORAGE=local cannot keep files on Vercel; use DOCUMENT_STORAGE=supabase');
+                process.exit(1);
+            }
+            return new LocalDocumentStorage(process.env.DOCUMENT_STORAGE_DIR || './uploads');
+        case 'supabase':
+            return new SupabaseDocumentStorage(process.env.DOCUMENT_STORAGE_BUCKET || 'applicant-documents');
+        default:
+            console.error(`❌ Unknown DOCUMENT_STORAGE backend: ${backend}`);
+            process.exit(1);
+    }
+}
+
+export const documentStorage: DocumentStorage = createDocumentStorage();
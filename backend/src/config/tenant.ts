@@ -0,0 +1,58 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import * as dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Site (tenant) used when a request names none, and for startup work such as seeding
+ */
+export const DEFAULT_SITE_NAME = process.env.DEFAULT_SITE_NAME || 'urology_review';
+
+/**
+ * Parent domain whose subdomains name sites, e.g. 'review.example.org' so that
+ * 'pediatric-urology.review.example.org' acts for the 'pediatric_urology' site
+ */
+const SITE_BASE_DOMAIN = process.env.SITE_BASE_DOMAIN?.toLowerCase();
+
+const siteContext = new AsyncLocalStorage<string>();
+
+/**
+ * Run a function with every service call inside it acting for one site
+ */
+export function runWithSite<T>(siteName: string, fn: () => T): T {
+    return siteContext.run(siteName, fn);
+}
+
+/**
+ * Get the site the current request acts for
+ * Code running outside a request uses DEFAULT_SITE_NAME
+ */
+export function getSiteName(): string {
+    return siteContext.getStore() ?? DEFAULT_SITE_NAME;
+}
+
+/**
+ * Check a site name such as 'urology_review'
+ */
+export function isValidSiteName(name: unknown): name is string {
+    return typeof name === 'string' && /^[a-z][a-z0-9_]{1,99}$/.test(name);
+}
+
+/**
+ * Get the site named by a request's subdomain, or null when the host is not under SITE_BASE_DOMAIN
+ * Hostnames cannot contain underscores, so hyphens in the subdomain stand in for them
+ */
+export function getSiteNameFromHost(host: string | undefined): string | null {
+    if (!SITE_BASE_DOMAIN || !host) {
+        return null;
+    }
+
+    const hostname = host.split(':')[0]!.toLowerCase();
+    if (!hostname.endsWith(`.${SITE_BASE_DOMAIN}`)) {
+        return null;
+    }
+
+    const subdomain = hostname.slice(0, -(SITE_BASE_DOMAIN.length + 1));
+    return subdomain.includes('.') ? null : subdomain.replace(/-/g, '_');
+}
@@ -1,75 +1,257 @@
 -- Urological Review System Database Schema
 -- This file should be run in the Supabase SQL editor or via migration tools
+-- It drops and recreates every table; to upgrade a database that already holds data, run
+-- migrations/001_upgrade_existing_deployment.sql instead
 
 -- Enable Row Level Security
 ALTER TABLE IF EXISTS public.urology_applicants DISABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.urology_applicant_documents DISABLE ROW LEVEL SECURITY;
 ALTER TABLE IF EXISTS public.urology_reviews DISABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.urology_review_versions DISABLE ROW LEVEL SECURITY;
 ALTER TABLE IF EXISTS public.urology_reviewers DISABLE ROW LEVEL SECURITY;
 ALTER TABLE IF EXISTS public.urology_final_selections DISABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.urology_reviewer_credentials DISABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.urology_sessions DISABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.urology_login_codes DISABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.urology_auth_throttle DISABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.urology_assignments DISABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.urology_rubrics DISABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.urology_rubric_criteria DISABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.urology_interview_targets DISABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.urology_rank_lists DISABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.urology_rank_list_versions DISABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.urology_interview_dates DISABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.urology_interview_bookings DISABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.urology_interview_evaluations DISABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.urology_cycles DISABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.urology_audit_log DISABLE ROW LEVEL SECURITY;
 
 -- Drop existing tables if they exist (for clean re-creation)
+DROP TABLE IF EXISTS public.urology_audit_log;
+DROP TABLE IF EXISTS public.urology_interview_evaluations;
+DROP TABLE IF EXISTS public.urology_interview_bookings;
+DROP TABLE IF EXISTS public.urology_interview_dates;
+DROP TABLE IF EXISTS public.urology_rank_list_versions;
+DROP TABLE IF EXISTS public.urology_rank_lists;
+DROP TABLE IF EXISTS public.urology_interview_targets;
+DROP TABLE IF EXISTS public.urology_assignments;
+DROP TABLE IF EXISTS public.urology_auth_throttle;
+DROP TABLE IF EXISTS public.urology_login_codes;
+DROP TABLE IF EXISTS public.urology_sessions;
+DROP TABLE IF EXISTS public.urology_reviewer_credentials;
 DROP TABLE IF EXISTS public.urology_final_selections;
+DROP TABLE IF EXISTS public.urology_review_versions;
 DROP TABLE IF EXISTS public.urology_reviews;
+DROP TABLE IF EXISTS public.urology_rubric_criteria;
+DROP TABLE IF EXISTS public.urology_rubrics;
+DROP TABLE IF EXISTS public.urology_applicant_documents;
 DROP TABLE IF EXISTS public.urology_applicants;
+DROP TABLE IF EXISTS public.urology_cycles;
 DROP TABLE IF EXISTS public.urology_reviewers;
 
 -- Create urology_reviewers table
 CREATE TABLE public.urology_reviewers (
     id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
-    name VARCHAR(255) NOT NULL UNIQUE,
+    name VARCHAR(255) NOT NULL,
     email VARCHAR(255),
-    is_admin BOOLEAN DEFAULT FALSE,
+    is_admin BOOLEAN DEFAULT FALSE, -- Kept in sync with role = 'program_director'
+    role VARCHAR(50) DEFAULT 'reviewer' NOT NULL CHECK (role IN ('reviewer', 'program_director', 'coordinator')),
+    medical_school VARCHAR(255), -- Used for conflict-of-interest checks during assignment
+    capacity_weight DECIMAL(4,2) DEFAULT 1.00 NOT NULL CHECK (capacity_weight >= 0),
+    site_name VARCHAR(100) DEFAULT 'urology_review' NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    UNIQUE(name, site_name),
+    UNIQUE(email, site_name)
+);
+
+-- Create urology_reviewer_credentials table (kept apart from urology_reviewers so hashes are never selected with profiles)
+CREATE TABLE public.urology_reviewer_credentials (
+    reviewer_id UUID PRIMARY KEY REFERENCES public.urology_reviewers(id) ON DELETE CASCADE,
+    password_hash TEXT NOT NULL,
     site_name VARCHAR(100) DEFAULT 'urology_review' NOT NULL,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
 );
 
+-- Create urology_sessions table
+CREATE TABLE public.urology_sessions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    reviewer_id UUID NOT NULL REFERENCES public.urology_reviewers(id) ON DELETE CASCADE,
+    token_hash VARCHAR(128) NOT NULL UNIQUE, -- SHA-256 of the bearer token; the raw token is never stored
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    site_name VARCHAR(100) DEFAULT 'urology_review' NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+-- Create urology_login_codes table (one-time sign-in codes)
+-- One row per reviewer: requesting a new code replaces the old one
+CREATE TABLE public.urology_login_codes (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    reviewer_id UUID NOT NULL REFERENCES public.urology_reviewers(id) ON DELETE CASCADE,
+    code_hash VARCHAR(128) NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    consumed_at TIMESTAMP WITH TIME ZONE,
+    failed_attempts INTEGER DEFAULT 0 NOT NULL,
+    site_name VARCHAR(100) DEFAULT 'urology_review' NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    UNIQUE(reviewer_id)
+);
+
+-- Create urology_auth_throttle table (sign-in requests per email or IP in the current window)
+CREATE TABLE public.urology_auth_throttle (
+    bucket VARCHAR(400) PRIMARY KEY,
+    window_started_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    hits INTEGER DEFAULT 1 NOT NULL
+);
+
+-- Create urology_cycles table
+-- One row per recruitment season (e.g. '2025-2026'); exactly one cycle per site is active at a time
+CREATE TABLE public.urology_cycles (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    name VARCHAR(20) NOT NULL,
+    is_active BOOLEAN DEFAULT FALSE NOT NULL,
+    created_by UUID REFERENCES public.urology_reviewers(id) ON DELETE SET NULL,
+    site_name VARCHAR(100) DEFAULT 'urology_review' NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    UNIQUE(name, site_name)
+);
+
 -- Create urology_applicants table
 CREATE TABLE public.urology_applicants (
     id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    cycle_id UUID NOT NULL REFERENCES public.urology_cycles(id) ON DELETE RESTRICT,
     external_id VARCHAR(100) NOT NULL, -- Original applicant identifier
     name VARCHAR(255) NOT NULL,
     category VARCHAR(50) DEFAULT 'regular' CHECK (category IN ('regular', 'i-sub')),
-    details TEXT, -- JSON string or additional details
+    -- Applicant profile, as exported from ERAS; any field may be unknown
+    medical_school VARCHAR(255),
+    graduation_year INTEGER CHECK (graduation_year BETWEEN 1950 AND 2100),
+    step2_ck_score INTEGER CHECK (step2_ck_score BETWEEN 1 AND 300),
+    aoa_status VARCHAR(20) CHECK (aoa_status IN ('member', 'pending', 'not_member', 'no_chapter')),
+    ghhs_status VARCHAR(20) CHECK (ghhs_status IN ('member', 'pending', 'not_member', 'no_chapter')),
+    publication_count INTEGER CHECK (publication_count >= 0),
+    clerkship_honors TEXT[], -- Clerkships the applicant honored
+    home_program VARCHAR(255),
+    visa_status VARCHAR(30) CHECK (visa_status IN ('us_citizen', 'permanent_resident', 'visa_required')),
+    preference_signal BOOLEAN, -- Whether the applicant sent this program a preference signal
+    site_name VARCHAR(100) DEFAULT 'urology_review' NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    UNIQUE(external_id, cycle_id, site_name) -- Reapplicants get a new row each cycle
+);
+
+-- Create urology_applicant_documents table
+-- Metadata only; the PDF itself lives in document storage under storage_key
+CREATE TABLE public.urology_applicant_documents (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    applicant_id UUID NOT NULL REFERENCES public.urology_applicants(id) ON DELETE CASCADE,
+    cycle_id UUID NOT NULL REFERENCES public.urology_cycles(id) ON DELETE RESTRICT,
+    document_type VARCHAR(30) NOT NULL CHECK (document_type IN ('personal_statement', 'cv', 'lor', 'transcript')),
+    file_name VARCHAR(255) NOT NULL,
+    size_bytes INTEGER NOT NULL CHECK (size_bytes > 0),
+    storage_key VARCHAR(500) NOT NULL,
+    uploaded_by UUID REFERENCES public.urology_reviewers(id) ON DELETE SET NULL,
+    site_name VARCHAR(100) DEFAULT 'urology_review' NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    UNIQUE(storage_key)
+);
+
+-- Create urology_rubrics table
+-- The program revises its rubrics each year; each site has one active rubric per scoring stage
+CREATE TABLE public.urology_rubrics (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    stage VARCHAR(20) DEFAULT 'file_review' NOT NULL CHECK (stage IN ('file_review', 'interview')),
+    is_active BOOLEAN DEFAULT FALSE NOT NULL,
+    created_by UUID REFERENCES public.urology_reviewers(id) ON DELETE SET NULL,
     site_name VARCHAR(100) DEFAULT 'urology_review' NOT NULL,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
-    UNIQUE(external_id, site_name)
+    UNIQUE(name, site_name)
+);
+
+-- Create urology_rubric_criteria table
+CREATE TABLE public.urology_rubric_criteria (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    rubric_id UUID NOT NULL REFERENCES public.urology_rubrics(id) ON DELETE CASCADE,
+    key VARCHAR(50) NOT NULL, -- Key used in urology_reviews.scores (or urology_interview_evaluations.scores)
+    label VARCHAR(255) NOT NULL,
+    description TEXT,
+    min_score INTEGER DEFAULT 1 NOT NULL CHECK (min_score >= 0),
+    max_score INTEGER DEFAULT 5 NOT NULL,
+    weight DECIMAL(5,2) DEFAULT 1.00 NOT NULL CHECK (weight >= 0),
+    sort_order INTEGER DEFAULT 0 NOT NULL,
+    site_name VARCHAR(100) DEFAULT 'urology_review' NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    CHECK (max_score > min_score),
+    UNIQUE(rubric_id, key)
 );
 
 -- Create urology_reviews table
 CREATE TABLE public.urology_reviews (
     id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
     applicant_id UUID NOT NULL REFERENCES public.urology_applicants(id) ON DELETE CASCADE,
-    reviewer_name VARCHAR(255) NOT NULL,
-    preference INTEGER CHECK (preference >= 1 AND preference <= 5),
-    pressure INTEGER CHECK (pressure >= 1 AND pressure <= 5),
-    underserved INTEGER CHECK (underserved >= 1 AND underserved <= 5),
-    leadership INTEGER CHECK (leadership >= 1 AND leadership <= 5),
-    academic INTEGER CHECK (academic >= 1 AND academic <= 5),
-    research INTEGER CHECK (research >= 1 AND research <= 5),
-    personal INTEGER CHECK (personal >= 1 AND personal <= 5),
+    cycle_id UUID NOT NULL REFERENCES public.urology_cycles(id) ON DELETE RESTRICT, -- Always the applicant's cycle
+    reviewer_id UUID REFERENCES public.urology_reviewers(id) ON DELETE SET NULL,
+    reviewer_name VARCHAR(255) NOT NULL, -- Name when the review was written
+    rubric_id UUID NOT NULL REFERENCES public.urology_rubrics(id) ON DELETE RESTRICT,
+    scores JSONB DEFAULT '{}'::jsonb NOT NULL, -- Criterion key -> score, validated against the rubric by the API
     notes TEXT,
     decision VARCHAR(50) CHECK (decision IN ('Definitely Interview', 'Maybe', 'Do Not Interview')),
-    total_score INTEGER GENERATED ALWAYS AS (
-        COALESCE(preference, 0) + COALESCE(pressure, 0) + COALESCE(underserved, 0) + 
-        COALESCE(leadership, 0) + COALESCE(academic, 0) + COALESCE(research, 0) + 
-        COALESCE(personal, 0)
-    ) STORED,
+    total_score INTEGER, -- Raw sum, computed by ReviewService from the review's rubric
+    weighted_score DECIMAL(8,2), -- Sum of score x criterion weight
+    revision INTEGER DEFAULT 1 NOT NULL, -- Optimistic concurrency: bumped by every reviewer edit
     site_name VARCHAR(100) DEFAULT 'urology_review' NOT NULL,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
     UNIQUE(applicant_id, reviewer_name, site_name)
 );
 
+-- Create urology_review_versions table
+-- One snapshot per saved change to a review, so an autosaved mistake can be undone
+CREATE TABLE public.urology_review_versions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    review_id UUID NOT NULL REFERENCES public.urology_reviews(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL CHECK (version > 0),
+    source VARCHAR(20) NOT NULL CHECK (source IN ('create', 'update', 'restore')),
+    restored_from INTEGER, -- Version a restore copied
+    scores JSONB DEFAULT '{}'::jsonb NOT NULL,
+    notes TEXT,
+    decision VARCHAR(50) CHECK (decision IN ('Definitely Interview', 'Maybe', 'Do Not Interview')),
+    total_score INTEGER,
+    weighted_score DECIMAL(8,2),
+    site_name VARCHAR(100) DEFAULT 'urology_review' NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    UNIQUE(review_id, version)
+);
+
+-- Create urology_assignments table
+-- Stored once per cycle so adding or removing a reviewer never reshuffles existing queues
+CREATE TABLE public.urology_assignments (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    applicant_id UUID NOT NULL REFERENCES public.urology_applicants(id) ON DELETE CASCADE,
+    cycle_id UUID NOT NULL REFERENCES public.urology_cycles(id) ON DELETE RESTRICT, -- Always the applicant's cycle
+    reviewer_id UUID NOT NULL REFERENCES public.urology_reviewers(id) ON DELETE CASCADE,
+    assigned_by UUID REFERENCES public.urology_reviewers(id) ON DELETE SET NULL,
+    site_name VARCHAR(100) DEFAULT 'urology_review' NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    UNIQUE(applicant_id, reviewer_id, site_name)
+);
+
 -- Create urology_final_selections table
 CREATE TABLE public.urology_final_selections (
     id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
     applicant_id UUID NOT NULL REFERENCES public.urology_applicants(id) ON DELETE CASCADE,
-    admin_decision VARCHAR(50) DEFAULT 'Pending' CHECK (admin_decision IN ('Selected', 'Not Selected', 'Pending')),
+    cycle_id UUID NOT NULL REFERENCES public.urology_cycles(id) ON DELETE RESTRICT, -- Always the applicant's cycle
+    admin_decision VARCHAR(50) DEFAULT 'Pending' CHECK (admin_decision IN ('Selected', 'Not Selected', 'Waitlisted', 'Pending')),
     selection_reason TEXT,
-    average_score DECIMAL(4,2),
+    average_score DECIMAL(8,2), -- Mean weighted score
+    raw_average_score DECIMAL(8,2), -- Mean raw total_score
     reviewer_count INTEGER DEFAULT 0,
+    revision INTEGER DEFAULT 1 NOT NULL, -- Optimistic concurrency: bumped by every decision
     site_name VARCHAR(100) DEFAULT 'urology_review' NOT NULL,
     decided_at TIMESTAMP WITH TIME ZONE,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
@@ -77,84 +259,433 @@ CREATE TABLE public.urology_final_selections (
     UNIQUE(applicant_id, site_name)
 );
 
+-- Create urology_interview_targets table
+-- Interview slots per recruitment cycle and applicant category
+CREATE TABLE public.urology_interview_targets (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    cycle_id UUID NOT NULL REFERENCES public.urology_cycles(id) ON DELETE CASCADE,
+    category VARCHAR(20) NOT NULL CHECK (category IN ('regular', 'i-sub')),
+    slots INTEGER NOT NULL CHECK (slots >= 0),
+    hard_limit BOOLEAN DEFAULT FALSE NOT NULL, -- Block Selected decisions past the target instead of warning
+    updated_by UUID REFERENCES public.urology_reviewers(id) ON DELETE SET NULL,
+    site_name VARCHAR(100) DEFAULT 'urology_review' NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    UNIQUE(cycle_id, category, site_name)
+);
+
+-- Create urology_rank_lists table
+-- The program's rank order list for the AUA match, one per cycle
+CREATE TABLE public.urology_rank_lists (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    cycle_id UUID NOT NULL REFERENCES public.urology_cycles(id) ON DELETE CASCADE,
+    entries JSONB DEFAULT '[]'::jsonb NOT NULL, -- [{ "applicant_id": ..., "locked": false }] in rank order
+    revision INTEGER DEFAULT 1 NOT NULL, -- Optimistic concurrency: bumped by every change
+    updated_by UUID REFERENCES public.urology_reviewers(id) ON DELETE SET NULL,
+    site_name VARCHAR(100) DEFAULT 'urology_review' NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    UNIQUE(cycle_id, site_name)
+);
+
+-- Create urology_rank_list_versions table
+-- Named snapshots of a rank list, taken on request, that it can be restored to
+CREATE TABLE public.urology_rank_list_versions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    rank_list_id UUID NOT NULL REFERENCES public.urology_rank_lists(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL CHECK (version > 0),
+    label VARCHAR(200),
+    entries JSONB NOT NULL,
+    created_by UUID REFERENCES public.urology_reviewers(id) ON DELETE SET NULL,
+    site_name VARCHAR(100) DEFAULT 'urology_review' NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    UNIQUE(rank_list_id, version)
+);
+
+-- Create urology_interview_dates table
+-- Days the program interviews on, with how many applicants each can take
+CREATE TABLE public.urology_interview_dates (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    cycle_id UUID NOT NULL REFERENCES public.urology_cycles(id) ON DELETE CASCADE,
+    interview_date DATE NOT NULL,
+    start_time TIME, -- Local time at the program; both times NULL for an all-day event
+    end_time TIME,
+    capacity INTEGER NOT NULL CHECK (capacity > 0),
+    location VARCHAR(255),
+    notes TEXT,
+    updated_by UUID REFERENCES public.urology_reviewers(id) ON DELETE SET NULL,
+    site_name VARCHAR(100) DEFAULT 'urology_review' NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    CHECK ((start_time IS NULL) = (end_time IS NULL) AND (start_time IS NULL OR start_time < end_time)),
+    UNIQUE(cycle_id, interview_date, site_name)
+);
+
+-- Create urology_interview_bookings table
+-- Which date each Selected applicant interviews on, at most one per applicant and cycle
+CREATE TABLE public.urology_interview_bookings (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    interview_date_id UUID NOT NULL REFERENCES public.urology_interview_dates(id) ON DELETE CASCADE,
+    applicant_id UUID NOT NULL REFERENCES public.urology_applicants(id) ON DELETE CASCADE,
+    cycle_id UUID NOT NULL REFERENCES public.urology_cycles(id) ON DELETE CASCADE,
+    booked_by UUID REFERENCES public.urology_reviewers(id) ON DELETE SET NULL,
+    site_name VARCHAR(100) DEFAULT 'urology_review' NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    UNIQUE(cycle_id, applicant_id, site_name)
+);
+
+-- Create urology_interview_evaluations table
+-- Interview-day scores, one per interviewer and applicant, on an interview-stage rubric
+CREATE TABLE public.urology_interview_evaluations (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    applicant_id UUID NOT NULL REFERENCES public.urology_applicants(id) ON DELETE CASCADE,
+    cycle_id UUID NOT NULL REFERENCES public.urology_cycles(id) ON DELETE RESTRICT, -- Always the applicant's cycle
+    interviewer_id UUID NOT NULL REFERENCES public.urology_reviewers(id) ON DELETE CASCADE,
+    rubric_id UUID NOT NULL REFERENCES public.urology_rubrics(id) ON DELETE RESTRICT,
+    scores JSONB DEFAULT '{}'::jsonb NOT NULL,
+    notes TEXT,
+    recommendation VARCHAR(20) CHECK (recommendation IN ('Rank Highly', 'Rank', 'Do Not Rank')),
+    total_score INTEGER,
+    weighted_score DECIMAL(8,2),
+    revision INTEGER DEFAULT 1 NOT NULL,
+    site_name VARCHAR(100) DEFAULT 'urology_review' NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    UNIQUE(applicant_id, interviewer_id, site_name)
+);
+
+-- Create urology_audit_log table (append-only; no foreign keys so history outlives the rows it describes)
+CREATE TABLE public.urology_audit_log (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    actor_id UUID, -- Reviewer who made the change
+    actor_name VARCHAR(255),
+    action VARCHAR(20) NOT NULL CHECK (action IN ('create', 'update', 'delete', 'activate')),
+    entity_type VARCHAR(50) NOT NULL,
+    entity_id VARCHAR(255) NOT NULL,
+    applicant_id UUID, -- Set for applicant, review, final selection and assignment changes
+    cycle_id UUID,
+    before JSONB,
+    after JSONB,
+    site_name VARCHAR(100) DEFAULT 'urology_review' NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
 -- Create indexes for performance
+CREATE INDEX idx_urology_cycles_site_name ON public.urology_cycles(site_name);
+CREATE UNIQUE INDEX idx_urology_cycles_one_active ON public.urology_cycles(site_name) WHERE is_active;
+
 CREATE INDEX idx_urology_applicants_site_name ON public.urology_applicants(site_name);
+CREATE INDEX idx_urology_applicants_cycle_id ON public.urology_applicants(cycle_id);
 CREATE INDEX idx_urology_applicants_category ON public.urology_applicants(category);
 CREATE INDEX idx_urology_applicants_external_id ON public.urology_applicants(external_id);
 
 CREATE INDEX idx_urology_reviews_applicant_id ON public.urology_reviews(applicant_id);
+CREATE INDEX idx_urology_reviews_cycle_id ON public.urology_reviews(cycle_id);
+CREATE INDEX idx_urology_reviews_reviewer_id ON public.urology_reviews(reviewer_id);
 CREATE INDEX idx_urology_reviews_reviewer_name ON public.urology_reviews(reviewer_name);
 CREATE INDEX idx_urology_reviews_site_name ON public.urology_reviews(site_name);
 CREATE INDEX idx_urology_reviews_decision ON public.urology_reviews(decision);
 CREATE INDEX idx_urology_reviews_total_score ON public.urology_reviews(total_score);
+CREATE INDEX idx_urology_reviews_weighted_score ON public.urology_reviews(weighted_score);
+CREATE INDEX idx_urology_reviews_rubric_id ON public.urology_reviews(rubric_id);
+
+CREATE INDEX idx_urology_review_versions_review_id ON public.urology_review_versions(review_id);
+CREATE INDEX idx_urology_review_versions_site_name ON public.urology_review_versions(site_name);
+
+CREATE INDEX idx_urology_applicant_documents_applicant_id ON public.urology_applicant_documents(applicant_id);
+CREATE INDEX idx_urology_applicant_documents_site_name ON public.urology_applicant_documents(site_name);
+
+CREATE INDEX idx_urology_rubrics_site_name ON public.urology_rubrics(site_name);
+CREATE UNIQUE INDEX idx_urology_rubrics_one_active ON public.urology_rubrics(site_name, stage) WHERE is_active;
+CREATE INDEX idx_urology_rubric_criteria_rubric_id ON public.urology_rubric_criteria(rubric_id);
 
 CREATE INDEX idx_urology_final_selections_applicant_id ON public.urology_final_selections(applicant_id);
+CREATE INDEX idx_urology_final_selections_cycle_id ON public.urology_final_selections(cycle_id);
 CREATE INDEX idx_urology_final_selections_admin_decision ON public.urology_final_selections(admin_decision);
 CREATE INDEX idx_urology_final_selections_site_name ON public.urology_final_selections(site_name);
 
+CREATE INDEX idx_urology_interview_targets_site_name ON public.urology_interview_targets(site_name);
+CREATE INDEX idx_urology_interview_targets_cycle_id ON public.urology_interview_targets(cycle_id);
+CREATE INDEX idx_urology_rank_lists_site_name ON public.urology_rank_lists(site_name);
+CREATE INDEX idx_urology_rank_list_versions_rank_list_id ON public.urology_rank_list_versions(rank_list_id);
+CREATE INDEX idx_urology_rank_list_versions_site_name ON public.urology_rank_list_versions(site_name);
+CREATE INDEX idx_urology_interview_dates_site_name ON public.urology_interview_dates(site_name);
+CREATE INDEX idx_urology_interview_dates_cycle_id ON public.urology_interview_dates(cycle_id);
+CREATE INDEX idx_urology_interview_bookings_site_name ON public.urology_interview_bookings(site_name);
+CREATE INDEX idx_urology_interview_bookings_interview_date_id ON public.urology_interview_bookings(interview_date_id);
+CREATE INDEX idx_urology_interview_evaluations_site_name ON public.urology_interview_evaluations(site_name);
+CREATE INDEX idx_urology_interview_evaluations_cycle_id ON public.urology_interview_evaluations(cycle_id);
+CREATE INDEX idx_urology_interview_evaluations_interviewer_id ON public.urology_interview_evaluations(interviewer_id);
+CREATE INDEX idx_urology_interview_evaluations_rubric_id ON public.urology_interview_evaluations(rubric_id);
+CREATE INDEX idx_urology_audit_log_site_name ON public.urology_audit_log(site_name);
+CREATE INDEX idx_urology_audit_log_created_at ON public.urology_audit_log(created_at DESC);
+CREATE INDEX idx_urology_audit_log_entity ON public.urology_audit_log(entity_type, entity_id);
+CREATE INDEX idx_urology_audit_log_applicant_id ON public.urology_audit_log(applicant_id);
+CREATE INDEX idx_urology_audit_log_actor_id ON public.urology_audit_log(actor_id);
+
 CREATE INDEX idx_urology_reviewers_name ON public.urology_reviewers(name);
 CREATE INDEX idx_urology_reviewers_site_name ON public.urology_reviewers(site_name);
+CREATE INDEX idx_urology_reviewers_email ON public.urology_reviewers(email);
+CREATE INDEX idx_urology_reviewers_role ON public.urology_reviewers(role);
+
+CREATE INDEX idx_urology_sessions_reviewer_id ON public.urology_sessions(reviewer_id);
+CREATE INDEX idx_urology_sessions_expires_at ON public.urology_sessions(expires_at);
+
+CREATE INDEX idx_urology_auth_throttle_window_started_at ON public.urology_auth_throttle(window_started_at);
+
+CREATE INDEX idx_urology_assignments_applicant_id ON public.urology_assignments(applicant_id);
+CREATE INDEX idx_urology_assignments_cycle_id ON public.urology_assignments(cycle_id);
+CREATE INDEX idx_urology_assignments_reviewer_id ON public.urology_assignments(reviewer_id);
+CREATE INDEX idx_urology_assignments_site_name ON public.urology_assignments(site_name);
 
 -- Enable Row Level Security
 ALTER TABLE public.urology_applicants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.urology_applicant_documents ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.urology_reviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.urology_review_versions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.urology_reviewers ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.urology_final_selections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.urology_assignments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.urology_rubrics ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.urology_rubric_criteria ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.urology_interview_targets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.urology_rank_lists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.urology_rank_list_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.urology_interview_dates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.urology_interview_bookings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.urology_interview_evaluations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.urology_cycles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.urology_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Credential and session tables have RLS enabled with no policies:
+-- only the service role (used by the backend) can read or write them
+ALTER TABLE public.urology_reviewer_credentials ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.urology_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.urology_login_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.urology_auth_throttle ENABLE ROW LEVEL SECURITY;
+
+-- Site (tenant) the current database session acts for: a server-side connection can SET app.site_name,
+-- and PostgREST clients get the site_name claim of their signed JWT (top level or app_metadata, which
+-- users cannot edit). Never a request header: anyone holding the anon key could send one.
+-- Without either, no rows match and the policies below deny everything
+CREATE OR REPLACE FUNCTION public.urology_current_site()
+RETURNS TEXT AS $$
+    SELECT COALESCE(
+        NULLIF(current_setting('app.site_name', true), ''),
+        auth.jwt()->>'site_name',
+        auth.jwt()->'app_metadata'->>'site_name'
+    );
+$$ LANGUAGE sql STABLE;
 
 -- Create RLS policies to segregate data by site_name
--- These policies ensure data isolation in a shared database
+-- These policies ensure data isolation in a shared database: each site sees only its own rows
 
 -- Policies for urology_applicants
 CREATE POLICY "Enable read access for urology site" ON public.urology_applicants
-    FOR SELECT USING (site_name = 'urology_review');
+    FOR SELECT USING (site_name = public.urology_current_site());
 
 CREATE POLICY "Enable insert for urology site" ON public.urology_applicants
-    FOR INSERT WITH CHECK (site_name = 'urology_review');
+    FOR INSERT WITH CHECK (site_name = public.urology_current_site());
 
 CREATE POLICY "Enable update for urology site" ON public.urology_applicants
-    FOR UPDATE USING (site_name = 'urology_review') WITH CHECK (site_name = 'urology_review');
+    FOR UPDATE USING (site_name = public.urology_current_site()) WITH CHECK (site_name = public.urology_current_site());
 
 CREATE POLICY "Enable delete for urology site" ON public.urology_applicants
-    FOR DELETE USING (site_name = 'urology_review');
+    FOR DELETE USING (site_name = public.urology_current_site());
 
 -- Policies for urology_reviews
 CREATE POLICY "Enable read access for urology reviews" ON public.urology_reviews
-    FOR SELECT USING (site_name = 'urology_review');
+    FOR SELECT USING (site_name = public.urology_current_site());
 
 CREATE POLICY "Enable insert for urology reviews" ON public.urology_reviews
-    FOR INSERT WITH CHECK (site_name = 'urology_review');
+    FOR INSERT WITH CHECK (site_name = public.urology_current_site());
 
 CREATE POLICY "Enable update for urology reviews" ON public.urology_reviews
-    FOR UPDATE USING (site_name = 'urology_review') WITH CHECK (site_name = 'urology_review');
+    FOR UPDATE USING (site_name = public.urology_current_site()) WITH CHECK (site_name = public.urology_current_site());
 
 CREATE POLICY "Enable delete for urology reviews" ON public.urology_reviews
-    FOR DELETE USING (site_name = 'urology_review');
+    FOR DELETE USING (site_name = public.urology_current_site());
+
+-- Policies for urology_applicant_documents
+CREATE POLICY "Enable read access for urology applicant documents" ON public.urology_applicant_documents
+    FOR SELECT USING (site_name = public.urology_current_site());
+
+CREATE POLICY "Enable insert for urology applicant documents" ON public.urology_applicant_documents
+    FOR INSERT WITH CHECK (site_name = public.urology_current_site());
+
+CREATE POLICY "Enable delete for urology applicant documents" ON public.urology_applicant_documents
+    FOR DELETE USING (site_name = public.urology_current_site());
+
+-- Policies for urology_review_versions
+CREATE POLICY "Enable read access for urology review versions" ON public.urology_review_versions
+    FOR SELECT USING (site_name = public.urology_current_site());
+
+CREATE POLICY "Enable insert for urology review versions" ON public.urology_review_versions
+    FOR INSERT WITH CHECK (site_name = public.urology_current_site());
+
+CREATE POLICY "Enable update for urology review versions" ON public.urology_review_versions
+    FOR UPDATE USING (site_name = public.urology_current_site()) WITH CHECK (site_name = public.urology_current_site());
+
+CREATE POLICY "Enable delete for urology review versions" ON public.urology_review_versions
+    FOR DELETE USING (site_name = public.urology_current_site());
 
 -- Policies for urology_reviewers
 CREATE POLICY "Enable read access for urology reviewers" ON public.urology_reviewers
-    FOR SELECT USING (site_name = 'urology_review');
+    FOR SELECT USING (site_name = public.urology_current_site());
 
 CREATE POLICY "Enable insert for urology reviewers" ON public.urology_reviewers
-    FOR INSERT WITH CHECK (site_name = 'urology_review');
+    FOR INSERT WITH CHECK (site_name = public.urology_current_site());
 
 CREATE POLICY "Enable update for urology reviewers" ON public.urology_reviewers
-    FOR UPDATE USING (site_name = 'urology_review') WITH CHECK (site_name = 'urology_review');
+    FOR UPDATE USING (site_name = public.urology_current_site()) WITH CHECK (site_name = public.urology_current_site());
 
 CREATE POLICY "Enable delete for urology reviewers" ON public.urology_reviewers
-    FOR DELETE USING (site_name = 'urology_review');
+    FOR DELETE USING (site_name = public.urology_current_site());
 
 -- Policies for urology_final_selections
 CREATE POLICY "Enable read access for urology final selections" ON public.urology_final_selections
-    FOR SELECT USING (site_name = 'urology_review');
+    FOR SELECT USING (site_name = public.urology_current_site());
 
 CREATE POLICY "Enable insert for urology final selections" ON public.urology_final_selections
-    FOR INSERT WITH CHECK (site_name = 'urology_review');
+    FOR INSERT WITH CHECK (site_name = public.urology_current_site());
 
 CREATE POLICY "Enable update for urology final selections" ON public.urology_final_selections
-    FOR UPDATE USING (site_name = 'urology_review') WITH CHECK (site_name = 'urology_review');
+    FOR UPDATE USING (site_name = public.urology_current_site()) WITH CHECK (site_name = public.urology_current_site());
 
 CREATE POLICY "Enable delete for urology final selections" ON public.urology_final_selections
-    FOR DELETE USING (site_name = 'urology_review');
+    FOR DELETE USING (site_name = public.urology_current_site());
+
+-- Policies for urology_assignments
+CREATE POLICY "Enable read access for urology assignments" ON public.urology_assignments
+    FOR SELECT USING (site_name = public.urology_current_site());
+
+CREATE POLICY "Enable insert for urology assignments" ON public.urology_assignments
+    FOR INSERT WITH CHECK (site_name = public.urology_current_site());
+
+CREATE POLICY "Enable delete for urology assignments" ON public.urology_assignments
+    FOR DELETE USING (site_name = public.urology_current_site());
+
+-- Policies for urology_rubrics
+CREATE POLICY "Enable read access for urology rubrics" ON public.urology_rubrics
+    FOR SELECT USING (site_name = public.urology_current_site());
+
+CREATE POLICY "Enable insert for urology rubrics" ON public.urology_rubrics
+    FOR INSERT WITH CHECK (site_name = public.urology_current_site());
+
+CREATE POLICY "Enable update for urology rubrics" ON public.urology_rubrics
+    FOR UPDATE USING (site_name = public.urology_current_site()) WITH CHECK (site_name = public.urology_current_site());
+
+CREATE POLICY "Enable delete for urology rubrics" ON public.urology_rubrics
+    FOR DELETE USING (site_name = public.urology_current_site());
+
+-- Policies for urology_rubric_criteria
+CREATE POLICY "Enable read access for urology rubric criteria" ON public.urology_rubric_criteria
+    FOR SELECT USING (site_name = public.urology_current_site());
+
+CREATE POLICY "Enable insert for urology rubric criteria" ON public.urology_rubric_criteria
+    FOR INSERT WITH CHECK (site_name = public.urology_current_site());
+
+CREATE POLICY "Enable update for urology rubric criteria" ON public.urology_rubric_criteria
+    FOR UPDATE USING (site_name = public.urology_current_site()) WITH CHECK (site_name = public.urology_current_site());
+
+CREATE POLICY "Enable delete for urology rubric criteria" ON public.urology_rubric_criteria
+    FOR DELETE USING (site_name = public.urology_current_site());
+
+-- Policies for urology_interview_targets
+CREATE POLICY "Enable read access for urology interview targets" ON public.urology_interview_targets
+    FOR SELECT USING (site_name = public.urology_current_site());
+
+CREATE POLICY "Enable insert for urology interview targets" ON public.urology_interview_targets
+    FOR INSERT WITH CHECK (site_name = public.urology_current_site());
+
+CREATE POLICY "Enable update for urology interview targets" ON public.urology_interview_targets
+    FOR UPDATE USING (site_name = public.urology_current_site()) WITH CHECK (site_name = public.urology_current_site());
+
+CREATE POLICY "Enable delete for urology interview targets" ON public.urology_interview_targets
+    FOR DELETE USING (site_name = public.urology_current_site());
+
+-- Policies for urology_rank_lists
+CREATE POLICY "Enable read access for urology rank lists" ON public.urology_rank_lists
+    FOR SELECT USING (site_name = public.urology_current_site());
+
+CREATE POLICY "Enable insert for urology rank lists" ON public.urology_rank_lists
+    FOR INSERT WITH CHECK (site_name = public.urology_current_site());
+
+CREATE POLICY "Enable update for urology rank lists" ON public.urology_rank_lists
+    FOR UPDATE USING (site_name = public.urology_current_site()) WITH CHECK (site_name = public.urology_current_site());
+
+CREATE POLICY "Enable delete for urology rank lists" ON public.urology_rank_lists
+    FOR DELETE USING (site_name = public.urology_current_site());
+
+-- Policies for urology_rank_list_versions
+CREATE POLICY "Enable read access for urology rank list versions" ON public.urology_rank_list_versions
+    FOR SELECT USING (site_name = public.urology_current_site());
+
+CREATE POLICY "Enable insert for urology rank list versions" ON public.urology_rank_list_versions
+    FOR INSERT WITH CHECK (site_name = public.urology_current_site());
+
+CREATE POLICY "Enable delete for urology rank list versions" ON public.urology_rank_list_versions
+    FOR DELETE USING (site_name = public.urology_current_site());
+
+-- Policies for urology_interview_dates
+CREATE POLICY "Enable read access for urology interview dates" ON public.urology_interview_dates
+    FOR SELECT USING (site_name = public.urology_current_site());
+
+CREATE POLICY "Enable insert for urology interview dates" ON public.urology_interview_dates
+    FOR INSERT WITH CHECK (site_name = public.urology_current_site());
+
+CREATE POLICY "Enable update for urology interview dates" ON public.urology_interview_dates
+    FOR UPDATE USING (site_name = public.urology_current_site()) WITH CHECK (site_name = public.urology_current_site());
+
+CREATE POLICY "Enable delete for urology interview dates" ON public.urology_interview_dates
+    FOR DELETE USING (site_name = public.urology_current_site());
+
+-- Policies for urology_interview_bookings
+CREATE POLICY "Enable read access for urology interview bookings" ON public.urology_interview_bookings
+    FOR SELECT USING (site_name = public.urology_current_site());
+
+CREATE POLICY "Enable insert for urology interview bookings" ON public.urology_interview_bookings
+    FOR INSERT WITH CHECK (site_name = public.urology_current_site());
+
+CREATE POLICY "Enable update for urology interview bookings" ON public.urology_interview_bookings
+    FOR UPDATE USING (site_name = public.urology_current_site()) WITH CHECK (site_name = public.urology_current_site());
+
+CREATE POLICY "Enable delete for urology interview bookings" ON public.urology_interview_bookings
+    FOR DELETE USING (site_name = public.urology_current_site());
+
+-- Policies for urology_interview_evaluations
+CREATE POLICY "Enable read access for urology interview evaluations" ON public.urology_interview_evaluations
+    FOR SELECT USING (site_name = public.urology_current_site());
+
+CREATE POLICY "Enable insert for urology interview evaluations" ON public.urology_interview_evaluations
+    FOR INSERT WITH CHECK (site_name = public.urology_current_site());
+
+CREATE POLICY "Enable update for urology interview evaluations" ON public.urology_interview_evaluations
+    FOR UPDATE USING (site_name = public.urology_current_site()) WITH CHECK (site_name = public.urology_current_site());
+
+CREATE POLICY "Enable delete for urology interview evaluations" ON public.urology_interview_evaluations
+    FOR DELETE USING (site_name = public.urology_current_site());
+
+-- Policies for urology_cycles
+CREATE POLICY "Enable read access for urology cycles" ON public.urology_cycles
+    FOR SELECT USING (site_name = public.urology_current_site());
+
+CREATE POLICY "Enable insert for urology cycles" ON public.urology_cycles
+    FOR INSERT WITH CHECK (site_name = public.urology_current_site());
+
+CREATE POLICY "Enable update for urology cycles" ON public.urology_cycles
+    FOR UPDATE USING (site_name = public.urology_current_site()) WITH CHECK (site_name = public.urology_current_site());
+
+CREATE POLICY "Enable delete for urology cycles" ON public.urology_cycles
+    FOR DELETE USING (site_name = public.urology_current_site());
+
+-- Policies for urology_audit_log (read and append only)
+CREATE POLICY "Enable read access for urology audit log" ON public.urology_audit_log
+    FOR SELECT USING (site_name = public.urology_current_site());
+
+CREATE POLICY "Enable insert for urology audit log" ON public.urology_audit_log
+    FOR INSERT WITH CHECK (site_name = public.urology_current_site());
 
 -- Create triggers to update the updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -171,18 +702,179 @@ CREATE TRIGGER update_urology_applicants_updated_at BEFORE UPDATE ON public.urol
 CREATE TRIGGER update_urology_reviews_updated_at BEFORE UPDATE ON public.urology_reviews
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_urology_review_versions_updated_at BEFORE UPDATE ON public.urology_review_versions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_urology_reviewers_updated_at BEFORE UPDATE ON public.urology_reviewers
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
 CREATE TRIGGER update_urology_final_selections_updated_at BEFORE UPDATE ON public.urology_final_selections
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_urology_reviewer_credentials_updated_at BEFORE UPDATE ON public.urology_reviewer_credentials
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_urology_rubrics_updated_at BEFORE UPDATE ON public.urology_rubrics
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_urology_interview_targets_updated_at BEFORE UPDATE ON public.urology_interview_targets
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_urology_rank_lists_updated_at BEFORE UPDATE ON public.urology_rank_lists
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_urology_interview_dates_updated_at BEFORE UPDATE ON public.urology_interview_dates
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_urology_interview_bookings_updated_at BEFORE UPDATE ON public.urology_interview_bookings
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- A date never takes more bookings than its capacity. Locking the date row first makes concurrent
+-- bookings onto the same date wait for each other, so two cannot both take its last place
+CREATE OR REPLACE FUNCTION enforce_interview_date_capacity()
+RETURNS TRIGGER AS $$
+DECLARE
+    date_capacity INTEGER;
+    booked INTEGER;
+BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.interview_date_id = OLD.interview_date_id THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT capacity INTO date_capacity
+    FROM public.urology_interview_dates
+    WHERE id = NEW.interview_date_id
+    FOR UPDATE;
+
+    SELECT COUNT(*) INTO booked
+    FROM public.urology_interview_bookings
+    -- The applicant's own booking never counts: an upsert that moves them runs this before it sees the conflict
+    WHERE interview_date_id = NEW.interview_date_id
+        AND NOT (applicant_id = NEW.applicant_id AND cycle_id = NEW.cycle_id);
+
+    IF booked >= date_capacity THEN
+        RAISE EXCEPTION 'Interview date % is full', NEW.interview_date_id USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER enforce_urology_interview_date_capacity BEFORE INSERT OR UPDATE OF interview_date_id ON public.urology_interview_bookings
+    FOR EACH ROW EXECUTE FUNCTION enforce_interview_date_capacity();
+
+CREATE TRIGGER update_urology_interview_evaluations_updated_at BEFORE UPDATE ON public.urology_interview_evaluations
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_urology_cycles_updated_at BEFORE UPDATE ON public.urology_cycles
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Audit entries can never be changed or removed, not even by the service role
+CREATE OR REPLACE FUNCTION prevent_audit_log_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'urology_audit_log is append-only';
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER prevent_urology_audit_log_change BEFORE UPDATE OR DELETE ON public.urology_audit_log
+    FOR EACH ROW EXECUTE FUNCTION prevent_audit_log_change();
+
+-- Count one sign-in request against a throttle bucket and return the count in its current window
+-- A single upsert, so concurrent requests cannot both read the same count
+CREATE OR REPLACE FUNCTION public.urology_auth_throttle_hit(p_bucket TEXT, p_window_seconds INTEGER)
+RETURNS INTEGER AS $$
+    INSERT INTO public.urology_auth_throttle AS throttle (bucket)
+    VALUES (p_bucket)
+    ON CONFLICT (bucket) DO UPDATE SET
+        hits = CASE
+            WHEN throttle.window_started_at < NOW() - make_interval(secs => p_window_seconds) THEN 1
+            ELSE throttle.hits + 1
+        END,
+        window_started_at = CASE
+            WHEN throttle.window_started_at < NOW() - make_interval(secs => p_window_seconds) THEN NOW()
+            ELSE throttle.window_started_at
+        END
+    RETURNING hits;
+$$ LANGUAGE sql;
+
+REVOKE ALL ON FUNCTION public.urology_auth_throttle_hit(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.urology_auth_throttle_hit(TEXT, INTEGER) TO service_role;
+
 -- Grant permissions to service role (adjust as needed for your Supabase setup)
 -- These should be run by an admin or via the service role key
 GRANT ALL ON public.urology_applicants TO service_role;
+GRANT ALL ON public.urology_applicant_documents TO service_role;
 GRANT ALL ON public.urology_reviews TO service_role;
+GRANT ALL ON public.urology_review_versions TO service_role;
 GRANT ALL ON public.urology_reviewers TO service_role;
 GRANT ALL ON public.urology_final_selections TO service_role;
+GRANT ALL ON public.urology_reviewer_credentials TO service_role;
+GRANT ALL ON public.urology_sessions TO service_role;
+GRANT ALL ON public.urology_login_codes TO service_role;
+GRANT ALL ON public.urology_auth_throttle TO service_role;
+GRANT ALL ON public.urology_assignments TO service_role;
+GRANT ALL ON public.urology_rubrics TO service_role;
+GRANT ALL ON public.urology_rubric_criteria TO service_role;
+GRANT ALL ON public.urology_interview_targets TO service_role;
+GRANT ALL ON public.urology_rank_lists TO service_role;
+GRANT ALL ON public.urology_rank_list_versions TO service_role;
+GRANT ALL ON public.urology_interview_dates TO service_role;
+GRANT ALL ON public.urology_interview_bookings TO service_role;
+GRANT ALL ON public.urology_interview_evaluations TO service_role;
+GRANT ALL ON public.urology_cycles TO service_role;
+GRANT SELECT, INSERT ON public.urology_audit_log TO service_role;
+
+-- Seed the current recruitment cycle as the active one (cycles start in June, when ERAS opens)
+INSERT INTO public.urology_cycles (name, is_active)
+SELECT
+    CASE WHEN EXTRACT(MONTH FROM NOW()) >= 6
+        THEN EXTRACT(YEAR FROM NOW())::INTEGER || '-' || (EXTRACT(YEAR FROM NOW())::INTEGER + 1)
+        ELSE (EXTRACT(YEAR FROM NOW())::INTEGER - 1) || '-' || EXTRACT(YEAR FROM NOW())::INTEGER
+    END,
+    TRUE;
+
+-- Seed the original seven-criterion rubric so a fresh install can start reviewing immediately
+WITH default_rubric AS (
+    INSERT INTO public.urology_rubrics (name, is_active)
+    VALUES ('Standard Rubric', TRUE)
+    RETURNING id
+)
+INSERT INTO public.urology_rubric_criteria (rubric_id, key, label, min_score, max_score, weight, sort_order)
+SELECT default_rubric.id, criteria.key, criteria.label, 1, 5, 1.00, criteria.sort_order
+FROM default_rubric, (VALUES
+    ('preference', 'Preference for Program', 1),
+    ('pressure', 'Ability to Handle Pressure', 2),
+    ('underserved', 'Commitment to Underserved', 3),
+    ('leadership', 'Leadership', 4),
+    ('academic', 'Academic Performance', 5),
+    ('research', 'Research', 6),
+    ('personal', 'Personal Attributes/Grit', 7)
+) AS criteria(key, label, sort_order);
+
+-- Seed an interview-day rubric the same way
+WITH interview_rubric AS (
+    INSERT INTO public.urology_rubrics (name, stage, is_active)
+    VALUES ('Standard Interview Rubric', 'interview', TRUE)
+    RETURNING id
+)
+INSERT INTO public.urology_rubric_criteria (rubric_id, key, label, min_score, max_score, weight, sort_order)
+SELECT interview_rubric.id, criteria.key, criteria.label, 1, 5, 1.00, criteria.sort_order
+FROM interview_rubric, (VALUES
+    ('communication', 'Communication', 1),
+    ('professionalism', 'Professionalism', 2),
+    ('teamwork', 'Teamwork', 3),
+    ('insight', 'Insight and Maturity', 4),
+    ('commitment', 'Commitment to Urology', 5),
+    ('program_fit', 'Fit with Program', 6)
+) AS criteria(key, label, sort_order);
+
+-- Seed the active cycle's interview targets
+-- The seeds above fill the default site; set up sister programs with npm run db:create-site
+INSERT INTO public.urology_interview_targets (cycle_id, category, slots)
+SELECT cycles.id, targets.category, targets.slots
+FROM public.urology_cycles AS cycles, (VALUES ('regular', 48), ('i-sub', 3)) AS targets(category, slots)
+WHERE cycles.is_active;
 
 -- Grant limited permissions to anon and authenticated users if needed
 -- GRANT SELECT ON public.urology_applicants TO anon, authenticated;
@@ -190,10 +882,52 @@ GRANT ALL ON public.urology_final_selections TO service_role;
 -- etc...
 
 COMMENT ON TABLE public.urology_applicants IS 'Stores applicant information for the urological review system';
+COMMENT ON TABLE public.urology_applicant_documents IS 'Stores which PDFs (statements, CVs, letters, transcripts) belong to each applicant and where they are kept';
 COMMENT ON TABLE public.urology_reviews IS 'Stores individual reviewer scores and decisions for applicants';
+COMMENT ON TABLE public.urology_review_versions IS 'Stores numbered snapshots of each review after every saved change';
 COMMENT ON TABLE public.urology_reviewers IS 'Stores reviewer information and admin status';
 COMMENT ON TABLE public.urology_final_selections IS 'Stores final administrative decisions and aggregate scores';
-
+COMMENT ON TABLE public.urology_reviewer_credentials IS 'Stores scrypt password hashes for reviewer accounts';
+COMMENT ON TABLE public.urology_sessions IS 'Stores hashed bearer tokens for signed-in reviewers';
+COMMENT ON TABLE public.urology_login_codes IS 'Stores each reviewer''s live hashed one-time sign-in code';
+COMMENT ON TABLE public.urology_auth_throttle IS 'Counts sign-in requests per email and per IP address to slow down guessing';
+COMMENT ON TABLE public.urology_assignments IS 'Stores which reviewers are assigned to review each applicant';
+COMMENT ON TABLE public.urology_rubrics IS 'Stores scoring rubric versions; reviews keep the rubric they were scored under';
+COMMENT ON TABLE public.urology_rubric_criteria IS 'Stores the criteria, score ranges and weights of each rubric';
+COMMENT ON TABLE public.urology_interview_targets IS 'Stores the number of interview slots per recruitment cycle and applicant category';
+COMMENT ON TABLE public.urology_rank_lists IS 'Stores each cycle''s rank order list for the AUA urology match';
+COMMENT ON TABLE public.urology_rank_list_versions IS 'Stores numbered snapshots of a rank list that it can be restored to';
+COMMENT ON TABLE public.urology_interview_dates IS 'Stores interview days per recruitment cycle and how many applicants each can take';
+COMMENT ON TABLE public.urology_interview_bookings IS 'Stores the interview date each Selected applicant is booked on';
+COMMENT ON TABLE public.urology_interview_evaluations IS 'Stores each faculty interviewer''s interview-day scores and ranking recommendation for an applicant';
+COMMENT ON TABLE public.urology_audit_log IS 'Append-only record of who changed what: actor, action, entity and the row before and after';
+COMMENT ON TABLE public.urology_cycles IS 'Stores recruitment seasons; applicants, reviews, assignments and decisions each belong to one';
+
+COMMENT ON COLUMN public.urology_reviewers.role IS 'Authorization role: reviewer, program_director (admin) or coordinator';
+COMMENT ON COLUMN public.urology_reviewers.capacity_weight IS 'Relative share of assignments: 2.0 takes twice the load of 1.0, 0 takes none';
+COMMENT ON COLUMN public.urology_reviewers.medical_school IS 'Reviewer is never assigned applicants whose medical school names this school';
+COMMENT ON COLUMN public.urology_applicants.aoa_status IS 'Alpha Omega Alpha: member, pending (election not yet held), not_member, or no_chapter at the school';
+COMMENT ON COLUMN public.urology_applicants.ghhs_status IS 'Gold Humanism Honor Society, with the same values as aoa_status';
+COMMENT ON COLUMN public.urology_applicants.home_program IS 'Urology program at the applicant''s own medical school, if it has one';
+COMMENT ON COLUMN public.urology_applicant_documents.storage_key IS 'Path of the file within document storage (DOCUMENT_STORAGE_DIR for the local backend)';
 COMMENT ON COLUMN public.urology_applicants.site_name IS 'Discriminator for shared database usage - ensures data isolation';
-COMMENT ON COLUMN public.urology_reviews.total_score IS 'Computed column: sum of all scoring categories';
-COMMENT ON COLUMN public.urology_final_selections.average_score IS 'Average of all reviewer scores for this applicant';
\ No newline at end of file
+COMMENT ON FUNCTION public.urology_current_site() IS 'Site the current session acts for; every RLS policy compares site_name to it';
+COMMENT ON COLUMN public.urology_reviews.reviewer_id IS 'Reviewer who wrote the review; progress matches it to assignments so renaming a reviewer keeps their progress';
+COMMENT ON COLUMN public.urology_reviews.scores IS 'Scores keyed by urology_rubric_criteria.key';
+COMMENT ON COLUMN public.urology_reviews.total_score IS 'Unweighted sum of the scores for the criteria in the review''s rubric';
+COMMENT ON COLUMN public.urology_reviews.weighted_score IS 'Sum of each score times its criterion weight; recomputed when weights change';
+COMMENT ON COLUMN public.urology_reviews.revision IS 'Writes that name an older revision get 409 Conflict instead of overwriting';
+COMMENT ON COLUMN public.urology_final_selections.revision IS 'Writes that name an older revision get 409 Conflict; score recalculation does not change it';
+COMMENT ON COLUMN public.urology_review_versions.updated_at IS 'Later than created_at when a burst of note edits was folded into this version';
+COMMENT ON COLUMN public.urology_final_selections.average_score IS 'Average of all reviewers'' weighted scores for this applicant';
+COMMENT ON COLUMN public.urology_final_selections.raw_average_score IS 'Average of all reviewers'' unweighted total scores for this applicant';
+COMMENT ON COLUMN public.urology_applicants.cycle_id IS 'Recruitment cycle the application was submitted in; reviews, assignments and final selections copy it';
+COMMENT ON COLUMN public.urology_cycles.is_active IS 'The cycle new data goes into; every other cycle is read-only';
+COMMENT ON COLUMN public.urology_rank_lists.entries IS 'Applicants in rank order; locked entries keep their position when the list is reseeded or reordered';
+COMMENT ON COLUMN public.urology_rank_lists.revision IS 'Writes that name an older revision get 409 Conflict instead of overwriting';
+COMMENT ON COLUMN public.urology_interview_targets.hard_limit IS 'When true, Selected decisions beyond slots are rejected; otherwise they are allowed with a warning';
+COMMENT ON COLUMN public.urology_interview_dates.capacity IS 'Applicants the day can take; all dates together are checked against the cycle''s interview targets';
+COMMENT ON COLUMN public.urology_interview_dates.start_time IS 'Local time at the program; calendar exports use floating times so they show as written';
+COMMENT ON COLUMN public.urology_rubrics.stage IS 'file_review rubrics score reviews; interview rubrics score interview evaluations';
+COMMENT ON COLUMN public.urology_interview_evaluations.weighted_score IS 'Sum of each score times its criterion weight; averaged per applicant for Final Approval and the rank list';
+COMMENT ON COLUMN public.urology_interview_evaluations.revision IS 'Writes that name an older revision get 409 Conflict instead of overwriting';
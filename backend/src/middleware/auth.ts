@@ -0,0 +1,108 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuthService } from '../services/authService';
+import { getReviewerRole, hasPermission } from '../config/permissions';
+import { runWithSite } from '../config/tenant';
+import { getRequestedSiteName } from './tenant';
+import { DatabaseReviewer, ErrorResponse, Permission } from '../types';
+
+declare global {
+    namespace Express {
+        interface Request {
+            reviewer?: DatabaseReviewer;
+            authToken?: string;
+        }
+    }
+}
+
+/**
+ * Extract the bearer token from the Authorization header
+ */
+export function getBearerToken(req: Request): string | null {
+    const header = req.get('Authorization');
+    if (!header || !header.startsWith('Bearer ')) {
+        return null;
+    }
+
+    const token = header.slice('Bearer '.length).trim();
+    return token || null;
+}
+
+/**
+ * Require a valid session token and attach the signed-in reviewer to the request
+ * The rest of the request acts for the reviewer's own site
+ */
+export async function requireAuth(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+        const token = getBearerToken(req);
+        if (!token) {
+            const errorResponse: ErrorResponse = {
+                error: 'Unauthorized',
+                message: 'A bearer token is required'
+            };
+            res.status(401).json(errorResponse);
+            return;
+        }
+
+        const reviewer = await AuthService.getReviewerForToken(token);
+        if (!reviewer) {
+            const errorResponse: ErrorResponse = {
+                error: 'Unauthorized',
+                message: 'Session is invalid or has expired'
+            };
+            res.status(401).json(errorResponse);
+            return;
+        }
+
+        // A session only works on its own site, whatever the header or subdomain asks for
+        const requestedSite = getRequestedSiteName(req);
+        if (requestedSite && requestedSite !== reviewer.site_name) {
+            const errorResponse: ErrorResponse = {
+                error: 'Forbidden',
+                message: `This session belongs to the '${reviewer.site_name}' site, not '${requestedSite}'`
+            };
+            res.status(403).json(errorResponse);
+            return;
+        }
+
+        req.reviewer = reviewer;
+        req.authToken = token;
+        req.siteName = reviewer.site_name;
+        runWithSite(reviewer.site_name, next);
+    } catch (error) {
+        console.error('requireAuth error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to authenticate request',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+}
+
+/**
+ * Require the signed-in reviewer's role to grant a permission
+ * Must run after requireAuth
+ */
+export function requirePermission(permission: Permission) {
+    return (req: Request, res: Response, next: NextFunction): void => {
+        if (!req.reviewer) {
+            const errorResponse: ErrorResponse = {
+                error: 'Unauthorized',
+                message: 'A bearer token is required'
+            };
+            res.status(401).json(errorResponse);
+            return;
+        }
+
+        if (!hasPermission(req.reviewer, permission)) {
+            const errorResponse: ErrorResponse = {
+                error: 'Forbidden',
+                message: `Role '${getReviewerRole(req.reviewer)}' does not have the '${permission}' permission`,
+                details: { permission }
+            };
+            res.status(403).json(errorResponse);
+            return;
+        }
+
+        next();
+    };
+}
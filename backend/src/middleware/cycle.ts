@@ -0,0 +1,60 @@
+import { Request, Response, NextFunction } from 'express';
+import { CycleService } from '../services/cycleService';
+import { DatabaseCycle, ErrorResponse } from '../types';
+
+declare global {
+    namespace Express {
+        interface Request {
+            cycle?: DatabaseCycle;
+        }
+    }
+}
+
+/**
+ * Attach the recruitment cycle a request works on
+ * Clients pick a cycle with the X-Cycle-Id header or ?cycle_id=; otherwise the active cycle is used
+ */
+export async function resolveCycle(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+        const requestedId = req.get('X-Cycle-Id') || (typeof req.query.cycle_id === 'string' ? req.query.cycle_id : undefined);
+
+        const cycle = requestedId
+            ? await CycleService.getCycleById(requestedId)
+            : await CycleService.getActiveCycle();
+
+        if (!cycle) {
+            const errorResponse: ErrorResponse = requestedId
+                ? { error: 'Cycle not found', message: `No cycle found with ID: ${requestedId}` }
+                : { error: 'Conflict', message: 'No recruitment cycle is active. A program director must activate one.' };
+            res.status(requestedId ? 404 : 409).json(errorResponse);
+            return;
+        }
+
+        req.cycle = cycle;
+        next();
+    } catch (error) {
+        console.error('resolveCycle error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to resolve cycle',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+}
+
+/**
+ * Reject writes to any cycle but the active one
+ * Must run after resolveCycle
+ */
+export function requireActiveCycle(req: Request, res: Response, next: NextFunction): void {
+    if (req.method === 'GET' || req.cycle?.is_active) {
+        next();
+        return;
+    }
+
+    const errorResponse: ErrorResponse = {
+        error: 'Cycle is read-only',
+        message: `The ${req.cycle?.name} cycle is closed. Only the active cycle can be changed.`
+    };
+    res.status(409).json(errorResponse);
+}
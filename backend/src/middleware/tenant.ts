@@ -0,0 +1,38 @@
+import { Request, Response, NextFunction } from 'express';
+import { DEFAULT_SITE_NAME, getSiteNameFromHost, isValidSiteName, runWithSite } from '../config/tenant';
+import { ErrorResponse } from '../types';
+
+declare global {
+    namespace Express {
+        interface Request {
+            siteName?: string;
+        }
+    }
+}
+
+/**
+ * Get the site a request asks for with the X-Site-Name header or its subdomain, or null if it names none
+ */
+export function getRequestedSiteName(req: Request): string | null {
+    return req.get('X-Site-Name')?.trim().toLowerCase() || getSiteNameFromHost(req.get('Host'));
+}
+
+/**
+ * Run the rest of the request for the site it asks for, or DEFAULT_SITE_NAME
+ * requireAuth later narrows this to the signed-in reviewer's own site
+ */
+export function resolveTenant(req: Request, res: Response, next: NextFunction): void {
+    const requested = getRequestedSiteName(req);
+
+    if (requested !== null && !isValidSiteName(requested)) {
+        const errorResponse: ErrorResponse = {
+            error: 'Validation error',
+            message: `'${requested}' is not a valid site name`
+        };
+        res.status(400).json(errorResponse);
+        return;
+    }
+
+    req.siteName = requested ?? DEFAULT_SITE_NAME;
+    runWithSite(req.siteName, next);
+}
@@ -0,0 +1,43 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuthService } from '../services/authService';
+import { getSiteName } from '../config/tenant';
+import { ErrorResponse } from '../types';
+
+const WINDOW_SECONDS = 15 * 60;
+const MAX_PER_EMAIL = 10;
+const MAX_PER_IP = 50;
+
+/**
+ * Limit a sign-in route to MAX_PER_EMAIL requests per email and MAX_PER_IP per IP address every 15 minutes
+ * Counts are kept in the database so every server instance shares them; over the limit gets 429
+ */
+export function throttleSignIn(action: string) {
+    return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const email = typeof req.body?.email === 'string' ? req.body.email.trim().toLowerCase() : '';
+            const ipHits = await AuthService.recordSignInAttempt(`${action}:ip:${req.ip}`, WINDOW_SECONDS);
+            const emailHits = email
+                ? await AuthService.recordSignInAttempt(`${action}:email:${getSiteName()}:${email}`, WINDOW_SECONDS)
+                : 0;
+
+            if (ipHits > MAX_PER_IP || emailHits > MAX_PER_EMAIL) {
+                res.set('Retry-After', String(WINDOW_SECONDS));
+                const errorResponse: ErrorResponse = {
+                    error: 'Too Many Requests',
+                    message: 'Too many sign-in attempts. Wait 15 minutes and try again.'
+                };
+                res.status(429).json(errorResponse);
+                return;
+            }
+
+            next();
+        } catch (error) {
+            console.error('throttleSignIn error:', error);
+            const errorResponse: ErrorResponse = {
+                error: 'Failed to sign in',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            };
+            res.status(500).json(errorResponse);
+        }
+    };
+}
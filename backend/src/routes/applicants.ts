@@ -1,21 +1,59 @@
 import { Router, Request, Response } from 'express';
 import { ApplicantService } from '../services/applicantService';
+import { AuditService } from '../services/auditService';
+import { ApplicantImportService } from '../services/applicantImportService';
+import { DocumentService } from '../services/documentService';
+import { AssignmentService } from '../services/assignmentService';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { resolveCycle, requireActiveCycle } from '../middleware/cycle';
+import { hasPermission } from '../config/permissions';
+import { pageInfo, parseListQuery } from '../utils/listQuery';
 import {
+    ApplicantCategory,
     CreateApplicantRequest,
     UpdateApplicantRequest,
+    ApplicantImportRequest,
+    AuditChange,
     ErrorResponse
 } from '../types';
 
 const router = Router();
 
+// Every route below requires a signed-in reviewer
+router.use(requireAuth);
+
+// Routes work on the requested cycle (the active one by default); closed cycles are read-only
+router.use(resolveCycle, requireActiveCycle);
+
 /**
  * GET /api/applicants
- * Get all applicants
+ * Get the cycle's applicants, every one unless a limit is given
+ * Search by name, AAMC ID or school with q, filter by category, sort by name (default) or other fields, page with limit and cursor
  */
 router.get('/', async (req: Request, res: Response) => {
     try {
-        const applicants = await ApplicantService.getAllApplicants();
-        res.json({ success: true, data: applicants });
+        const parsed = parseListQuery(req.query, ApplicantService.SORT_FIELDS, [{ field: 'name', direction: 'asc' }]);
+        if ('error' in parsed) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: parsed.error
+            });
+        }
+
+        const category = req.query.category as ApplicantCategory | undefined;
+        if (category !== undefined && !['regular', 'i-sub'].includes(category)) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: 'category must be regular or i-sub'
+            });
+        }
+
+        const { applicants, total } = await ApplicantService.listApplicants(
+            req.cycle!.id,
+            { ...(category ? { category } : {}) },
+            parsed.listQuery
+        );
+        res.json({ success: true, data: applicants, page: pageInfo(total, parsed.listQuery, applicants.length) });
     } catch (error) {
         console.error('GET /api/applicants error:', error);
         const errorResponse: ErrorResponse = {
@@ -28,11 +66,15 @@ router.get('/', async (req: Request, res: Response) => {
 
 /**
  * GET /api/applicants/distribution
- * Get applicant distribution for reviewers
+ * Get applicant distribution for reviewers from stored assignments
+ * Kept for older clients; same data as GET /api/assignments/distribution
  */
 router.get('/distribution', async (req: Request, res: Response) => {
     try {
-        const distribution = await ApplicantService.getApplicantDistribution();
+        const distribution = await AssignmentService.getDistribution(
+            req.cycle!.id,
+            hasPermission(req.reviewer!, 'reviews:read_all') ? undefined : req.reviewer!.id
+        );
         res.json({ success: true, data: distribution });
     } catch (error) {
         console.error('GET /api/applicants/distribution error:', error);
@@ -50,7 +92,7 @@ router.get('/distribution', async (req: Request, res: Response) => {
  */
 router.get('/regular', async (req: Request, res: Response) => {
     try {
-        const applicants = await ApplicantService.getApplicantsByCategory('regular');
+        const applicants = await ApplicantService.getApplicantsByCategory(req.cycle!.id, 'regular');
         res.json({ success: true, data: applicants });
     } catch (error) {
         console.error('GET /api/applicants/regular error:', error);
@@ -68,7 +110,7 @@ router.get('/regular', async (req: Request, res: Response) => {
  */
 router.get('/i-sub', async (req: Request, res: Response) => {
     try {
-        const applicants = await ApplicantService.getApplicantsByCategory('i-sub');
+        const applicants = await ApplicantService.getApplicantsByCategory(req.cycle!.id, 'i-sub');
         res.json({ success: true, data: applicants });
     } catch (error) {
         console.error('GET /api/applicants/i-sub error:', error);
@@ -87,7 +129,7 @@ router.get('/i-sub', async (req: Request, res: Response) => {
 router.get('/:id', async (req: Request, res: Response): Promise<void> => {
     try {
         const { id } = req.params;
-        const applicant = await ApplicantService.getApplicantById(id);
+        const applicant = await ApplicantService.getApplicantById(req.cycle!.id, id);
 
         if (!applicant) {
             res.status(404).json({
@@ -115,7 +157,7 @@ router.get('/:id', async (req: Request, res: Response): Promise<void> => {
 router.get('/external/:externalId', async (req: Request, res: Response) => {
     try {
         const { externalId } = req.params;
-        const applicant = await ApplicantService.getApplicantByExternalId(externalId);
+        const applicant = await ApplicantService.getApplicantByExternalId(req.cycle!.id, externalId);
 
         if (!applicant) {
             return res.status(404).json({
@@ -137,9 +179,9 @@ router.get('/external/:externalId', async (req: Request, res: Response) => {
 
 /**
  * POST /api/applicants
- * Create a new applicant
+ * Create a new applicant in the active cycle
  */
-router.post('/', async (req: Request, res: Response) => {
+router.post('/', requirePermission('applicants:write'), async (req: Request, res: Response) => {
     try {
         const applicantData: CreateApplicantRequest = req.body;
 
@@ -151,16 +193,32 @@ router.post('/', async (req: Request, res: Response) => {
             });
         }
 
+        const profileError = ApplicantService.validateProfile(applicantData);
+        if (profileError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: profileError
+            });
+        }
+
         // Check if applicant already exists
-        const existing = await ApplicantService.getApplicantByExternalId(applicantData.external_id);
+        const existing = await ApplicantService.getApplicantByExternalId(req.cycle!.id, applicantData.external_id);
         if (existing) {
             return res.status(409).json({
                 error: 'Conflict',
-                message: `Applicant with external ID ${applicantData.external_id} already exists`
+                message: `Applicant with external ID ${applicantData.external_id} already exists in the ${req.cycle!.name} cycle`
             });
         }
 
-        const applicant = await ApplicantService.createApplicant(applicantData);
+        const applicant = await ApplicantService.createApplicant(req.cycle!.id, applicantData);
+        await AuditService.record(req.reviewer, {
+            action: 'create',
+            entity_type: 'applicant',
+            entity_id: applicant.id,
+            applicant_id: applicant.id,
+            cycle_id: applicant.cycle_id,
+            after: applicant
+        });
         res.status(201).json({ success: true, data: applicant });
     } catch (error) {
         console.error('POST /api/applicants error:', error);
@@ -176,7 +234,7 @@ router.post('/', async (req: Request, res: Response) => {
  * POST /api/applicants/batch
  * Create multiple applicants
  */
-router.post('/batch', async (req: Request, res: Response) => {
+router.post('/batch', requirePermission('applicants:write'), async (req: Request, res: Response) => {
     try {
         const { applicants }: { applicants: CreateApplicantRequest[] } = req.body;
 
@@ -195,9 +253,25 @@ router.post('/batch', async (req: Request, res: Response) => {
                     message: 'Each applicant must have external_id and name'
                 });
             }
+
+            const profileError = ApplicantService.validateProfile(applicant);
+            if (profileError) {
+                return res.status(400).json({
+                    error: 'Validation error',
+                    message: `Applicant ${applicant.external_id}: ${profileError}`
+                });
+            }
         }
 
-        const createdApplicants = await ApplicantService.batchCreateApplicants(applicants);
+        const createdApplicants = await ApplicantService.batchCreateApplicants(req.cycle!.id, applicants);
+        await AuditService.recordMany(req.reviewer, createdApplicants.map((applicant): AuditChange => ({
+            action: 'create',
+            entity_type: 'applicant',
+            entity_id: applicant.id,
+            applicant_id: applicant.id,
+            cycle_id: applicant.cycle_id,
+            after: applicant
+        })));
         res.status(201).json({
             success: true,
             data: createdApplicants,
@@ -213,17 +287,114 @@ router.post('/batch', async (req: Request, res: Response) => {
     }
 });
 
+/**
+ * POST /api/applicants/import
+ * Import applicants from an ERAS CSV export, matched to existing applicants by AAMC ID
+ * Send dry_run: true to preview what each row would do without saving anything
+ */
+router.post('/import', requirePermission('applicants:write'), async (req: Request, res: Response) => {
+    try {
+        const { csv, mapping, default_category, dry_run }: ApplicantImportRequest = req.body || {};
+
+        if (typeof csv !== 'string' || csv.trim() === '') {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: 'csv is required and must not be empty'
+            });
+        }
+
+        if (default_category !== undefined && !['regular', 'i-sub'].includes(default_category)) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: 'default_category must be regular or i-sub'
+            });
+        }
+
+        if (mapping !== undefined &&
+            (typeof mapping !== 'object' || mapping === null || Object.values(mapping).some(column => typeof column !== 'string'))) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: 'mapping must map applicant fields to column names'
+            });
+        }
+
+        const file = ApplicantImportService.parse(csv);
+        if (file.columns.length === 0 || file.records.length === 0) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: 'The file needs a header row and at least one applicant'
+            });
+        }
+        if (file.records.length > ApplicantImportService.MAX_ROWS) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: `Import at most ${ApplicantImportService.MAX_ROWS} applicants at a time`
+            });
+        }
+
+        const { result, created, updated } = await ApplicantImportService.importApplicants(req.cycle!.id, file, {
+            ...(mapping !== undefined ? { mapping } : {}),
+            ...(default_category !== undefined ? { default_category } : {}),
+            dry_run: dry_run === true
+        });
+
+        if (!result.dry_run && result.mapping_errors.length > 0) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: result.mapping_errors.join('; ')
+            });
+        }
+
+        await AuditService.recordMany(req.reviewer, [
+            ...created.map((applicant): AuditChange => ({
+                action: 'create',
+                entity_type: 'applicant',
+                entity_id: applicant.id,
+                applicant_id: applicant.id,
+                cycle_id: applicant.cycle_id,
+                after: applicant
+            })),
+            ...updated.map(({ before, after }): AuditChange => ({
+                action: 'update',
+                entity_type: 'applicant',
+                entity_id: after.id,
+                applicant_id: after.id,
+                cycle_id: after.cycle_id,
+                before,
+                after
+            }))
+        ]);
+
+        res.status(result.dry_run ? 200 : 201).json({ success: true, data: result });
+    } catch (error) {
+        console.error('POST /api/applicants/import error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to import applicants',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
 /**
  * PUT /api/applicants/:id
  * Update an applicant
  */
-router.put('/:id', async (req: Request, res: Response) => {
+router.put('/:id', requirePermission('applicants:write'), async (req: Request, res: Response) => {
     try {
         const { id } = req.params;
         const updates: UpdateApplicantRequest = req.body;
 
+        const profileError = ApplicantService.validateProfile(updates);
+        if (profileError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: profileError
+            });
+        }
+
         // Check if applicant exists
-        const existing = await ApplicantService.getApplicantById(id);
+        const existing = await ApplicantService.getApplicantById(req.cycle!.id, id);
         if (!existing) {
             return res.status(404).json({
                 error: 'Applicant not found',
@@ -232,6 +403,15 @@ router.put('/:id', async (req: Request, res: Response) => {
         }
 
         const updatedApplicant = await ApplicantService.updateApplicant(id, updates);
+        await AuditService.record(req.reviewer, {
+            action: 'update',
+            entity_type: 'applicant',
+            entity_id: id,
+            applicant_id: id,
+            cycle_id: existing.cycle_id,
+            before: existing,
+            after: updatedApplicant
+        });
         res.json({ success: true, data: updatedApplicant });
     } catch (error) {
         console.error('PUT /api/applicants/:id error:', error);
@@ -247,12 +427,12 @@ router.put('/:id', async (req: Request, res: Response) => {
  * DELETE /api/applicants/:id
  * Delete an applicant
  */
-router.delete('/:id', async (req: Request, res: Response) => {
+router.delete('/:id', requirePermission('applicants:delete'), async (req: Request, res: Response) => {
     try {
         const { id } = req.params;
 
         // Check if applicant exists
-        const existing = await ApplicantService.getApplicantById(id);
+        const existing = await ApplicantService.getApplicantById(req.cycle!.id, id);
         if (!existing) {
             return res.status(404).json({
                 error: 'Applicant not found',
@@ -260,7 +440,18 @@ router.delete('/:id', async (req: Request, res: Response) => {
             });
         }
 
+        // Document rows go with the applicant; their files are removed once it is gone
+        const documents = await DocumentService.getDocuments(id);
         await ApplicantService.deleteApplicant(id);
+        await DocumentService.deleteFiles(documents);
+        await AuditService.record(req.reviewer, {
+            action: 'delete',
+            entity_type: 'applicant',
+            entity_id: id,
+            applicant_id: id,
+            cycle_id: existing.cycle_id,
+            before: existing
+        });
         res.json({
             success: true,
             message: 'Applicant deleted successfully'
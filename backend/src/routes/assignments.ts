@@ -0,0 +1,321 @@
+import { Router, Request, Response } from 'express';
+import { AssignmentService } from '../services/assignmentService';
+import { AuditService } from '../services/auditService';
+import { ApplicantService } from '../services/applicantService';
+import { ReviewerService } from '../services/reviewerService';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { resolveCycle, requireActiveCycle } from '../middleware/cycle';
+import { hasPermission } from '../config/permissions';
+import { AssignmentPlanOptions, AuditChange, CreateAssignmentRequest, DatabaseAssignment, ErrorResponse } from '../types';
+
+const router = Router();
+
+const MAX_REVIEWERS_PER_APPLICANT = 10;
+
+/**
+ * Audit entry for a newly stored assignment
+ */
+function auditCreated(assignment: DatabaseAssignment): AuditChange {
+    return {
+        action: 'create',
+        entity_type: 'assignment',
+        entity_id: assignment.id,
+        applicant_id: assignment.applicant_id,
+        cycle_id: assignment.cycle_id,
+        after: assignment
+    };
+}
+
+// Every route below requires a signed-in reviewer
+router.use(requireAuth);
+
+// Routes work on the requested cycle (the active one by default); closed cycles are read-only
+router.use(resolveCycle, requireActiveCycle);
+
+/**
+ * GET /api/assignments
+ * Get assignments (optionally filtered by reviewer_id or applicant_id)
+ * Without reviews:read_all the results are limited to the caller's own assignments
+ */
+router.get('/', async (req: Request, res: Response) => {
+    try {
+        const { applicant_id } = req.query;
+        const reviewer_id = hasPermission(req.reviewer!, 'reviews:read_all')
+            ? req.query.reviewer_id
+            : req.reviewer!.id;
+
+        const assignments = await AssignmentService.getAllAssignments(req.cycle!.id, {
+            ...(reviewer_id ? { reviewer_id: reviewer_id as string } : {}),
+            ...(applicant_id ? { applicant_id: applicant_id as string } : {})
+        });
+        res.json({ success: true, data: assignments, count: assignments.length });
+    } catch (error) {
+        console.error('GET /api/assignments error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to fetch assignments',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * GET /api/assignments/distribution
+ * Get each reviewer's queue of assigned applicants
+ * Without reviews:read_all only the caller's own queue is returned
+ */
+router.get('/distribution', async (req: Request, res: Response) => {
+    try {
+        const distribution = await AssignmentService.getDistribution(
+            req.cycle!.id,
+            hasPermission(req.reviewer!, 'reviews:read_all') ? undefined : req.reviewer!.id
+        );
+        res.json({ success: true, data: distribution });
+    } catch (error) {
+        console.error('GET /api/assignments/distribution error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to fetch assignment distribution',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * POST /api/assignments/distribute
+ * Assign applicants that still need reviewers, leaving existing assignments in place
+ * Send dry_run: true to preview the plan without storing it
+ */
+router.post('/distribute', requirePermission('assignments:manage'), async (req: Request, res: Response) => {
+    try {
+        const { reviewers_per_applicant, categories, dry_run }: AssignmentPlanOptions = req.body || {};
+
+        if (reviewers_per_applicant !== undefined &&
+            (!Number.isInteger(reviewers_per_applicant) || reviewers_per_applicant < 1 || reviewers_per_applicant > MAX_REVIEWERS_PER_APPLICANT)) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: `reviewers_per_applicant must be an integer between 1 and ${MAX_REVIEWERS_PER_APPLICANT}`
+            });
+        }
+
+        if (categories !== undefined &&
+            (!Array.isArray(categories) || categories.some(category => !['regular', 'i-sub'].includes(category)))) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: 'categories must be an array containing regular and/or i-sub'
+            });
+        }
+
+        const { plan, created } = await AssignmentService.distribute(req.cycle!.id, {
+            ...(reviewers_per_applicant !== undefined ? { reviewers_per_applicant } : {}),
+            ...(categories !== undefined ? { categories } : {}),
+            dry_run: dry_run === true
+        }, req.reviewer!.id);
+        await AuditService.recordMany(req.reviewer, created.map(assignment => auditCreated(assignment)));
+
+        res.status(plan.dry_run ? 200 : 201).json({
+            success: true,
+            data: plan,
+            count: plan.assignments.length
+        });
+    } catch (error) {
+        console.error('POST /api/assignments/distribute error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to distribute applicants',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * POST /api/assignments/batch
+ * Create multiple assignments (existing pairs are skipped)
+ */
+router.post('/batch', requirePermission('assignments:manage'), async (req: Request, res: Response) => {
+    try {
+        const { assignments }: { assignments: CreateAssignmentRequest[] } = req.body;
+
+        if (!Array.isArray(assignments) || assignments.length === 0) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: 'assignments array is required and must not be empty'
+            });
+        }
+
+        // Validate each assignment
+        for (const assignment of assignments) {
+            if (!assignment.applicant_id || !assignment.reviewer_id) {
+                return res.status(400).json({
+                    error: 'Validation error',
+                    message: 'Each assignment must have applicant_id and reviewer_id'
+                });
+            }
+        }
+
+        // Every applicant must belong to the cycle the assignments are stored in
+        const cycleApplicantIds = new Set(
+            (await ApplicantService.getAllApplicants(req.cycle!.id)).map(applicant => applicant.id)
+        );
+        const outsideCycle = assignments.find(assignment => !cycleApplicantIds.has(assignment.applicant_id));
+        if (outsideCycle) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: `Applicant ${outsideCycle.applicant_id} is not in the ${req.cycle!.name} cycle`
+            });
+        }
+
+        const createdAssignments = await AssignmentService.batchCreateAssignments(req.cycle!.id, assignments, req.reviewer!.id);
+        await AuditService.recordMany(req.reviewer, createdAssignments.map(assignment => auditCreated(assignment)));
+        res.status(201).json({
+            success: true,
+            data: createdAssignments,
+            count: createdAssignments.length
+        });
+    } catch (error) {
+        console.error('POST /api/assignments/batch error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to create assignments',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * GET /api/assignments/:id
+ * Get assignment by ID
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        const assignment = await AssignmentService.getAssignmentById(req.cycle!.id, id);
+
+        if (!assignment) {
+            return res.status(404).json({
+                error: 'Assignment not found',
+                message: `No assignment found with ID: ${id}`
+            });
+        }
+
+        if (assignment.reviewer_id !== req.reviewer!.id && !hasPermission(req.reviewer!, 'reviews:read_all')) {
+            return res.status(403).json({
+                error: 'Forbidden',
+                message: 'Reviewers can only view their own assignments'
+            });
+        }
+
+        res.json({ success: true, data: assignment });
+    } catch (error) {
+        console.error('GET /api/assignments/:id error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to fetch assignment',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * POST /api/assignments
+ * Assign an applicant to a reviewer
+ */
+router.post('/', requirePermission('assignments:manage'), async (req: Request, res: Response) => {
+    try {
+        const { applicant_id, reviewer_id, override_conflict }: CreateAssignmentRequest = req.body;
+
+        // Basic validation
+        if (!applicant_id || !reviewer_id) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: 'applicant_id and reviewer_id are required'
+            });
+        }
+
+        const [applicant, reviewer] = await Promise.all([
+            ApplicantService.getApplicantById(req.cycle!.id, applicant_id),
+            ReviewerService.getReviewerById(reviewer_id)
+        ]);
+        if (!applicant) {
+            return res.status(404).json({
+                error: 'Applicant not found',
+                message: `No applicant found with ID: ${applicant_id}`
+            });
+        }
+        if (!reviewer) {
+            return res.status(404).json({
+                error: 'Reviewer not found',
+                message: `No reviewer found with ID: ${reviewer_id}`
+            });
+        }
+
+        if (AssignmentService.hasConflict(reviewer, applicant) && override_conflict !== true) {
+            return res.status(409).json({
+                error: 'Conflict of interest',
+                message: `${reviewer.name} attended ${reviewer.medical_school}, which matches applicant ${applicant.name}. Send override_conflict: true to assign anyway.`
+            });
+        }
+
+        // Check if assignment already exists
+        const existing = await AssignmentService.getAssignment(applicant_id, reviewer_id);
+        if (existing) {
+            return res.status(409).json({
+                error: 'Conflict',
+                message: `${reviewer.name} is already assigned to applicant ${applicant.name}`
+            });
+        }
+
+        const assignment = await AssignmentService.createAssignment(req.cycle!.id, { applicant_id, reviewer_id }, req.reviewer!.id);
+        await AuditService.record(req.reviewer, auditCreated(assignment));
+        res.status(201).json({ success: true, data: assignment });
+    } catch (error) {
+        console.error('POST /api/assignments error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to create assignment',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * DELETE /api/assignments/:id
+ * Remove an assignment
+ */
+router.delete('/:id', requirePermission('assignments:manage'), async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+
+        // Check if assignment exists
+        const existing = await AssignmentService.getAssignmentById(req.cycle!.id, id);
+        if (!existing) {
+            return res.status(404).json({
+                error: 'Assignment not found',
+                message: `No assignment found with ID: ${id}`
+            });
+        }
+
+        await AssignmentService.deleteAssignment(id);
+        await AuditService.record(req.reviewer, {
+            action: 'delete',
+            entity_type: 'assignment',
+            entity_id: id,
+            applicant_id: existing.applicant_id,
+            cycle_id: existing.cycle_id,
+            before: existing
+        });
+        res.json({
+            success: true,
+            message: 'Assignment deleted successfully'
+        });
+    } catch (error) {
+        console.error('DELETE /api/assignments/:id error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to delete assignment',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+export default router;
@@ -0,0 +1,94 @@
+import { Router, Request, Response } from 'express';
+import { AuditService } from '../services/auditService';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { AuditAction, AuditEntityType, AuditLogFilters, ErrorResponse } from '../types';
+
+const router = Router();
+
+const AUDIT_ACTIONS: AuditAction[] = ['create', 'update', 'delete', 'activate'];
+const AUDIT_ENTITY_TYPES: AuditEntityType[] = [
+    'applicant',
+    'document',
+    'reviewer',
+    'review',
+    'final_selection',
+    'assignment',
+    'rubric',
+    'interview_target',
+    'rank_list',
+    'rank_list_version',
+    'interview_date',
+    'interview_booking',
+    'interview_evaluation',
+    'cycle',
+    'password'
+];
+
+// Every route below requires a signed-in reviewer
+router.use(requireAuth);
+
+/**
+ * GET /api/audit
+ * Get audit log entries, newest first
+ * Filter with entity_type, entity_id, applicant_id, cycle_id, actor_id, action, from, to and limit
+ */
+router.get('/', requirePermission('audit:read'), async (req: Request, res: Response) => {
+    try {
+        const query = req.query as Record<string, string | undefined>;
+
+        if (query.entity_type && !AUDIT_ENTITY_TYPES.includes(query.entity_type as AuditEntityType)) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: `entity_type must be one of: ${AUDIT_ENTITY_TYPES.join(', ')}`
+            });
+        }
+
+        if (query.action && !AUDIT_ACTIONS.includes(query.action as AuditAction)) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: `action must be one of: ${AUDIT_ACTIONS.join(', ')}`
+            });
+        }
+
+        for (const bound of ['from', 'to'] as const) {
+            if (query[bound] && isNaN(Date.parse(query[bound]!))) {
+                return res.status(400).json({
+                    error: 'Validation error',
+                    message: `${bound} must be a date or timestamp`
+                });
+            }
+        }
+
+        const limit = query.limit !== undefined ? Number(query.limit) : undefined;
+        if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: 'limit must be a positive integer'
+            });
+        }
+
+        const filters: AuditLogFilters = {
+            entity_type: query.entity_type as AuditEntityType | undefined,
+            entity_id: query.entity_id,
+            applicant_id: query.applicant_id,
+            cycle_id: query.cycle_id,
+            actor_id: query.actor_id,
+            action: query.action as AuditAction | undefined,
+            from: query.from,
+            to: query.to,
+            limit
+        };
+
+        const entries = await AuditService.getEntries(filters);
+        res.json({ success: true, data: entries, count: entries.length });
+    } catch (error) {
+        console.error('GET /api/audit error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to fetch audit log',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+export default router;
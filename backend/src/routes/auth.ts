@@ -0,0 +1,195 @@
+import { Router, Request, Response } from 'express';
+import { AuthService } from '../services/authService';
+import { AuditService } from '../services/auditService';
+import { requireAuth } from '../middleware/auth';
+import { throttleSignIn } from '../middleware/throttle';
+import {
+    LoginRequest,
+    LoginCodeRequest,
+    VerifyLoginCodeRequest,
+    ChangePasswordRequest,
+    ErrorResponse
+} from '../types';
+
+const router = Router();
+
+/**
+ * POST /api/auth/login
+ * Sign in with email and password
+ */
+router.post('/login', throttleSignIn('login'), async (req: Request, res: Response) => {
+    try {
+        const { email, password }: LoginRequest = req.body;
+
+        if (!email || !password) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: 'email and password are required'
+            });
+        }
+
+        const session = await AuthService.loginWithPassword(email, password);
+        if (!session) {
+            return res.status(401).json({
+                error: 'Unauthorized',
+                message: 'Invalid email or password'
+            });
+        }
+
+        res.json({ success: true, data: session });
+    } catch (error) {
+        console.error('POST /api/auth/login error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to sign in',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * POST /api/auth/login-code
+ * Request a one-time sign-in code by email; a new request replaces the reviewer's previous code
+ */
+router.post('/login-code', throttleSignIn('login-code'), async (req: Request, res: Response) => {
+    try {
+        const { email }: LoginCodeRequest = req.body;
+
+        if (!email) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: 'email is required'
+            });
+        }
+
+        await AuthService.requestLoginCode(email);
+
+        // Respond the same way whether or not the email is registered, and never with the code itself
+        res.json({
+            success: true,
+            message: 'If that email belongs to a reviewer, a sign-in code has been sent',
+            data: { expires_in_minutes: AuthService.LOGIN_CODE_TTL_MINUTES }
+        });
+    } catch (error) {
+        console.error('POST /api/auth/login-code error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to issue sign-in code',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * POST /api/auth/login-code/verify
+ * Exchange a one-time sign-in code for a session
+ */
+router.post('/login-code/verify', throttleSignIn('login-code-verify'), async (req: Request, res: Response) => {
+    try {
+        const { email, code }: VerifyLoginCodeRequest = req.body;
+
+        if (!email || !code) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: 'email and code are required'
+            });
+        }
+
+        const session = await AuthService.loginWithCode(email, code);
+        if (!session) {
+            return res.status(401).json({
+                error: 'Unauthorized',
+                message: 'Invalid or expired sign-in code'
+            });
+        }
+
+        res.json({ success: true, data: session });
+    } catch (error) {
+        console.error('POST /api/auth/login-code/verify error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to verify sign-in code',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * GET /api/auth/me
+ * Get the signed-in reviewer
+ */
+router.get('/me', requireAuth, async (req: Request, res: Response) => {
+    res.json({ success: true, data: AuthService.withPermissions(req.reviewer!) });
+});
+
+/**
+ * POST /api/auth/logout
+ * End the current session
+ */
+router.post('/logout', requireAuth, async (req: Request, res: Response) => {
+    try {
+        await AuthService.logout(req.authToken!);
+        res.json({
+            success: true,
+            message: 'Signed out successfully'
+        });
+    } catch (error) {
+        console.error('POST /api/auth/logout error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to sign out',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * PUT /api/auth/password
+ * Set or change the signed-in reviewer's password
+ */
+router.put('/password', requireAuth, async (req: Request, res: Response) => {
+    try {
+        const { current_password, new_password }: ChangePasswordRequest = req.body;
+        const reviewer = req.reviewer!;
+
+        const validationError = AuthService.validatePassword(new_password);
+        if (validationError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: validationError
+            });
+        }
+
+        // Reviewers who signed in with a code may set a first password without the old one
+        if (await AuthService.hasPassword(reviewer.id)) {
+            if (!current_password || !(await AuthService.checkPassword(reviewer.id, current_password))) {
+                return res.status(401).json({
+                    error: 'Unauthorized',
+                    message: 'Current password is incorrect'
+                });
+            }
+        }
+
+        await AuthService.setPassword(reviewer.id, new_password);
+
+        // Hashes never go into the audit log; the entry only records that the password changed
+        await AuditService.record(reviewer, {
+            action: 'update',
+            entity_type: 'password',
+            entity_id: reviewer.id
+        });
+        res.json({
+            success: true,
+            message: 'Password updated successfully'
+        });
+    } catch (error) {
+        console.error('PUT /api/auth/password error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to update password',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+export default router;
@@ -0,0 +1,134 @@
+import { Router, Request, Response } from 'express';
+import { CycleService } from '../services/cycleService';
+import { AuditService } from '../services/auditService';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { CreateCycleRequest, ErrorResponse } from '../types';
+
+const router = Router();
+
+// Every route below requires a signed-in reviewer
+router.use(requireAuth);
+
+/**
+ * GET /api/cycles
+ * Get all recruitment cycles, newest first
+ */
+router.get('/', async (req: Request, res: Response) => {
+    try {
+        const cycles = await CycleService.getAllCycles();
+        res.json({ success: true, data: cycles, count: cycles.length });
+    } catch (error) {
+        console.error('GET /api/cycles error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to fetch cycles',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * GET /api/cycles/active
+ * Get the cycle new applicants, reviews and decisions go into
+ */
+router.get('/active', async (req: Request, res: Response) => {
+    try {
+        const cycle = await CycleService.getActiveCycle();
+
+        if (!cycle) {
+            return res.status(404).json({
+                error: 'Cycle not found',
+                message: 'No recruitment cycle is active'
+            });
+        }
+
+        res.json({ success: true, data: cycle });
+    } catch (error) {
+        console.error('GET /api/cycles/active error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to fetch active cycle',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * POST /api/cycles
+ * Create a recruitment cycle (send activate: true to open it straight away)
+ */
+router.post('/', requirePermission('cycles:manage'), async (req: Request, res: Response) => {
+    try {
+        const cycleData: CreateCycleRequest = req.body || {};
+
+        if (!CycleService.isValidName(cycleData.name)) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: 'name must look like 2025-2026'
+            });
+        }
+
+        const existing = await CycleService.getCycleByName(cycleData.name);
+        if (existing) {
+            return res.status(409).json({
+                error: 'Conflict',
+                message: `The ${cycleData.name} cycle already exists`
+            });
+        }
+
+        const cycle = await CycleService.createCycle(cycleData, req.reviewer!.id);
+        await AuditService.record(req.reviewer, {
+            action: 'create',
+            entity_type: 'cycle',
+            entity_id: cycle.id,
+            cycle_id: cycle.id,
+            after: cycle
+        });
+        res.status(201).json({ success: true, data: cycle });
+    } catch (error) {
+        console.error('POST /api/cycles error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to create cycle',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * POST /api/cycles/:id/activate
+ * Make this the active cycle; every other cycle becomes read-only
+ */
+router.post('/:id/activate', requirePermission('cycles:manage'), async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+
+        const existing = await CycleService.getCycleById(id);
+        if (!existing) {
+            return res.status(404).json({
+                error: 'Cycle not found',
+                message: `No cycle found with ID: ${id}`
+            });
+        }
+
+        const cycle = await CycleService.activateCycle(id);
+        await AuditService.record(req.reviewer, {
+            action: 'activate',
+            entity_type: 'cycle',
+            entity_id: id,
+            cycle_id: id,
+            before: existing,
+            after: cycle
+        });
+        res.json({ success: true, data: cycle });
+    } catch (error) {
+        console.error('POST /api/cycles/:id/activate error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to activate cycle',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+export default router;
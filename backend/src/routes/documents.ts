@@ -0,0 +1,200 @@
+import express, { Router, Request, Response, NextFunction } from 'express';
+import { ApplicantService } from '../services/applicantService';
+import { DocumentService } from '../services/documentService';
+import { AuditService } from '../services/auditService';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { resolveCycle, requireActiveCycle } from '../middleware/cycle';
+import { DocumentType, ErrorResponse } from '../types';
+
+// Mounted at /api/applicants/:applicantId/documents
+const router = Router({ mergeParams: true });
+
+const MAX_FILE_NAME_LENGTH = 255;
+
+const rawPdf = express.raw({ type: 'application/pdf', limit: DocumentService.MAX_SIZE_BYTES });
+
+/**
+ * Read a PDF request body into req.body as a Buffer
+ * Oversized uploads get 413 here instead of falling through to the global 500 handler
+ */
+function readPdfBody(req: Request, res: Response, next: NextFunction): void {
+    rawPdf(req, res, (err?: unknown) => {
+        if ((err as { type?: string } | undefined)?.type === 'entity.too.large') {
+            const errorResponse: ErrorResponse = {
+                error: 'Payload too large',
+                message: `Documents can be at most ${DocumentService.MAX_SIZE_BYTES / (1024 * 1024)} MB`
+            };
+            res.status(413).json(errorResponse);
+            return;
+        }
+        next(err);
+    });
+}
+
+// Every route below requires a signed-in reviewer
+router.use(requireAuth);
+
+// Routes work on the requested cycle (the active one by default); closed cycles are read-only
+router.use(resolveCycle, requireActiveCycle);
+
+/**
+ * GET /api/applicants/:applicantId/documents
+ * List an applicant's documents
+ */
+router.get('/', async (req: Request, res: Response) => {
+    try {
+        const { applicantId } = req.params;
+
+        const applicant = await ApplicantService.getApplicantById(req.cycle!.id, applicantId);
+        if (!applicant) {
+            return res.status(404).json({
+                error: 'Applicant not found',
+                message: `No applicant found with ID: ${applicantId}`
+            });
+        }
+
+        const documents = await DocumentService.getDocuments(applicantId);
+        res.json({ success: true, data: documents });
+    } catch (error) {
+        console.error('GET /api/applicants/:applicantId/documents error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to fetch applicant documents',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * POST /api/applicants/:applicantId/documents?document_type=lor&file_name=letter.pdf
+ * Upload a PDF (sent as the raw request body with Content-Type: application/pdf)
+ */
+router.post('/', requirePermission('applicants:write'), readPdfBody, async (req: Request, res: Response) => {
+    try {
+        const { applicantId } = req.params;
+        const documentType = req.query.document_type as DocumentType | undefined;
+        const fileName = typeof req.query.file_name === 'string' ? req.query.file_name.trim() : '';
+
+        if (!documentType || !DocumentService.DOCUMENT_TYPES.includes(documentType)) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: `document_type must be one of ${DocumentService.DOCUMENT_TYPES.join(', ')}`
+            });
+        }
+
+        if (fileName.length > MAX_FILE_NAME_LENGTH) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: `file_name must be at most ${MAX_FILE_NAME_LENGTH} characters`
+            });
+        }
+
+        if (!Buffer.isBuffer(req.body) || req.body.length === 0 || !DocumentService.isPdf(req.body)) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: 'Send a PDF file as the request body with Content-Type: application/pdf'
+            });
+        }
+
+        const applicant = await ApplicantService.getApplicantById(req.cycle!.id, applicantId);
+        if (!applicant) {
+            return res.status(404).json({
+                error: 'Applicant not found',
+                message: `No applicant found with ID: ${applicantId}`
+            });
+        }
+
+        const document = await DocumentService.createDocument(applicant, {
+            document_type: documentType,
+            file_name: fileName || `${documentType}.pdf`,
+            data: req.body
+        }, req.reviewer!.id);
+        await AuditService.record(req.reviewer, {
+            action: 'create',
+            entity_type: 'document',
+            entity_id: document.id,
+            applicant_id: applicant.id,
+            cycle_id: document.cycle_id,
+            after: document
+        });
+        res.status(201).json({ success: true, data: document });
+    } catch (error) {
+        console.error('POST /api/applicants/:applicantId/documents error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to upload document',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * GET /api/applicants/:applicantId/documents/:documentId/file
+ * Stream a document's PDF for display in the browser
+ */
+router.get('/:documentId/file', async (req: Request, res: Response) => {
+    try {
+        const { applicantId, documentId } = req.params;
+
+        const document = await DocumentService.getDocumentById(applicantId, documentId);
+        if (!document || document.cycle_id !== req.cycle!.id) {
+            return res.status(404).json({
+                error: 'Document not found',
+                message: `No document found with ID: ${documentId}`
+            });
+        }
+
+        const content = await DocumentService.getDocumentContent(document);
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `inline; filename*=UTF-8''${encodeURIComponent(document.file_name)}`);
+        res.send(content);
+    } catch (error) {
+        console.error('GET /api/applicants/:applicantId/documents/:documentId/file error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to fetch document',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * DELETE /api/applicants/:applicantId/documents/:documentId
+ * Remove a document and its file
+ */
+router.delete('/:documentId', requirePermission('applicants:write'), async (req: Request, res: Response) => {
+    try {
+        const { applicantId, documentId } = req.params;
+
+        const document = await DocumentService.getDocumentById(applicantId, documentId);
+        if (!document || document.cycle_id !== req.cycle!.id) {
+            return res.status(404).json({
+                error: 'Document not found',
+                message: `No document found with ID: ${documentId}`
+            });
+        }
+
+        await DocumentService.deleteDocument(document);
+        await AuditService.record(req.reviewer, {
+            action: 'delete',
+            entity_type: 'document',
+            entity_id: document.id,
+            applicant_id: document.applicant_id,
+            cycle_id: document.cycle_id,
+            before: document
+        });
+        res.json({
+            success: true,
+            message: 'Document deleted successfully'
+        });
+    } catch (error) {
+        console.error('DELETE /api/applicants/:applicantId/documents/:documentId error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to delete document',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+export default router;
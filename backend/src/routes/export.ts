@@ -0,0 +1,171 @@
+import { Router, Request, Response } from 'express';
+import { ExportService } from '../services/exportService';
+import { ReportService } from '../services/reportService';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { resolveCycle } from '../middleware/cycle';
+import { ErrorResponse, ExportLayout } from '../types';
+
+const router = Router();
+
+// Every route below requires a signed-in reviewer
+router.use(requireAuth);
+
+// Exports cover the requested cycle (the active one by default); past cycles can be exported too
+router.use(resolveCycle);
+
+/**
+ * Read the layout query parameter, defaulting to one row per review
+ */
+function parseLayout(req: Request): ExportLayout | null {
+    const layout = req.query.layout ?? 'reviews';
+    return ExportService.LAYOUTS.includes(layout as ExportLayout) ? layout as ExportLayout : null;
+}
+
+/**
+ * GET /api/export/columns?layout=reviews|applicants
+ * List the columns an export can include, in export order
+ */
+router.get('/columns', requirePermission('data:export'), async (req: Request, res: Response) => {
+    try {
+        const layout = parseLayout(req);
+        if (!layout) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: `layout must be one of: ${ExportService.LAYOUTS.join(', ')}`
+            });
+        }
+
+        const columns = await ExportService.getColumns(req.cycle!.id, layout);
+        res.json({ success: true, data: columns });
+    } catch (error) {
+        console.error('GET /api/export/columns error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to fetch export columns',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * GET /api/export/csv?layout=reviews|applicants&columns=external_id,name,...
+ * Export reviews and decisions as CSV; columns picks and orders the columns (all of them by default)
+ */
+router.get('/csv', requirePermission('data:export'), async (req: Request, res: Response) => {
+    try {
+        const layout = parseLayout(req);
+        if (!layout) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: `layout must be one of: ${ExportService.LAYOUTS.join(', ')}`
+            });
+        }
+
+        if (req.query.columns !== undefined && typeof req.query.columns !== 'string') {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: 'columns must be a comma-separated list'
+            });
+        }
+
+        const columnKeys = req.query.columns?.split(',').map(key => key.trim()).filter(key => key !== '');
+        if (columnKeys) {
+            const columnsError = ExportService.validateColumns(
+                await ExportService.getColumns(req.cycle!.id, layout),
+                columnKeys
+            );
+            if (columnsError) {
+                return res.status(400).json({
+                    error: 'Validation error',
+                    message: columnsError
+                });
+            }
+        }
+
+        const csvData = await ExportService.exportCSV(req.cycle!.id, layout, columnKeys);
+
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(`urology_${layout}_${req.cycle!.name}.csv`)}`);
+        res.send(csvData);
+    } catch (error) {
+        console.error('GET /api/export/csv error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to export review data',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * GET /api/export/xlsx
+ * Export the cycle as an Excel workbook with applicant, review, final selection and reviewer progress sheets
+ */
+router.get('/xlsx', requirePermission('data:export'), async (req: Request, res: Response) => {
+    try {
+        const workbook = await ExportService.exportXLSX(req.cycle!.id);
+
+        res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+        res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(`urology_review_${req.cycle!.name}.xlsx`)}`);
+        res.send(workbook);
+    } catch (error) {
+        console.error('GET /api/export/xlsx error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to export workbook',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * GET /api/export/summary/pdf
+ * Committee summary PDF ranking every applicant within their category
+ */
+router.get('/summary/pdf', requirePermission('data:export'), async (req: Request, res: Response) => {
+    try {
+        const pdf = await ReportService.summaryPDF(req.cycle!);
+
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(`urology_summary_${req.cycle!.name}.pdf`)}`);
+        res.send(pdf);
+    } catch (error) {
+        console.error('GET /api/export/summary/pdf error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to generate summary report',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * GET /api/export/applicants/:applicantId/pdf
+ * Printable applicant packet with the profile, every review and the committee's average
+ */
+router.get('/applicants/:applicantId/pdf', requirePermission('data:export'), async (req: Request, res: Response) => {
+    try {
+        const { applicantId } = req.params;
+
+        const pdf = await ReportService.applicantPacketPDF(req.cycle!, applicantId);
+        if (!pdf) {
+            return res.status(404).json({
+                error: 'Applicant not found',
+                message: `No applicant found with ID: ${applicantId}`
+            });
+        }
+
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(`urology_packet_${applicantId}.pdf`)}`);
+        res.send(pdf);
+    } catch (error) {
+        console.error('GET /api/export/applicants/:applicantId/pdf error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to generate applicant packet',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+export default router;
@@ -0,0 +1,83 @@
+import { Express } from 'express';
+import authRouter from './auth';
+import applicantsRouter from './applicants';
+import documentsRouter from './documents';
+import reviewersRouter from './reviewers';
+import reviewsRouter from './reviews';
+import progressRouter from './progress';
+import assignmentsRouter from './assignments';
+import rubricsRouter from './rubrics';
+import interviewTargetsRouter from './interviewTargets';
+import cyclesRouter from './cycles';
+import auditRouter from './audit';
+import exportRouter from './export';
+import rankListRouter from './rankList';
+import interviewsRouter from './interviews';
+import interviewEvaluationsRouter from './interviewEvaluations';
+
+/**
+ * Mount every API router; shared by the local server (src/server.ts) and the Vercel function (api/index.ts)
+ * so a new router only has to be added here
+ */
+export function mountApiRoutes(app: Express): void {
+    app.use('/api/auth', authRouter);
+    // Mounted ahead of the applicants router so document requests skip its middleware
+    app.use('/api/applicants/:applicantId/documents', documentsRouter);
+    app.use('/api/applicants', applicantsRouter);
+    app.use('/api/reviewers', reviewersRouter);
+    app.use('/api/reviews', reviewsRouter);
+    app.use('/api/progress', progressRouter);
+    app.use('/api/assignments', assignmentsRouter);
+    app.use('/api/rubrics', rubricsRouter);
+    app.use('/api/interview-targets', interviewTargetsRouter);
+    app.use('/api/cycles', cyclesRouter);
+    app.use('/api/audit', auditRouter);
+    app.use('/api/export', exportRouter);
+    app.use('/api/rank-list', rankListRouter);
+    app.use('/api/interviews', interviewsRouter);
+    app.use('/api/interview-evaluations', interviewEvaluationsRouter);
+}
+
+// Base paths of the mounted routers, for the root endpoint
+export const API_ENDPOINTS = {
+    auth: '/api/auth',
+    applicants: '/api/applicants',
+    documents: '/api/applicants/:applicantId/documents',
+    reviewers: '/api/reviewers',
+    reviews: '/api/reviews',
+    progress: '/api/progress',
+    assignments: '/api/assignments',
+    rubrics: '/api/rubrics',
+    interviewTargets: '/api/interview-targets',
+    cycles: '/api/cycles',
+    audit: '/api/audit',
+    export: '/api/export',
+    rankList: '/api/rank-list',
+    interviews: '/api/interviews',
+    interviewEvaluations: '/api/interview-evaluations'
+};
+
+// Main routes listed by the 404 handlers
+export const AVAILABLE_ENDPOINTS = [
+    'POST /api/auth/login',
+    'GET /api/applicants',
+    'POST /api/applicants',
+    'GET /api/applicants/:applicantId/documents',
+    'GET /api/reviewers',
+    'POST /api/reviewers',
+    'GET /api/reviews',
+    'POST /api/reviews',
+    'GET /api/progress',
+    'GET /api/assignments',
+    'POST /api/assignments',
+    'GET /api/rubrics',
+    'GET /api/interview-targets',
+    'GET /api/cycles',
+    'GET /api/audit',
+    'GET /api/export/csv',
+    'GET /api/export/xlsx',
+    'GET /api/export/summary/pdf',
+    'GET /api/rank-list',
+    'GET /api/interviews',
+    'GET /api/interview-evaluations'
+];
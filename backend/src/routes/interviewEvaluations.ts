@@ -0,0 +1,174 @@
+import { Router, Request, Response } from 'express';
+import { ApplicantService } from '../services/applicantService';
+import { RubricService } from '../services/rubricService';
+import { InterviewScheduleService } from '../services/interviewScheduleService';
+import { InterviewEvaluationService } from '../services/interviewEvaluationService';
+import { AuditService } from '../services/auditService';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { resolveCycle, requireActiveCycle } from '../middleware/cycle';
+import { hasPermission } from '../config/permissions';
+import { ErrorResponse, SaveInterviewEvaluationRequest } from '../types';
+
+const router = Router();
+
+/**
+ * Check an optional expected_revision from a request body
+ */
+function isValidRevision(revision: unknown): boolean {
+    return revision === undefined || (Number.isInteger(revision) && (revision as number) >= 1);
+}
+
+// Every route below requires a signed-in reviewer
+router.use(requireAuth);
+
+// Routes work on the requested cycle (the active one by default); closed cycles are read-only
+router.use(resolveCycle, requireActiveCycle);
+
+/**
+ * GET /api/interview-evaluations/schedule
+ * The cycle's interview days with who is booked on each, for interviewers to pick whom to score
+ */
+router.get('/schedule', requirePermission('interviews:evaluate'), async (req: Request, res: Response) => {
+    try {
+        const schedule = await InterviewScheduleService.getSchedule(req.cycle!);
+        res.json({ success: true, data: schedule.dates });
+    } catch (error) {
+        console.error('GET /api/interview-evaluations/schedule error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to fetch interview schedule',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * GET /api/interview-evaluations
+ * Get the cycle's interview evaluations, filtered by applicant_id and interviewer_id
+ * Without reviews:read_all the results are limited to the caller's own evaluations
+ */
+router.get('/', async (req: Request, res: Response) => {
+    try {
+        const applicant_id = req.query.applicant_id as string | undefined;
+        const interviewer_id = hasPermission(req.reviewer!, 'reviews:read_all')
+            ? req.query.interviewer_id as string | undefined
+            : req.reviewer!.id;
+
+        const evaluations = await InterviewEvaluationService.getEvaluations(req.cycle!.id, {
+            ...(applicant_id ? { applicant_id } : {}),
+            ...(interviewer_id ? { interviewer_id } : {})
+        });
+        res.json({ success: true, data: evaluations, count: evaluations.length });
+    } catch (error) {
+        console.error('GET /api/interview-evaluations error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to fetch interview evaluations',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * PUT /api/interview-evaluations/:applicantId
+ * Save the caller's evaluation of a booked applicant, starting it on the active interview rubric if needed
+ * Scores are merged into the stored ones; send expected_revision to reject the save if it changed elsewhere
+ */
+router.put('/:applicantId', requirePermission('interviews:evaluate'), async (req: Request, res: Response) => {
+    try {
+        const { applicantId } = req.params;
+        const request: SaveInterviewEvaluationRequest = req.body || {};
+
+        if (request.recommendation !== undefined && !InterviewEvaluationService.RECOMMENDATIONS.includes(request.recommendation)) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: `recommendation must be one of: ${InterviewEvaluationService.RECOMMENDATIONS.join(', ')}`
+            });
+        }
+
+        if (request.notes !== undefined && typeof request.notes !== 'string') {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: 'notes must be a string'
+            });
+        }
+
+        if (!isValidRevision(request.expected_revision)) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: 'expected_revision must be a positive integer'
+            });
+        }
+
+        const applicant = await ApplicantService.getApplicantById(req.cycle!.id, applicantId);
+        if (!applicant) {
+            return res.status(404).json({
+                error: 'Applicant not found',
+                message: `No applicant found with ID: ${applicantId}`
+            });
+        }
+
+        const booking = await InterviewScheduleService.getBooking(req.cycle!.id, applicantId);
+        if (!booking) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: `${applicant.name} is not booked for an interview`
+            });
+        }
+
+        // New evaluations are scored against the active interview rubric; existing ones keep their own
+        const existing = await InterviewEvaluationService.getEvaluation(req.cycle!.id, applicantId, req.reviewer!.id);
+        const rubric = existing
+            ? await RubricService.getRubricById(existing.rubric_id)
+            : await RubricService.getActiveRubric('interview');
+        if (!rubric) {
+            return res.status(409).json({
+                error: 'Conflict',
+                message: existing
+                    ? 'The rubric this evaluation was scored under no longer exists'
+                    : 'No interview rubric is active. A program director must activate one before evaluations can be saved.'
+            });
+        }
+
+        const scoresError = RubricService.validateScores(rubric, request.scores ?? {});
+        if (scoresError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: scoresError
+            });
+        }
+
+        const evaluation = existing
+            ? await InterviewEvaluationService.updateEvaluation(existing, request, rubric)
+            : await InterviewEvaluationService.createEvaluation(req.cycle!.id, applicantId, req.reviewer!.id, request, rubric);
+        if (!evaluation) {
+            const current = await InterviewEvaluationService.getEvaluation(req.cycle!.id, applicantId, req.reviewer!.id);
+            const errorResponse: ErrorResponse = {
+                error: 'Conflict',
+                message: 'This evaluation was changed in another tab after you loaded it. Reload it, or resend with the current revision to overwrite.',
+                details: { current }
+            };
+            return res.status(409).json(errorResponse);
+        }
+
+        await AuditService.record(req.reviewer, {
+            action: existing ? 'update' : 'create',
+            entity_type: 'interview_evaluation',
+            entity_id: evaluation.id,
+            applicant_id: applicantId,
+            cycle_id: req.cycle!.id,
+            before: existing,
+            after: evaluation
+        });
+        res.status(existing ? 200 : 201).json({ success: true, data: evaluation });
+    } catch (error) {
+        console.error('PUT /api/interview-evaluations/:applicantId error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to save interview evaluation',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+export default router;
@@ -0,0 +1,94 @@
+import { Router, Request, Response } from 'express';
+import { InterviewTargetService } from '../services/interviewTargetService';
+import { AuditService } from '../services/auditService';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { resolveCycle, requireActiveCycle } from '../middleware/cycle';
+import { ApplicantCategory, SetInterviewTargetRequest, ErrorResponse } from '../types';
+
+const router = Router();
+
+const MAX_SLOTS = 1000;
+
+// Every route below requires a signed-in reviewer
+router.use(requireAuth);
+
+// Routes work on the requested cycle (the active one by default); closed cycles are read-only
+router.use(resolveCycle, requireActiveCycle);
+
+/**
+ * GET /api/interview-targets
+ * Get each category's interview target and remaining capacity in the cycle
+ */
+router.get('/', requirePermission('final_selections:read'), async (req: Request, res: Response) => {
+    try {
+        const capacity = await InterviewTargetService.getCapacity(req.cycle!);
+        res.json({ success: true, data: capacity });
+    } catch (error) {
+        console.error('GET /api/interview-targets error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to fetch interview targets',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * PUT /api/interview-targets/:category
+ * Set the number of interview slots for a category in the active cycle
+ */
+router.put('/:category', requirePermission('interview_targets:manage'), async (req: Request, res: Response) => {
+    try {
+        const category = req.params.category as ApplicantCategory;
+        const { slots, hard_limit }: SetInterviewTargetRequest = req.body || {};
+
+        if (!['regular', 'i-sub'].includes(category)) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: 'category must be regular or i-sub'
+            });
+        }
+
+        if (!Number.isInteger(slots) || slots < 0 || slots > MAX_SLOTS) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: `slots must be an integer between 0 and ${MAX_SLOTS}`
+            });
+        }
+
+        if (hard_limit !== undefined && typeof hard_limit !== 'boolean') {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: 'hard_limit must be true or false'
+            });
+        }
+
+        const existing = (await InterviewTargetService.getTargets(req.cycle!.id)).find(t => t.category === category);
+        // Leaving hard_limit out keeps the stored setting, so a slots-only update cannot switch the limit off
+        const target = await InterviewTargetService.setTarget(
+            req.cycle!.id,
+            category,
+            slots,
+            hard_limit ?? existing?.hard_limit ?? false,
+            req.reviewer!.id
+        );
+        await AuditService.record(req.reviewer, {
+            action: existing ? 'update' : 'create',
+            entity_type: 'interview_target',
+            entity_id: target.id,
+            cycle_id: target.cycle_id,
+            before: existing,
+            after: target
+        });
+        res.json({ success: true, data: target });
+    } catch (error) {
+        console.error('PUT /api/interview-targets/:category error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to set interview target',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+export default router;
@@ -0,0 +1,446 @@
+import { Router, Request, Response } from 'express';
+import { ApplicantService } from '../services/applicantService';
+import { ReviewService } from '../services/reviewService';
+import { InterviewScheduleService } from '../services/interviewScheduleService';
+import { AuditService } from '../services/auditService';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { resolveCycle, requireActiveCycle } from '../middleware/cycle';
+import { BookInterviewRequest, ErrorResponse, InterviewDateRequest } from '../types';
+
+const router = Router();
+
+const MAX_CAPACITY = 1000;
+const MAX_LOCATION_LENGTH = 255;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+
+/**
+ * Check an interview date request, returning an error message or null if valid
+ */
+function validateDateRequest(body: InterviewDateRequest): string | null {
+    const { interview_date, start_time, end_time, capacity, location, notes } = body;
+
+    if (typeof interview_date !== 'string' || !DATE_PATTERN.test(interview_date) ||
+        new Date(`${interview_date}T00:00:00Z`).toISOString().slice(0, 10) !== interview_date) {
+        return 'interview_date must be a date in YYYY-MM-DD format';
+    }
+
+    if (!Number.isInteger(capacity) || capacity < 1 || capacity > MAX_CAPACITY) {
+        return `capacity must be an integer between 1 and ${MAX_CAPACITY}`;
+    }
+
+    const hasStart = start_time !== undefined && start_time !== null && start_time !== '';
+    const hasEnd = end_time !== undefined && end_time !== null && end_time !== '';
+    if (hasStart !== hasEnd) {
+        return 'Give both start_time and end_time, or neither for an all-day interview';
+    }
+    if (hasStart && (typeof start_time !== 'string' || typeof end_time !== 'string' ||
+        !TIME_PATTERN.test(start_time) || !TIME_PATTERN.test(end_time))) {
+        return 'start_time and end_time must be times in HH:MM format';
+    }
+    if (hasStart && start_time!.padEnd(8, ':00') >= end_time!.padEnd(8, ':00')) {
+        return 'end_time must be after start_time';
+    }
+
+    if (location !== undefined && location !== null && (typeof location !== 'string' || location.length > MAX_LOCATION_LENGTH)) {
+        return `location must be text of at most ${MAX_LOCATION_LENGTH} characters`;
+    }
+
+    if (notes !== undefined && notes !== null && typeof notes !== 'string') {
+        return 'notes must be text';
+    }
+
+    return null;
+}
+
+// Every route below requires a signed-in reviewer
+router.use(requireAuth);
+
+// Routes work on the requested cycle (the active one by default); closed cycles are read-only
+router.use(resolveCycle, requireActiveCycle);
+
+/**
+ * GET /api/interviews
+ * Get the cycle's interview dates with their bookings, the Selected applicants without a date,
+ * and the places on offer against the interview targets
+ */
+router.get('/', requirePermission('final_selections:read'), async (req: Request, res: Response) => {
+    try {
+        const schedule = await InterviewScheduleService.getSchedule(req.cycle!);
+        res.json({ success: true, data: schedule });
+    } catch (error) {
+        console.error('GET /api/interviews error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to fetch interview schedule',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * POST /api/interviews/dates
+ * Add an interview date to the active cycle
+ */
+router.post('/dates', requirePermission('interviews:manage'), async (req: Request, res: Response) => {
+    try {
+        const body: InterviewDateRequest = req.body || {};
+
+        const validationError = validateDateRequest(body);
+        if (validationError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: validationError
+            });
+        }
+
+        const dates = await InterviewScheduleService.getDates(req.cycle!.id);
+        const capacityCheck = await InterviewScheduleService.checkCapacity(
+            req.cycle!,
+            dates.reduce((sum, date) => sum + date.capacity, 0) + body.capacity
+        );
+        if (capacityCheck?.blocked) {
+            return res.status(409).json({
+                error: 'Interview targets reached',
+                message: capacityCheck.message
+            });
+        }
+
+        const date = await InterviewScheduleService.createDate(req.cycle!.id, body, req.reviewer!.id);
+        if (!date) {
+            return res.status(409).json({
+                error: 'Interview date exists',
+                message: `${req.cycle!.name} already has an interview date on ${body.interview_date}`
+            });
+        }
+        await AuditService.record(req.reviewer, {
+            action: 'create',
+            entity_type: 'interview_date',
+            entity_id: date.id,
+            cycle_id: date.cycle_id,
+            before: null,
+            after: date
+        });
+        res.status(201).json({ success: true, data: date, ...(capacityCheck ? { warning: capacityCheck.message } : {}) });
+    } catch (error) {
+        console.error('POST /api/interviews/dates error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to create interview date',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * PUT /api/interviews/dates/:dateId
+ * Change an interview date's day, times, capacity, location or notes; bookings stay with it
+ */
+router.put('/dates/:dateId', requirePermission('interviews:manage'), async (req: Request, res: Response) => {
+    try {
+        const { dateId } = req.params;
+        const body: InterviewDateRequest = req.body || {};
+
+        const validationError = validateDateRequest(body);
+        if (validationError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: validationError
+            });
+        }
+
+        const [dates, bookings] = await Promise.all([
+            InterviewScheduleService.getDates(req.cycle!.id),
+            InterviewScheduleService.getBookings(req.cycle!.id)
+        ]);
+        const existing = dates.find(date => date.id === dateId);
+        if (!existing) {
+            return res.status(404).json({
+                error: 'Interview date not found',
+                message: `No interview date with ID ${dateId} in ${req.cycle!.name}`
+            });
+        }
+
+        const booked = bookings.filter(booking => booking.interview_date_id === dateId).length;
+        if (body.capacity < booked) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: `${booked} applicants are already booked on this date; move some before lowering its capacity to ${body.capacity}`
+            });
+        }
+
+        const capacityCheck = await InterviewScheduleService.checkCapacity(
+            req.cycle!,
+            dates.reduce((sum, date) => sum + (date.id === dateId ? body.capacity : date.capacity), 0)
+        );
+        if (capacityCheck?.blocked && body.capacity > existing.capacity) {
+            return res.status(409).json({
+                error: 'Interview targets reached',
+                message: capacityCheck.message
+            });
+        }
+
+        const date = await InterviewScheduleService.updateDate(dateId, body, req.reviewer!.id);
+        if (!date) {
+            return res.status(409).json({
+                error: 'Interview date exists',
+                message: `${req.cycle!.name} already has an interview date on ${body.interview_date}`
+            });
+        }
+        await AuditService.record(req.reviewer, {
+            action: 'update',
+            entity_type: 'interview_date',
+            entity_id: date.id,
+            cycle_id: date.cycle_id,
+            before: existing,
+            after: date
+        });
+        res.json({ success: true, data: date, ...(capacityCheck ? { warning: capacityCheck.message } : {}) });
+    } catch (error) {
+        console.error('PUT /api/interviews/dates/:dateId error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to update interview date',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * DELETE /api/interviews/dates/:dateId
+ * Remove an interview date that has no bookings
+ */
+router.delete('/dates/:dateId', requirePermission('interviews:manage'), async (req: Request, res: Response) => {
+    try {
+        const { dateId } = req.params;
+
+        const [dates, bookings] = await Promise.all([
+            InterviewScheduleService.getDates(req.cycle!.id),
+            InterviewScheduleService.getBookings(req.cycle!.id)
+        ]);
+        const existing = dates.find(date => date.id === dateId);
+        if (!existing) {
+            return res.status(404).json({
+                error: 'Interview date not found',
+                message: `No interview date with ID ${dateId} in ${req.cycle!.name}`
+            });
+        }
+
+        const booked = bookings.filter(booking => booking.interview_date_id === dateId).length;
+        if (booked > 0) {
+            return res.status(409).json({
+                error: 'Interview date has bookings',
+                message: `Move or cancel the ${booked} bookings on ${existing.interview_date} before deleting it`
+            });
+        }
+
+        await InterviewScheduleService.deleteDate(dateId);
+        await AuditService.record(req.reviewer, {
+            action: 'delete',
+            entity_type: 'interview_date',
+            entity_id: existing.id,
+            cycle_id: existing.cycle_id,
+            before: existing,
+            after: null
+        });
+        res.json({ success: true, message: 'Interview date deleted successfully' });
+    } catch (error) {
+        console.error('DELETE /api/interviews/dates/:dateId error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to delete interview date',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * PUT /api/interviews/bookings/:applicantId
+ * Book a Selected applicant on a date, or move their booking to another one
+ */
+router.put('/bookings/:applicantId', requirePermission('interviews:manage'), async (req: Request, res: Response) => {
+    try {
+        const { applicantId } = req.params;
+        const { interview_date_id }: BookInterviewRequest = req.body || {};
+
+        if (typeof interview_date_id !== 'string' || !interview_date_id) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: 'interview_date_id is required'
+            });
+        }
+
+        const [applicant, selection, dates, bookings] = await Promise.all([
+            ApplicantService.getApplicantById(req.cycle!.id, applicantId),
+            ReviewService.getFinalSelection(req.cycle!.id, applicantId),
+            InterviewScheduleService.getDates(req.cycle!.id),
+            InterviewScheduleService.getBookings(req.cycle!.id)
+        ]);
+
+        if (!applicant) {
+            return res.status(404).json({
+                error: 'Applicant not found',
+                message: `No applicant with ID ${applicantId} in ${req.cycle!.name}`
+            });
+        }
+
+        const date = dates.find(d => d.id === interview_date_id);
+        if (!date) {
+            return res.status(404).json({
+                error: 'Interview date not found',
+                message: `No interview date with ID ${interview_date_id} in ${req.cycle!.name}`
+            });
+        }
+
+        if (selection?.admin_decision !== 'Selected') {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: `${applicant.name} has not been Selected for interview`
+            });
+        }
+
+        const existing = bookings.find(booking => booking.applicant_id === applicantId) ?? null;
+        const booked = bookings.filter(booking =>
+            booking.interview_date_id === date.id && booking.applicant_id !== applicantId).length;
+        if (booked >= date.capacity) {
+            return res.status(409).json({
+                error: 'Interview date full',
+                message: `All ${date.capacity} places on ${date.interview_date} are booked`
+            });
+        }
+
+        const booking = await InterviewScheduleService.bookApplicant(req.cycle!.id, applicantId, date.id, req.reviewer!.id);
+        if (!booking) {
+            return res.status(409).json({
+                error: 'Interview date full',
+                message: `All ${date.capacity} places on ${date.interview_date} are booked`
+            });
+        }
+
+        await AuditService.record(req.reviewer, {
+            action: existing ? 'update' : 'create',
+            entity_type: 'interview_booking',
+            entity_id: booking.id,
+            applicant_id: booking.applicant_id,
+            cycle_id: booking.cycle_id,
+            before: existing,
+            after: booking
+        });
+        res.json({ success: true, data: booking });
+    } catch (error) {
+        console.error('PUT /api/interviews/bookings/:applicantId error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to book interview',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * DELETE /api/interviews/bookings/:applicantId
+ * Cancel an applicant's booking
+ */
+router.delete('/bookings/:applicantId', requirePermission('interviews:manage'), async (req: Request, res: Response) => {
+    try {
+        const { applicantId } = req.params;
+
+        const existing = await InterviewScheduleService.getBooking(req.cycle!.id, applicantId);
+        if (!existing) {
+            return res.status(404).json({
+                error: 'Booking not found',
+                message: `Applicant ${applicantId} has no interview booked in ${req.cycle!.name}`
+            });
+        }
+
+        await InterviewScheduleService.cancelBooking(existing.id);
+        await AuditService.record(req.reviewer, {
+            action: 'delete',
+            entity_type: 'interview_booking',
+            entity_id: existing.id,
+            applicant_id: existing.applicant_id,
+            cycle_id: existing.cycle_id,
+            before: existing,
+            after: null
+        });
+        res.json({ success: true, message: 'Interview booking cancelled successfully' });
+    } catch (error) {
+        console.error('DELETE /api/interviews/bookings/:applicantId error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to cancel interview booking',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * GET /api/interviews/dates/:dateId/ics
+ * Calendar event for an interview day listing who is booked on it
+ */
+router.get('/dates/:dateId/ics', requirePermission('final_selections:read'), async (req: Request, res: Response) => {
+    try {
+        const { dateId } = req.params;
+
+        const schedule = await InterviewScheduleService.getSchedule(req.cycle!);
+        const date = schedule.dates.find(d => d.id === dateId);
+        if (!date) {
+            return res.status(404).json({
+                error: 'Interview date not found',
+                message: `No interview date with ID ${dateId} in ${req.cycle!.name}`
+            });
+        }
+
+        const calendar = InterviewScheduleService.dateCalendar(req.cycle!, date);
+
+        res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(`urology_interviews_${date.interview_date}.ics`)}`);
+        res.send(calendar);
+    } catch (error) {
+        console.error('GET /api/interviews/dates/:dateId/ics error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to export interview date',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * GET /api/interviews/applicants/:applicantId/ics
+ * Calendar event for an applicant's booked interview
+ */
+router.get('/applicants/:applicantId/ics', requirePermission('final_selections:read'), async (req: Request, res: Response) => {
+    try {
+        const { applicantId } = req.params;
+
+        const [applicant, booking, dates] = await Promise.all([
+            ApplicantService.getApplicantById(req.cycle!.id, applicantId),
+            InterviewScheduleService.getBooking(req.cycle!.id, applicantId),
+            InterviewScheduleService.getDates(req.cycle!.id)
+        ]);
+        const date = booking ? dates.find(d => d.id === booking.interview_date_id) : undefined;
+        if (!applicant || !booking || !date) {
+            return res.status(404).json({
+                error: 'Booking not found',
+                message: `Applicant ${applicantId} has no interview booked in ${req.cycle!.name}`
+            });
+        }
+
+        const calendar = InterviewScheduleService.applicantCalendar(req.cycle!, date, booking, applicant.name);
+
+        res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(`interview_${applicant.name}.ics`)}`);
+        res.send(calendar);
+    } catch (error) {
+        console.error('GET /api/interviews/applicants/:applicantId/ics error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to export interview booking',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+export default router;
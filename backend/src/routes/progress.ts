@@ -1,16 +1,25 @@
 import { Router, Request, Response } from 'express';
 import { ProgressService } from '../services/progressService';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { resolveCycle } from '../middleware/cycle';
+import { hasPermission } from '../config/permissions';
 import { ErrorResponse } from '../types';
 
 const router = Router();
 
+// Every route below requires a signed-in reviewer
+router.use(requireAuth);
+
+// Progress is reported for the requested cycle (the active one by default)
+router.use(resolveCycle);
+
 /**
  * GET /api/progress
  * Get complete progress information
  */
-router.get('/', async (req: Request, res: Response) => {
+router.get('/', requirePermission('progress:read_all'), async (req: Request, res: Response) => {
     try {
-        const progress = await ProgressService.getCompleteProgress();
+        const progress = await ProgressService.getCompleteProgress(req.cycle!.id);
         res.json({ success: true, data: progress });
     } catch (error) {
         console.error('GET /api/progress error:', error);
@@ -26,9 +35,9 @@ router.get('/', async (req: Request, res: Response) => {
  * GET /api/progress/overall
  * Get overall progress statistics
  */
-router.get('/overall', async (req: Request, res: Response) => {
+router.get('/overall', requirePermission('progress:read_all'), async (req: Request, res: Response) => {
     try {
-        const overallProgress = await ProgressService.getOverallProgress();
+        const overallProgress = await ProgressService.getOverallProgress(req.cycle!.id);
         res.json({ success: true, data: overallProgress });
     } catch (error) {
         console.error('GET /api/progress/overall error:', error);
@@ -40,13 +49,31 @@ router.get('/overall', async (req: Request, res: Response) => {
     }
 });
 
+/**
+ * GET /api/progress/by-category
+ * Get progress broken down by applicant category
+ */
+router.get('/by-category', requirePermission('progress:read_all'), async (req: Request, res: Response) => {
+    try {
+        const categoryProgress = await ProgressService.getProgressByCategory(req.cycle!.id);
+        res.json({ success: true, data: categoryProgress });
+    } catch (error) {
+        console.error('GET /api/progress/by-category error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to fetch progress by category',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
 /**
  * GET /api/progress/by-reviewer
  * Get progress broken down by reviewer
  */
-router.get('/by-reviewer', async (req: Request, res: Response) => {
+router.get('/by-reviewer', requirePermission('progress:read_all'), async (req: Request, res: Response) => {
     try {
-        const reviewerProgress = await ProgressService.getProgressByReviewer();
+        const reviewerProgress = await ProgressService.getProgressByReviewer(req.cycle!.id);
         res.json({ success: true, data: reviewerProgress });
     } catch (error) {
         console.error('GET /api/progress/by-reviewer error:', error);
@@ -65,7 +92,17 @@ router.get('/by-reviewer', async (req: Request, res: Response) => {
 router.get('/reviewer/:reviewerName', async (req: Request, res: Response) => {
     try {
         const { reviewerName } = req.params;
+
+        // Reviewers may always see their own progress
+        if (decodeURIComponent(reviewerName) !== req.reviewer!.name && !hasPermission(req.reviewer!, 'progress:read_all')) {
+            return res.status(403).json({
+                error: 'Forbidden',
+                message: 'Reviewers can only view their own progress'
+            });
+        }
+
         const reviewerProgress = await ProgressService.getReviewerProgress(
+            req.cycle!.id,
             decodeURIComponent(reviewerName)
         );
 
@@ -91,9 +128,9 @@ router.get('/reviewer/:reviewerName', async (req: Request, res: Response) => {
  * GET /api/progress/dashboard
  * Get dashboard summary statistics
  */
-router.get('/dashboard', async (req: Request, res: Response) => {
+router.get('/dashboard', requirePermission('progress:read_all'), async (req: Request, res: Response) => {
     try {
-        const dashboardData = await ProgressService.getDashboardSummary();
+        const dashboardData = await ProgressService.getDashboardSummary(req.cycle!.id);
         res.json({ success: true, data: dashboardData });
     } catch (error) {
         console.error('GET /api/progress/dashboard error:', error);
@@ -109,12 +146,12 @@ router.get('/dashboard', async (req: Request, res: Response) => {
  * GET /api/progress/export/csv
  * Export progress data as CSV
  */
-router.get('/export/csv', async (req: Request, res: Response) => {
+router.get('/export/csv', requirePermission('data:export'), async (req: Request, res: Response) => {
     try {
-        const csvData = await ProgressService.exportProgressCSV();
+        const csvData = await ProgressService.exportProgressCSV(req.cycle!.id);
 
         res.setHeader('Content-Type', 'text/csv');
-        res.setHeader('Content-Disposition', 'attachment; filename=reviewer_progress.csv');
+        res.setHeader('Content-Disposition', `attachment; filename=reviewer_progress_${req.cycle!.name}.csv`);
         res.send(csvData);
     } catch (error) {
         console.error('GET /api/progress/export/csv error:', error);
@@ -130,9 +167,9 @@ router.get('/export/csv', async (req: Request, res: Response) => {
  * GET /api/progress/applicants-needing-reviews
  * Get applicants that still need reviews or final decisions
  */
-router.get('/applicants-needing-reviews', async (req: Request, res: Response) => {
+router.get('/applicants-needing-reviews', requirePermission('progress:read_all'), async (req: Request, res: Response) => {
     try {
-        const applicants = await ProgressService.getApplicantsNeedingReviews();
+        const applicants = await ProgressService.getApplicantsNeedingReviews(req.cycle!.id);
         res.json({ success: true, data: applicants, count: applicants.length });
     } catch (error) {
         console.error('GET /api/progress/applicants-needing-reviews error:', error);
@@ -148,20 +185,20 @@ router.get('/applicants-needing-reviews', async (req: Request, res: Response) =>
  * GET /api/progress/stats
  * Get detailed statistics for admin dashboard
  */
-router.get('/stats', async (req: Request, res: Response) => {
+router.get('/stats', requirePermission('progress:read_all'), async (req: Request, res: Response) => {
     try {
         const [complete, dashboard, needingReviews] = await Promise.all([
-            ProgressService.getCompleteProgress(),
-            ProgressService.getDashboardSummary(),
-            ProgressService.getApplicantsNeedingReviews()
+            ProgressService.getCompleteProgress(req.cycle!.id),
+            ProgressService.getDashboardSummary(req.cycle!.id),
+            ProgressService.getApplicantsNeedingReviews(req.cycle!.id)
         ]);
 
         const stats = {
             progress: complete,
             dashboard,
             applicantsNeedingReviews: needingReviews.length,
-            completionRate: dashboard.totalApplicants > 0
-                ? Math.round((dashboard.completedReviews / (dashboard.totalApplicants * dashboard.totalReviewers)) * 100)
+            completionRate: dashboard.totalAssignments > 0
+                ? Math.round((dashboard.completedReviews / dashboard.totalAssignments) * 100)
                 : 0,
             decisionRate: dashboard.totalApplicants > 0
                 ? Math.round((dashboard.finalizedDecisions / dashboard.totalApplicants) * 100)
@@ -0,0 +1,332 @@
+import { Router, Request, Response } from 'express';
+import { ApplicantService } from '../services/applicantService';
+import { RankListService } from '../services/rankListService';
+import { ReportService } from '../services/reportService';
+import { AuditService } from '../services/auditService';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { resolveCycle, requireActiveCycle } from '../middleware/cycle';
+import { DatabaseRankList, ErrorResponse, RankListEntry, UpdateRankListRequest } from '../types';
+
+const router = Router();
+
+const MAX_LABEL_LENGTH = 200;
+
+const CONFLICT_MESSAGE = 'The rank list was changed by someone else after you loaded it. Reload it, or resend with the current revision to overwrite.';
+
+/**
+ * Check an optional expected_revision from a request body
+ */
+function isValidRevision(revision: unknown): boolean {
+    return revision === undefined || (Number.isInteger(revision) && (revision as number) >= 1);
+}
+
+function isEntry(entry: unknown): entry is RankListEntry {
+    return typeof entry === 'object' && entry !== null &&
+        typeof (entry as RankListEntry).applicant_id === 'string' &&
+        typeof (entry as RankListEntry).locked === 'boolean';
+}
+
+/**
+ * Send the 409 for a write that lost to someone else's, with the list as it now stands
+ */
+async function sendConflict(req: Request, res: Response): Promise<void> {
+    const current = await RankListService.getRankList(req.cycle!.id);
+    const errorResponse: ErrorResponse = {
+        error: 'Conflict',
+        message: CONFLICT_MESSAGE,
+        details: { current: current ? await RankListService.withItems(current) : null }
+    };
+    res.status(409).json(errorResponse);
+}
+
+async function recordChange(req: Request, before: DatabaseRankList | null, after: DatabaseRankList): Promise<void> {
+    await AuditService.record(req.reviewer, {
+        action: before ? 'update' : 'create',
+        entity_type: 'rank_list',
+        entity_id: after.id,
+        cycle_id: after.cycle_id,
+        before,
+        after
+    });
+}
+
+// Every route below requires a signed-in reviewer
+router.use(requireAuth);
+
+// Routes work on the requested cycle (the active one by default); closed cycles are read-only
+router.use(resolveCycle, requireActiveCycle);
+
+/**
+ * GET /api/rank-list
+ * Get the cycle's rank order list, or null if none has been started
+ */
+router.get('/', requirePermission('final_selections:read'), async (req: Request, res: Response) => {
+    try {
+        const rankList = await RankListService.getRankList(req.cycle!.id);
+        res.json({ success: true, data: rankList ? await RankListService.withItems(rankList) : null });
+    } catch (error) {
+        console.error('GET /api/rank-list error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to fetch rank list',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * PUT /api/rank-list
+ * Replace the list's order and locks; locked entries cannot change position
+ */
+router.put('/', requirePermission('rank_list:manage'), async (req: Request, res: Response) => {
+    try {
+        const { entries, expected_revision }: UpdateRankListRequest = req.body || {};
+
+        if (!Array.isArray(entries) || !entries.every(isEntry)) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: 'entries must be a list of { applicant_id, locked } in rank order'
+            });
+        }
+
+        if (!isValidRevision(expected_revision)) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: 'expected_revision must be a positive integer'
+            });
+        }
+
+        const [existing, applicants] = await Promise.all([
+            RankListService.getRankList(req.cycle!.id),
+            ApplicantService.getAllApplicants(req.cycle!.id)
+        ]);
+
+        const entriesError = RankListService.validateEntries(entries, existing, applicants);
+        if (entriesError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: entriesError
+            });
+        }
+
+        const rankList = await RankListService.saveRankList(req.cycle!.id, entries, existing, expected_revision, req.reviewer!.id);
+        if (!rankList) {
+            return await sendConflict(req, res);
+        }
+        await recordChange(req, existing, rankList);
+        res.json({ success: true, data: await RankListService.withItems(rankList) });
+    } catch (error) {
+        console.error('PUT /api/rank-list error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to save rank list',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * POST /api/rank-list/seed
+ * Rebuild the list from applicants Selected for interview, interviewed applicants first by interview score, keeping locked entries in place
+ */
+router.post('/seed', requirePermission('rank_list:manage'), async (req: Request, res: Response) => {
+    try {
+        const { expected_revision } = req.body || {};
+
+        if (!isValidRevision(expected_revision)) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: 'expected_revision must be a positive integer'
+            });
+        }
+
+        const existing = await RankListService.getRankList(req.cycle!.id);
+        const entries = await RankListService.seedEntries(req.cycle!.id, existing?.entries ?? []);
+
+        const rankList = await RankListService.saveRankList(req.cycle!.id, entries, existing, expected_revision, req.reviewer!.id);
+        if (!rankList) {
+            return await sendConflict(req, res);
+        }
+        await recordChange(req, existing, rankList);
+        res.json({ success: true, data: await RankListService.withItems(rankList) });
+    } catch (error) {
+        console.error('POST /api/rank-list/seed error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to seed rank list',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * GET /api/rank-list/versions
+ * Get every snapshot of the list, newest first
+ */
+router.get('/versions', requirePermission('final_selections:read'), async (req: Request, res: Response) => {
+    try {
+        const rankList = await RankListService.getRankList(req.cycle!.id);
+        const versions = rankList ? await RankListService.getVersions(rankList.id) : [];
+        res.json({ success: true, data: versions, count: versions.length });
+    } catch (error) {
+        console.error('GET /api/rank-list/versions error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to fetch rank list versions',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * POST /api/rank-list/versions
+ * Snapshot the list as it stands, with an optional label such as "After March meeting"
+ */
+router.post('/versions', requirePermission('rank_list:manage'), async (req: Request, res: Response) => {
+    try {
+        const { label } = req.body || {};
+
+        if (label !== undefined && (typeof label !== 'string' || label.trim().length > MAX_LABEL_LENGTH)) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: `label must be text of at most ${MAX_LABEL_LENGTH} characters`
+            });
+        }
+
+        const rankList = await RankListService.getRankList(req.cycle!.id);
+        if (!rankList) {
+            return res.status(404).json({
+                error: 'Rank list not found',
+                message: 'Start the rank list before saving a version of it'
+            });
+        }
+
+        const version = await RankListService.createVersion(rankList, label?.trim() || undefined, req.reviewer!.id);
+        await AuditService.record(req.reviewer, {
+            action: 'create',
+            entity_type: 'rank_list_version',
+            entity_id: version.id,
+            cycle_id: rankList.cycle_id,
+            after: version
+        });
+        res.status(201).json({ success: true, data: version });
+    } catch (error) {
+        console.error('POST /api/rank-list/versions error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to save rank list version',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * POST /api/rank-list/versions/:version/restore
+ * Put the list back the way it was in a snapshot; applicants deleted since are left out
+ */
+router.post('/versions/:version/restore', requirePermission('rank_list:manage'), async (req: Request, res: Response) => {
+    try {
+        const versionNumber = Number(req.params.version);
+        const { expected_revision } = req.body || {};
+
+        if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: 'version must be a positive integer'
+            });
+        }
+
+        if (!isValidRevision(expected_revision)) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: 'expected_revision must be a positive integer'
+            });
+        }
+
+        const existing = await RankListService.getRankList(req.cycle!.id);
+        const version = existing ? await RankListService.getVersion(existing.id, versionNumber) : null;
+        if (!existing || !version) {
+            return res.status(404).json({
+                error: 'Version not found',
+                message: `Rank list has no version ${versionNumber}`
+            });
+        }
+
+        const applicantIds = new Set((await ApplicantService.getAllApplicants(req.cycle!.id)).map(applicant => applicant.id));
+        const entries = version.entries.filter(entry => applicantIds.has(entry.applicant_id));
+
+        const rankList = await RankListService.saveRankList(req.cycle!.id, entries, existing, expected_revision, req.reviewer!.id);
+        if (!rankList) {
+            return await sendConflict(req, res);
+        }
+        await recordChange(req, existing, rankList);
+        res.json({ success: true, data: await RankListService.withItems(rankList) });
+    } catch (error) {
+        console.error('POST /api/rank-list/versions/:version/restore error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to restore rank list',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * GET /api/rank-list/export/csv
+ * Export the list for match submission
+ */
+router.get('/export/csv', requirePermission('data:export'), async (req: Request, res: Response) => {
+    try {
+        const rankList = await RankListService.getRankList(req.cycle!.id);
+        if (!rankList) {
+            return res.status(404).json({
+                error: 'Rank list not found',
+                message: `No rank list has been started for ${req.cycle!.name}`
+            });
+        }
+
+        const csvData = RankListService.exportCSV(await RankListService.withItems(rankList));
+
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(`urology_rank_list_${req.cycle!.name}.csv`)}`);
+        res.send(csvData);
+    } catch (error) {
+        console.error('GET /api/rank-list/export/csv error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to export rank list',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * GET /api/rank-list/export/pdf
+ * Printable copy of the list
+ */
+router.get('/export/pdf', requirePermission('data:export'), async (req: Request, res: Response) => {
+    try {
+        const rankList = await RankListService.getRankList(req.cycle!.id);
+        if (!rankList) {
+            return res.status(404).json({
+                error: 'Rank list not found',
+                message: `No rank list has been started for ${req.cycle!.name}`
+            });
+        }
+
+        const pdf = await ReportService.rankListPDF(req.cycle!, await RankListService.withItems(rankList));
+
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(`urology_rank_list_${req.cycle!.name}.pdf`)}`);
+        res.send(pdf);
+    } catch (error) {
+        console.error('GET /api/rank-list/export/pdf error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to print rank list',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+export default router;
@@ -1,9 +1,30 @@
 import { Router, Request, Response } from 'express';
 import { ReviewerService } from '../services/reviewerService';
-import { ErrorResponse } from '../types';
+import { AuditService } from '../services/auditService';
+import { AuthService } from '../services/authService';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { REVIEWER_ROLES, isReviewerRole } from '../config/permissions';
+import { CreateReviewerRequest, ErrorResponse, UpdateReviewerRequest } from '../types';
 
 const router = Router();
 
+/**
+ * Check optional role and capacity values from a request body
+ */
+function validateReviewerFields(fields: { role?: unknown; capacity_weight?: unknown }): string | null {
+    if (fields.role !== undefined && !isReviewerRole(fields.role)) {
+        return `role must be one of: ${REVIEWER_ROLES.join(', ')}`;
+    }
+    if (fields.capacity_weight !== undefined &&
+        (typeof fields.capacity_weight !== 'number' || fields.capacity_weight < 0 || fields.capacity_weight > 10)) {
+        return 'capacity_weight must be a number between 0 and 10';
+    }
+    return null;
+}
+
+// Every route below requires a signed-in reviewer
+router.use(requireAuth);
+
 /**
  * GET /api/reviewers
  * Get all reviewers
@@ -72,9 +93,10 @@ router.get('/:id', async (req: Request, res: Response): Promise<void> => {
  * POST /api/reviewers
  * Create a new reviewer
  */
-router.post('/', async (req: Request, res: Response) => {
+router.post('/', requirePermission('reviewers:manage'), async (req: Request, res: Response) => {
     try {
-        const reviewerData = req.body;
+        const { name, email, role, is_admin, medical_school, capacity_weight } = req.body;
+        const reviewerData: CreateReviewerRequest = { name, email, role, is_admin, medical_school, capacity_weight };
 
         // Basic validation
         if (!reviewerData.name) {
@@ -84,6 +106,14 @@ router.post('/', async (req: Request, res: Response) => {
             });
         }
 
+        const validationError = validateReviewerFields(reviewerData);
+        if (validationError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: validationError
+            });
+        }
+
         // Check if reviewer already exists
         const existing = await ReviewerService.getReviewerByName(reviewerData.name);
         if (existing) {
@@ -94,6 +124,12 @@ router.post('/', async (req: Request, res: Response) => {
         }
 
         const reviewer = await ReviewerService.createReviewer(reviewerData);
+        await AuditService.record(req.reviewer, {
+            action: 'create',
+            entity_type: 'reviewer',
+            entity_id: reviewer.id,
+            after: reviewer
+        });
         res.status(201).json({ success: true, data: reviewer });
     } catch (error) {
         console.error('POST /api/reviewers error:', error);
@@ -109,10 +145,26 @@ router.post('/', async (req: Request, res: Response) => {
  * PUT /api/reviewers/:id
  * Update a reviewer
  */
-router.put('/:id', async (req: Request, res: Response) => {
+router.put('/:id', requirePermission('reviewers:manage'), async (req: Request, res: Response) => {
     try {
         const { id } = req.params;
-        const updates = req.body;
+
+        // Only copy known fields so callers cannot overwrite ids or site_name
+        const updates: UpdateReviewerRequest = {};
+        if (req.body.name !== undefined) updates.name = req.body.name;
+        if (req.body.email !== undefined) updates.email = req.body.email;
+        if (req.body.role !== undefined) updates.role = req.body.role;
+        if (req.body.is_admin !== undefined) updates.is_admin = req.body.is_admin;
+        if (req.body.medical_school !== undefined) updates.medical_school = req.body.medical_school;
+        if (req.body.capacity_weight !== undefined) updates.capacity_weight = req.body.capacity_weight;
+
+        const validationError = validateReviewerFields(updates);
+        if (validationError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: validationError
+            });
+        }
 
         // Check if reviewer exists
         const existing = await ReviewerService.getReviewerById(id);
@@ -124,6 +176,13 @@ router.put('/:id', async (req: Request, res: Response) => {
         }
 
         const updatedReviewer = await ReviewerService.updateReviewer(id, updates);
+        await AuditService.record(req.reviewer, {
+            action: 'update',
+            entity_type: 'reviewer',
+            entity_id: id,
+            before: existing,
+            after: updatedReviewer
+        });
         res.json({ success: true, data: updatedReviewer });
     } catch (error) {
         console.error('PUT /api/reviewers/:id error:', error);
@@ -135,11 +194,51 @@ router.put('/:id', async (req: Request, res: Response) => {
     }
 });
 
+/**
+ * POST /api/reviewers/:id/temporary-password
+ * Give a reviewer a new random password to hand over; they change it after signing in
+ * Also ends the reviewer's sessions, so it doubles as a reset for a forgotten or leaked password
+ */
+router.post('/:id/temporary-password', requirePermission('reviewers:manage'), async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+
+        const reviewer = await ReviewerService.getReviewerById(id);
+        if (!reviewer) {
+            return res.status(404).json({
+                error: 'Reviewer not found',
+                message: `No reviewer found with ID: ${id}`
+            });
+        }
+
+        const password = await AuthService.issueTemporaryPassword(reviewer.id);
+
+        // Hashes never go into the audit log; the entry only records that the password changed
+        await AuditService.record(req.reviewer, {
+            action: 'update',
+            entity_type: 'password',
+            entity_id: reviewer.id
+        });
+        res.json({
+            success: true,
+            message: `Give this password to ${reviewer.name}; it is not shown again`,
+            data: { temporary_password: password }
+        });
+    } catch (error) {
+        console.error('POST /api/reviewers/:id/temporary-password error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to issue temporary password',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
 /**
  * DELETE /api/reviewers/:id
  * Delete a reviewer
  */
-router.delete('/:id', async (req: Request, res: Response) => {
+router.delete('/:id', requirePermission('reviewers:manage'), async (req: Request, res: Response) => {
     try {
         const { id } = req.params;
 
@@ -153,6 +252,12 @@ router.delete('/:id', async (req: Request, res: Response) => {
         }
 
         await ReviewerService.deleteReviewer(id);
+        await AuditService.record(req.reviewer, {
+            action: 'delete',
+            entity_type: 'reviewer',
+            entity_id: id,
+            before: existing
+        });
         res.json({
             success: true,
             message: 'Reviewer deleted successfully'
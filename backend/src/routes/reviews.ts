@@ -1,28 +1,80 @@
 import { Router, Request, Response } from 'express';
 import { ReviewService } from '../services/reviewService';
+import { RubricService } from '../services/rubricService';
+import { CalibrationService } from '../services/calibrationService';
+import { ApplicantService } from '../services/applicantService';
+import { InterviewTargetService } from '../services/interviewTargetService';
+import { AuditService } from '../services/auditService';
+import { ReviewVersionService } from '../services/reviewVersionService';
+import { InterviewEvaluationService } from '../services/interviewEvaluationService';
+import { InterviewScheduleService } from '../services/interviewScheduleService';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { resolveCycle, requireActiveCycle } from '../middleware/cycle';
+import { hasPermission } from '../config/permissions';
+import { pageInfo, pageItems, parseListQuery, parseScoreRange, sortItems } from '../utils/listQuery';
 import {
     CreateReviewRequest,
     UpdateReviewRequest,
     CreateFinalSelectionRequest,
+    AdminDecision,
+    ApplicantCategory,
+    DecisionType,
+    RankingMode,
+    FinalSelectionWithInterviews,
     ErrorResponse
 } from '../types';
 
 const router = Router();
 
+const MAX_SELECTION_REASON_LENGTH = 2000;
+
+const ADMIN_DECISIONS: AdminDecision[] = ['Selected', 'Not Selected', 'Waitlisted', 'Pending'];
+
+const FINAL_SELECTION_SORT_FIELDS = [
+    'raw_rank',
+    'normalized_rank',
+    'average_score',
+    'raw_average_score',
+    'normalized_score',
+    'reviewer_count',
+    'interview_score',
+    'interview_count',
+    'admin_decision',
+    'decided_at',
+    'name'
+];
+
+/**
+ * Check an optional expected_revision from a request body
+ */
+function isValidRevision(revision: unknown): boolean {
+    return revision === undefined || (Number.isInteger(revision) && (revision as number) >= 1);
+}
+
+// Every route below requires a signed-in reviewer
+router.use(requireAuth);
+
+// Routes work on the requested cycle (the active one by default); closed cycles are read-only
+router.use(resolveCycle, requireActiveCycle);
+
 /**
  * GET /api/reviews
- * Get all reviews (optionally filtered by query params)
+ * Get the cycle's reviews with their applicants, every one unless a limit is given
+ * Filter by applicant_id, reviewer_name, decision, category and min_score/max_score, search applicants with q,
+ * sort by created_at (default) or other fields, page with limit and cursor
+ * Without reviews:read_all the results are limited to the caller's own reviews
+ * With both applicant_id and reviewer_name the single matching review is returned instead of a list
  */
 router.get('/', async (req: Request, res: Response) => {
     try {
-        const { applicant_id, reviewer_name } = req.query;
+        const applicant_id = req.query.applicant_id as string | undefined;
+        const reviewer_name = hasPermission(req.reviewer!, 'reviews:read_all')
+            ? req.query.reviewer_name as string | undefined
+            : req.reviewer!.name;
 
         if (applicant_id && reviewer_name) {
             // Get specific review
-            const review = await ReviewService.getReview(
-                applicant_id as string,
-                reviewer_name as string
-            );
+            const review = await ReviewService.getReview(req.cycle!.id, applicant_id, reviewer_name);
             if (!review) {
                 return res.status(404).json({
                     error: 'Review not found',
@@ -30,19 +82,48 @@ router.get('/', async (req: Request, res: Response) => {
                 });
             }
             return res.json({ success: true, data: review });
-        } else if (applicant_id) {
-            // Get all reviews for an applicant
-            const reviews = await ReviewService.getReviewsForApplicant(applicant_id as string);
-            return res.json({ success: true, data: reviews });
-        } else if (reviewer_name) {
-            // Get all reviews by a reviewer
-            const reviews = await ReviewService.getReviewsByReviewer(reviewer_name as string);
-            return res.json({ success: true, data: reviews });
-        } else {
-            // Get all reviews with applicant info
-            const reviews = await ReviewService.getAllReviewsWithApplicants();
-            return res.json({ success: true, data: reviews });
         }
+
+        const parsed = parseListQuery(req.query, ReviewService.SORT_FIELDS, [{ field: 'created_at', direction: 'asc' }]);
+        if ('error' in parsed) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: parsed.error
+            });
+        }
+
+        const scoreRange = parseScoreRange(req.query);
+        if ('error' in scoreRange) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: scoreRange.error
+            });
+        }
+
+        const decision = req.query.decision as DecisionType | undefined;
+        if (decision !== undefined && !ReviewService.DECISIONS.includes(decision)) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: `decision must be one of: ${ReviewService.DECISIONS.join(', ')}`
+            });
+        }
+
+        const category = req.query.category as ApplicantCategory | undefined;
+        if (category !== undefined && !['regular', 'i-sub'].includes(category)) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: 'category must be regular or i-sub'
+            });
+        }
+
+        const { reviews, total } = await ReviewService.listReviews(req.cycle!.id, {
+            ...(applicant_id ? { applicant_id } : {}),
+            ...(reviewer_name ? { reviewer_name } : {}),
+            ...(decision ? { decision } : {}),
+            ...(category ? { category } : {}),
+            ...scoreRange.range
+        }, parsed.listQuery);
+        res.json({ success: true, data: reviews, page: pageInfo(total, parsed.listQuery, reviews.length) });
     } catch (error) {
         console.error('GET /api/reviews error:', error);
         const errorResponse: ErrorResponse = {
@@ -60,8 +141,14 @@ router.get('/', async (req: Request, res: Response) => {
 router.get('/applicant/:applicantId', async (req: Request, res: Response) => {
     try {
         const { applicantId } = req.params;
-        const reviews = await ReviewService.getReviewsForApplicant(applicantId);
-        res.json({ success: true, data: reviews });
+        const reviews = await ReviewService.getReviewsForApplicant(req.cycle!.id, applicantId);
+
+        // Other reviewers' scores stay hidden without reviews:read_all
+        const visibleReviews = hasPermission(req.reviewer!, 'reviews:read_all')
+            ? reviews
+            : reviews.filter(review => review.reviewer_name === req.reviewer!.name);
+
+        res.json({ success: true, data: visibleReviews });
     } catch (error) {
         console.error('GET /api/reviews/applicant/:applicantId error:', error);
         const errorResponse: ErrorResponse = {
@@ -79,7 +166,15 @@ router.get('/applicant/:applicantId', async (req: Request, res: Response) => {
 router.get('/reviewer/:reviewerName', async (req: Request, res: Response) => {
     try {
         const { reviewerName } = req.params;
-        const reviews = await ReviewService.getReviewsByReviewer(decodeURIComponent(reviewerName));
+
+        if (decodeURIComponent(reviewerName) !== req.reviewer!.name && !hasPermission(req.reviewer!, 'reviews:read_all')) {
+            return res.status(403).json({
+                error: 'Forbidden',
+                message: 'Reviewers can only view their own reviews'
+            });
+        }
+
+        const reviews = await ReviewService.getReviewsByReviewer(req.cycle!.id, decodeURIComponent(reviewerName));
         res.json({ success: true, data: reviews });
     } catch (error) {
         console.error('GET /api/reviews/reviewer/:reviewerName error:', error);
@@ -95,20 +190,35 @@ router.get('/reviewer/:reviewerName', async (req: Request, res: Response) => {
  * POST /api/reviews
  * Create a new review
  */
-router.post('/', async (req: Request, res: Response) => {
+router.post('/', requirePermission('reviews:write'), async (req: Request, res: Response) => {
     try {
-        const reviewData: CreateReviewRequest = req.body;
+        // The reviewer always comes from the session, never from the request body
+        const reviewData: CreateReviewRequest = {
+            ...req.body,
+            reviewer_id: req.reviewer!.id,
+            reviewer_name: req.reviewer!.name
+        };
 
         // Basic validation
-        if (!reviewData.applicant_id || !reviewData.reviewer_name) {
+        if (!reviewData.applicant_id) {
             return res.status(400).json({
                 error: 'Validation error',
-                message: 'applicant_id and reviewer_name are required'
+                message: 'applicant_id is required'
+            });
+        }
+
+        // Reviews always go into the applicant's own cycle
+        const applicant = await ApplicantService.getApplicantById(req.cycle!.id, reviewData.applicant_id);
+        if (!applicant) {
+            return res.status(404).json({
+                error: 'Applicant not found',
+                message: `No applicant found with ID: ${reviewData.applicant_id}`
             });
         }
 
         // Check if review already exists
         const existing = await ReviewService.getReview(
+            req.cycle!.id,
             reviewData.applicant_id,
             reviewData.reviewer_name
         );
@@ -119,7 +229,32 @@ router.post('/', async (req: Request, res: Response) => {
             });
         }
 
-        const review = await ReviewService.createReview(reviewData);
+        // New reviews are scored against whichever rubric is active now
+        const rubric = await RubricService.getActiveRubric();
+        if (!rubric) {
+            return res.status(409).json({
+                error: 'Conflict',
+                message: 'No scoring rubric is active. A program director must activate one before reviews can be saved.'
+            });
+        }
+
+        const scoresError = RubricService.validateScores(rubric, reviewData.scores ?? {});
+        if (scoresError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: scoresError
+            });
+        }
+
+        const review = await ReviewService.createReview(req.cycle!.id, reviewData, rubric);
+        await AuditService.record(req.reviewer, {
+            action: 'create',
+            entity_type: 'review',
+            entity_id: review.id,
+            applicant_id: review.applicant_id,
+            cycle_id: review.cycle_id,
+            after: review
+        });
         res.status(201).json({ success: true, data: review });
     } catch (error) {
         console.error('POST /api/reviews error:', error);
@@ -135,13 +270,21 @@ router.post('/', async (req: Request, res: Response) => {
  * PUT /api/reviews/:applicantId/:reviewerName
  * Update an existing review
  */
-router.put('/:applicantId/:reviewerName', async (req: Request, res: Response) => {
+router.put('/:applicantId/:reviewerName', requirePermission('reviews:write'), async (req: Request, res: Response) => {
     try {
         const { applicantId, reviewerName } = req.params;
         const updates: UpdateReviewRequest = req.body;
 
+        if (decodeURIComponent(reviewerName) !== req.reviewer!.name) {
+            return res.status(403).json({
+                error: 'Forbidden',
+                message: 'Reviewers can only update their own reviews'
+            });
+        }
+
         // Check if review exists
         const existing = await ReviewService.getReview(
+            req.cycle!.id,
             applicantId,
             decodeURIComponent(reviewerName)
         );
@@ -152,11 +295,49 @@ router.put('/:applicantId/:reviewerName', async (req: Request, res: Response) =>
             });
         }
 
-        const updatedReview = await ReviewService.updateReview(
-            applicantId,
-            decodeURIComponent(reviewerName),
-            updates
-        );
+        // Existing reviews stay on the rubric they were first scored under
+        const rubric = await RubricService.getRubricById(existing.rubric_id);
+        if (!rubric) {
+            return res.status(409).json({
+                error: 'Conflict',
+                message: 'The rubric this review was scored under no longer exists'
+            });
+        }
+
+        const scoresError = RubricService.validateScores(rubric, updates.scores ?? {});
+        if (scoresError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: scoresError
+            });
+        }
+
+        if (!isValidRevision(updates.expected_revision)) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: 'expected_revision must be a positive integer'
+            });
+        }
+
+        const updatedReview = await ReviewService.updateReview(existing, updates, rubric);
+        if (!updatedReview) {
+            const current = await ReviewService.getReview(req.cycle!.id, applicantId, existing.reviewer_name);
+            const errorResponse: ErrorResponse = {
+                error: 'Conflict',
+                message: 'This review was changed elsewhere after you loaded it. Reload it, or resend with the current revision to overwrite.',
+                details: { current }
+            };
+            return res.status(409).json(errorResponse);
+        }
+        await AuditService.record(req.reviewer, {
+            action: 'update',
+            entity_type: 'review',
+            entity_id: existing.id,
+            applicant_id: existing.applicant_id,
+            cycle_id: existing.cycle_id,
+            before: existing,
+            after: updatedReview
+        });
         res.json({ success: true, data: updatedReview });
     } catch (error) {
         console.error('PUT /api/reviews/:applicantId/:reviewerName error:', error);
@@ -172,12 +353,20 @@ router.put('/:applicantId/:reviewerName', async (req: Request, res: Response) =>
  * DELETE /api/reviews/:applicantId/:reviewerName
  * Delete a review
  */
-router.delete('/:applicantId/:reviewerName', async (req: Request, res: Response) => {
+router.delete('/:applicantId/:reviewerName', requirePermission('reviews:write'), async (req: Request, res: Response) => {
     try {
         const { applicantId, reviewerName } = req.params;
 
+        if (decodeURIComponent(reviewerName) !== req.reviewer!.name) {
+            return res.status(403).json({
+                error: 'Forbidden',
+                message: 'Reviewers can only delete their own reviews'
+            });
+        }
+
         // Check if review exists
         const existing = await ReviewService.getReview(
+            req.cycle!.id,
             applicantId,
             decodeURIComponent(reviewerName)
         );
@@ -188,7 +377,15 @@ router.delete('/:applicantId/:reviewerName', async (req: Request, res: Response)
             });
         }
 
-        await ReviewService.deleteReview(applicantId, decodeURIComponent(reviewerName));
+        await ReviewService.deleteReview(req.cycle!.id, applicantId, decodeURIComponent(reviewerName));
+        await AuditService.record(req.reviewer, {
+            action: 'delete',
+            entity_type: 'review',
+            entity_id: existing.id,
+            applicant_id: existing.applicant_id,
+            cycle_id: existing.cycle_id,
+            before: existing
+        });
         res.json({
             success: true,
             message: 'Review deleted successfully'
@@ -203,14 +400,226 @@ router.delete('/:applicantId/:reviewerName', async (req: Request, res: Response)
     }
 });
 
+/**
+ * GET /api/reviews/:applicantId/:reviewerName/versions
+ * Get every saved version of a review, newest first
+ * Without reviews:read_all reviewers can only see the history of their own reviews
+ */
+router.get('/:applicantId/:reviewerName/versions', async (req: Request, res: Response) => {
+    try {
+        const { applicantId } = req.params;
+        const reviewerName = decodeURIComponent(req.params.reviewerName);
+
+        if (reviewerName !== req.reviewer!.name && !hasPermission(req.reviewer!, 'reviews:read_all')) {
+            return res.status(403).json({
+                error: 'Forbidden',
+                message: 'Reviewers can only view the history of their own reviews'
+            });
+        }
+
+        const review = await ReviewService.getReview(req.cycle!.id, applicantId, reviewerName);
+        if (!review) {
+            return res.status(404).json({
+                error: 'Review not found',
+                message: `No review found for applicant ${applicantId} by reviewer ${reviewerName}`
+            });
+        }
+
+        const versions = await ReviewVersionService.getVersions(review.id);
+        res.json({ success: true, data: versions, count: versions.length });
+    } catch (error) {
+        console.error('GET /api/reviews/:applicantId/:reviewerName/versions error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to fetch review history',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * POST /api/reviews/:applicantId/:reviewerName/versions/:version/restore
+ * Put a review back the way it was at an earlier version
+ */
+router.post('/:applicantId/:reviewerName/versions/:version/restore', requirePermission('reviews:write'), async (req: Request, res: Response) => {
+    try {
+        const { applicantId } = req.params;
+        const reviewerName = decodeURIComponent(req.params.reviewerName);
+        const versionNumber = Number(req.params.version);
+
+        if (reviewerName !== req.reviewer!.name) {
+            return res.status(403).json({
+                error: 'Forbidden',
+                message: 'Reviewers can only restore their own reviews'
+            });
+        }
+
+        if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: 'version must be a positive integer'
+            });
+        }
+
+        const existing = await ReviewService.getReview(req.cycle!.id, applicantId, reviewerName);
+        if (!existing) {
+            return res.status(404).json({
+                error: 'Review not found',
+                message: `No review found for applicant ${applicantId} by reviewer ${reviewerName}`
+            });
+        }
+
+        const version = await ReviewVersionService.getVersion(existing.id, versionNumber);
+        if (!version) {
+            return res.status(404).json({
+                error: 'Version not found',
+                message: `Review has no version ${versionNumber}`
+            });
+        }
+
+        const rubric = await RubricService.getRubricById(existing.rubric_id);
+        if (!rubric) {
+            return res.status(409).json({
+                error: 'Conflict',
+                message: 'The rubric this review was scored under no longer exists'
+            });
+        }
+
+        const restoredReview = await ReviewService.restoreReview(existing, version, rubric);
+        if (!restoredReview) {
+            const current = await ReviewService.getReview(req.cycle!.id, applicantId, reviewerName);
+            const errorResponse: ErrorResponse = {
+                error: 'Conflict',
+                message: 'This review was saved again while restoring. Check the latest version and try again.',
+                details: { current }
+            };
+            return res.status(409).json(errorResponse);
+        }
+        await AuditService.record(req.reviewer, {
+            action: 'update',
+            entity_type: 'review',
+            entity_id: existing.id,
+            applicant_id: existing.applicant_id,
+            cycle_id: existing.cycle_id,
+            before: existing,
+            after: restoredReview
+        });
+        res.json({ success: true, data: restoredReview });
+    } catch (error) {
+        console.error('POST /api/reviews/:applicantId/:reviewerName/versions/:version/restore error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to restore review',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * GET /api/reviews/calibration
+ * Get each reviewer's scoring mean and spread, with z-score normalized reviews and applicant averages
+ */
+router.get('/calibration', requirePermission('final_selections:read'), async (req: Request, res: Response) => {
+    try {
+        const calibration = await CalibrationService.getCalibration(req.cycle!.id);
+        res.json({ success: true, data: calibration });
+    } catch (error) {
+        console.error('GET /api/reviews/calibration error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to calculate calibration',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
 /**
  * GET /api/reviews/final-selections
- * Get all final selections
+ * Get final selections with raw and normalized rankings and mean interview scores, every one unless a limit is given
+ * Sorted by raw rank unless rank_by=normalized or sort is given
+ * Filter by decision, category and min_score/max_score, search applicants with q, page with limit and cursor
  */
-router.get('/final-selections', async (req: Request, res: Response) => {
+router.get('/final-selections', requirePermission('final_selections:read'), async (req: Request, res: Response) => {
     try {
-        const finalSelections = await ReviewService.getAllFinalSelections();
-        res.json({ success: true, data: finalSelections });
+        const rankBy = (req.query.rank_by as RankingMode | undefined) || 'raw';
+        if (!['raw', 'normalized'].includes(rankBy)) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: 'rank_by must be raw or normalized'
+            });
+        }
+
+        const parsed = parseListQuery(
+            req.query,
+            FINAL_SELECTION_SORT_FIELDS,
+            [{ field: rankBy === 'normalized' ? 'normalized_rank' : 'raw_rank', direction: 'asc' }]
+        );
+        if ('error' in parsed) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: parsed.error
+            });
+        }
+
+        const scoreRange = parseScoreRange(req.query);
+        if ('error' in scoreRange) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: scoreRange.error
+            });
+        }
+
+        const decision = req.query.decision as AdminDecision | undefined;
+        if (decision !== undefined && !ADMIN_DECISIONS.includes(decision)) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: `decision must be one of: ${ADMIN_DECISIONS.join(', ')}`
+            });
+        }
+
+        const category = req.query.category as ApplicantCategory | undefined;
+        if (category !== undefined && !['regular', 'i-sub'].includes(category)) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: 'category must be regular or i-sub'
+            });
+        }
+
+        const [selections, calibration, applicants, interviewScores] = await Promise.all([
+            ReviewService.getAllFinalSelections(req.cycle!.id),
+            CalibrationService.getCalibration(req.cycle!.id),
+            ApplicantService.getAllApplicants(req.cycle!.id),
+            InterviewEvaluationService.getApplicantScores(req.cycle!.id)
+        ]);
+
+        // Ranks compare every applicant in the cycle, so filtering happens after ranking
+        const applicantsById = new Map(applicants.map(applicant => [applicant.id, applicant]));
+        const interviewsByApplicant = new Map(interviewScores.map(score => [score.applicant_id, score]));
+        const search = parsed.listQuery.search?.toLowerCase();
+        const { min_score, max_score } = scoreRange.range;
+        const ranked: FinalSelectionWithInterviews[] = CalibrationService.rankFinalSelections(selections, calibration, rankBy).map(selection => ({
+            ...selection,
+            interview_score: interviewsByApplicant.get(selection.applicant_id)?.interview_score ?? null,
+            interview_count: interviewsByApplicant.get(selection.applicant_id)?.interview_count ?? 0
+        }));
+        const matches = ranked.filter(selection => {
+            const applicant = applicantsById.get(selection.applicant_id);
+            const score = selection.average_score ?? null;
+            return (!decision || selection.admin_decision === decision)
+                && (!category || applicant?.category === category)
+                && (min_score === undefined || (score !== null && score >= min_score))
+                && (max_score === undefined || (score !== null && score <= max_score))
+                && (!search || [applicant?.name, applicant?.external_id, applicant?.medical_school]
+                    .some(value => value?.toLowerCase().includes(search)));
+        });
+
+        const sorted = sortItems(matches, parsed.listQuery.sort, (selection: FinalSelectionWithInterviews, field: string) =>
+            field === 'name'
+                ? applicantsById.get(selection.applicant_id)?.name
+                : selection[field as keyof FinalSelectionWithInterviews] as string | number | null | undefined
+        );
+        const finalSelections = pageItems(sorted, parsed.listQuery);
+        res.json({ success: true, data: finalSelections, page: pageInfo(sorted.length, parsed.listQuery, finalSelections.length) });
     } catch (error) {
         console.error('GET /api/reviews/final-selections error:', error);
         const errorResponse: ErrorResponse = {
@@ -225,10 +634,10 @@ router.get('/final-selections', async (req: Request, res: Response) => {
  * GET /api/reviews/final-selections/:applicantId
  * Get final selection for a specific applicant
  */
-router.get('/final-selections/:applicantId', async (req: Request, res: Response) => {
+router.get('/final-selections/:applicantId', requirePermission('final_selections:read'), async (req: Request, res: Response) => {
     try {
         const { applicantId } = req.params;
-        const finalSelection = await ReviewService.getFinalSelection(applicantId);
+        const finalSelection = await ReviewService.getFinalSelection(req.cycle!.id, applicantId);
 
         if (!finalSelection) {
             return res.status(404).json({
@@ -252,7 +661,7 @@ router.get('/final-selections/:applicantId', async (req: Request, res: Response)
  * POST /api/reviews/final-selections
  * Create or update a final selection
  */
-router.post('/final-selections', async (req: Request, res: Response) => {
+router.post('/final-selections', requirePermission('final_selections:decide'), async (req: Request, res: Response) => {
     try {
         const selectionData: CreateFinalSelectionRequest = req.body;
 
@@ -264,15 +673,85 @@ router.post('/final-selections', async (req: Request, res: Response) => {
             });
         }
 
-        if (!['Selected', 'Not Selected', 'Pending'].includes(selectionData.admin_decision)) {
+        if (!['Selected', 'Not Selected', 'Waitlisted', 'Pending'].includes(selectionData.admin_decision)) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: 'admin_decision must be one of: Selected, Not Selected, Waitlisted, Pending'
+            });
+        }
+
+        if (selectionData.selection_reason !== undefined &&
+            (typeof selectionData.selection_reason !== 'string' || selectionData.selection_reason.length > MAX_SELECTION_REASON_LENGTH)) {
             return res.status(400).json({
                 error: 'Validation error',
-                message: 'admin_decision must be one of: Selected, Not Selected, Pending'
+                message: `selection_reason must be text of at most ${MAX_SELECTION_REASON_LENGTH} characters`
+            });
+        }
+
+        if (!isValidRevision(selectionData.expected_revision)) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: 'expected_revision must be a positive integer'
+            });
+        }
+
+        const [applicant, existing] = await Promise.all([
+            ApplicantService.getApplicantById(req.cycle!.id, selectionData.applicant_id),
+            ReviewService.getFinalSelection(req.cycle!.id, selectionData.applicant_id)
+        ]);
+        if (!applicant) {
+            return res.status(404).json({
+                error: 'Applicant not found',
+                message: `No applicant found with ID: ${selectionData.applicant_id}`
+            });
+        }
+
+        // A booked applicant keeps their Selected decision until the booking is cancelled, so nobody is dropped by accident
+        const booking = existing?.admin_decision === 'Selected' && selectionData.admin_decision !== 'Selected'
+            ? await InterviewScheduleService.getBooking(req.cycle!.id, applicant.id)
+            : null;
+        if (booking) {
+            return res.status(409).json({
+                error: 'Interview booked',
+                message: `${applicant.name} is booked for an interview. Cancel the booking on the Interview Schedule before changing the decision.`
+            });
+        }
+
+        // Only a new Selected decision takes up an interview slot
+        const capacityCheck = selectionData.admin_decision === 'Selected' && existing?.admin_decision !== 'Selected'
+            ? await InterviewTargetService.checkSelection(req.cycle!, applicant.category)
+            : null;
+        if (capacityCheck?.blocked) {
+            return res.status(409).json({
+                error: 'Interview capacity reached',
+                message: `${capacityCheck.message}. Raise the target or change another decision first.`
             });
         }
 
-        const finalSelection = await ReviewService.upsertFinalSelection(selectionData);
-        res.status(201).json({ success: true, data: finalSelection });
+        const finalSelection = await ReviewService.upsertFinalSelection(req.cycle!.id, selectionData, existing);
+        if (!finalSelection) {
+            const current = await ReviewService.getFinalSelection(req.cycle!.id, selectionData.applicant_id);
+            const errorResponse: ErrorResponse = {
+                error: 'Conflict',
+                message: 'This decision was changed by someone else after you loaded it. Reload it, or resend with the current revision to overwrite.',
+                details: { current }
+            };
+            return res.status(409).json(errorResponse);
+        }
+        await AuditService.record(req.reviewer, {
+            action: existing ? 'update' : 'create',
+            entity_type: 'final_selection',
+            entity_id: finalSelection.id,
+            applicant_id: finalSelection.applicant_id,
+            cycle_id: finalSelection.cycle_id,
+            before: existing,
+            after: finalSelection
+        });
+        res.status(201).json({
+            success: true,
+            data: finalSelection,
+            ...(capacityCheck ? { warning: `${capacityCheck.message}; this selection goes over the target` } : {})
+        });
     } catch (error) {
         console.error('POST /api/reviews/final-selections error:', error);
         const errorResponse: ErrorResponse = {
@@ -0,0 +1,282 @@
+import { Router, Request, Response } from 'express';
+import { RubricService } from '../services/rubricService';
+import { AuditService } from '../services/auditService';
+import { ReviewService } from '../services/reviewService';
+import { CycleService } from '../services/cycleService';
+import { InterviewEvaluationService } from '../services/interviewEvaluationService';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { CreateRubricRequest, UpdateRubricWeightsRequest, RubricStage, ErrorResponse } from '../types';
+
+const router = Router();
+
+// Every route below requires a signed-in reviewer
+router.use(requireAuth);
+
+/**
+ * GET /api/rubrics
+ * Get all rubrics with their criteria
+ */
+router.get('/', async (req: Request, res: Response) => {
+    try {
+        const rubrics = await RubricService.getAllRubrics();
+        res.json({ success: true, data: rubrics, count: rubrics.length });
+    } catch (error) {
+        console.error('GET /api/rubrics error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to fetch rubrics',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * GET /api/rubrics/active
+ * Get the rubric new reviews are scored against (stage=interview for interview evaluations)
+ */
+router.get('/active', async (req: Request, res: Response) => {
+    try {
+        const stage = (req.query.stage as RubricStage | undefined) || 'file_review';
+        if (!RubricService.STAGES.includes(stage)) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: `stage must be one of: ${RubricService.STAGES.join(', ')}`
+            });
+        }
+
+        const rubric = await RubricService.getActiveRubric(stage);
+
+        if (!rubric) {
+            return res.status(404).json({
+                error: 'Rubric not found',
+                message: stage === 'interview' ? 'No interview rubric is active' : 'No scoring rubric is active'
+            });
+        }
+
+        res.json({ success: true, data: rubric });
+    } catch (error) {
+        console.error('GET /api/rubrics/active error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to fetch active rubric',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * GET /api/rubrics/:id
+ * Get rubric by ID
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        const rubric = await RubricService.getRubricById(id);
+
+        if (!rubric) {
+            return res.status(404).json({
+                error: 'Rubric not found',
+                message: `No rubric found with ID: ${id}`
+            });
+        }
+
+        res.json({ success: true, data: rubric });
+    } catch (error) {
+        console.error('GET /api/rubrics/:id error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to fetch rubric',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * POST /api/rubrics
+ * Create a rubric with its criteria (send activate: true to make it active straight away)
+ */
+router.post('/', requirePermission('rubrics:manage'), async (req: Request, res: Response) => {
+    try {
+        const rubricData: CreateRubricRequest = req.body;
+
+        const validationError = RubricService.validateRubric(rubricData);
+        if (validationError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: validationError
+            });
+        }
+
+        const existing = await RubricService.getRubricByName(rubricData.name);
+        if (existing) {
+            return res.status(409).json({
+                error: 'Conflict',
+                message: `A rubric named ${rubricData.name} already exists`
+            });
+        }
+
+        const rubric = await RubricService.createRubric(rubricData, req.reviewer!.id);
+        await AuditService.record(req.reviewer, {
+            action: 'create',
+            entity_type: 'rubric',
+            entity_id: rubric.id,
+            after: rubric
+        });
+        res.status(201).json({ success: true, data: rubric });
+    } catch (error) {
+        console.error('POST /api/rubrics error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to create rubric',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * POST /api/rubrics/:id/activate
+ * Make this the rubric new reviews (or interview evaluations, for an interview rubric) are scored against
+ */
+router.post('/:id/activate', requirePermission('rubrics:manage'), async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+
+        const existing = await RubricService.getRubricById(id);
+        if (!existing) {
+            return res.status(404).json({
+                error: 'Rubric not found',
+                message: `No rubric found with ID: ${id}`
+            });
+        }
+
+        const rubric = await RubricService.activateRubric(id, existing.stage);
+        await AuditService.record(req.reviewer, {
+            action: 'activate',
+            entity_type: 'rubric',
+            entity_id: id,
+            before: existing,
+            after: rubric
+        });
+        res.json({ success: true, data: rubric });
+    } catch (error) {
+        console.error('POST /api/rubrics/:id/activate error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to activate rubric',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * PUT /api/rubrics/:id/weights
+ * Change criterion weights; the active cycle's weighted scores and final-selection averages are recomputed
+ * (for an interview rubric, the active cycle's interview evaluations are rescored instead)
+ */
+router.put('/:id/weights', requirePermission('rubrics:manage'), async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        const { weights }: UpdateRubricWeightsRequest = req.body || {};
+
+        const existing = await RubricService.getRubricById(id);
+        if (!existing) {
+            return res.status(404).json({
+                error: 'Rubric not found',
+                message: `No rubric found with ID: ${id}`
+            });
+        }
+
+        const validationError = RubricService.validateWeights(existing, weights);
+        if (validationError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: validationError
+            });
+        }
+
+        const rubric = await RubricService.updateWeights(existing, weights);
+        const activeCycle = await CycleService.getActiveCycle();
+        const isInterview = rubric.stage === 'interview';
+        const rescored = !activeCycle ? 0 : isInterview
+            ? await InterviewEvaluationService.rescoreEvaluationsForRubric(activeCycle.id, rubric)
+            : await ReviewService.rescoreReviewsForRubric(activeCycle.id, rubric);
+        await AuditService.record(req.reviewer, {
+            action: 'update',
+            entity_type: 'rubric',
+            entity_id: id,
+            before: existing,
+            after: rubric
+        });
+
+        res.json({
+            success: true,
+            data: rubric,
+            message: `Weights updated and ${rescored} ${isInterview ? 'evaluation' : 'review'}${rescored === 1 ? '' : 's'} rescored`
+        });
+    } catch (error) {
+        console.error('PUT /api/rubrics/:id/weights error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to update rubric weights',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+/**
+ * DELETE /api/rubrics/:id
+ * Delete a rubric that is neither active nor used by any review or interview evaluation
+ */
+router.delete('/:id', requirePermission('rubrics:manage'), async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+
+        const existing = await RubricService.getRubricById(id);
+        if (!existing) {
+            return res.status(404).json({
+                error: 'Rubric not found',
+                message: `No rubric found with ID: ${id}`
+            });
+        }
+
+        if (existing.is_active) {
+            return res.status(409).json({
+                error: 'Conflict',
+                message: 'The active rubric cannot be deleted. Activate another rubric first.'
+            });
+        }
+
+        const isInterview = existing.stage === 'interview';
+        const scoredCount = isInterview
+            ? await InterviewEvaluationService.countEvaluationsUsingRubric(id)
+            : await RubricService.countReviewsUsingRubric(id);
+        if (scoredCount > 0) {
+            const noun = isInterview ? 'interview evaluation' : 'review';
+            return res.status(409).json({
+                error: 'Conflict',
+                message: `${scoredCount} ${noun}${scoredCount === 1 ? ' was' : 's were'} scored with this rubric`
+            });
+        }
+
+        await RubricService.deleteRubric(id);
+        await AuditService.record(req.reviewer, {
+            action: 'delete',
+            entity_type: 'rubric',
+            entity_id: id,
+            before: existing
+        });
+        res.json({
+            success: true,
+            message: 'Rubric deleted successfully'
+        });
+    } catch (error) {
+        console.error('DELETE /api/rubrics/:id error:', error);
+        const errorResponse: ErrorResponse = {
+            error: 'Failed to delete rubric',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        };
+        res.status(500).json(errorResponse);
+    }
+});
+
+export default router;
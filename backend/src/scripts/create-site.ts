@@ -0,0 +1,101 @@
+import { DEFAULT_SITE_NAME, isValidSiteName, runWithSite } from '../config/tenant';
+import { AuthService } from '../services/authService';
+import { ReviewerService } from '../services/reviewerService';
+import { RubricService } from '../services/rubricService';
+import { DataSeeder } from '../utils/dataSeeder';
+
+/**
+ * Set up a sister program on this deployment
+ * Usage: npm run db:create-site -- <site_name> "<director name>" <director email>
+ */
+class SiteSetup {
+    /**
+     * Create the site's first program director, who can then add everyone else, and print a temporary
+     * password for them; an existing reviewer without a password (e.g. after an upgrade) gets one too
+     */
+    static async createDirector(name: string, email: string): Promise<void> {
+        let director = await ReviewerService.getReviewerByEmail(email);
+        if (director) {
+            console.log(`✓ ${director.email} already belongs to this site (${director.role})`);
+            if (await AuthService.hasPassword(director.id)) {
+                console.log('✓ Password already set');
+                return;
+            }
+        } else {
+            director = await ReviewerService.createReviewer({ name, email, role: 'program_director' });
+            console.log(`✅ Created program director ${director.name} <${director.email}>`);
+        }
+
+        const password = await AuthService.issueTemporaryPassword(director.id);
+        console.log(`🔑 Temporary password for ${director.email}: ${password}`);
+        console.log('   It is not shown again; change it after signing in');
+    }
+
+    /**
+     * Copy the default site's active rubrics (file review and interview) so the new site can start scoring immediately
+     */
+    static async copyDefaultRubrics(siteName: string): Promise<void> {
+        for (const stage of RubricService.STAGES) {
+            const label = stage === 'interview' ? 'interview rubric' : 'rubric';
+            if (await RubricService.getActiveRubric(stage)) {
+                console.log(`✓ Active ${label} found`);
+                continue;
+            }
+
+            const template = await runWithSite(DEFAULT_SITE_NAME, () => RubricService.getActiveRubric(stage));
+            if (!template) {
+                console.warn(`⚠️ '${DEFAULT_SITE_NAME}' has no active ${label} to copy; create one from the admin dashboard`);
+                continue;
+            }
+
+            await RubricService.createRubric({
+                name: template.name,
+                stage,
+                criteria: template.criteria.map(criterion => ({
+                    key: criterion.key,
+                    label: criterion.label,
+                    ...(criterion.description ? { description: criterion.description } : {}),
+                    min_score: criterion.min_score,
+                    max_score: criterion.max_score,
+                    weight: criterion.weight
+                })),
+                activate: true
+            });
+            console.log(`✅ Copied the '${template.name}' ${label} to ${siteName}`);
+        }
+    }
+
+    /**
+     * Run the complete site setup
+     */
+    static async run(siteName: string | undefined, directorName: string | undefined, directorEmail: string | undefined): Promise<void> {
+        if (!isValidSiteName(siteName) || !directorName || !directorEmail) {
+            console.error('Usage: npm run db:create-site -- <site_name> "<director name>" <director email>');
+            console.error('site_name is lowercase letters, digits and underscores, e.g. pediatric_urology');
+            process.exit(1);
+        }
+
+        console.log(`🏥 Setting up site '${siteName}'...`);
+        await runWithSite(siteName, async () => {
+            await this.createDirector(directorName, directorEmail);
+            await DataSeeder.seedCycle();
+            await this.copyDefaultRubrics(siteName);
+        });
+
+        console.log('\n🎉 Site setup completed!');
+        console.log(`   Requests act for this site with the header X-Site-Name: ${siteName}`);
+        console.log('   (or a subdomain of SITE_BASE_DOMAIN). The director signs in with the temporary password above');
+        console.log('   and issues passwords to everyone else with POST /api/reviewers/:id/temporary-password.');
+    }
+}
+
+// Run setup if called directly
+if (require.main === module) {
+    const [siteName, directorName, directorEmail] = process.argv.slice(2);
+    SiteSetup.run(siteName, directorName, directorEmail).catch(error => {
+        console.error('Fatal error:', error);
+        process.exit(1);
+    });
+}
+
+export default SiteSetup;
@@ -32,9 +32,26 @@ class DatabaseSetup {
 
             const requiredTables = [
                 'urology_applicants',
+                'urology_applicant_documents',
                 'urology_reviews',
+                'urology_review_versions',
                 'urology_reviewers',
-                'urology_final_selections'
+                'urology_final_selections',
+                'urology_reviewer_credentials',
+                'urology_sessions',
+                'urology_login_codes',
+                'urology_auth_throttle',
+                'urology_assignments',
+                'urology_rubrics',
+                'urology_rubric_criteria',
+                'urology_interview_targets',
+                'urology_rank_lists',
+                'urology_rank_list_versions',
+                'urology_interview_dates',
+                'urology_interview_bookings',
+                'urology_interview_evaluations',
+                'urology_cycles',
+                'urology_audit_log'
             ];
 
             const existingTables: string[] = [];
@@ -91,14 +108,33 @@ class DatabaseSetup {
         console.log('   https://supabase.com/dashboard/project/fsxzgkyiutpjobpmfgtk/sql');
         console.log('');
         console.log('2. Copy the contents of: backend/src/database/schema.sql');
+        console.log('   (it drops every table; to upgrade a database that already holds reviews, use');
+        console.log('   backend/src/database/migrations/001_upgrade_existing_deployment.sql instead)');
         console.log('');
         console.log('3. Paste and execute the SQL in the Supabase SQL editor');
         console.log('');
-        console.log('4. Verify all 4 tables are created:');
+        console.log('4. Verify all 21 tables are created:');
         console.log('   - urology_applicants');
+        console.log('   - urology_applicant_documents');
         console.log('   - urology_reviews');
+        console.log('   - urology_review_versions');
         console.log('   - urology_reviewers');
         console.log('   - urology_final_selections');
+        console.log('   - urology_reviewer_credentials');
+        console.log('   - urology_sessions');
+        console.log('   - urology_login_codes');
+        console.log('   - urology_auth_throttle');
+        console.log('   - urology_assignments');
+        console.log('   - urology_rubrics');
+        console.log('   - urology_rubric_criteria');
+        console.log('   - urology_interview_targets');
+        console.log('   - urology_rank_lists');
+        console.log('   - urology_rank_list_versions');
+        console.log('   - urology_interview_dates');
+        console.log('   - urology_interview_bookings');
+        console.log('   - urology_interview_evaluations');
+        console.log('   - urology_cycles');
+        console.log('   - urology_audit_log');
         console.log('');
         console.log('5. Run this setup script again: npm run setup-db');
         console.log('============================================\n');
@@ -127,9 +163,21 @@ class DatabaseSetup {
 
             const tables = [
                 'urology_applicants',
+                'urology_applicant_documents',
                 'urology_reviews',
+                'urology_review_versions',
                 'urology_reviewers',
-                'urology_final_selections'
+                'urology_final_selections',
+                'urology_assignments',
+                'urology_rubrics',
+                'urology_interview_targets',
+                'urology_rank_lists',
+                'urology_rank_list_versions',
+                'urology_interview_dates',
+                'urology_interview_bookings',
+                'urology_interview_evaluations',
+                'urology_cycles',
+                'urology_audit_log'
             ];
 
             for (const table of tables) {
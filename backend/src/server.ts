@@ -3,12 +3,11 @@ import cors from 'cors';
 import * as dotenv from 'dotenv';
 import { testDatabaseConnection } from './config/supabase';
 import { DataSeeder } from './utils/dataSeeder';
+import { resolveTenant } from './middleware/tenant';
+import { DEFAULT_SITE_NAME } from './config/tenant';
 
 // Import routes
-import applicantsRouter from './routes/applicants';
-import reviewersRouter from './routes/reviewers';
-import reviewsRouter from './routes/reviews';
-import progressRouter from './routes/progress';
+import { mountApiRoutes, API_ENDPOINTS, AVAILABLE_ENDPOINTS } from './routes';
 
 // Import CORS utilities
 import { createCorsOptions, logCorsConfiguration, validateCorsOrigins, getDynamicCorsOrigins } from './utils/corsConfig';
@@ -36,6 +35,9 @@ app.use((req: Request, res: Response, next: NextFunction) => {
     next();
 });
 
+// Each request acts for one site (tenant): the X-Site-Name header, the subdomain, or DEFAULT_SITE_NAME
+app.use(resolveTenant);
+
 // Health check endpoint
 app.get('/api/health', (req: Request, res: Response) => {
     res.status(200).json({
@@ -46,10 +48,7 @@ app.get('/api/health', (req: Request, res: Response) => {
 });
 
 // Mount API routes
-app.use('/api/applicants', applicantsRouter);
-app.use('/api/reviewers', reviewersRouter);
-app.use('/api/reviews', reviewsRouter);
-app.use('/api/progress', progressRouter);
+mountApiRoutes(app);
 
 // Root endpoint
 app.get('/', (req: Request, res: Response) => {
@@ -58,10 +57,7 @@ app.get('/', (req: Request, res: Response) => {
         version: '1.0.0',
         endpoints: {
             health: '/api/health',
-            applicants: '/api/applicants',
-            reviewers: '/api/reviewers',
-            reviews: '/api/reviews',
-            progress: '/api/progress'
+            ...API_ENDPOINTS
         },
         timestamp: new Date().toISOString()
     });
@@ -75,13 +71,7 @@ app.use((req: Request, res: Response) => {
         availableEndpoints: [
             'GET /',
             'GET /api/health',
-            'GET /api/applicants',
-            'POST /api/applicants',
-            'GET /api/reviewers',
-            'POST /api/reviewers',
-            'GET /api/reviews',
-            'POST /api/reviews',
-            'GET /api/progress'
+            ...AVAILABLE_ENDPOINTS
         ]
     });
 });
@@ -125,7 +115,7 @@ async function initializeServer(): Promise<void> {
         }
 
         // Check and seed initial data
-        console.log('🌱 Checking initial data...');
+        console.log(`🌱 Checking initial data for site '${DEFAULT_SITE_NAME}'...`);
         try {
             const seededStatus = await DataSeeder.isDataSeeded();
 
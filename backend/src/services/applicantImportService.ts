@@ -0,0 +1,397 @@
+import { ApplicantService } from './applicantService';
+import { parseCsv } from '../utils/csv';
+import {
+    ApplicantCategory,
+    ApplicantImportAction,
+    ApplicantImportField,
+    ApplicantImportMapping,
+    ApplicantImportRequest,
+    ApplicantImportResult,
+    ApplicantImportRow,
+    ApplicantProfile,
+    DatabaseApplicant,
+    HonorSocietyStatus,
+    ParsedImportFile,
+    VisaStatus
+} from '../types';
+
+export class ApplicantImportService {
+    static readonly MAX_ROWS = 2000;
+
+    private static readonly AAMC_ID_PATTERN = /^\d{8}$/;
+
+    // Headers each field is recognised by, lowercased with spaces and punctuation removed
+    private static readonly HEADER_ALIASES: Record<ApplicantImportField, string[]> = {
+        external_id: ['aamcid', 'aamcidnumber', 'aamc', 'applicantid'],
+        name: ['name', 'applicantname', 'fullname'],
+        first_name: ['firstname', 'first', 'givenname'],
+        last_name: ['lastname', 'last', 'surname', 'familyname'],
+        category: ['category', 'track', 'applicanttype'],
+        medical_school: ['medicalschool', 'medschool', 'medicalschoolname', 'school'],
+        graduation_year: ['graduationyear', 'medicalschoolgraduationyear', 'gradyear'],
+        step2_ck_score: ['step2ck', 'step2ckscore', 'usmlestep2ck', 'usmlestep2ckscore', 'usmlestep2score'],
+        aoa_status: ['aoa', 'aoastatus', 'alphaomegaalpha', 'alphaomegaalphaaoa'],
+        ghhs_status: ['ghhs', 'ghhsstatus', 'goldhumanismhonorsociety', 'goldhumanismhonorsocietyghhs'],
+        publication_count: ['publications', 'publicationcount', 'numberofpublications', 'peerreviewedpublications'],
+        clerkship_honors: ['clerkshiphonors', 'honors', 'clerkshipswithhonors'],
+        home_program: ['homeprogram', 'homeurologyprogram', 'homeinstitution'],
+        visa_status: ['visastatus', 'visa', 'citizenship', 'citizenshipstatus', 'currentvisastatus'],
+        preference_signal: ['signal', 'signaled', 'preferencesignal', 'programsignal']
+    };
+
+    // ERAS wording for AOA and GHHS, normalized like the headers
+    private static readonly HONOR_SOCIETY_VALUES: Record<string, HonorSocietyStatus> = {
+        yes: 'member',
+        member: 'member',
+        elected: 'member',
+        no: 'not_member',
+        notmember: 'not_member',
+        notelected: 'not_member',
+        pending: 'pending',
+        electionsnotyetheld: 'pending',
+        nochapter: 'no_chapter',
+        schooldoesnothaveachapter: 'no_chapter'
+    };
+
+    private static readonly VISA_VALUES: Record<string, VisaStatus> = {
+        uscitizen: 'us_citizen',
+        citizen: 'us_citizen',
+        permanentresident: 'permanent_resident',
+        lawfulpermanentresident: 'permanent_resident',
+        greencard: 'permanent_resident',
+        visarequired: 'visa_required',
+        requiresvisa: 'visa_required'
+    };
+
+    /**
+     * Split an uploaded file into its header and data rows
+     */
+    static parse(csv: string): ParsedImportFile {
+        const [header = [], ...records] = parseCsv(csv);
+        return {
+            columns: header.map(column => column.trim()),
+            records
+        };
+    }
+
+    /**
+     * Guess the mapping from an ERAS export's column headers
+     */
+    static suggestMapping(columns: string[]): ApplicantImportMapping {
+        const normalize = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+        const mapping: ApplicantImportMapping = {};
+
+        for (const field of Object.keys(this.HEADER_ALIASES) as ApplicantImportField[]) {
+            const column = columns.find(header => this.HEADER_ALIASES[field].includes(normalize(header)));
+            if (column) {
+                mapping[field] = column;
+            }
+        }
+
+        return mapping;
+    }
+
+    /**
+     * Read a category cell; null if it names neither category
+     */
+    static parseCategory(value: string): ApplicantCategory | null {
+        const normalized = value.toLowerCase().replace(/[^a-z]/g, '');
+        if (normalized === 'regular') {
+            return 'regular';
+        }
+        if (normalized === 'isub') {
+            return 'i-sub';
+        }
+        return null;
+    }
+
+    /**
+     * Read a profile cell; an empty cell is null, and text that fits no value is an error
+     */
+    static parseProfileCell(field: keyof ApplicantProfile, value: string): { value: ApplicantProfile[keyof ApplicantProfile] } | { error: string } {
+        if (value === '') {
+            return { value: null };
+        }
+
+        const normalized = value.toLowerCase().replace(/[^a-z0-9]/g, '');
+        switch (field) {
+            case 'graduation_year':
+            case 'step2_ck_score':
+            case 'publication_count':
+                return /^\d+$/.test(value) ? { value: Number(value) } : { error: `${field} '${value}' must be a whole number` };
+            case 'aoa_status':
+            case 'ghhs_status': {
+                const status = this.HONOR_SOCIETY_VALUES[normalized];
+                return status ? { value: status } : { error: `${field} '${value}' must be Yes, No, Pending or No Chapter` };
+            }
+            case 'visa_status': {
+                // Visa types such as J-1 or H-1B all mean sponsorship is needed
+                const status = this.VISA_VALUES[normalized] ?? (/^(h1b|j1|f1|o1)/.test(normalized) ? 'visa_required' : undefined);
+                return status ? { value: status } : { error: `visa_status '${value}' must be US Citizen, Permanent Resident or a visa type` };
+            }
+            case 'preference_signal':
+                if (['yes', 'y', 'true', '1', 'signaled'].includes(normalized)) {
+                    return { value: true };
+                }
+                if (['no', 'n', 'false', '0'].includes(normalized)) {
+                    return { value: false };
+                }
+                return { error: `preference_signal '${value}' must be Yes or No` };
+            case 'clerkship_honors':
+                return { value: value.split(/[;,]/).map(clerkship => clerkship.trim()).filter(Boolean) };
+            default:
+                return { value };
+        }
+    }
+
+    /**
+     * Check a mapping against the file's columns
+     */
+    static validateMapping(columns: string[], mapping: ApplicantImportMapping): string[] {
+        const errors: string[] = [];
+
+        for (const column of Object.values(mapping)) {
+            if (column && !columns.includes(column)) {
+                errors.push(`Column '${column}' is not in the file`);
+            }
+        }
+        if (!mapping.external_id) {
+            errors.push('Map a column to the AAMC ID');
+        }
+        if (!mapping.name && !mapping.first_name && !mapping.last_name) {
+            errors.push('Map a column to the applicant name, or to first and last name');
+        }
+
+        return errors;
+    }
+
+    /**
+     * Work out what each row would do, and unless this is a dry run, do it
+     * Rows that fail validation or fail to save are reported and skipped; the rest still import
+     */
+    static async importApplicants(cycleId: string, file: ParsedImportFile, options: Omit<ApplicantImportRequest, 'csv'>): Promise<{
+        result: ApplicantImportResult;
+        created: DatabaseApplicant[];
+        updated: Array<{ before: DatabaseApplicant; after: DatabaseApplicant }>;
+    }> {
+        try {
+            const mapping = options.mapping ?? this.suggestMapping(file.columns);
+            const mappingErrors = this.validateMapping(file.columns, mapping);
+            const dryRun = options.dry_run === true;
+            const result: ApplicantImportResult = {
+                dry_run: dryRun,
+                columns: file.columns,
+                mapping,
+                mapping_errors: mappingErrors,
+                rows: [],
+                summary: { insert: 0, update: 0, unchanged: 0, error: 0 }
+            };
+
+            if (mappingErrors.length > 0) {
+                return { result, created: [], updated: [] };
+            }
+
+            const existing = await ApplicantService.getAllApplicants(cycleId);
+            const existingByExternalId = new Map(existing.map(applicant => [applicant.external_id, applicant]));
+            result.rows = this.planRows(file, mapping, options.default_category, existingByExternalId);
+
+            let created: DatabaseApplicant[] = [];
+            const updated: Array<{ before: DatabaseApplicant; after: DatabaseApplicant }> = [];
+            if (!dryRun) {
+                created = await this.insertRows(cycleId, result.rows.filter(row => row.action === 'insert'));
+                for (const row of result.rows.filter(row => row.action === 'update')) {
+                    const before = existingByExternalId.get(row.external_id!)!;
+                    const after = await this.updateRow(row, before);
+                    if (after) {
+                        updated.push({ before, after });
+                    }
+                }
+            }
+
+            result.summary = this.summarize(result.rows);
+            return { result, created, updated };
+        } catch (err) {
+            console.error('ApplicantImportService.importApplicants error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Validate every row and decide whether it inserts, updates or leaves an applicant alone
+     */
+    private static planRows(
+        file: ParsedImportFile,
+        mapping: ApplicantImportMapping,
+        defaultCategory: ApplicantCategory | undefined,
+        existingByExternalId: Map<string, DatabaseApplicant>
+    ): ApplicantImportRow[] {
+        const columnIndex = new Map(file.columns.map((column, index) => [column, index]));
+        const firstLineFor = new Map<string, number>();
+
+        return file.records.map((record, index): ApplicantImportRow => {
+            const line = index + 2;
+            const cell = (field: ApplicantImportField): string => {
+                const column = mapping[field];
+                return column !== undefined ? (record[columnIndex.get(column)!] ?? '').trim() : '';
+            };
+
+            const errors: string[] = [];
+            const externalId = cell('external_id');
+            const name = mapping.name
+                ? cell('name')
+                : [cell('first_name'), cell('last_name')].filter(Boolean).join(' ');
+            const profile: ApplicantProfile = {};
+            for (const field of ApplicantService.PROFILE_FIELDS) {
+                if (mapping[field] === undefined) {
+                    continue;
+                }
+                const parsed = this.parseProfileCell(field, cell(field));
+                if ('error' in parsed) {
+                    errors.push(parsed.error);
+                } else {
+                    Object.assign(profile, { [field]: parsed.value });
+                }
+            }
+
+            if (!externalId) {
+                errors.push('AAMC ID is missing');
+            } else if (!this.AAMC_ID_PATTERN.test(externalId)) {
+                errors.push(`AAMC ID '${externalId}' must be 8 digits`);
+            } else if (firstLineFor.has(externalId)) {
+                errors.push(`AAMC ID ${externalId} is already on line ${firstLineFor.get(externalId)}`);
+            } else {
+                firstLineFor.set(externalId, line);
+            }
+
+            if (!name) {
+                errors.push('Name is missing');
+            }
+
+            const profileError = ApplicantService.validateProfile(profile);
+            if (profileError) {
+                errors.push(profileError);
+            }
+
+            let category: ApplicantCategory | undefined = defaultCategory;
+            const categoryCell = cell('category');
+            if (categoryCell) {
+                const parsed = this.parseCategory(categoryCell);
+                if (parsed) {
+                    category = parsed;
+                } else {
+                    errors.push(`Category '${categoryCell}' must be Regular or I-Sub`);
+                }
+            }
+
+            const row: ApplicantImportRow = {
+                row: line,
+                action: 'error',
+                ...(externalId ? { external_id: externalId } : {}),
+                ...(name ? { name } : {}),
+                ...(category ? { category } : {}),
+                ...profile,
+                errors
+            };
+
+            if (errors.length > 0) {
+                return row;
+            }
+
+            const current = existingByExternalId.get(externalId);
+            if (!current) {
+                return { ...row, action: 'insert', category: category ?? 'regular' };
+            }
+
+            // Unmapped fields keep what is stored
+            const changes: string[] = [];
+            if (name !== current.name) {
+                changes.push('name');
+            }
+            if (category && category !== current.category) {
+                changes.push('category');
+            }
+            for (const field of Object.keys(profile) as Array<keyof ApplicantProfile>) {
+                if (JSON.stringify(profile[field]) !== JSON.stringify(current[field] ?? null)) {
+                    changes.push(field);
+                }
+            }
+
+            return {
+                ...row,
+                action: changes.length > 0 ? 'update' : 'unchanged',
+                applicant_id: current.id,
+                ...(changes.length > 0 ? { changes } : {})
+            };
+        });
+    }
+
+    /**
+     * Insert new applicants in one batch, falling back to one at a time to find the rows that fail
+     */
+    private static async insertRows(cycleId: string, rows: ApplicantImportRow[]): Promise<DatabaseApplicant[]> {
+        if (rows.length === 0) {
+            return [];
+        }
+
+        const toApplicant = (row: ApplicantImportRow) => ({
+            external_id: row.external_id!,
+            name: row.name!,
+            category: row.category!,
+            ...ApplicantService.pickProfile(row)
+        });
+
+        try {
+            const created = await ApplicantService.batchCreateApplicants(cycleId, rows.map(toApplicant));
+            const idByExternalId = new Map(created.map(applicant => [applicant.external_id, applicant.id]));
+            rows.forEach(row => {
+                row.applicant_id = idByExternalId.get(row.external_id!);
+            });
+            return created;
+        } catch (batchError) {
+            console.warn('⚠️ Batch import failed, retrying applicants one at a time:', batchError);
+        }
+
+        const created: DatabaseApplicant[] = [];
+        for (const row of rows) {
+            try {
+                const applicant = await ApplicantService.createApplicant(cycleId, toApplicant(row));
+                row.applicant_id = applicant.id;
+                created.push(applicant);
+            } catch (error) {
+                row.action = 'error';
+                row.errors.push(error instanceof Error ? error.message : 'Failed to create applicant');
+            }
+        }
+        return created;
+    }
+
+    /**
+     * Apply one row's changes to an existing applicant; null if the update failed
+     */
+    private static async updateRow(row: ApplicantImportRow, before: DatabaseApplicant): Promise<DatabaseApplicant | null> {
+        const changes = row.changes ?? [];
+        const profile = ApplicantService.pickProfile(row);
+        try {
+            return await ApplicantService.updateApplicant(before.id, {
+                ...(changes.includes('name') ? { name: row.name! } : {}),
+                ...(changes.includes('category') ? { category: row.category! } : {}),
+                ...Object.fromEntries(Object.entries(profile).filter(([field]) => changes.includes(field)))
+            });
+        } catch (error) {
+            row.action = 'error';
+            row.errors.push(error instanceof Error ? error.message : 'Failed to update applicant');
+            return null;
+        }
+    }
+
+    /**
+     * Count rows by what happened to them
+     */
+    private static summarize(rows: ApplicantImportRow[]): Record<ApplicantImportAction, number> {
+        const summary: Record<ApplicantImportAction, number> = { insert: 0, update: 0, unchanged: 0, error: 0 };
+        rows.forEach(row => {
+            summary[row.action]++;
+        });
+        return summary;
+    }
+}
@@ -1,19 +1,65 @@
 import { supabase, supabaseAdmin } from '../config/supabase';
-import { Applicant, ApplicantCategory, ApplicantDistribution, DatabaseApplicant } from '../types';
+import { getSiteName } from '../config/tenant';
+import { searchFilter } from '../utils/listQuery';
+import { fetchAllRows } from '../utils/fetchAll';
+import {
+    Applicant,
+    ApplicantCategory,
+    ApplicantListFilters,
+    ApplicantProfile,
+    CreateApplicantRequest,
+    DatabaseApplicant,
+    HonorSocietyStatus,
+    ListQuery,
+    UpdateApplicantRequest,
+    VisaStatus
+} from '../types';
 
 export class ApplicantService {
-    private static readonly SITE_NAME = 'urology_review';
+    static readonly PROFILE_FIELDS: Array<keyof ApplicantProfile> = [
+        'medical_school',
+        'graduation_year',
+        'step2_ck_score',
+        'aoa_status',
+        'ghhs_status',
+        'publication_count',
+        'clerkship_honors',
+        'home_program',
+        'visa_status',
+        'preference_signal'
+    ];
+
+    static readonly HONOR_SOCIETY_STATUSES: HonorSocietyStatus[] = ['member', 'pending', 'not_member', 'no_chapter'];
+
+    static readonly VISA_STATUSES: VisaStatus[] = ['us_citizen', 'permanent_resident', 'visa_required'];
+
+    static readonly SORT_FIELDS = [
+        'name',
+        'external_id',
+        'category',
+        'medical_school',
+        'graduation_year',
+        'step2_ck_score',
+        'publication_count',
+        'created_at'
+    ];
+
+    // Columns the q search looks in
+    private static readonly SEARCH_COLUMNS = ['name', 'external_id', 'medical_school'];
 
     /**
-     * Get all applicants
+     * Get all applicants in a cycle
      */
-    static async getAllApplicants(): Promise<DatabaseApplicant[]> {
+    static async getAllApplicants(cycleId: string): Promise<DatabaseApplicant[]> {
         try {
-            const { data, error } = await supabaseAdmin
+            const { data, error } = await fetchAllRows((from, to) => supabaseAdmin
                 .from('urology_applicants')
                 .select('*')
-                .eq('site_name', this.SITE_NAME)
-                .order('name');
+                .eq('cycle_id', cycleId)
+                .eq('site_name', getSiteName())
+                .order('name')
+                .order('id')
+                .range(from, to));
 
             if (error) {
                 console.error('Error fetching applicants:', error);
@@ -28,15 +74,16 @@ export class ApplicantService {
     }
 
     /**
-     * Get applicant by ID
+     * Get applicant by ID within a cycle
      */
-    static async getApplicantById(id: string): Promise<DatabaseApplicant | null> {
+    static async getApplicantById(cycleId: string, id: string): Promise<DatabaseApplicant | null> {
         try {
             const { data, error } = await supabaseAdmin
                 .from('urology_applicants')
                 .select('*')
                 .eq('id', id)
-                .eq('site_name', this.SITE_NAME)
+                .eq('cycle_id', cycleId)
+                .eq('site_name', getSiteName())
                 .single();
 
             if (error) {
@@ -55,15 +102,17 @@ export class ApplicantService {
     }
 
     /**
-     * Get applicant by external ID
+     * Get applicant by external ID within a cycle
+     * The same external ID may appear once per cycle when someone reapplies
      */
-    static async getApplicantByExternalId(externalId: string): Promise<DatabaseApplicant | null> {
+    static async getApplicantByExternalId(cycleId: string, externalId: string): Promise<DatabaseApplicant | null> {
         try {
             const { data, error } = await supabaseAdmin
                 .from('urology_applicants')
                 .select('*')
                 .eq('external_id', externalId)
-                .eq('site_name', this.SITE_NAME)
+                .eq('cycle_id', cycleId)
+                .eq('site_name', getSiteName())
                 .single();
 
             if (error) {
@@ -82,23 +131,19 @@ export class ApplicantService {
     }
 
     /**
-     * Create a new applicant
+     * Create a new applicant in a cycle
      */
-    static async createApplicant(applicant: {
-        external_id: string;
-        name: string;
-        category?: ApplicantCategory;
-        details?: string;
-    }): Promise<DatabaseApplicant> {
+    static async createApplicant(cycleId: string, applicant: CreateApplicantRequest): Promise<DatabaseApplicant> {
         try {
             const { data, error } = await supabaseAdmin
                 .from('urology_applicants')
                 .insert([{
+                    cycle_id: cycleId,
                     external_id: applicant.external_id,
                     name: applicant.name,
                     category: applicant.category || 'regular',
-                    details: applicant.details,
-                    site_name: this.SITE_NAME
+                    ...this.pickProfile(applicant),
+                    site_name: getSiteName()
                 }])
                 .select()
                 .single();
@@ -118,17 +163,17 @@ export class ApplicantService {
     /**
      * Update an applicant
      */
-    static async updateApplicant(id: string, updates: {
-        name?: string;
-        category?: ApplicantCategory;
-        details?: string;
-    }): Promise<DatabaseApplicant> {
+    static async updateApplicant(id: string, updates: UpdateApplicantRequest): Promise<DatabaseApplicant> {
         try {
             const { data, error } = await supabaseAdmin
                 .from('urology_applicants')
-                .update(updates)
+                .update({
+                    ...(updates.name !== undefined ? { name: updates.name } : {}),
+                    ...(updates.category !== undefined ? { category: updates.category } : {}),
+                    ...this.pickProfile(updates)
+                })
                 .eq('id', id)
-                .eq('site_name', this.SITE_NAME)
+                .eq('site_name', getSiteName())
                 .select()
                 .single();
 
@@ -153,7 +198,7 @@ export class ApplicantService {
                 .from('urology_applicants')
                 .delete()
                 .eq('id', id)
-                .eq('site_name', this.SITE_NAME);
+                .eq('site_name', getSiteName());
 
             if (error) {
                 console.error('Error deleting applicant:', error);
@@ -166,21 +211,17 @@ export class ApplicantService {
     }
 
     /**
-     * Batch create applicants
+     * Batch create applicants in a cycle
      */
-    static async batchCreateApplicants(applicants: Array<{
-        external_id: string;
-        name: string;
-        category?: ApplicantCategory;
-        details?: string;
-    }>): Promise<DatabaseApplicant[]> {
+    static async batchCreateApplicants(cycleId: string, applicants: CreateApplicantRequest[]): Promise<DatabaseApplicant[]> {
         try {
             const applicantsToInsert = applicants.map(applicant => ({
+                cycle_id: cycleId,
                 external_id: applicant.external_id,
                 name: applicant.name,
                 category: applicant.category || 'regular',
-                details: applicant.details,
-                site_name: this.SITE_NAME
+                ...this.pickProfile(applicant),
+                site_name: getSiteName()
             }));
 
             const { data, error } = await supabaseAdmin
@@ -201,15 +242,16 @@ export class ApplicantService {
     }
 
     /**
-     * Get applicants by category
+     * Get a cycle's applicants by category
      */
-    static async getApplicantsByCategory(category: ApplicantCategory): Promise<DatabaseApplicant[]> {
+    static async getApplicantsByCategory(cycleId: string, category: ApplicantCategory): Promise<DatabaseApplicant[]> {
         try {
             const { data, error } = await supabaseAdmin
                 .from('urology_applicants')
                 .select('*')
                 .eq('category', category)
-                .eq('site_name', this.SITE_NAME)
+                .eq('cycle_id', cycleId)
+                .eq('site_name', getSiteName())
                 .order('name');
 
             if (error) {
@@ -225,51 +267,119 @@ export class ApplicantService {
     }
 
     /**
-     * Get applicant distribution for reviewers
+     * Search, filter, sort and page a cycle's applicants
+     * total counts every match, not just the rows on this page
      */
-    static async getApplicantDistribution(): Promise<ApplicantDistribution> {
+    static async listApplicants(
+        cycleId: string,
+        filters: ApplicantListFilters,
+        listQuery: ListQuery
+    ): Promise<{ applicants: DatabaseApplicant[]; total: number }> {
         try {
-            // This is a placeholder implementation
-            // In a real system, you might store reviewer assignments in a separate table
-            // For now, we'll return all applicants for each reviewer
-            const applicants = await this.getAllApplicants();
-            const distribution: ApplicantDistribution = {};
-
-            // Convert database applicants to frontend format
-            const frontendApplicants: Applicant[] = applicants.map(app => [
-                app.external_id,
-                app.name,
-                app.category,
-                app.details || ''
-            ]);
-
-            // Get all reviewers
-            const { data: reviewers, error } = await supabaseAdmin
-                .from('urology_reviewers')
-                .select('name')
-                .eq('site_name', this.SITE_NAME);
+            const buildQuery = () => {
+                let query = supabaseAdmin
+                    .from('urology_applicants')
+                    .select('*', { count: 'exact' })
+                    .eq('cycle_id', cycleId)
+                    .eq('site_name', getSiteName());
+
+                if (filters.category) {
+                    query = query.eq('category', filters.category);
+                }
+                if (listQuery.search) {
+                    query = query.or(searchFilter(listQuery.search, this.SEARCH_COLUMNS));
+                }
+                for (const key of listQuery.sort) {
+                    query = query.order(key.field, { ascending: key.direction === 'asc', nullsFirst: false });
+                }
+                // Ties break on id so pages never overlap
+                return query.order('id');
+            };
 
-            if (error) {
-                console.error('Error fetching reviewers for distribution:', error);
-                throw new Error(`Failed to fetch reviewers: ${error.message}`);
+            if (listQuery.limit !== undefined) {
+                const { data, error, count } = await buildQuery()
+                    .range(listQuery.offset, listQuery.offset + listQuery.limit - 1);
+
+                if (error) {
+                    console.error('Error listing applicants:', error);
+                    throw new Error(`Failed to fetch applicants: ${error.message}`);
+                }
+
+                return { applicants: data || [], total: count ?? 0 };
             }
 
-            // Distribute only regular applicants to reviewers (exclude I-Sub applicants)
-            const regularApplicants = frontendApplicants.filter(app => app[2] === 'regular');
+            // Without a limit the caller wants every match, more than one response can hold
+            const { data, error } = await fetchAllRows((from, to) => buildQuery().range(from, to));
 
-            if (reviewers && reviewers.length > 0 && regularApplicants.length > 0) {
-                reviewers.forEach((reviewer: { name: string }, index: number) => {
-                    distribution[reviewer.name] = regularApplicants.filter((_, appIndex) =>
-                        appIndex % reviewers.length === index
-                    );
-                });
-            } return distribution;
+            if (error) {
+                console.error('Error listing applicants:', error);
+                throw new Error(`Failed to fetch applicants: ${error.message}`);
+            }
+
+            return { applicants: data || [], total: data?.length ?? 0 };
         } catch (err) {
-            console.error('ApplicantService.getApplicantDistribution error:', err);
+            console.error('ApplicantService.listApplicants error:', err);
             throw err;
         }
     }
 
+    /**
+     * Check the profile fields of a request, returning an error message or null if valid
+     * Absent and null fields pass; null clears a field
+     */
+    static validateProfile(profile: ApplicantProfile): string | null {
+        const isText = (value: unknown): boolean => typeof value === 'string' && value.length <= 255;
+        const isWholeNumber = (value: unknown, min: number, max: number): boolean =>
+            Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+        const present = (field: keyof ApplicantProfile): boolean => profile[field] !== undefined && profile[field] !== null;
+
+        if (present('medical_school') && !isText(profile.medical_school)) {
+            return 'medical_school must be text of at most 255 characters';
+        }
+        if (present('home_program') && !isText(profile.home_program)) {
+            return 'home_program must be text of at most 255 characters';
+        }
+        if (present('graduation_year') && !isWholeNumber(profile.graduation_year, 1950, 2100)) {
+            return 'graduation_year must be a year between 1950 and 2100';
+        }
+        if (present('step2_ck_score') && !isWholeNumber(profile.step2_ck_score, 1, 300)) {
+            return 'step2_ck_score must be a whole number between 1 and 300';
+        }
+        if (present('publication_count') && !isWholeNumber(profile.publication_count, 0, 10000)) {
+            return 'publication_count must be a whole number of at least 0';
+        }
+        for (const field of ['aoa_status', 'ghhs_status'] as const) {
+            if (present(field) && !this.HONOR_SOCIETY_STATUSES.includes(profile[field]!)) {
+                return `${field} must be one of ${this.HONOR_SOCIETY_STATUSES.join(', ')}`;
+            }
+        }
+        if (present('visa_status') && !this.VISA_STATUSES.includes(profile.visa_status!)) {
+            return `visa_status must be one of ${this.VISA_STATUSES.join(', ')}`;
+        }
+        if (present('preference_signal') && typeof profile.preference_signal !== 'boolean') {
+            return 'preference_signal must be true or false';
+        }
+        if (present('clerkship_honors') &&
+            (!Array.isArray(profile.clerkship_honors) || !profile.clerkship_honors.every(isText))) {
+            return 'clerkship_honors must be an array of clerkship names';
+        }
+
+        return null;
+    }
+
+    /**
+     * Copy the profile fields a request sets, leaving everything else behind
+     */
+    static pickProfile(source: ApplicantProfile): ApplicantProfile {
+        const profile: Record<string, unknown> = {};
+        for (const field of this.PROFILE_FIELDS) {
+            if (source[field] !== undefined) {
+                profile[field] = source[field];
+            }
+        }
+        return profile as ApplicantProfile;
+    }
+
     /**
      * Convert database applicant to frontend format
      */
@@ -278,7 +388,7 @@ export class ApplicantService {
             applicant.external_id,
             applicant.name,
             applicant.category,
-            applicant.details || ''
+            applicant.medical_school || ''
         ];
     }
 
@@ -289,13 +399,13 @@ export class ApplicantService {
         external_id: string;
         name: string;
         category: ApplicantCategory;
-        details: string;
+        medical_school: string;
     } {
         return {
             external_id: externalId || applicant[0],
             name: applicant[1],
             category: applicant[2] as ApplicantCategory,
-            details: applicant[3]
+            medical_school: applicant[3]
         };
     }
 }
\ No newline at end of file
@@ -0,0 +1,145 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { fakeSupabase } from '../test/fakeSupabase';
+import { AssignmentService } from './assignmentService';
+import { DatabaseApplicant, DatabaseReviewer, ReviewerRole } from '../types';
+
+jest.mock('../config/supabase', () => ({
+    supabaseAdmin: require('../test/fakeSupabase').fakeSupabase.client
+}));
+
+function reviewer(id: string, fields: { medical_school?: string; capacity_weight?: number; role?: ReviewerRole } = {}): DatabaseReviewer {
+    return {
+        id,
+        name: `Dr. ${id}`,
+        is_admin: false,
+        role: 'reviewer',
+        capacity_weight: 1,
+        site_name: 'urology_review',
+        created_at: '2026-01-01T00:00:00Z',
+        updated_at: '2026-01-01T00:00:00Z',
+        ...fields
+    };
+}
+
+function applicant(id: string, medicalSchool: string | null = null): DatabaseApplicant {
+    return { id, name: `Applicant ${id}`, category: 'regular', medical_school: medicalSchool } as DatabaseApplicant;
+}
+
+function givenCycle(applicants: DatabaseApplicant[], reviewers: DatabaseReviewer[], existing: { applicant_id: string; reviewer_id: string }[] = []) {
+    fakeSupabase.queue('urology_applicants', { data: applicants });
+    fakeSupabase.queue('urology_reviewers', { data: reviewers });
+    fakeSupabase.queue('urology_assignments', { data: existing });
+}
+
+const countBy = (ids: string[]) => ids.reduce<Record<string, number>>((counts, id) => ({ ...counts, [id]: (counts[id] || 0) + 1 }), {});
+
+describe('AssignmentService.hasConflict', () => {
+    it('matches the same school whatever the case and punctuation', () => {
+        expect(AssignmentService.hasConflict(
+            reviewer('r1', { medical_school: 'St. Louis Univ' }),
+            applicant('a1', 'ST LOUIS UNIV School of Medicine')
+        )).toBe(true);
+    });
+
+    it('only matches whole words', () => {
+        expect(AssignmentService.hasConflict(
+            reviewer('r1', { medical_school: 'Penn' }),
+            applicant('a1', 'Penn State College of Medicine')
+        )).toBe(true);
+        expect(AssignmentService.hasConflict(
+            reviewer('r1', { medical_school: 'Penn' }),
+            applicant('a1', 'Pennsylvania College of Medicine')
+        )).toBe(false);
+    });
+
+    it('never conflicts a reviewer without a school', () => {
+        expect(AssignmentService.hasConflict(reviewer('r1', { medical_school: ' . ' }), applicant('a1', 'Any School'))).toBe(false);
+        expect(AssignmentService.hasConflict(reviewer('r1'), applicant('a1'))).toBe(false);
+    });
+});
+
+describe('AssignmentService.planAssignments', () => {
+    beforeEach(() => {
+        fakeSupabase.reset();
+    });
+
+    it('never assigns a reviewer to an applicant from their own school', async () => {
+        givenCycle(
+            [applicant('a1', 'Duke University'), applicant('a2', 'Emory University')],
+            [reviewer('r1', { medical_school: 'Duke University' }), reviewer('r2', { medical_school: 'Emory University' })]
+        );
+
+        const plan = await AssignmentService.planAssignments('cycle-1');
+
+        expect(plan.assignments.map(a => [a.applicant_id, a.reviewer_id])).toEqual([['a1', 'r2'], ['a2', 'r1']]);
+        expect(plan.conflicts_avoided).toBe(2);
+        expect(plan.dry_run).toBe(true);
+    });
+
+    it('reports applicants left short because every other reviewer is conflicted', async () => {
+        givenCycle([applicant('a1', 'Duke University')], [reviewer('r1', { medical_school: 'Duke University' }), reviewer('r2')]);
+
+        const plan = await AssignmentService.planAssignments('cycle-1', { reviewers_per_applicant: 2 });
+
+        expect(plan.assignments.map(a => a.reviewer_id)).toEqual(['r2']);
+        expect(plan.unfilled).toEqual([{
+            applicant_id: 'a1',
+            applicant_name: 'Applicant a1',
+            missing: 1,
+            reason: 'Not enough reviewers without a conflict of interest'
+        }]);
+    });
+
+    it('shares applicants out in proportion to capacity weight', async () => {
+        givenCycle(
+            ['a1', 'a2', 'a3', 'a4', 'a5', 'a6'].map(id => applicant(id)),
+            [reviewer('r1', { capacity_weight: 2 }), reviewer('r2', { capacity_weight: 1 })]
+        );
+
+        const plan = await AssignmentService.planAssignments('cycle-1');
+
+        expect(countBy(plan.assignments.map(a => a.reviewer_id))).toEqual({ r1: 4, r2: 2 });
+        expect(plan.reviewer_loads).toEqual([
+            { reviewer_id: 'r1', reviewer_name: 'Dr. r1', capacity_weight: 2, current: 0, planned: 4 },
+            { reviewer_id: 'r2', reviewer_name: 'Dr. r2', capacity_weight: 1, current: 0, planned: 2 }
+        ]);
+    });
+
+    it('counts existing assignments toward load and never repeats them', async () => {
+        givenCycle(
+            ['a1', 'a2', 'a3', 'a4'].map(id => applicant(id)),
+            [reviewer('r1'), reviewer('r2')],
+            [{ applicant_id: 'a1', reviewer_id: 'r1' }, { applicant_id: 'a2', reviewer_id: 'r1' }]
+        );
+
+        const plan = await AssignmentService.planAssignments('cycle-1');
+
+        expect(plan.assignments.map(a => [a.applicant_id, a.reviewer_id])).toEqual([['a3', 'r2'], ['a4', 'r2']]);
+        expect(plan.reviewer_loads.map(load => [load.reviewer_id, load.current, load.planned])).toEqual([['r1', 2, 0], ['r2', 0, 2]]);
+    });
+
+    it('leaves out reviewers who cannot write reviews or have no capacity', async () => {
+        givenCycle(
+            [applicant('a1'), applicant('a2')],
+            [reviewer('r1', { role: 'coordinator' }), reviewer('r2', { capacity_weight: 0 }), reviewer('r3')]
+        );
+
+        const plan = await AssignmentService.planAssignments('cycle-1');
+
+        expect(plan.assignments.map(a => a.reviewer_id)).toEqual(['r3', 'r3']);
+        expect(plan.reviewer_loads.map(load => load.reviewer_id)).toEqual(['r3']);
+    });
+
+    it('places the applicants with the fewest eligible reviewers first', async () => {
+        givenCycle(
+            [applicant('a1'), applicant('a2', 'Duke University')],
+            [reviewer('r1', { medical_school: 'Duke University' }), reviewer('r2')]
+        );
+
+        const plan = await AssignmentService.planAssignments('cycle-1');
+
+        // a2 can only go to r2, so it is placed before a1
+        expect(plan.assignments.map(a => [a.applicant_id, a.reviewer_id])).toEqual([['a2', 'r2'], ['a1', 'r1']]);
+        expect(plan.unfilled).toEqual([]);
+    });
+});
@@ -0,0 +1,421 @@
+import { supabaseAdmin } from '../config/supabase';
+import { getSiteName } from '../config/tenant';
+import { hasPermission } from '../config/permissions';
+import {
+    Applicant,
+    ApplicantCategory,
+    ApplicantDistribution,
+    AssignmentPlan,
+    AssignmentPlanOptions,
+    AssignmentWithDetails,
+    CreateAssignmentRequest,
+    DatabaseApplicant,
+    DatabaseAssignment,
+    DatabaseReviewer,
+    PlannedAssignment,
+    UnfilledAssignment
+} from '../types';
+
+export class AssignmentService {
+    private static readonly DETAIL_SELECT = '*, applicant:applicant_id(*), reviewer:reviewer_id(*)';
+    private static readonly DEFAULT_REVIEWERS_PER_APPLICANT = 1;
+    private static readonly ALL_CATEGORIES: ApplicantCategory[] = ['regular', 'i-sub'];
+
+    /**
+     * Get a cycle's assignments, optionally filtered by reviewer or applicant
+     */
+    static async getAllAssignments(cycleId: string, filters: {
+        reviewer_id?: string;
+        applicant_id?: string;
+    } = {}): Promise<AssignmentWithDetails[]> {
+        try {
+            let query = supabaseAdmin
+                .from('urology_assignments')
+                .select(this.DETAIL_SELECT)
+                .eq('cycle_id', cycleId)
+                .eq('site_name', getSiteName());
+
+            if (filters.reviewer_id) {
+                query = query.eq('reviewer_id', filters.reviewer_id);
+            }
+            if (filters.applicant_id) {
+                query = query.eq('applicant_id', filters.applicant_id);
+            }
+
+            const { data, error } = await query.order('created_at');
+
+            if (error) {
+                console.error('Error fetching assignments:', error);
+                throw new Error(`Failed to fetch assignments: ${error.message}`);
+            }
+
+            return (data as unknown as AssignmentWithDetails[]) || [];
+        } catch (err) {
+            console.error('AssignmentService.getAllAssignments error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Get assignment by ID within a cycle
+     */
+    static async getAssignmentById(cycleId: string, id: string): Promise<AssignmentWithDetails | null> {
+        try {
+            const { data, error } = await supabaseAdmin
+                .from('urology_assignments')
+                .select(this.DETAIL_SELECT)
+                .eq('id', id)
+                .eq('cycle_id', cycleId)
+                .eq('site_name', getSiteName())
+                .single();
+
+            if (error) {
+                if (error.code === 'PGRST116') {
+                    return null; // Not found
+                }
+                console.error('Error fetching assignment:', error);
+                throw new Error(`Failed to fetch assignment: ${error.message}`);
+            }
+
+            return data as unknown as AssignmentWithDetails;
+        } catch (err) {
+            console.error('AssignmentService.getAssignmentById error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Get the assignment linking an applicant and reviewer, if any
+     */
+    static async getAssignment(applicantId: string, reviewerId: string): Promise<DatabaseAssignment | null> {
+        try {
+            const { data, error } = await supabaseAdmin
+                .from('urology_assignments')
+                .select('*')
+                .eq('applicant_id', applicantId)
+                .eq('reviewer_id', reviewerId)
+                .eq('site_name', getSiteName())
+                .maybeSingle();
+
+            if (error) {
+                console.error('Error fetching assignment:', error);
+                throw new Error(`Failed to fetch assignment: ${error.message}`);
+            }
+
+            return data;
+        } catch (err) {
+            console.error('AssignmentService.getAssignment error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Create a new assignment in the applicant's cycle
+     */
+    static async createAssignment(cycleId: string, assignment: CreateAssignmentRequest, assignedBy?: string): Promise<DatabaseAssignment> {
+        try {
+            const { data, error } = await supabaseAdmin
+                .from('urology_assignments')
+                .insert([{
+                    applicant_id: assignment.applicant_id,
+                    cycle_id: cycleId,
+                    reviewer_id: assignment.reviewer_id,
+                    assigned_by: assignedBy,
+                    site_name: getSiteName()
+                }])
+                .select()
+                .single();
+
+            if (error) {
+                console.error('Error creating assignment:', error);
+                throw new Error(`Failed to create assignment: ${error.message}`);
+            }
+
+            return data;
+        } catch (err) {
+            console.error('AssignmentService.createAssignment error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Create multiple assignments in a cycle, skipping pairs that already exist
+     */
+    static async batchCreateAssignments(cycleId: string, assignments: CreateAssignmentRequest[], assignedBy?: string): Promise<DatabaseAssignment[]> {
+        try {
+            if (assignments.length === 0) {
+                return [];
+            }
+
+            const assignmentsToInsert = assignments.map(assignment => ({
+                applicant_id: assignment.applicant_id,
+                cycle_id: cycleId,
+                reviewer_id: assignment.reviewer_id,
+                assigned_by: assignedBy,
+                site_name: getSiteName()
+            }));
+
+            const { data, error } = await supabaseAdmin
+                .from('urology_assignments')
+                .upsert(assignmentsToInsert, {
+                    onConflict: 'applicant_id,reviewer_id,site_name',
+                    ignoreDuplicates: true
+                })
+                .select();
+
+            if (error) {
+                console.error('Error batch creating assignments:', error);
+                throw new Error(`Failed to batch create assignments: ${error.message}`);
+            }
+
+            return data || [];
+        } catch (err) {
+            console.error('AssignmentService.batchCreateAssignments error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Delete an assignment
+     * Any review already written for the pair is kept
+     */
+    static async deleteAssignment(id: string): Promise<void> {
+        try {
+            const { error } = await supabaseAdmin
+                .from('urology_assignments')
+                .delete()
+                .eq('id', id)
+                .eq('site_name', getSiteName());
+
+            if (error) {
+                console.error('Error deleting assignment:', error);
+                throw new Error(`Failed to delete assignment: ${error.message}`);
+            }
+        } catch (err) {
+            console.error('AssignmentService.deleteAssignment error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Build a cycle's reviewer -> applicants distribution from stored assignments
+     * Pass a reviewer ID to get only that reviewer's queue
+     */
+    static async getDistribution(cycleId: string, reviewerId?: string): Promise<ApplicantDistribution> {
+        try {
+            const assignments = await this.getAllAssignments(cycleId, reviewerId ? { reviewer_id: reviewerId } : {});
+            const distribution: ApplicantDistribution = {};
+
+            for (const assignment of assignments) {
+                if (!assignment.reviewer || !assignment.applicant) continue;
+                const queue = distribution[assignment.reviewer.name] || [];
+                queue.push(this.toDistributionEntry(assignment.applicant));
+                distribution[assignment.reviewer.name] = queue;
+            }
+
+            return distribution;
+        } catch (err) {
+            console.error('AssignmentService.getDistribution error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Work out which reviewers each of a cycle's applicants still needs, without writing anything
+     * Applicants with the fewest eligible reviewers are placed first so they are not starved
+     */
+    static async planAssignments(cycleId: string, options: AssignmentPlanOptions = {}): Promise<AssignmentPlan> {
+        try {
+            const reviewersPerApplicant = options.reviewers_per_applicant ?? this.DEFAULT_REVIEWERS_PER_APPLICANT;
+            const categories = options.categories && options.categories.length > 0
+                ? options.categories
+                : this.ALL_CATEGORIES;
+
+            const [applicantsResult, reviewersResult, assignmentsResult] = await Promise.all([
+                supabaseAdmin
+                    .from('urology_applicants')
+                    .select('*')
+                    .eq('cycle_id', cycleId)
+                    .eq('site_name', getSiteName())
+                    .in('category', categories)
+                    .order('created_at'),
+                supabaseAdmin
+                    .from('urology_reviewers')
+                    .select('*')
+                    .eq('site_name', getSiteName())
+                    .order('name'),
+                supabaseAdmin
+                    .from('urology_assignments')
+                    .select('applicant_id, reviewer_id')
+                    .eq('cycle_id', cycleId)
+                    .eq('site_name', getSiteName())
+            ]);
+
+            if (applicantsResult.error) {
+                throw new Error(`Failed to fetch applicants: ${applicantsResult.error.message}`);
+            }
+            if (reviewersResult.error) {
+                throw new Error(`Failed to fetch reviewers: ${reviewersResult.error.message}`);
+            }
+            if (assignmentsResult.error) {
+                throw new Error(`Failed to fetch assignments: ${assignmentsResult.error.message}`);
+            }
+
+            const applicants: DatabaseApplicant[] = applicantsResult.data || [];
+            const existing = assignmentsResult.data || [];
+
+            // Only roles that can write reviews, with a non-zero weight, get a queue
+            const reviewers: DatabaseReviewer[] = (reviewersResult.data || []).filter((reviewer: DatabaseReviewer) =>
+                hasPermission(reviewer, 'reviews:write') && Number(reviewer.capacity_weight ?? 1) > 0
+            );
+
+            const assignedTo = new Map<string, Set<string>>();
+            const load = new Map<string, number>(reviewers.map(r => [r.id, 0]));
+            for (const assignment of existing) {
+                const reviewerIds = assignedTo.get(assignment.applicant_id) || new Set<string>();
+                reviewerIds.add(assignment.reviewer_id);
+                assignedTo.set(assignment.applicant_id, reviewerIds);
+                if (load.has(assignment.reviewer_id)) {
+                    load.set(assignment.reviewer_id, (load.get(assignment.reviewer_id) || 0) + 1);
+                }
+            }
+            const currentLoad = new Map(load);
+
+            let conflictsAvoided = 0;
+            const candidates = applicants
+                .map(applicant => {
+                    const alreadyAssigned = assignedTo.get(applicant.id) || new Set<string>();
+                    const conflicted = reviewers.filter(r => !alreadyAssigned.has(r.id) && this.hasConflict(r, applicant));
+                    conflictsAvoided += conflicted.length;
+                    return {
+                        applicant,
+                        needed: Math.max(0, reviewersPerApplicant - alreadyAssigned.size),
+                        eligible: reviewers.filter(r => !alreadyAssigned.has(r.id) && !conflicted.includes(r)),
+                        conflictCount: conflicted.length
+                    };
+                })
+                .filter(candidate => candidate.needed > 0)
+                .sort((a, b) => a.eligible.length - b.eligible.length);
+
+            const assignments: PlannedAssignment[] = [];
+            const unfilled: UnfilledAssignment[] = [];
+
+            for (const { applicant, needed, eligible, conflictCount } of candidates) {
+                // Lowest load relative to capacity first; ties keep alphabetical order
+                const chosen = [...eligible]
+                    .sort((a, b) => this.weightedLoad(a, load) - this.weightedLoad(b, load))
+                    .slice(0, needed);
+
+                for (const reviewer of chosen) {
+                    assignments.push({
+                        applicant_id: applicant.id,
+                        applicant_name: applicant.name,
+                        reviewer_id: reviewer.id,
+                        reviewer_name: reviewer.name
+                    });
+                    load.set(reviewer.id, (load.get(reviewer.id) || 0) + 1);
+                }
+
+                if (chosen.length < needed) {
+                    unfilled.push({
+                        applicant_id: applicant.id,
+                        applicant_name: applicant.name,
+                        missing: needed - chosen.length,
+                        reason: conflictCount > 0
+                            ? 'Not enough reviewers without a conflict of interest'
+                            : 'Not enough eligible reviewers'
+                    });
+                }
+            }
+
+            return {
+                reviewers_per_applicant: reviewersPerApplicant,
+                categories,
+                assignments,
+                unfilled,
+                conflicts_avoided: conflictsAvoided,
+                reviewer_loads: reviewers.map(reviewer => ({
+                    reviewer_id: reviewer.id,
+                    reviewer_name: reviewer.name,
+                    capacity_weight: Number(reviewer.capacity_weight ?? 1),
+                    current: currentLoad.get(reviewer.id) || 0,
+                    planned: (load.get(reviewer.id) || 0) - (currentLoad.get(reviewer.id) || 0)
+                })),
+                dry_run: true
+            };
+        } catch (err) {
+            console.error('AssignmentService.planAssignments error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Plan assignments and, unless this is a dry run, store them
+     * Existing assignments are never moved; created lists the rows stored (empty for dry runs)
+     */
+    static async distribute(
+        cycleId: string,
+        options: AssignmentPlanOptions = {},
+        assignedBy?: string
+    ): Promise<{ plan: AssignmentPlan; created: DatabaseAssignment[] }> {
+        try {
+            const plan = await this.planAssignments(cycleId, options);
+            if (options.dry_run) {
+                return { plan, created: [] };
+            }
+
+            const created = await this.batchCreateAssignments(cycleId, plan.assignments.map(assignment => ({
+                applicant_id: assignment.applicant_id,
+                reviewer_id: assignment.reviewer_id
+            })), assignedBy);
+
+            return { plan: { ...plan, dry_run: false }, created };
+        } catch (err) {
+            console.error('AssignmentService.distribute error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Check whether a reviewer has a conflict of interest with an applicant
+     * A reviewer from the same medical school as the applicant is conflicted
+     */
+    static hasConflict(reviewer: DatabaseReviewer, applicant: DatabaseApplicant): boolean {
+        const school = this.normalizeSchool(reviewer.medical_school);
+        if (!school) {
+            return false;
+        }
+        // Pad with spaces so only whole words match
+        return ` ${this.normalizeSchool(applicant.medical_school)} `.includes(` ${school} `);
+    }
+
+    /**
+     * Reviewer's load (including anything planned so far) divided by their capacity weight
+     */
+    private static weightedLoad(reviewer: DatabaseReviewer, load: Map<string, number>): number {
+        return ((load.get(reviewer.id) || 0) + 1) / Number(reviewer.capacity_weight ?? 1);
+    }
+
+    /**
+     * Lowercase and strip punctuation so "St. Louis Univ" and "st louis univ" compare equal
+     */
+    private static normalizeSchool(value?: string | null): string {
+        return (value || '')
+            .toLowerCase()
+            .replace(/[^a-z0-9]+/g, ' ')
+            .trim();
+    }
+
+    /**
+     * Convert an assigned applicant to the distribution tuple
+     * Uses the applicant UUID so entries line up with reviews
+     */
+    private static toDistributionEntry(applicant: DatabaseApplicant): Applicant {
+        return [
+            applicant.id,
+            applicant.name,
+            applicant.category,
+            applicant.medical_school || ''
+        ];
+    }
+}
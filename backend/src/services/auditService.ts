@@ -0,0 +1,101 @@
+import { supabaseAdmin } from '../config/supabase';
+import { getSiteName } from '../config/tenant';
+import { AuditChange, AuditLogFilters, DatabaseAuditEntry, DatabaseReviewer } from '../types';
+
+export class AuditService {
+    private static readonly DEFAULT_LIMIT = 100;
+    private static readonly MAX_LIMIT = 500;
+
+    /**
+     * Append one change to the audit log
+     */
+    static async record(actor: DatabaseReviewer | undefined, change: AuditChange): Promise<void> {
+        await this.recordMany(actor, [change]);
+    }
+
+    /**
+     * Append several changes made by one request, e.g. a batch of assignments
+     */
+    static async recordMany(actor: DatabaseReviewer | undefined, changes: AuditChange[]): Promise<void> {
+        if (changes.length === 0) {
+            return;
+        }
+
+        try {
+            const { error } = await supabaseAdmin
+                .from('urology_audit_log')
+                .insert(changes.map(change => ({
+                    actor_id: actor?.id,
+                    actor_name: actor?.name,
+                    action: change.action,
+                    entity_type: change.entity_type,
+                    entity_id: change.entity_id,
+                    applicant_id: change.applicant_id,
+                    cycle_id: change.cycle_id,
+                    before: change.before ?? null,
+                    after: change.after ?? null,
+                    site_name: getSiteName()
+                })));
+
+            if (error) {
+                console.error('Error writing audit log:', error);
+                throw new Error(`Failed to write audit log: ${error.message}`);
+            }
+        } catch (err) {
+            console.error('AuditService.recordMany error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Get audit entries, newest first
+     */
+    static async getEntries(filters: AuditLogFilters = {}): Promise<DatabaseAuditEntry[]> {
+        try {
+            let query = supabaseAdmin
+                .from('urology_audit_log')
+                .select('*')
+                .eq('site_name', getSiteName());
+
+            if (filters.entity_type) {
+                query = query.eq('entity_type', filters.entity_type);
+            }
+            if (filters.entity_id) {
+                query = query.eq('entity_id', filters.entity_id);
+            }
+            if (filters.applicant_id) {
+                query = query.eq('applicant_id', filters.applicant_id);
+            }
+            if (filters.cycle_id) {
+                query = query.eq('cycle_id', filters.cycle_id);
+            }
+            if (filters.actor_id) {
+                query = query.eq('actor_id', filters.actor_id);
+            }
+            if (filters.action) {
+                query = query.eq('action', filters.action);
+            }
+            if (filters.from) {
+                query = query.gte('created_at', filters.from);
+            }
+            if (filters.to) {
+                query = query.lte('created_at', filters.to);
+            }
+
+            const limit = Math.min(filters.limit || this.DEFAULT_LIMIT, this.MAX_LIMIT);
+            const { data, error } = await query
+                .order('created_at', { ascending: false })
+                .limit(limit);
+
+            if (error) {
+                console.error('Error fetching audit log:', error);
+                throw new Error(`Failed to fetch audit log: ${error.message}`);
+            }
+
+            return data || [];
+        } catch (err) {
+            console.error('AuditService.getEntries error:', err);
+            throw err;
+        }
+    }
+}
@@ -0,0 +1,109 @@
+import crypto from 'crypto';
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { fakeSupabase } from '../test/fakeSupabase';
+import { AuthService } from './authService';
+import { ReviewerService } from './reviewerService';
+import { DatabaseReviewer } from '../types';
+
+jest.mock('../config/supabase', () => ({
+    supabaseAdmin: require('../test/fakeSupabase').fakeSupabase.client
+}));
+
+const reviewer: DatabaseReviewer = {
+    id: 'reviewer-1',
+    name: 'Dr. Smith',
+    email: 'smith@example.org',
+    is_admin: false,
+    role: 'reviewer',
+    capacity_weight: 1,
+    site_name: 'urology_review',
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z'
+};
+
+const hash = (code: string) => crypto.createHash('sha256').update(code).digest('hex');
+
+function liveCode(failedAttempts = 0) {
+    return { data: { id: 'code-1', code_hash: hash('123456'), failed_attempts: failedAttempts } };
+}
+
+// The fields set by the code's update
+function codeUpdate(): Record<string, unknown> {
+    const update = fakeSupabase.queriesOn('urology_login_codes')[1]!.calls.find(call => call.method === 'update');
+    return update!.args[0] as Record<string, unknown>;
+}
+
+describe('AuthService.loginWithCode', () => {
+    beforeEach(() => {
+        fakeSupabase.reset();
+        jest.restoreAllMocks();
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        jest.spyOn(ReviewerService, 'getReviewerByEmail').mockResolvedValue(reviewer);
+    });
+
+    it('opens a session and uses up the code when it matches', async () => {
+        fakeSupabase.queue('urology_login_codes', liveCode(), { data: { id: 'code-1' } });
+
+        const session = await AuthService.loginWithCode(reviewer.email!, ' 123456 ');
+
+        expect(session?.reviewer.id).toBe(reviewer.id);
+        expect(session?.reviewer.permissions).toContain('reviews:write');
+        expect(codeUpdate()).toEqual({ failed_attempts: 0, consumed_at: expect.any(String) });
+
+        const [insert] = fakeSupabase.queriesOn('urology_sessions');
+        const stored = (insert!.calls[0]!.args[0] as Record<string, unknown>[])[0]!;
+        expect(stored.token_hash).toBe(hash(session!.token));
+        expect(stored.site_name).toBe(reviewer.site_name);
+    });
+
+    it('counts a miss without using up the code', async () => {
+        fakeSupabase.queue('urology_login_codes', liveCode(1), { data: { id: 'code-1' } });
+
+        await expect(AuthService.loginWithCode(reviewer.email!, '654321')).resolves.toBeNull();
+
+        expect(codeUpdate()).toEqual({ failed_attempts: 2 });
+        expect(fakeSupabase.queriesOn('urology_sessions')).toHaveLength(0);
+    });
+
+    it('burns the code on the fifth miss', async () => {
+        fakeSupabase.queue('urology_login_codes', liveCode(4), { data: { id: 'code-1' } });
+
+        await expect(AuthService.loginWithCode(reviewer.email!, '654321')).resolves.toBeNull();
+
+        expect(codeUpdate()).toEqual({ failed_attempts: 5, consumed_at: expect.any(String) });
+    });
+
+    it('only updates the code if no other attempt has touched it since it was read', async () => {
+        fakeSupabase.queue('urology_login_codes', liveCode(2), { data: null });
+
+        await expect(AuthService.loginWithCode(reviewer.email!, '123456')).resolves.toBeNull();
+
+        const calls = fakeSupabase.queriesOn('urology_login_codes')[1]!.calls;
+        expect(calls).toContainEqual({ method: 'eq', args: ['failed_attempts', 2] });
+        expect(calls).toContainEqual({ method: 'is', args: ['consumed_at', null] });
+        expect(fakeSupabase.queriesOn('urology_sessions')).toHaveLength(0);
+    });
+
+    it('rejects a reviewer without a live code', async () => {
+        fakeSupabase.queue('urology_login_codes', { data: null });
+
+        await expect(AuthService.loginWithCode(reviewer.email!, '123456')).resolves.toBeNull();
+
+        expect(fakeSupabase.queriesOn('urology_login_codes')).toHaveLength(1);
+    });
+
+    it('rejects an unknown email without looking for a code', async () => {
+        jest.spyOn(ReviewerService, 'getReviewerByEmail').mockResolvedValue(null);
+
+        await expect(AuthService.loginWithCode('nobody@example.org', '123456')).resolves.toBeNull();
+
+        expect(fakeSupabase.queries).toHaveLength(0);
+    });
+
+    it('surfaces database errors', async () => {
+        fakeSupabase.queue('urology_login_codes', { error: { message: 'connection lost' } });
+
+        await expect(AuthService.loginWithCode(reviewer.email!, '123456'))
+            .rejects.toThrow('Failed to verify login code: connection lost');
+    });
+});
@@ -0,0 +1,405 @@
+import crypto from 'crypto';
+import { supabaseAdmin } from '../config/supabase';
+import { getSiteName } from '../config/tenant';
+import { ReviewerService } from './reviewerService';
+import { getPermissions } from '../config/permissions';
+import { AuthenticatedReviewer, AuthSession, DatabaseReviewer } from '../types';
+
+export class AuthService {
+    private static readonly SESSION_TTL_HOURS = parseInt(process.env.SESSION_TTL_HOURS || '12', 10);
+    static readonly LOGIN_CODE_TTL_MINUTES = 15;
+    private static readonly LOGIN_CODE_MAX_ATTEMPTS = 5;
+    private static readonly MIN_PASSWORD_LENGTH = 8;
+    private static readonly SCRYPT_KEY_LENGTH = 64;
+
+    /**
+     * Hash a password with scrypt and a random salt
+     * Format: scrypt$<salt hex>$<hash hex>
+     */
+    static hashPassword(password: string): string {
+        const salt = crypto.randomBytes(16).toString('hex');
+        const hash = crypto.scryptSync(password, salt, this.SCRYPT_KEY_LENGTH).toString('hex');
+        return `scrypt$${salt}$${hash}`;
+    }
+
+    /**
+     * Verify a password against a stored scrypt hash
+     */
+    static verifyPassword(password: string, storedHash: string): boolean {
+        const [scheme, salt, hash] = storedHash.split('$');
+        if (scheme !== 'scrypt' || !salt || !hash) {
+            return false;
+        }
+
+        const expected = Buffer.from(hash, 'hex');
+        const actual = crypto.scryptSync(password, salt, expected.length);
+        return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+    }
+
+    /**
+     * Validate a new password, returning an error message or null if acceptable
+     */
+    static validatePassword(password: unknown): string | null {
+        if (typeof password !== 'string' || password.length < this.MIN_PASSWORD_LENGTH) {
+            return `Password must be at least ${this.MIN_PASSWORD_LENGTH} characters`;
+        }
+        return null;
+    }
+
+    /**
+     * Sign in with email and password
+     * Returns null when the email is unknown or the password does not match
+     */
+    static async loginWithPassword(email: string, password: string): Promise<AuthSession | null> {
+        try {
+            const reviewer = await ReviewerService.getReviewerByEmail(email);
+            if (!reviewer) {
+                return null;
+            }
+
+            const { data: credentials, error } = await supabaseAdmin
+                .from('urology_reviewer_credentials')
+                .select('password_hash')
+                .eq('reviewer_id', reviewer.id)
+                .eq('site_name', getSiteName())
+                .maybeSingle();
+
+            if (error) {
+                console.error('Error fetching reviewer credentials:', error);
+                throw new Error(`Failed to fetch credentials: ${error.message}`);
+            }
+
+            if (!credentials || !this.verifyPassword(password, credentials.password_hash)) {
+                return null;
+            }
+
+            return await this.createSession(reviewer);
+        } catch (err) {
+            console.error('AuthService.loginWithPassword error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Issue a one-time sign-in code for the reviewer with this email, replacing any code they already had
+     * Does nothing if no reviewer matches; the code itself only ever goes to deliverLoginCode
+     */
+    static async requestLoginCode(email: string): Promise<void> {
+        try {
+            const reviewer = await ReviewerService.getReviewerByEmail(email);
+            if (!reviewer) {
+                return;
+            }
+
+            const code = crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+            const expiresAt = new Date(Date.now() + this.LOGIN_CODE_TTL_MINUTES * 60 * 1000).toISOString();
+
+            const { error } = await supabaseAdmin
+                .from('urology_login_codes')
+                .upsert([{
+                    reviewer_id: reviewer.id,
+                    code_hash: this.hashToken(code),
+                    expires_at: expiresAt,
+                    consumed_at: null,
+                    failed_attempts: 0,
+                    site_name: getSiteName(),
+                    created_at: new Date().toISOString()
+                }], {
+                    onConflict: 'reviewer_id'
+                });
+
+            if (error) {
+                console.error('Error creating login code:', error);
+                throw new Error(`Failed to create login code: ${error.message}`);
+            }
+
+            this.deliverLoginCode(reviewer, code);
+        } catch (err) {
+            console.error('AuthService.requestLoginCode error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Exchange a one-time sign-in code for a session
+     * Returns null when the code is wrong, expired or already used
+     * Each wrong guess counts against the reviewer's live code, which is burnt after LOGIN_CODE_MAX_ATTEMPTS misses
+     */
+    static async loginWithCode(email: string, code: string): Promise<AuthSession | null> {
+        try {
+            const reviewer = await ReviewerService.getReviewerByEmail(email);
+            if (!reviewer) {
+                return null;
+            }
+
+            const { data: loginCode, error } = await supabaseAdmin
+                .from('urology_login_codes')
+                .select('id, code_hash, failed_attempts')
+                .eq('reviewer_id', reviewer.id)
+                .eq('site_name', getSiteName())
+                .is('consumed_at', null)
+                .gt('expires_at', new Date().toISOString())
+                .maybeSingle();
+
+            if (error) {
+                console.error('Error verifying login code:', error);
+                throw new Error(`Failed to verify login code: ${error.message}`);
+            }
+
+            if (!loginCode) {
+                return null;
+            }
+
+            const expected = Buffer.from(loginCode.code_hash, 'hex');
+            const actual = Buffer.from(this.hashToken(code.trim()), 'hex');
+            const matches = expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+            const failedAttempts = loginCode.failed_attempts + (matches ? 0 : 1);
+
+            // Guarded on the attempt count so two requests racing on the same code cannot both use it
+            // or both spend the same miss
+            const { data: updated, error: updateError } = await supabaseAdmin
+                .from('urology_login_codes')
+                .update({
+                    failed_attempts: failedAttempts,
+                    ...(matches || failedAttempts >= this.LOGIN_CODE_MAX_ATTEMPTS ? { consumed_at: new Date().toISOString() } : {})
+                })
+                .eq('id', loginCode.id)
+                .eq('failed_attempts', loginCode.failed_attempts)
+                .is('consumed_at', null)
+                .select('id')
+                .maybeSingle();
+
+            if (updateError) {
+                console.error('Error updating login code:', updateError);
+                throw new Error(`Failed to update login code: ${updateError.message}`);
+            }
+
+            if (!matches || !updated) {
+                return null;
+            }
+
+            return await this.createSession(reviewer);
+        } catch (err) {
+            console.error('AuthService.loginWithCode error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Count one sign-in request against a throttle bucket (an email or IP address)
+     * Returns how many requests the bucket has made in its current window, including this one
+     */
+    static async recordSignInAttempt(bucket: string, windowSeconds: number): Promise<number> {
+        try {
+            const { data, error } = await supabaseAdmin.rpc('urology_auth_throttle_hit', {
+                p_bucket: bucket,
+                p_window_seconds: windowSeconds
+            });
+
+            if (error) {
+                console.error('Error recording sign-in attempt:', error);
+                throw new Error(`Failed to record sign-in attempt: ${error.message}`);
+            }
+
+            return data as number;
+        } catch (err) {
+            console.error('AuthService.recordSignInAttempt error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Resolve a bearer token to its reviewer, or null if the session is unknown or expired
+     * Not scoped to the current site: the reviewer's site_name decides which site the request acts for
+     */
+    static async getReviewerForToken(token: string): Promise<DatabaseReviewer | null> {
+        try {
+            const { data, error } = await supabaseAdmin
+                .from('urology_sessions')
+                .select('expires_at, reviewer:urology_reviewers(*)')
+                .eq('token_hash', this.hashToken(token))
+                .gt('expires_at', new Date().toISOString())
+                .maybeSingle();
+
+            if (error) {
+                console.error('Error fetching session:', error);
+                throw new Error(`Failed to fetch session: ${error.message}`);
+            }
+
+            return (data?.reviewer as unknown as DatabaseReviewer | null) || null;
+        } catch (err) {
+            console.error('AuthService.getReviewerForToken error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * End the session identified by this token
+     */
+    static async logout(token: string): Promise<void> {
+        try {
+            const { error } = await supabaseAdmin
+                .from('urology_sessions')
+                .delete()
+                .eq('token_hash', this.hashToken(token))
+                .eq('site_name', getSiteName());
+
+            if (error) {
+                console.error('Error deleting session:', error);
+                throw new Error(`Failed to end session: ${error.message}`);
+            }
+        } catch (err) {
+            console.error('AuthService.logout error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Check whether a reviewer already has a password set
+     */
+    static async hasPassword(reviewerId: string): Promise<boolean> {
+        try {
+            const { count, error } = await supabaseAdmin
+                .from('urology_reviewer_credentials')
+                .select('*', { count: 'exact', head: true })
+                .eq('reviewer_id', reviewerId)
+                .eq('site_name', getSiteName());
+
+            if (error) {
+                console.error('Error checking reviewer credentials:', error);
+                throw new Error(`Failed to check credentials: ${error.message}`);
+            }
+
+            return (count || 0) > 0;
+        } catch (err) {
+            console.error('AuthService.hasPassword error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Check a reviewer's current password
+     */
+    static async checkPassword(reviewerId: string, password: string): Promise<boolean> {
+        try {
+            const { data, error } = await supabaseAdmin
+                .from('urology_reviewer_credentials')
+                .select('password_hash')
+                .eq('reviewer_id', reviewerId)
+                .eq('site_name', getSiteName())
+                .maybeSingle();
+
+            if (error) {
+                console.error('Error fetching reviewer credentials:', error);
+                throw new Error(`Failed to fetch credentials: ${error.message}`);
+            }
+
+            return !!data && this.verifyPassword(password, data.password_hash);
+        } catch (err) {
+            console.error('AuthService.checkPassword error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Set or replace a reviewer's password
+     */
+    static async setPassword(reviewerId: string, password: string): Promise<void> {
+        try {
+            const { error } = await supabaseAdmin
+                .from('urology_reviewer_credentials')
+                .upsert([{
+                    reviewer_id: reviewerId,
+                    password_hash: this.hashPassword(password),
+                    site_name: getSiteName()
+                }], {
+                    onConflict: 'reviewer_id'
+                });
+
+            if (error) {
+                console.error('Error setting password:', error);
+                throw new Error(`Failed to set password: ${error.message}`);
+            }
+        } catch (err) {
+            console.error('AuthService.setPassword error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Give a reviewer a new random password and end their sessions, for a program director to hand over
+     * This is how reviewers get their first password, and how a forgotten one is reset
+     * Returns the plain password, which is not stored anywhere
+     */
+    static async issueTemporaryPassword(reviewerId: string): Promise<string> {
+        try {
+            const password = crypto.randomBytes(12).toString('base64url');
+            await this.setPassword(reviewerId, password);
+
+            const { error } = await supabaseAdmin
+                .from('urology_sessions')
+                .delete()
+                .eq('reviewer_id', reviewerId)
+                .eq('site_name', getSiteName());
+
+            if (error) {
+                console.error('Error ending reviewer sessions:', error);
+                throw new Error(`Failed to end sessions: ${error.message}`);
+            }
+
+            return password;
+        } catch (err) {
+            console.error('AuthService.issueTemporaryPassword error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Create a session for a reviewer and return the raw bearer token
+     */
+    private static async createSession(reviewer: DatabaseReviewer): Promise<AuthSession> {
+        const token = crypto.randomBytes(32).toString('hex');
+        const expiresAt = new Date(Date.now() + this.SESSION_TTL_HOURS * 60 * 60 * 1000).toISOString();
+
+        const { error } = await supabaseAdmin
+            .from('urology_sessions')
+            .insert([{
+                reviewer_id: reviewer.id,
+                token_hash: this.hashToken(token),
+                expires_at: expiresAt,
+                site_name: reviewer.site_name
+            }]);
+
+        if (error) {
+            console.error('Error creating session:', error);
+            throw new Error(`Failed to create session: ${error.message}`);
+        }
+
+        return { token, expires_at: expiresAt, reviewer: this.withPermissions(reviewer) };
+    }
+
+    /**
+     * Attach the reviewer's effective permissions so clients can hide what they cannot do
+     */
+    static withPermissions(reviewer: DatabaseReviewer): AuthenticatedReviewer {
+        return { ...reviewer, permissions: getPermissions(reviewer) };
+    }
+
+    /**
+     * Deliver a sign-in code to the reviewer
+     * No mail provider is configured yet, so codes are only written to the server log, and only when
+     * LOG_LOGIN_CODES=true; reviewers otherwise sign in with a password from issueTemporaryPassword
+     */
+    private static deliverLoginCode(reviewer: DatabaseReviewer, code: string): void {
+        if (process.env.LOG_LOGIN_CODES === 'true') {
+            console.log(`📧 Sign-in code for ${reviewer.email}: ${code}`);
+        }
+    }
+
+    /**
+     * Hash tokens and codes before storage so a database leak does not expose live sessions
+     */
+    private static hashToken(value: string): string {
+        return crypto.createHash('sha256').update(value).digest('hex');
+    }
+}
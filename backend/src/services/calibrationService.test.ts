@@ -0,0 +1,139 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { fakeSupabase } from '../test/fakeSupabase';
+import { CalibrationService } from './calibrationService';
+import { CalibrationReport, DatabaseFinalSelection } from '../types';
+
+jest.mock('../config/supabase', () => ({
+    supabaseAdmin: require('../test/fakeSupabase').fakeSupabase.client
+}));
+
+function review(id: string, applicantId: string, reviewerName: string, score: number, rubricId = 'rubric-1') {
+    return {
+        id,
+        applicant_id: applicantId,
+        reviewer_name: reviewerName,
+        rubric_id: rubricId,
+        total_score: score,
+        weighted_score: score
+    };
+}
+
+function selection(applicantId: string, averageScore: number | null): DatabaseFinalSelection {
+    return {
+        id: `selection-${applicantId}`,
+        applicant_id: applicantId,
+        average_score: averageScore
+    } as DatabaseFinalSelection;
+}
+
+describe('CalibrationService.getCalibration', () => {
+    beforeEach(() => {
+        fakeSupabase.reset();
+    });
+
+    it('turns each calibrated reviewer\'s scores into z-scores against their own mean and spread', async () => {
+        fakeSupabase.queue('urology_reviews', {
+            data: [
+                review('r1', 'a1', 'Dr. Adams', 90),
+                review('r2', 'a2', 'Dr. Adams', 80),
+                review('r3', 'a3', 'Dr. Adams', 70),
+                review('r4', 'a1', 'Dr. Baker', 60)
+            ]
+        });
+
+        const report = await CalibrationService.getCalibration('cycle-1');
+
+        expect(report.reviewers).toEqual([
+            { reviewer_name: 'Dr. Adams', rubric_id: 'rubric-1', review_count: 3, mean: 80, std_dev: 10, calibrated: true },
+            { reviewer_name: 'Dr. Baker', rubric_id: 'rubric-1', review_count: 1, mean: 60, std_dev: 0, calibrated: false }
+        ]);
+        expect(report.reviews.map(r => [r.review_id, r.z_score])).toEqual([['r1', 1], ['r2', 0], ['r3', -1], ['r4', null]]);
+        expect(report.applicants.find(a => a.applicant_id === 'a1')).toEqual({
+            applicant_id: 'a1',
+            review_count: 2,
+            raw_score: 75,
+            normalized_score: 1
+        });
+    });
+
+    it('leaves a reviewer who gives everyone the same score uncalibrated', async () => {
+        fakeSupabase.queue('urology_reviews', {
+            data: ['a1', 'a2', 'a3'].map((applicantId, index) => review(`r${index}`, applicantId, 'Dr. Adams', 85))
+        });
+
+        const report = await CalibrationService.getCalibration('cycle-1');
+
+        expect(report.reviewers[0]!.calibrated).toBe(false);
+        expect(report.applicants.every(a => a.normalized_score === null)).toBe(true);
+    });
+
+    it('calibrates each rubric a reviewer used separately', async () => {
+        fakeSupabase.queue('urology_reviews', {
+            data: [
+                review('r1', 'a1', 'Dr. Adams', 9, 'old'),
+                review('r2', 'a2', 'Dr. Adams', 7, 'old'),
+                review('r3', 'a3', 'Dr. Adams', 90),
+                review('r4', 'a4', 'Dr. Adams', 80),
+                review('r5', 'a5', 'Dr. Adams', 70)
+            ]
+        });
+
+        const report = await CalibrationService.getCalibration('cycle-1');
+
+        expect(report.reviewers.map(r => [r.rubric_id, r.mean, r.calibrated])).toEqual([
+            ['old', 8, false],
+            ['rubric-1', 80, true]
+        ]);
+    });
+
+    it('falls back to the total score for reviews without a weighted score', async () => {
+        fakeSupabase.queue('urology_reviews', {
+            data: [{ ...review('r1', 'a1', 'Dr. Adams', 0), weighted_score: null, total_score: 42 }]
+        });
+
+        const report = await CalibrationService.getCalibration('cycle-1');
+
+        expect(report.reviews[0]!.weighted_score).toBe(42);
+    });
+
+    it('reads every review however many pages they take', async () => {
+        const firstPage = Array.from({ length: 1000 }, (_, index) => review(`r${index}`, `a${index}`, 'Dr. Adams', index % 10));
+        fakeSupabase.queue('urology_reviews', { data: firstPage }, { data: [review('last', 'a-last', 'Dr. Baker', 50)] });
+
+        const report = await CalibrationService.getCalibration('cycle-1');
+
+        expect(report.reviews).toHaveLength(1001);
+        expect(fakeSupabase.queriesOn('urology_reviews').map(query =>
+            query.calls.find(call => call.method === 'range')!.args)).toEqual([[0, 999], [1000, 1999]]);
+    });
+});
+
+describe('CalibrationService.rankFinalSelections', () => {
+    const calibration = {
+        applicants: [
+            { applicant_id: 'a1', normalized_score: -0.5 },
+            { applicant_id: 'a2', normalized_score: 1.2 },
+            { applicant_id: 'a3', normalized_score: null }
+        ]
+    } as CalibrationReport;
+
+    const selections = [selection('a1', 88), selection('a2', 80), selection('a3', 88), selection('a4', null)];
+
+    it('ranks by raw average score, ties sharing a rank', () => {
+        const ranked = CalibrationService.rankFinalSelections(selections, calibration);
+
+        expect(ranked.map(s => [s.applicant_id, s.raw_rank])).toEqual([['a1', 1], ['a3', 1], ['a2', 3], ['a4', 4]]);
+    });
+
+    it('ranks by normalized score with uncalibrated applicants last and unranked', () => {
+        const ranked = CalibrationService.rankFinalSelections(selections, calibration, 'normalized');
+
+        expect(ranked.map(s => [s.applicant_id, s.normalized_rank])).toEqual([
+            ['a2', 1],
+            ['a1', 2],
+            ['a3', null],
+            ['a4', null]
+        ]);
+        expect(ranked.find(s => s.applicant_id === 'a2')!.normalized_score).toBe(1.2);
+    });
+});
@@ -0,0 +1,184 @@
+import { supabaseAdmin } from '../config/supabase';
+import { getSiteName } from '../config/tenant';
+import { fetchAllRows } from '../utils/fetchAll';
+import {
+    ApplicantCalibration,
+    CalibratedReview,
+    CalibrationReport,
+    DatabaseFinalSelection,
+    DatabaseReview,
+    RankedFinalSelection,
+    RankingMode,
+    ReviewerCalibration
+} from '../types';
+
+export class CalibrationService {
+    // Below this many completed reviews a reviewer's mean and spread are too noisy to correct for
+    static readonly MIN_REVIEWS = 3;
+
+    /**
+     * Normalize every completed review in a cycle against its reviewer's own scoring habits that cycle
+     * Each review's weighted score becomes a z-score: (score - reviewer mean) / reviewer std dev
+     */
+    static async getCalibration(cycleId: string): Promise<CalibrationReport> {
+        try {
+            const { data, error } = await fetchAllRows((from, to) => supabaseAdmin
+                .from('urology_reviews')
+                .select('id, applicant_id, reviewer_name, rubric_id, total_score, weighted_score')
+                .eq('cycle_id', cycleId)
+                .eq('site_name', getSiteName())
+                .not('decision', 'is', null)
+                .not('total_score', 'is', null)
+                .order('id')
+                .range(from, to));
+
+            if (error) {
+                console.error('Error fetching reviews for calibration:', error);
+                throw new Error(`Failed to fetch reviews: ${error.message}`);
+            }
+
+            const reviews = ((data || []) as DatabaseReview[]).map(review => ({
+                ...review,
+                score: Number(review.weighted_score ?? review.total_score)
+            }));
+
+            // Group by reviewer and rubric
+            const groups = new Map<string, number[]>();
+            for (const review of reviews) {
+                const key = `${review.reviewer_name}|${review.rubric_id}`;
+                groups.set(key, [...(groups.get(key) || []), review.score]);
+            }
+
+            const reviewerStats = new Map<string, ReviewerCalibration>();
+            const spreads = new Map<string, { mean: number; std_dev: number }>();
+            for (const [key, scores] of groups) {
+                const [reviewer_name = '', rubric_id = ''] = key.split('|');
+                const mean = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+                const variance = scores.length > 1
+                    ? scores.reduce((sum, score) => sum + (score - mean) ** 2, 0) / (scores.length - 1)
+                    : 0;
+                const std_dev = Math.sqrt(variance);
+
+                spreads.set(key, { mean, std_dev });
+                reviewerStats.set(key, {
+                    reviewer_name,
+                    rubric_id,
+                    review_count: scores.length,
+                    mean: this.round(mean),
+                    std_dev: this.round(std_dev),
+                    calibrated: scores.length >= this.MIN_REVIEWS && std_dev > 0
+                });
+            }
+
+            const calibratedReviews: CalibratedReview[] = reviews.map(review => {
+                const key = `${review.reviewer_name}|${review.rubric_id}`;
+                const { mean, std_dev } = spreads.get(key)!;
+                return {
+                    review_id: review.id,
+                    applicant_id: review.applicant_id,
+                    reviewer_name: review.reviewer_name,
+                    rubric_id: review.rubric_id,
+                    weighted_score: review.score,
+                    z_score: reviewerStats.get(key)!.calibrated
+                        ? this.round((review.score - mean) / std_dev, 3)
+                        : null
+                };
+            });
+
+            return {
+                min_reviews: this.MIN_REVIEWS,
+                reviewers: [...reviewerStats.values()].sort((a, b) => a.reviewer_name.localeCompare(b.reviewer_name)),
+                reviews: calibratedReviews,
+                applicants: this.summarizeApplicants(calibratedReviews)
+            };
+        } catch (err) {
+            console.error('CalibrationService.getCalibration error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Attach normalized scores and both rankings to final selections, sorted by the chosen ranking
+     */
+    static rankFinalSelections(
+        selections: DatabaseFinalSelection[],
+        calibration: CalibrationReport,
+        sortBy: RankingMode = 'raw'
+    ): RankedFinalSelection[] {
+        const normalizedByApplicant = new Map(
+            calibration.applicants.map(applicant => [applicant.applicant_id, applicant.normalized_score])
+        );
+
+        const withScores = selections.map(selection => ({
+            ...selection,
+            normalized_score: normalizedByApplicant.get(selection.applicant_id) ?? null
+        }));
+
+        const rawRanks = this.rank(withScores, selection => Number(selection.average_score ?? 0));
+        const normalizedRanks = this.rank(
+            withScores.filter(selection => selection.normalized_score !== null),
+            selection => selection.normalized_score!
+        );
+
+        const ranked: RankedFinalSelection[] = withScores.map(selection => ({
+            ...selection,
+            raw_rank: rawRanks.get(selection.applicant_id)!,
+            normalized_rank: normalizedRanks.get(selection.applicant_id) ?? null
+        }));
+
+        // Applicants with no calibrated reviews go to the bottom of the normalized ranking
+        const sortKey = (selection: RankedFinalSelection): number => sortBy === 'normalized'
+            ? selection.normalized_rank ?? Number.MAX_SAFE_INTEGER
+            : selection.raw_rank;
+        return ranked.sort((a, b) => sortKey(a) - sortKey(b));
+    }
+
+    /**
+     * Average each applicant's raw and normalized review scores
+     */
+    private static summarizeApplicants(reviews: CalibratedReview[]): ApplicantCalibration[] {
+        const byApplicant = new Map<string, CalibratedReview[]>();
+        for (const review of reviews) {
+            byApplicant.set(review.applicant_id, [...(byApplicant.get(review.applicant_id) || []), review]);
+        }
+
+        return [...byApplicant.entries()].map(([applicant_id, applicantReviews]) => {
+            const zScores = applicantReviews
+                .map(review => review.z_score)
+                .filter((z): z is number => z !== null);
+
+            return {
+                applicant_id,
+                review_count: applicantReviews.length,
+                raw_score: this.round(
+                    applicantReviews.reduce((sum, review) => sum + review.weighted_score, 0) / applicantReviews.length
+                ),
+                normalized_score: zScores.length > 0
+                    ? this.round(zScores.reduce((sum, z) => sum + z, 0) / zScores.length, 3)
+                    : null
+            };
+        });
+    }
+
+    /**
+     * Competition ranking, highest score first: ties share a rank and the next rank is skipped
+     */
+    private static rank<T extends { applicant_id: string }>(items: T[], score: (item: T) => number): Map<string, number> {
+        const sorted = [...items].sort((a, b) => score(b) - score(a));
+        const ranks = new Map<string, number>();
+
+        sorted.forEach((item, index) => {
+            const previous = sorted[index - 1];
+            ranks.set(
+                item.applicant_id,
+                previous && score(previous) === score(item) ? ranks.get(previous.applicant_id)! : index + 1
+            );
+        });
+
+        return ranks;
+    }
+
+    private static round(value: number, places = 2): number {
+        return parseFloat(value.toFixed(places));
+    }
+}
@@ -0,0 +1,177 @@
+import { supabaseAdmin } from '../config/supabase';
+import { getSiteName } from '../config/tenant';
+import { CreateCycleRequest, DatabaseCycle } from '../types';
+
+export class CycleService {
+    /**
+     * Get all cycles, newest first
+     */
+    static async getAllCycles(): Promise<DatabaseCycle[]> {
+        try {
+            const { data, error } = await supabaseAdmin
+                .from('urology_cycles')
+                .select('*')
+                .eq('site_name', getSiteName())
+                .order('name', { ascending: false });
+
+            if (error) {
+                console.error('Error fetching cycles:', error);
+                throw new Error(`Failed to fetch cycles: ${error.message}`);
+            }
+
+            return data || [];
+        } catch (err) {
+            console.error('CycleService.getAllCycles error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Get cycle by ID
+     */
+    static async getCycleById(id: string): Promise<DatabaseCycle | null> {
+        try {
+            const { data, error } = await supabaseAdmin
+                .from('urology_cycles')
+                .select('*')
+                .eq('id', id)
+                .eq('site_name', getSiteName())
+                .maybeSingle();
+
+            if (error) {
+                console.error('Error fetching cycle:', error);
+                throw new Error(`Failed to fetch cycle: ${error.message}`);
+            }
+
+            return data;
+        } catch (err) {
+            console.error('CycleService.getCycleById error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Get cycle by name, e.g. '2025-2026'
+     */
+    static async getCycleByName(name: string): Promise<DatabaseCycle | null> {
+        try {
+            const { data, error } = await supabaseAdmin
+                .from('urology_cycles')
+                .select('*')
+                .eq('name', name)
+                .eq('site_name', getSiteName())
+                .maybeSingle();
+
+            if (error) {
+                console.error('Error fetching cycle by name:', error);
+                throw new Error(`Failed to fetch cycle: ${error.message}`);
+            }
+
+            return data;
+        } catch (err) {
+            console.error('CycleService.getCycleByName error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Get the cycle new applicants, reviews and decisions go into, or null if none is active
+     */
+    static async getActiveCycle(): Promise<DatabaseCycle | null> {
+        try {
+            const { data, error } = await supabaseAdmin
+                .from('urology_cycles')
+                .select('*')
+                .eq('is_active', true)
+                .eq('site_name', getSiteName())
+                .maybeSingle();
+
+            if (error) {
+                console.error('Error fetching active cycle:', error);
+                throw new Error(`Failed to fetch active cycle: ${error.message}`);
+            }
+
+            return data;
+        } catch (err) {
+            console.error('CycleService.getActiveCycle error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Create a cycle, optionally making it the active one
+     */
+    static async createCycle(cycle: CreateCycleRequest, createdBy?: string): Promise<DatabaseCycle> {
+        try {
+            const { data, error } = await supabaseAdmin
+                .from('urology_cycles')
+                .insert([{
+                    name: cycle.name,
+                    created_by: createdBy,
+                    site_name: getSiteName()
+                }])
+                .select()
+                .single();
+
+            if (error) {
+                console.error('Error creating cycle:', error);
+                throw new Error(`Failed to create cycle: ${error.message}`);
+            }
+
+            return cycle.activate ? await this.activateCycle(data.id) : data;
+        } catch (err) {
+            console.error('CycleService.createCycle error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Make a cycle the active one
+     * The previously active cycle becomes read-only
+     */
+    static async activateCycle(id: string): Promise<DatabaseCycle> {
+        try {
+            // Deactivate first: a unique index allows only one active cycle per site
+            const { error: deactivateError } = await supabaseAdmin
+                .from('urology_cycles')
+                .update({ is_active: false })
+                .eq('is_active', true)
+                .neq('id', id)
+                .eq('site_name', getSiteName());
+
+            if (deactivateError) {
+                console.error('Error deactivating cycles:', deactivateError);
+                throw new Error(`Failed to deactivate cycles: ${deactivateError.message}`);
+            }
+
+            const { data, error } = await supabaseAdmin
+                .from('urology_cycles')
+                .update({ is_active: true })
+                .eq('id', id)
+                .eq('site_name', getSiteName())
+                .select()
+                .single();
+
+            if (error) {
+                console.error('Error activating cycle:', error);
+                throw new Error(`Failed to activate cycle: ${error.message}`);
+            }
+
+            return data;
+        } catch (err) {
+            console.error('CycleService.activateCycle error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Check a cycle name such as '2025-2026'
+     */
+    static isValidName(name: unknown): name is string {
+        if (typeof name !== 'string') {
+            return false;
+        }
+        const match = /^(\d{4})-(\d{4})$/.exec(name);
+        return !!match && Number(match[2]) === Number(match[1]) + 1;
+    }
+}
@@ -0,0 +1,162 @@
+import crypto from 'crypto';
+import { supabaseAdmin } from '../config/supabase';
+import { getSiteName } from '../config/tenant';
+import { documentStorage } from '../config/storage';
+import { DatabaseApplicant, DatabaseApplicantDocument, DocumentType } from '../types';
+
+export class DocumentService {
+    static readonly DOCUMENT_TYPES: DocumentType[] = ['personal_statement', 'cv', 'lor', 'transcript'];
+
+    static readonly MAX_SIZE_BYTES = 20 * 1024 * 1024;
+
+    /**
+     * Get an applicant's documents, grouped by type and oldest first within each
+     */
+    static async getDocuments(applicantId: string): Promise<DatabaseApplicantDocument[]> {
+        try {
+            const { data, error } = await supabaseAdmin
+                .from('urology_applicant_documents')
+                .select('*')
+                .eq('applicant_id', applicantId)
+                .eq('site_name', getSiteName())
+                .order('document_type')
+                .order('created_at');
+
+            if (error) {
+                console.error('Error fetching applicant documents:', error);
+                throw new Error(`Failed to fetch applicant documents: ${error.message}`);
+            }
+
+            return data || [];
+        } catch (err) {
+            console.error('DocumentService.getDocuments error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Get one of an applicant's documents
+     */
+    static async getDocumentById(applicantId: string, id: string): Promise<DatabaseApplicantDocument | null> {
+        try {
+            const { data, error } = await supabaseAdmin
+                .from('urology_applicant_documents')
+                .select('*')
+                .eq('id', id)
+                .eq('applicant_id', applicantId)
+                .eq('site_name', getSiteName())
+                .single();
+
+            if (error) {
+                if (error.code === 'PGRST116') {
+                    return null; // Not found
+                }
+                console.error('Error fetching applicant document:', error);
+                throw new Error(`Failed to fetch applicant document: ${error.message}`);
+            }
+
+            return data;
+        } catch (err) {
+            console.error('DocumentService.getDocumentById error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Store a PDF and attach it to an applicant
+     * The file is written first and removed again if the row cannot be saved
+     */
+    static async createDocument(
+        applicant: DatabaseApplicant,
+        upload: { document_type: DocumentType; file_name: string; data: Buffer },
+        uploadedBy?: string
+    ): Promise<DatabaseApplicantDocument> {
+        const storageKey = `${getSiteName()}/${applicant.cycle_id}/${applicant.id}/${crypto.randomUUID()}.pdf`;
+
+        try {
+            await documentStorage.put(storageKey, upload.data);
+
+            const { data, error } = await supabaseAdmin
+                .from('urology_applicant_documents')
+                .insert([{
+                    applicant_id: applicant.id,
+                    cycle_id: applicant.cycle_id,
+                    document_type: upload.document_type,
+                    file_name: upload.file_name,
+                    size_bytes: upload.data.length,
+                    storage_key: storageKey,
+                    uploaded_by: uploadedBy,
+                    site_name: getSiteName()
+                }])
+                .select()
+                .single();
+
+            if (error) {
+                console.error('Error creating applicant document:', error);
+                await documentStorage.delete(storageKey);
+                throw new Error(`Failed to create applicant document: ${error.message}`);
+            }
+
+            return data;
+        } catch (err) {
+            console.error('DocumentService.createDocument error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Read a document's file from storage
+     */
+    static async getDocumentContent(document: DatabaseApplicantDocument): Promise<Buffer> {
+        try {
+            return await documentStorage.get(document.storage_key);
+        } catch (err) {
+            console.error('DocumentService.getDocumentContent error:', err);
+            throw new Error(`Failed to read ${document.file_name} from document storage`);
+        }
+    }
+
+    /**
+     * Delete a document's row, then its file
+     */
+    static async deleteDocument(document: DatabaseApplicantDocument): Promise<void> {
+        try {
+            const { error } = await supabaseAdmin
+                .from('urology_applicant_documents')
+                .delete()
+                .eq('id', document.id)
+                .eq('site_name', getSiteName());
+
+            if (error) {
+                console.error('Error deleting applicant document:', error);
+                throw new Error(`Failed to delete applicant document: ${error.message}`);
+            }
+
+            await this.deleteFiles([document]);
+        } catch (err) {
+            console.error('DocumentService.deleteDocument error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Remove files whose rows are already gone, e.g. after their applicant was deleted
+     * A file left behind is only wasted space, so failures are logged rather than thrown
+     */
+    static async deleteFiles(documents: DatabaseApplicantDocument[]): Promise<void> {
+        for (const document of documents) {
+            try {
+                await documentStorage.delete(document.storage_key);
+            } catch (storageError) {
+                console.warn(`⚠️ Could not remove ${document.storage_key} from document storage:`, storageError);
+            }
+        }
+    }
+
+    /**
+     * Check that an upload is a PDF by its leading bytes rather than its name
+     */
+    static isPdf(data: Buffer): boolean {
+        return data.subarray(0, 5).toString('latin1') === '%PDF-';
+    }
+}
@@ -0,0 +1,355 @@
+import ExcelJS from 'exceljs';
+import { ApplicantService } from './applicantService';
+import { ReviewService } from './reviewService';
+import { RubricService } from './rubricService';
+import { CalibrationService } from './calibrationService';
+import { ProgressService } from './progressService';
+import { toCsv } from '../utils/csv';
+import { sortItems } from '../utils/listQuery';
+import {
+    ApplicantCategory,
+    DatabaseApplicant,
+    DatabaseReview,
+    DecisionType,
+    ExportColumn,
+    ExportLayout,
+    RankedFinalSelection,
+    ReviewerStats
+} from '../types';
+
+type ExportValue = string | number | null | undefined;
+
+// A column and how to read its value from one row
+interface ColumnDefinition<T> extends ExportColumn {
+    value: (row: T) => ExportValue;
+}
+
+interface ReviewRow {
+    applicant: DatabaseApplicant;
+    review: DatabaseReview;
+    selection?: RankedFinalSelection | undefined;
+}
+
+interface ApplicantRow {
+    applicant: DatabaseApplicant;
+    reviews: DatabaseReview[];
+    selection?: RankedFinalSelection | undefined;
+}
+
+// Everything an export reads, loaded once per request
+interface ExportData {
+    applicants: DatabaseApplicant[];
+    reviews: DatabaseReview[];
+    selections: Map<string, RankedFinalSelection>;
+    criteria: Array<{ key: string; label: string }>;
+}
+
+export class ExportService {
+    static readonly LAYOUTS: ExportLayout[] = ['reviews', 'applicants'];
+
+    /**
+     * Columns describing the applicant; both layouts start with these
+     */
+    private static readonly APPLICANT_COLUMNS: ColumnDefinition<{ applicant: DatabaseApplicant }>[] = [
+        { key: 'external_id', header: 'AAMC ID', value: row => row.applicant.external_id },
+        { key: 'name', header: 'Name', value: row => row.applicant.name },
+        { key: 'category', header: 'Category', value: row => row.applicant.category === 'i-sub' ? 'I-Sub' : 'Regular' },
+        { key: 'medical_school', header: 'Medical School', value: row => row.applicant.medical_school },
+        { key: 'graduation_year', header: 'Graduation Year', value: row => row.applicant.graduation_year },
+        { key: 'step2_ck_score', header: 'Step 2 CK', value: row => row.applicant.step2_ck_score },
+        { key: 'aoa_status', header: 'AOA', value: row => row.applicant.aoa_status },
+        { key: 'ghhs_status', header: 'GHHS', value: row => row.applicant.ghhs_status },
+        { key: 'publication_count', header: 'Publications', value: row => row.applicant.publication_count },
+        { key: 'clerkship_honors', header: 'Clerkship Honors', value: row => row.applicant.clerkship_honors?.join('; ') },
+        { key: 'home_program', header: 'Home Program', value: row => row.applicant.home_program },
+        { key: 'visa_status', header: 'Visa Status', value: row => row.applicant.visa_status },
+        { key: 'preference_signal', header: 'Preference Signal', value: row => this.formatBoolean(row.applicant.preference_signal) }
+    ];
+
+    private static readonly PROGRESS_COLUMNS: ColumnDefinition<ReviewerStats>[] = [
+        { key: 'name', header: 'Reviewer', value: row => row.name },
+        { key: 'assigned', header: 'Assigned', value: row => row.assigned },
+        { key: 'completed', header: 'Completed', value: row => row.completed },
+        { key: 'percentage', header: 'Percent Complete', value: row => row.percentage }
+    ];
+
+    private static readonly CATEGORY_SHEETS: Array<{ category: ApplicantCategory; name: string }> = [
+        { category: 'regular', name: 'Final Selections (Regular)' },
+        { category: 'i-sub', name: 'Final Selections (I-Sub)' }
+    ];
+
+    /**
+     * List the columns a layout can include, in export order
+     * Criterion columns cover the active rubric and any older rubric the cycle's reviews were scored on
+     */
+    static async getColumns(cycleId: string, layout: ExportLayout): Promise<ExportColumn[]> {
+        try {
+            const criteria = await this.getCriteria(await this.getReviews(cycleId));
+            const definitions: ExportColumn[] = layout === 'reviews'
+                ? this.reviewColumns(criteria)
+                : this.applicantColumns(criteria);
+            return definitions.map(({ key, header }) => ({ key, header }));
+        } catch (err) {
+            console.error('ExportService.getColumns error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Export a cycle's reviews and decisions as CSV, with the chosen columns or all of them
+     */
+    static async exportCSV(cycleId: string, layout: ExportLayout, columnKeys?: string[]): Promise<string> {
+        try {
+            const data = await this.loadData(cycleId);
+            return toCsv(layout === 'reviews'
+                ? this.toRows(this.reviewColumns(data.criteria), this.reviewRows(data), columnKeys)
+                : this.toRows(this.applicantColumns(data.criteria), this.applicantRows(data), columnKeys));
+        } catch (err) {
+            console.error('ExportService.exportCSV error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Export a cycle as an Excel workbook for committee meetings
+     * Sheets: applicants, reviews, final selections (all, then per category, by raw rank) and reviewer progress
+     */
+    static async exportXLSX(cycleId: string): Promise<Buffer> {
+        try {
+            const [data, progress] = await Promise.all([
+                this.loadData(cycleId),
+                ProgressService.getProgressByReviewer(cycleId)
+            ]);
+
+            const workbook = new ExcelJS.Workbook();
+            workbook.created = new Date();
+
+            const selectionColumns = this.applicantColumns(data.criteria);
+            const selectionRows = sortItems(
+                this.applicantRows(data),
+                [{ field: 'raw_rank', direction: 'asc' }, { field: 'name', direction: 'asc' }],
+                (row, field) => field === 'raw_rank' ? row.selection?.raw_rank : row.applicant.name
+            );
+
+            this.addSheet(workbook, 'Applicants', this.APPLICANT_COLUMNS, data.applicants.map(applicant => ({ applicant })));
+            this.addSheet(workbook, 'Reviews', this.reviewColumns(data.criteria), this.reviewRows(data));
+            this.addSheet(workbook, 'Final Selections', selectionColumns, selectionRows);
+            for (const sheet of this.CATEGORY_SHEETS) {
+                this.addSheet(workbook, sheet.name, selectionColumns, selectionRows.filter(row => row.applicant.category === sheet.category));
+            }
+            this.addSheet(workbook, 'Reviewer Progress', this.PROGRESS_COLUMNS, progress);
+
+            return Buffer.from(await workbook.xlsx.writeBuffer());
+        } catch (err) {
+            console.error('ExportService.exportXLSX error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Check requested column keys against the layout's columns, returning an error message or null if valid
+     */
+    static validateColumns(available: ExportColumn[], columnKeys: string[]): string | null {
+        if (columnKeys.length === 0) {
+            return 'columns must name at least one column';
+        }
+
+        const unknown = columnKeys.filter(key => !available.some(column => column.key === key));
+        if (unknown.length > 0) {
+            return `Unknown columns: ${unknown.join(', ')}`;
+        }
+
+        if (new Set(columnKeys).size !== columnKeys.length) {
+            return 'columns must not repeat a column';
+        }
+
+        return null;
+    }
+
+    /**
+     * Header row, then one line per row with the chosen columns in the order asked for
+     */
+    private static toRows<T>(definitions: ColumnDefinition<T>[], rows: T[], columnKeys?: string[]): ExportValue[][] {
+        const columns = columnKeys
+            ? columnKeys.map(key => definitions.find(column => column.key === key)!)
+            : definitions;
+        return [
+            columns.map(column => column.header),
+            ...rows.map(row => columns.map(column => column.value(row)))
+        ];
+    }
+
+    /**
+     * Add a sheet with a bold, frozen, filterable header row
+     * A total_score column gets a red-to-green color scale so low and high scores stand out
+     */
+    private static addSheet<T>(workbook: ExcelJS.Workbook, name: string, definitions: ColumnDefinition<T>[], rows: T[]): void {
+        const sheet = workbook.addWorksheet(name, { views: [{ state: 'frozen', ySplit: 1 }] });
+        sheet.columns = definitions.map(column => ({
+            header: column.header,
+            key: column.key,
+            width: Math.max(12, column.header.length + 2)
+        }));
+        sheet.addRows(rows.map(row => definitions.map(column => column.value(row) ?? null)));
+        sheet.getRow(1).font = { bold: true };
+        sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: definitions.length } };
+
+        const scoreColumn = definitions.findIndex(column => column.key === 'total_score') + 1;
+        if (scoreColumn > 0 && rows.length > 0) {
+            const letter = sheet.getColumn(scoreColumn).letter;
+            sheet.addConditionalFormatting({
+                ref: `${letter}2:${letter}${rows.length + 1}`,
+                rules: [{
+                    type: 'colorScale',
+                    priority: 1,
+                    cfvo: [{ type: 'min' }, { type: 'percentile', value: 50 }, { type: 'max' }],
+                    color: [{ argb: 'FFF8696B' }, { argb: 'FFFFEB84' }, { argb: 'FF63BE7B' }]
+                }]
+            });
+        }
+    }
+
+    /**
+     * Columns of the one-row-per-review layout; criterion scores sit between the reviewer and the totals
+     */
+    private static reviewColumns(criteria: ExportData['criteria']): ColumnDefinition<ReviewRow>[] {
+        return [
+            ...this.APPLICANT_COLUMNS,
+            { key: 'reviewer_name', header: 'Reviewer', value: row => row.review.reviewer_name },
+            ...criteria.map(criterion => ({
+                key: `score:${criterion.key}`,
+                header: criterion.label,
+                value: (row: ReviewRow) => row.review.scores?.[criterion.key]
+            })),
+            { key: 'weighted_score', header: 'Weighted Score', value: row => row.review.weighted_score },
+            { key: 'total_score', header: 'Raw Score', value: row => row.review.total_score },
+            { key: 'decision', header: 'Interview Recommendation', value: row => row.review.decision },
+            { key: 'notes', header: 'Notes', value: row => row.review.notes },
+            { key: 'updated_at', header: 'Last Saved', value: row => row.review.updated_at },
+            { key: 'admin_decision', header: 'Final Decision', value: row => row.selection?.admin_decision ?? 'Pending' }
+        ];
+    }
+
+    /**
+     * Columns of the one-row-per-applicant layout, aggregating the applicant's reviews
+     */
+    private static applicantColumns(criteria: ExportData['criteria']): ColumnDefinition<ApplicantRow>[] {
+        const countDecision = (decision: DecisionType) => (row: ApplicantRow): number =>
+            row.reviews.filter(review => review.decision === decision).length;
+        const weightedScores = (row: ApplicantRow): number[] =>
+            row.reviews
+                .filter(review => review.weighted_score !== null && review.weighted_score !== undefined)
+                .map(review => Number(review.weighted_score));
+
+        return [
+            ...this.APPLICANT_COLUMNS,
+            { key: 'review_count', header: 'Reviews', value: row => row.reviews.length },
+            { key: 'reviewers', header: 'Reviewers', value: row => row.reviews.map(review => review.reviewer_name).join('; ') },
+            ...criteria.map(criterion => ({
+                key: `average:${criterion.key}`,
+                header: `Average ${criterion.label}`,
+                value: (row: ApplicantRow) => this.average(
+                    row.reviews.map(review => review.scores?.[criterion.key]).filter((score): score is number => typeof score === 'number')
+                )
+            })),
+            { key: 'average_score', header: 'Average Weighted Score', value: row => row.selection?.average_score },
+            { key: 'raw_average_score', header: 'Average Raw Score', value: row => row.selection?.raw_average_score },
+            { key: 'normalized_score', header: 'Normalized Score', value: row => row.selection?.normalized_score },
+            { key: 'lowest_score', header: 'Lowest Weighted Score', value: row => weightedScores(row).length > 0 ? Math.min(...weightedScores(row)) : null },
+            { key: 'highest_score', header: 'Highest Weighted Score', value: row => weightedScores(row).length > 0 ? Math.max(...weightedScores(row)) : null },
+            { key: 'raw_rank', header: 'Raw Rank', value: row => row.selection?.raw_rank },
+            { key: 'normalized_rank', header: 'Normalized Rank', value: row => row.selection?.normalized_rank },
+            { key: 'definitely_interview', header: 'Definitely Interview', value: countDecision('Definitely Interview') },
+            { key: 'maybe', header: 'Maybe', value: countDecision('Maybe') },
+            { key: 'do_not_interview', header: 'Do Not Interview', value: countDecision('Do Not Interview') },
+            { key: 'admin_decision', header: 'Final Decision', value: row => row.selection?.admin_decision ?? 'Pending' },
+            { key: 'selection_reason', header: 'Decision Reason', value: row => row.selection?.selection_reason }
+        ];
+    }
+
+    /**
+     * One row per review, by applicant name and then reviewer
+     */
+    private static reviewRows(data: ExportData): ReviewRow[] {
+        const applicantsById = new Map(data.applicants.map(applicant => [applicant.id, applicant]));
+        return data.reviews
+            .filter(review => applicantsById.has(review.applicant_id))
+            .map(review => ({
+                applicant: applicantsById.get(review.applicant_id)!,
+                review,
+                selection: data.selections.get(review.applicant_id)
+            }))
+            .sort((a, b) => a.applicant.name.localeCompare(b.applicant.name)
+                || a.review.reviewer_name.localeCompare(b.review.reviewer_name));
+    }
+
+    /**
+     * One row per applicant, reviewed or not, by name
+     */
+    private static applicantRows(data: ExportData): ApplicantRow[] {
+        return data.applicants.map(applicant => ({
+            applicant,
+            reviews: data.reviews
+                .filter(review => review.applicant_id === applicant.id)
+                .sort((a, b) => a.reviewer_name.localeCompare(b.reviewer_name)),
+            selection: data.selections.get(applicant.id)
+        }));
+    }
+
+    private static async loadData(cycleId: string): Promise<ExportData> {
+        const [applicants, reviews, selections, calibration] = await Promise.all([
+            ApplicantService.getAllApplicants(cycleId),
+            this.getReviews(cycleId),
+            ReviewService.getAllFinalSelections(cycleId),
+            CalibrationService.getCalibration(cycleId)
+        ]);
+        const ranked = CalibrationService.rankFinalSelections(selections, calibration);
+
+        return {
+            applicants,
+            reviews,
+            selections: new Map(ranked.map(selection => [selection.applicant_id, selection])),
+            criteria: await this.getCriteria(reviews)
+        };
+    }
+
+    private static async getReviews(cycleId: string): Promise<DatabaseReview[]> {
+        const { reviews } = await ReviewService.listReviews(cycleId, {}, {
+            sort: [{ field: 'created_at', direction: 'asc' }],
+            offset: 0
+        });
+        return reviews;
+    }
+
+    /**
+     * Criteria of the active rubric, then those only found on older rubrics the reviews used
+     */
+    private static async getCriteria(reviews: DatabaseReview[]): Promise<ExportData['criteria']> {
+        const rubricIds = new Set(reviews.map(review => review.rubric_id));
+        const rubrics = (await RubricService.getAllRubrics())
+            .filter(rubric => rubric.is_active || rubricIds.has(rubric.id))
+            .sort((a, b) => Number(b.is_active) - Number(a.is_active));
+
+        const criteria = new Map<string, string>();
+        for (const rubric of rubrics) {
+            for (const criterion of rubric.criteria) {
+                if (!criteria.has(criterion.key)) {
+                    criteria.set(criterion.key, criterion.label);
+                }
+            }
+        }
+
+        return Array.from(criteria, ([key, label]) => ({ key, label }));
+    }
+
+    private static average(values: number[]): number | null {
+        if (values.length === 0) {
+            return null;
+        }
+        return parseFloat((values.reduce((sum, value) => sum + value, 0) / values.length).toFixed(2));
+    }
+
+    private static formatBoolean(value: boolean | null | undefined): string {
+        return value === null || value === undefined ? '' : value ? 'Yes' : 'No';
+    }
+}
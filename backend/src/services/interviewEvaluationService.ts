@@ -0,0 +1,266 @@
+import { supabaseAdmin } from '../config/supabase';
+import { getSiteName } from '../config/tenant';
+import { ReviewService } from './reviewService';
+import {
+    ApplicantInterviewScore,
+    DatabaseInterviewEvaluation,
+    InterviewEvaluationListFilters,
+    InterviewEvaluationWithInterviewer,
+    InterviewRecommendation,
+    ReviewScores,
+    RubricWithCriteria,
+    SaveInterviewEvaluationRequest
+} from '../types';
+
+export class InterviewEvaluationService {
+    static readonly RECOMMENDATIONS: InterviewRecommendation[] = ['Rank Highly', 'Rank', 'Do Not Rank'];
+
+    /**
+     * Get a cycle's interview evaluations with their interviewers' names, oldest first
+     */
+    static async getEvaluations(cycleId: string, filters: InterviewEvaluationListFilters): Promise<InterviewEvaluationWithInterviewer[]> {
+        try {
+            let query = supabaseAdmin
+                .from('urology_interview_evaluations')
+                .select('*, interviewer:urology_reviewers(name)')
+                .eq('cycle_id', cycleId)
+                .eq('site_name', getSiteName());
+
+            if (filters.applicant_id) {
+                query = query.eq('applicant_id', filters.applicant_id);
+            }
+            if (filters.interviewer_id) {
+                query = query.eq('interviewer_id', filters.interviewer_id);
+            }
+
+            const { data, error } = await query.order('created_at');
+
+            if (error) {
+                console.error('Error fetching interview evaluations:', error);
+                throw new Error(`Failed to fetch interview evaluations: ${error.message}`);
+            }
+
+            return ((data as unknown as Array<DatabaseInterviewEvaluation & {
+                interviewer: { name: string } | null;
+            }>) || []).map(({ interviewer, ...evaluation }) => ({
+                ...evaluation,
+                interviewer_name: interviewer?.name ?? ''
+            }));
+        } catch (err) {
+            console.error('InterviewEvaluationService.getEvaluations error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Get one interviewer's evaluation of an applicant, or null if they have not started one
+     */
+    static async getEvaluation(cycleId: string, applicantId: string, interviewerId: string): Promise<DatabaseInterviewEvaluation | null> {
+        try {
+            const { data, error } = await supabaseAdmin
+                .from('urology_interview_evaluations')
+                .select('*')
+                .eq('cycle_id', cycleId)
+                .eq('applicant_id', applicantId)
+                .eq('interviewer_id', interviewerId)
+                .eq('site_name', getSiteName())
+                .maybeSingle();
+
+            if (error) {
+                console.error('Error fetching interview evaluation:', error);
+                throw new Error(`Failed to fetch interview evaluation: ${error.message}`);
+            }
+
+            return data;
+        } catch (err) {
+            console.error('InterviewEvaluationService.getEvaluation error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Start an interviewer's evaluation of an applicant, scored against the given (active interview) rubric
+     * Returns null if the interviewer started one in the meantime
+     */
+    static async createEvaluation(
+        cycleId: string,
+        applicantId: string,
+        interviewerId: string,
+        request: SaveInterviewEvaluationRequest,
+        rubric: RubricWithCriteria
+    ): Promise<DatabaseInterviewEvaluation | null> {
+        try {
+            const scores = request.scores || {};
+            const { data, error } = await supabaseAdmin
+                .from('urology_interview_evaluations')
+                .insert([{
+                    applicant_id: applicantId,
+                    cycle_id: cycleId,
+                    interviewer_id: interviewerId,
+                    rubric_id: rubric.id,
+                    scores,
+                    total_score: ReviewService.calculateTotalScore(scores, rubric),
+                    weighted_score: ReviewService.calculateWeightedScore(scores, rubric),
+                    notes: request.notes,
+                    recommendation: request.recommendation,
+                    site_name: getSiteName()
+                }])
+                .select()
+                .single();
+
+            if (error) {
+                if (error.code === '23505') {
+                    return null;
+                }
+                console.error('Error creating interview evaluation:', error);
+                throw new Error(`Failed to create interview evaluation: ${error.message}`);
+            }
+
+            return data;
+        } catch (err) {
+            console.error('InterviewEvaluationService.createEvaluation error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Update an evaluation; scores are merged into the stored ones and re-totalled against its own rubric
+     * Returns null without writing if the evaluation has moved past the expected revision
+     */
+    static async updateEvaluation(
+        existing: DatabaseInterviewEvaluation,
+        request: SaveInterviewEvaluationRequest,
+        rubric: RubricWithCriteria
+    ): Promise<DatabaseInterviewEvaluation | null> {
+        try {
+            const revision = request.expected_revision ?? existing.revision;
+            if (revision !== existing.revision) {
+                return null;
+            }
+
+            const scores: ReviewScores = { ...existing.scores, ...request.scores };
+            const { data, error } = await supabaseAdmin
+                .from('urology_interview_evaluations')
+                .update({
+                    scores,
+                    total_score: ReviewService.calculateTotalScore(scores, rubric),
+                    weighted_score: ReviewService.calculateWeightedScore(scores, rubric),
+                    ...(request.notes !== undefined ? { notes: request.notes } : {}),
+                    ...(request.recommendation !== undefined ? { recommendation: request.recommendation } : {}),
+                    revision: revision + 1
+                })
+                .eq('id', existing.id)
+                .eq('revision', revision)
+                .eq('site_name', getSiteName())
+                .select()
+                .maybeSingle();
+
+            if (error) {
+                console.error('Error updating interview evaluation:', error);
+                throw new Error(`Failed to update interview evaluation: ${error.message}`);
+            }
+
+            return data; // Null when another save got there first
+        } catch (err) {
+            console.error('InterviewEvaluationService.updateEvaluation error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Average each applicant's weighted interview scores
+     * Evaluations with no scores yet (notes only) are left out of the average and the count
+     */
+    static async getApplicantScores(cycleId: string): Promise<ApplicantInterviewScore[]> {
+        try {
+            const { data, error } = await supabaseAdmin
+                .from('urology_interview_evaluations')
+                .select('applicant_id, scores, weighted_score')
+                .eq('cycle_id', cycleId)
+                .eq('site_name', getSiteName());
+
+            if (error) {
+                console.error('Error fetching interview scores:', error);
+                throw new Error(`Failed to fetch interview scores: ${error.message}`);
+            }
+
+            const byApplicant = new Map<string, number[]>();
+            for (const evaluation of (data || []) as DatabaseInterviewEvaluation[]) {
+                if (Object.keys(evaluation.scores || {}).length === 0) {
+                    continue;
+                }
+                const score = Number(evaluation.weighted_score ?? 0);
+                byApplicant.set(evaluation.applicant_id, [...(byApplicant.get(evaluation.applicant_id) || []), score]);
+            }
+
+            return [...byApplicant].map(([applicant_id, scores]) => ({
+                applicant_id,
+                interview_score: parseFloat((scores.reduce((sum, score) => sum + score, 0) / scores.length).toFixed(2)),
+                interview_count: scores.length
+            }));
+        } catch (err) {
+            console.error('InterviewEvaluationService.getApplicantScores error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Count the evaluations scored under a rubric
+     */
+    static async countEvaluationsUsingRubric(rubricId: string): Promise<number> {
+        try {
+            const { count, error } = await supabaseAdmin
+                .from('urology_interview_evaluations')
+                .select('*', { count: 'exact', head: true })
+                .eq('rubric_id', rubricId)
+                .eq('site_name', getSiteName());
+
+            if (error) {
+                console.error('Error counting interview evaluations for rubric:', error);
+                throw new Error(`Failed to count interview evaluations: ${error.message}`);
+            }
+
+            return count || 0;
+        } catch (err) {
+            console.error('InterviewEvaluationService.countEvaluationsUsingRubric error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Recompute weighted scores for a cycle's evaluations under a rubric (after its weights change)
+     * Returns the number of evaluations updated
+     */
+    static async rescoreEvaluationsForRubric(cycleId: string, rubric: RubricWithCriteria): Promise<number> {
+        try {
+            const { data: evaluations, error } = await supabaseAdmin
+                .from('urology_interview_evaluations')
+                .select('*')
+                .eq('rubric_id', rubric.id)
+                .eq('cycle_id', cycleId)
+                .eq('site_name', getSiteName());
+
+            if (error) {
+                console.error('Error fetching interview evaluations for rubric:', error);
+                throw new Error(`Failed to fetch interview evaluations: ${error.message}`);
+            }
+
+            for (const evaluation of (evaluations || []) as DatabaseInterviewEvaluation[]) {
+                const { error: updateError } = await supabaseAdmin
+                    .from('urology_interview_evaluations')
+                    .update({ weighted_score: ReviewService.calculateWeightedScore(evaluation.scores || {}, rubric) })
+                    .eq('id', evaluation.id);
+
+                if (updateError) {
+                    console.error('Error rescoring interview evaluation:', updateError);
+                    throw new Error(`Failed to rescore interview evaluation: ${updateError.message}`);
+                }
+            }
+
+            return evaluations?.length || 0;
+        } catch (err) {
+            console.error('InterviewEvaluationService.rescoreEvaluationsForRubric error:', err);
+            throw err;
+        }
+    }
+}
@@ -0,0 +1,359 @@
+import { supabaseAdmin } from '../config/supabase';
+import { getSiteName } from '../config/tenant';
+import { ApplicantService } from './applicantService';
+import { ReviewService } from './reviewService';
+import { InterviewTargetService } from './interviewTargetService';
+import { toIcs } from '../utils/ics';
+import {
+    DatabaseCycle,
+    DatabaseInterviewBooking,
+    DatabaseInterviewDate,
+    InterviewDateRequest,
+    InterviewDateWithBookings,
+    InterviewSchedule
+} from '../types';
+
+export class InterviewScheduleService {
+    /**
+     * Get a cycle's interview dates, earliest first
+     */
+    static async getDates(cycleId: string): Promise<DatabaseInterviewDate[]> {
+        try {
+            const { data, error } = await supabaseAdmin
+                .from('urology_interview_dates')
+                .select('*')
+                .eq('cycle_id', cycleId)
+                .eq('site_name', getSiteName())
+                .order('interview_date', { ascending: true });
+
+            if (error) {
+                console.error('Error fetching interview dates:', error);
+                throw new Error(`Failed to fetch interview dates: ${error.message}`);
+            }
+
+            return data || [];
+        } catch (err) {
+            console.error('InterviewScheduleService.getDates error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Get every booking in a cycle
+     */
+    static async getBookings(cycleId: string): Promise<DatabaseInterviewBooking[]> {
+        try {
+            const { data, error } = await supabaseAdmin
+                .from('urology_interview_bookings')
+                .select('*')
+                .eq('cycle_id', cycleId)
+                .eq('site_name', getSiteName());
+
+            if (error) {
+                console.error('Error fetching interview bookings:', error);
+                throw new Error(`Failed to fetch interview bookings: ${error.message}`);
+            }
+
+            return data || [];
+        } catch (err) {
+            console.error('InterviewScheduleService.getBookings error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Get an applicant's booking, or null if they have no date yet
+     */
+    static async getBooking(cycleId: string, applicantId: string): Promise<DatabaseInterviewBooking | null> {
+        try {
+            const { data, error } = await supabaseAdmin
+                .from('urology_interview_bookings')
+                .select('*')
+                .eq('cycle_id', cycleId)
+                .eq('applicant_id', applicantId)
+                .eq('site_name', getSiteName())
+                .maybeSingle();
+
+            if (error) {
+                console.error('Error fetching interview booking:', error);
+                throw new Error(`Failed to fetch interview booking: ${error.message}`);
+            }
+
+            return data;
+        } catch (err) {
+            console.error('InterviewScheduleService.getBooking error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Get the cycle's dates with who is booked on each, the Selected applicants still without a date,
+     * and the places on offer against the interview targets
+     */
+    static async getSchedule(cycle: DatabaseCycle): Promise<InterviewSchedule> {
+        try {
+            const [dates, bookings, applicants, selections, targets] = await Promise.all([
+                this.getDates(cycle.id),
+                this.getBookings(cycle.id),
+                ApplicantService.getAllApplicants(cycle.id),
+                ReviewService.getAllFinalSelections(cycle.id),
+                InterviewTargetService.getCapacity(cycle)
+            ]);
+            const applicantsById = new Map(applicants.map(applicant => [applicant.id, applicant]));
+            const decisions = new Map(selections.map(selection => [selection.applicant_id, selection.admin_decision]));
+            const bookedIds = new Set(bookings.map(booking => booking.applicant_id));
+
+            const scheduled: InterviewDateWithBookings[] = dates.map(date => {
+                const dateBookings = bookings
+                    .filter(booking => booking.interview_date_id === date.id && applicantsById.has(booking.applicant_id))
+                    .map(booking => {
+                        const applicant = applicantsById.get(booking.applicant_id)!;
+                        return {
+                            ...booking,
+                            name: applicant.name,
+                            external_id: applicant.external_id,
+                            category: applicant.category,
+                            admin_decision: decisions.get(booking.applicant_id) ?? 'Pending'
+                        };
+                    })
+                    .sort((a, b) => a.name.localeCompare(b.name));
+                return { ...date, bookings: dateBookings, remaining: date.capacity - dateBookings.length };
+            });
+
+            const unbooked = applicants
+                .filter(applicant => decisions.get(applicant.id) === 'Selected' && !bookedIds.has(applicant.id))
+                .map(applicant => ({
+                    applicant_id: applicant.id,
+                    name: applicant.name,
+                    external_id: applicant.external_id,
+                    category: applicant.category
+                }))
+                .sort((a, b) => a.name.localeCompare(b.name));
+
+            return {
+                dates: scheduled,
+                unbooked,
+                capacity: {
+                    target_slots: targets.every(target => target.slots !== null)
+                        ? targets.reduce((sum, target) => sum + target.slots!, 0)
+                        : null,
+                    hard_limit: targets.some(target => target.slots !== null && target.hard_limit),
+                    date_capacity: dates.reduce((sum, date) => sum + date.capacity, 0),
+                    selected: targets.reduce((sum, target) => sum + target.selected, 0),
+                    booked: scheduled.reduce((sum, date) => sum + date.bookings.length, 0)
+                }
+            };
+        } catch (err) {
+            console.error('InterviewScheduleService.getSchedule error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Check whether the dates would offer more places than the cycle's interview targets add up to
+     * Returns null when within the targets (or some category has none); blocked is true when a target is a hard limit
+     */
+    static async checkCapacity(cycle: DatabaseCycle, dateCapacity: number): Promise<{ blocked: boolean; message: string } | null> {
+        const targets = await InterviewTargetService.getCapacity(cycle);
+        if (targets.some(target => target.slots === null)) {
+            return null;
+        }
+
+        const targetSlots = targets.reduce((sum, target) => sum + target.slots!, 0);
+        if (dateCapacity <= targetSlots) {
+            return null;
+        }
+
+        return {
+            blocked: targets.some(target => target.hard_limit),
+            message: `Interview dates would offer ${dateCapacity} places but ${cycle.name} has ${targetSlots} interview slots`
+        };
+    }
+
+    /**
+     * Add an interview date to a cycle
+     * Returns null if the cycle already has an interview on that day
+     */
+    static async createDate(cycleId: string, request: InterviewDateRequest, updatedBy: string): Promise<DatabaseInterviewDate | null> {
+        try {
+            const { data, error } = await supabaseAdmin
+                .from('urology_interview_dates')
+                .insert([{
+                    ...this.dateFields(request),
+                    cycle_id: cycleId,
+                    updated_by: updatedBy,
+                    site_name: getSiteName()
+                }])
+                .select()
+                .single();
+
+            if (error) {
+                if (error.code === '23505') {
+                    return null;
+                }
+                console.error('Error creating interview date:', error);
+                throw new Error(`Failed to create interview date: ${error.message}`);
+            }
+
+            return data;
+        } catch (err) {
+            console.error('InterviewScheduleService.createDate error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Replace an interview date's day, times, capacity, location and notes
+     * Returns null if another date in the cycle is already on the new day
+     */
+    static async updateDate(dateId: string, request: InterviewDateRequest, updatedBy: string): Promise<DatabaseInterviewDate | null> {
+        try {
+            const { data, error } = await supabaseAdmin
+                .from('urology_interview_dates')
+                .update({ ...this.dateFields(request), updated_by: updatedBy })
+                .eq('id', dateId)
+                .eq('site_name', getSiteName())
+                .select()
+                .single();
+
+            if (error) {
+                if (error.code === '23505') {
+                    return null;
+                }
+                console.error('Error updating interview date:', error);
+                throw new Error(`Failed to update interview date: ${error.message}`);
+            }
+
+            return data;
+        } catch (err) {
+            console.error('InterviewScheduleService.updateDate error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Delete an interview date
+     */
+    static async deleteDate(dateId: string): Promise<void> {
+        try {
+            const { error } = await supabaseAdmin
+                .from('urology_interview_dates')
+                .delete()
+                .eq('id', dateId)
+                .eq('site_name', getSiteName());
+
+            if (error) {
+                console.error('Error deleting interview date:', error);
+                throw new Error(`Failed to delete interview date: ${error.message}`);
+            }
+        } catch (err) {
+            console.error('InterviewScheduleService.deleteDate error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Book an applicant on a date, moving them if they already have one
+     * Returns null if the date filled up; the database enforces capacity so concurrent bookings cannot overfill it
+     */
+    static async bookApplicant(cycleId: string, applicantId: string, dateId: string, bookedBy: string): Promise<DatabaseInterviewBooking | null> {
+        try {
+            const { data, error } = await supabaseAdmin
+                .from('urology_interview_bookings')
+                .upsert([{
+                    interview_date_id: dateId,
+                    applicant_id: applicantId,
+                    cycle_id: cycleId,
+                    booked_by: bookedBy,
+                    site_name: getSiteName()
+                }], {
+                    onConflict: 'cycle_id,applicant_id,site_name'
+                })
+                .select()
+                .single();
+
+            if (error) {
+                if (error.code === '23514') {
+                    return null;
+                }
+                console.error('Error booking interview:', error);
+                throw new Error(`Failed to book interview: ${error.message}`);
+            }
+
+            return data;
+        } catch (err) {
+            console.error('InterviewScheduleService.bookApplicant error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Cancel a booking
+     */
+    static async cancelBooking(bookingId: string): Promise<void> {
+        try {
+            const { error } = await supabaseAdmin
+                .from('urology_interview_bookings')
+                .delete()
+                .eq('id', bookingId)
+                .eq('site_name', getSiteName());
+
+            if (error) {
+                console.error('Error cancelling interview booking:', error);
+                throw new Error(`Failed to cancel interview booking: ${error.message}`);
+            }
+        } catch (err) {
+            console.error('InterviewScheduleService.cancelBooking error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * One event for an interview day, listing who is booked on it, for the program's own calendars
+     */
+    static dateCalendar(cycle: DatabaseCycle, date: InterviewDateWithBookings): string {
+        const roster = date.bookings.map(booking => `${booking.name} (${booking.external_id})`);
+        return toIcs([{
+            uid: `interview-date-${date.id}@urology-review`,
+            date: date.interview_date,
+            start_time: date.start_time ?? null,
+            end_time: date.end_time ?? null,
+            summary: `Urology residency interviews (${date.bookings.length} of ${date.capacity} booked)`,
+            description: [
+                roster.length > 0 ? `Applicants:\n${roster.join('\n')}` : 'No applicants booked yet',
+                date.notes
+            ].filter(Boolean).join('\n\n'),
+            location: date.location ?? null
+        }], `Urology interviews ${cycle.name}`);
+    }
+
+    /**
+     * One event for an applicant's interview, to send to them
+     * The UID follows the booking, so re-sending after a move updates the event instead of adding one
+     */
+    static applicantCalendar(cycle: DatabaseCycle, date: DatabaseInterviewDate, booking: DatabaseInterviewBooking, applicantName: string): string {
+        return toIcs([{
+            uid: `interview-booking-${booking.id}@urology-review`,
+            date: date.interview_date,
+            start_time: date.start_time ?? null,
+            end_time: date.end_time ?? null,
+            summary: `Urology residency interview: ${applicantName}`,
+            ...(date.notes ? { description: date.notes } : {}),
+            location: date.location ?? null
+        }], `Urology interviews ${cycle.name}`);
+    }
+
+    /**
+     * The stored columns of a date request; blank optional text is stored as null
+     */
+    private static dateFields(request: InterviewDateRequest): InterviewDateRequest {
+        return {
+            interview_date: request.interview_date,
+            start_time: request.start_time || null,
+            end_time: request.end_time || null,
+            capacity: request.capacity,
+            location: request.location?.trim() || null,
+            notes: request.notes?.trim() || null
+        };
+    }
+}
@@ -0,0 +1,144 @@
+import { supabaseAdmin } from '../config/supabase';
+import { getSiteName } from '../config/tenant';
+import {
+    ApplicantCategory,
+    DatabaseCycle,
+    DatabaseInterviewTarget,
+    InterviewCapacity
+} from '../types';
+
+export class InterviewTargetService {
+    private static readonly CATEGORIES: ApplicantCategory[] = ['regular', 'i-sub'];
+
+    /**
+     * Get the targets set for a cycle
+     */
+    static async getTargets(cycleId: string): Promise<DatabaseInterviewTarget[]> {
+        try {
+            const { data, error } = await supabaseAdmin
+                .from('urology_interview_targets')
+                .select('*')
+                .eq('cycle_id', cycleId)
+                .eq('site_name', getSiteName());
+
+            if (error) {
+                console.error('Error fetching interview targets:', error);
+                throw new Error(`Failed to fetch interview targets: ${error.message}`);
+            }
+
+            return data || [];
+        } catch (err) {
+            console.error('InterviewTargetService.getTargets error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Get each category's target in a cycle with how many of its applicants are already Selected
+     */
+    static async getCapacity(cycle: DatabaseCycle): Promise<InterviewCapacity[]> {
+        try {
+            const [targets, selectedCounts] = await Promise.all([
+                this.getTargets(cycle.id),
+                this.getSelectedCounts(cycle.id)
+            ]);
+
+            return this.CATEGORIES.map(category => {
+                const target = targets.find(t => t.category === category);
+                const selected = selectedCounts[category];
+                return {
+                    cycle_id: cycle.id,
+                    cycle: cycle.name,
+                    category,
+                    slots: target ? target.slots : null,
+                    hard_limit: target?.hard_limit ?? false,
+                    selected,
+                    remaining: target ? target.slots - selected : null
+                };
+            });
+        } catch (err) {
+            console.error('InterviewTargetService.getCapacity error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Create or replace the target for a category in a cycle
+     */
+    static async setTarget(
+        cycleId: string,
+        category: ApplicantCategory,
+        slots: number,
+        hardLimit: boolean,
+        updatedBy?: string
+    ): Promise<DatabaseInterviewTarget> {
+        try {
+            const { data, error } = await supabaseAdmin
+                .from('urology_interview_targets')
+                .upsert([{
+                    cycle_id: cycleId,
+                    category,
+                    slots,
+                    hard_limit: hardLimit,
+                    updated_by: updatedBy,
+                    site_name: getSiteName()
+                }], {
+                    onConflict: 'cycle_id,category,site_name'
+                })
+                .select()
+                .single();
+
+            if (error) {
+                console.error('Error setting interview target:', error);
+                throw new Error(`Failed to set interview target: ${error.message}`);
+            }
+
+            return data;
+        } catch (err) {
+            console.error('InterviewTargetService.setTarget error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Check whether selecting one more applicant in a category would pass the cycle's target
+     * Returns null when within the target (or none is set); blocked is true for hard limits
+     */
+    static async checkSelection(cycle: DatabaseCycle, category: ApplicantCategory): Promise<{ blocked: boolean; message: string } | null> {
+        const capacity = (await this.getCapacity(cycle)).find(c => c.category === category);
+        if (!capacity || capacity.slots === null || capacity.selected < capacity.slots) {
+            return null;
+        }
+
+        const label = category === 'regular' ? 'regular' : 'I-Sub';
+        return {
+            blocked: capacity.hard_limit,
+            message: `All ${capacity.slots} ${label} interview slots for ${capacity.cycle} are already filled`
+        };
+    }
+
+    /**
+     * Count a cycle's Selected applicants per category
+     */
+    private static async getSelectedCounts(cycleId: string): Promise<Record<ApplicantCategory, number>> {
+        const { data, error } = await supabaseAdmin
+            .from('urology_final_selections')
+            .select('applicant:applicant_id(category)')
+            .eq('admin_decision', 'Selected')
+            .eq('cycle_id', cycleId)
+            .eq('site_name', getSiteName());
+
+        if (error) {
+            console.error('Error counting selected applicants:', error);
+            throw new Error(`Failed to count selected applicants: ${error.message}`);
+        }
+
+        const counts: Record<ApplicantCategory, number> = { 'regular': 0, 'i-sub': 0 };
+        for (const row of (data || []) as unknown as { applicant: { category: ApplicantCategory } | null }[]) {
+            if (row.applicant) {
+                counts[row.applicant.category]++;
+            }
+        }
+        return counts;
+    }
+}
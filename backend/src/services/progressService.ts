@@ -1,54 +1,34 @@
 import { supabaseAdmin } from '../config/supabase';
-import { ReviewerStats, ProgressInfo, ProgressResponse } from '../types';
+import { getSiteName } from '../config/tenant';
+import { toCsv } from '../utils/csv';
+import { fetchAllRows } from '../utils/fetchAll';
+import {
+    ApplicantCategory,
+    CategoryProgress,
+    ReviewerStats,
+    ProgressInfo,
+    ProgressResponse
+} from '../types';
+
+// One applicant-reviewer assignment and whether the reviewer has recorded a decision
+interface AssignmentPair {
+    applicant_id: string;
+    reviewer_id: string;
+    category: ApplicantCategory;
+    completed: boolean;
+}
 
 export class ProgressService {
-    private static readonly SITE_NAME = 'urology_review';
+    private static readonly CATEGORIES: ApplicantCategory[] = ['regular', 'i-sub'];
 
     /**
-     * Get overall progress statistics
+     * Get overall progress statistics for a cycle
+     * Counts assigned applicant-reviewer pairs, not applicants × reviewers
      */
-    static async getOverallProgress(): Promise<ProgressInfo> {
+    static async getOverallProgress(cycleId: string): Promise<ProgressInfo> {
         try {
-            // Get total applicants
-            const { count: totalApplicants, error: applicantsError } = await supabaseAdmin
-                .from('urology_applicants')
-                .select('*', { count: 'exact', head: true })
-                .eq('site_name', this.SITE_NAME);
-
-            if (applicantsError) {
-                console.error('Error fetching total applicants:', applicantsError);
-                throw new Error(`Failed to fetch applicants count: ${applicantsError.message}`);
-            }
-
-            // Get completed reviews (unique applicant-reviewer pairs)
-            const { count: completedReviews, error: reviewsError } = await supabaseAdmin
-                .from('urology_reviews')
-                .select('*', { count: 'exact', head: true })
-                .eq('site_name', this.SITE_NAME)
-                .not('decision', 'is', null);
-
-            if (reviewsError) {
-                console.error('Error fetching completed reviews:', reviewsError);
-                throw new Error(`Failed to fetch reviews count: ${reviewsError.message}`);
-            }
-
-            // Get total reviewers
-            const { count: totalReviewers, error: reviewersError } = await supabaseAdmin
-                .from('urology_reviewers')
-                .select('*', { count: 'exact', head: true })
-                .eq('site_name', this.SITE_NAME);
-
-            if (reviewersError) {
-                console.error('Error fetching total reviewers:', reviewersError);
-                throw new Error(`Failed to fetch reviewers count: ${reviewersError.message}`);
-            }
-
-            const totalExpectedReviews = (totalApplicants || 0) * (totalReviewers || 0);
-
-            return {
-                completed: completedReviews || 0,
-                total: totalExpectedReviews
-            };
+            const pairs = await this.getAssignmentPairs(cycleId);
+            return this.summarizeOverall(pairs);
         } catch (err) {
             console.error('ProgressService.getOverallProgress error:', err);
             throw err;
@@ -56,73 +36,31 @@ export class ProgressService {
     }
 
     /**
-     * Get progress by reviewer
+     * Get progress broken down by applicant category
      */
-    static async getProgressByReviewer(): Promise<ReviewerStats[]> {
+    static async getProgressByCategory(cycleId: string): Promise<CategoryProgress[]> {
         try {
-            // Get all reviewers
-            const { data: reviewers, error: reviewersError } = await supabaseAdmin
-                .from('urology_reviewers')
-                .select('name')
-                .eq('site_name', this.SITE_NAME)
-                .order('name');
-
-            if (reviewersError) {
-                console.error('Error fetching reviewers:', reviewersError);
-                throw new Error(`Failed to fetch reviewers: ${reviewersError.message}`);
-            }
-
-            if (!reviewers || reviewers.length === 0) {
-                return [];
-            }
-
-            // Get total applicants for assignment calculation
-            const { count: totalApplicants, error: applicantsError } = await supabaseAdmin
-                .from('urology_applicants')
-                .select('*', { count: 'exact', head: true })
-                .eq('site_name', this.SITE_NAME);
-
-            if (applicantsError) {
-                console.error('Error fetching total applicants for progress:', applicantsError);
-                throw new Error(`Failed to fetch applicants count: ${applicantsError.message}`);
-            }
-
-            // Get review counts per reviewer
-            const { data: reviewCounts, error: reviewCountsError } = await supabaseAdmin
-                .from('urology_reviews')
-                .select('reviewer_name, decision')
-                .eq('site_name', this.SITE_NAME);
-
-            if (reviewCountsError) {
-                console.error('Error fetching review counts:', reviewCountsError);
-                throw new Error(`Failed to fetch review counts: ${reviewCountsError.message}`);
-            }
-
-            // Calculate stats for each reviewer
-            const stats: ReviewerStats[] = reviewers.map((reviewer: { name: string }) => {
-                const reviewerReviews = (reviewCounts || []).filter(
-                    (r: { reviewer_name: string; decision?: string }) => r.reviewer_name === reviewer.name
-                );
-
-                const completed = reviewerReviews.filter(
-                    (r: { decision?: string }) => r.decision !== null && r.decision !== undefined
-                ).length;
-
-                // For now, assume each reviewer is assigned all applicants
-                // In a real system, you might have a separate assignments table
-                const assigned = totalApplicants || 0;
-
-                const percentage = assigned > 0 ? Math.round((completed / assigned) * 100) : 0;
-
-                return {
-                    name: reviewer.name,
-                    assigned,
-                    completed,
-                    percentage
-                };
-            });
+            const [pairs, applicantCounts] = await Promise.all([
+                this.getAssignmentPairs(cycleId),
+                this.getApplicantCountsByCategory(cycleId)
+            ]);
+            return this.summarizeByCategory(pairs, applicantCounts);
+        } catch (err) {
+            console.error('ProgressService.getProgressByCategory error:', err);
+            throw err;
+        }
+    }
 
-            return stats.sort((a, b) => b.percentage - a.percentage);
+    /**
+     * Get progress by reviewer
+     */
+    static async getProgressByReviewer(cycleId: string): Promise<ReviewerStats[]> {
+        try {
+            const [pairs, reviewers] = await Promise.all([
+                this.getAssignmentPairs(cycleId),
+                this.getReviewers()
+            ]);
+            return this.summarizeByReviewer(pairs, reviewers);
         } catch (err) {
             console.error('ProgressService.getProgressByReviewer error:', err);
             throw err;
@@ -132,16 +70,19 @@ export class ProgressService {
     /**
      * Get complete progress information
      */
-    static async getCompleteProgress(): Promise<ProgressResponse> {
+    static async getCompleteProgress(cycleId: string): Promise<ProgressResponse> {
         try {
-            const [overall, byReviewer] = await Promise.all([
-                this.getOverallProgress(),
-                this.getProgressByReviewer()
+            // Load each table once and derive every breakdown from the same snapshot
+            const [pairs, applicantCounts, reviewers] = await Promise.all([
+                this.getAssignmentPairs(cycleId),
+                this.getApplicantCountsByCategory(cycleId),
+                this.getReviewers()
             ]);
 
             return {
-                overall,
-                byReviewer
+                overall: this.summarizeOverall(pairs),
+                byCategory: this.summarizeByCategory(pairs, applicantCounts),
+                byReviewer: this.summarizeByReviewer(pairs, reviewers)
             };
         } catch (err) {
             console.error('ProgressService.getCompleteProgress error:', err);
@@ -152,14 +93,14 @@ export class ProgressService {
     /**
      * Get specific reviewer's progress
      */
-    static async getReviewerProgress(reviewerName: string): Promise<ReviewerStats | null> {
+    static async getReviewerProgress(cycleId: string, reviewerName: string): Promise<ReviewerStats | null> {
         try {
             // Check if reviewer exists
             const { data: reviewer, error: reviewerError } = await supabaseAdmin
                 .from('urology_reviewers')
-                .select('name')
+                .select('id, name')
                 .eq('name', reviewerName)
-                .eq('site_name', this.SITE_NAME)
+                .eq('site_name', getSiteName())
                 .single();
 
             if (reviewerError) {
@@ -170,40 +111,9 @@ export class ProgressService {
                 throw new Error(`Failed to fetch reviewer: ${reviewerError.message}`);
             }
 
-            // Get total applicants for assignment calculation
-            const { count: totalApplicants, error: applicantsError } = await supabaseAdmin
-                .from('urology_applicants')
-                .select('*', { count: 'exact', head: true })
-                .eq('site_name', this.SITE_NAME);
-
-            if (applicantsError) {
-                console.error('Error fetching total applicants:', applicantsError);
-                throw new Error(`Failed to fetch applicants count: ${applicantsError.message}`);
-            }
-
-            // Get completed reviews for this reviewer
-            const { count: completedReviews, error: reviewsError } = await supabaseAdmin
-                .from('urology_reviews')
-                .select('*', { count: 'exact', head: true })
-                .eq('reviewer_name', reviewerName)
-                .eq('site_name', this.SITE_NAME)
-                .not('decision', 'is', null);
-
-            if (reviewsError) {
-                console.error('Error fetching completed reviews for reviewer:', reviewsError);
-                throw new Error(`Failed to fetch reviews count: ${reviewsError.message}`);
-            }
-
-            const assigned = totalApplicants || 0;
-            const completed = completedReviews || 0;
-            const percentage = assigned > 0 ? Math.round((completed / assigned) * 100) : 0;
-
-            return {
-                name: reviewerName,
-                assigned,
-                completed,
-                percentage
-            };
+            const pairs = await this.getAssignmentPairs(cycleId, reviewer.id);
+            const [stats] = this.summarizeByReviewer(pairs, [reviewer]);
+            return stats || null;
         } catch (err) {
             console.error('ProgressService.getReviewerProgress error:', err);
             throw err;
@@ -213,9 +123,9 @@ export class ProgressService {
     /**
      * Export progress data as CSV string
      */
-    static async exportProgressCSV(): Promise<string> {
+    static async exportProgressCSV(cycleId: string): Promise<string> {
         try {
-            const progress = await this.getProgressByReviewer();
+            const progress = await this.getProgressByReviewer(cycleId);
 
             const headers = ['Reviewer Name', 'Assigned', 'Completed', 'Percentage'];
             const rows = progress.map(stat => [
@@ -225,12 +135,7 @@ export class ProgressService {
                 `${stat.percentage}%`
             ]);
 
-            const csvContent = [
-                headers.join(','),
-                ...rows.map(row => row.join(','))
-            ].join('\n');
-
-            return csvContent;
+            return toCsv([headers, ...rows]);
         } catch (err) {
             console.error('ProgressService.exportProgressCSV error:', err);
             throw err;
@@ -240,16 +145,19 @@ export class ProgressService {
     /**
      * Get applicants needing reviews (no final decision yet)
      */
-    static async getApplicantsNeedingReviews(): Promise<any[]> {
+    static async getApplicantsNeedingReviews(cycleId: string): Promise<any[]> {
         try {
-            const { data, error } = await supabaseAdmin
+            const { data, error } = await fetchAllRows((from, to) => supabaseAdmin
                 .from('urology_applicants')
                 .select(`
           *,
           reviews:urology_reviews(count),
           final_selection:urology_final_selections(admin_decision)
         `)
-                .eq('site_name', this.SITE_NAME);
+                .eq('cycle_id', cycleId)
+                .eq('site_name', getSiteName())
+                .order('id')
+                .range(from, to));
 
             if (error) {
                 console.error('Error fetching applicants needing reviews:', error);
@@ -269,73 +177,243 @@ export class ProgressService {
 
     /**
      * Get summary statistics for dashboard
+     * Reviewers are counted across cycles; everything else is the cycle's own
      */
-    static async getDashboardSummary(): Promise<{
+    static async getDashboardSummary(cycleId: string): Promise<{
         totalApplicants: number;
         totalReviewers: number;
+        totalAssignments: number;
         completedReviews: number;
         pendingReviews: number;
         finalizedDecisions: number;
         averageScore: number;
+        rawAverageScore: number;
     }> {
         try {
             // Get counts
             const [
                 { count: totalApplicants },
                 { count: totalReviewers },
-                { count: completedReviews },
+                overall,
                 { count: finalizedDecisions }
             ] = await Promise.all([
                 supabaseAdmin
                     .from('urology_applicants')
                     .select('*', { count: 'exact', head: true })
-                    .eq('site_name', this.SITE_NAME),
+                    .eq('cycle_id', cycleId)
+                    .eq('site_name', getSiteName()),
                 supabaseAdmin
                     .from('urology_reviewers')
                     .select('*', { count: 'exact', head: true })
-                    .eq('site_name', this.SITE_NAME),
-                supabaseAdmin
-                    .from('urology_reviews')
-                    .select('*', { count: 'exact', head: true })
-                    .eq('site_name', this.SITE_NAME)
-                    .not('decision', 'is', null),
+                    .eq('site_name', getSiteName()),
+                this.getOverallProgress(cycleId),
                 supabaseAdmin
                     .from('urology_final_selections')
                     .select('*', { count: 'exact', head: true })
-                    .eq('site_name', this.SITE_NAME)
+                    .eq('cycle_id', cycleId)
+                    .eq('site_name', getSiteName())
                     .neq('admin_decision', 'Pending')
             ]);
 
-            // Calculate average score
-            const { data: scores, error: scoresError } = await supabaseAdmin
+            // Calculate weighted and raw average scores
+            const { data: scores, error: scoresError } = await fetchAllRows((from, to) => supabaseAdmin
                 .from('urology_reviews')
-                .select('total_score')
-                .eq('site_name', this.SITE_NAME)
-                .not('total_score', 'is', null);
+                .select('total_score, weighted_score')
+                .eq('cycle_id', cycleId)
+                .eq('site_name', getSiteName())
+                .not('total_score', 'is', null)
+                .order('id')
+                .range(from, to));
 
             if (scoresError) {
                 console.error('Error fetching scores for average:', scoresError);
             }
 
-            const validScores = (scores || []).map((s: { total_score: number }) => s.total_score);
-            const averageScore = validScores.length > 0
-                ? validScores.reduce((sum: number, score: number) => sum + score, 0) / validScores.length
+            const validScores = (scores || []) as { total_score: number; weighted_score: number | null }[];
+            const average = (values: number[]): number => values.length > 0
+                ? values.reduce((sum, score) => sum + score, 0) / values.length
                 : 0;
-
-            const expectedTotalReviews = (totalApplicants || 0) * (totalReviewers || 0);
-            const pendingReviews = Math.max(0, expectedTotalReviews - (completedReviews || 0));
+            const averageScore = average(validScores.map(s => Number(s.weighted_score ?? s.total_score)));
+            const rawAverageScore = average(validScores.map(s => s.total_score));
 
             return {
                 totalApplicants: totalApplicants || 0,
                 totalReviewers: totalReviewers || 0,
-                completedReviews: completedReviews || 0,
-                pendingReviews,
+                totalAssignments: overall.total,
+                completedReviews: overall.completed,
+                pendingReviews: overall.total - overall.completed,
                 finalizedDecisions: finalizedDecisions || 0,
-                averageScore: parseFloat(averageScore.toFixed(2))
+                averageScore: parseFloat(averageScore.toFixed(2)),
+                rawAverageScore: parseFloat(rawAverageScore.toFixed(2))
             };
         } catch (err) {
             console.error('ProgressService.getDashboardSummary error:', err);
             throw err;
         }
     }
-}
\ No newline at end of file
+
+    /**
+     * Load a cycle's assignments (optionally for one reviewer) with whether each review has a decision
+     * Reviews for applicants the reviewer was never assigned are not counted
+     */
+    private static async getAssignmentPairs(cycleId: string, reviewerId?: string): Promise<AssignmentPair[]> {
+        const assignmentsPage = (from: number, to: number) => {
+            let query = supabaseAdmin
+                .from('urology_assignments')
+                .select('id, applicant_id, reviewer_id, applicant:applicant_id(category)')
+                .eq('cycle_id', cycleId)
+                .eq('site_name', getSiteName());
+            if (reviewerId) {
+                query = query.eq('reviewer_id', reviewerId);
+            }
+            return query.order('id').range(from, to);
+        };
+
+        const reviewsPage = (from: number, to: number) => {
+            let query = supabaseAdmin
+                .from('urology_reviews')
+                .select('id, applicant_id, reviewer_id')
+                .eq('cycle_id', cycleId)
+                .eq('site_name', getSiteName())
+                .not('decision', 'is', null);
+            if (reviewerId) {
+                query = query.eq('reviewer_id', reviewerId);
+            }
+            return query.order('id').range(from, to);
+        };
+
+        const [{ data: assignments, error: assignmentsError }, { data: reviews, error: reviewsError }] = await Promise.all([
+            fetchAllRows(assignmentsPage),
+            fetchAllRows(reviewsPage)
+        ]);
+
+        if (assignmentsError) {
+            console.error('Error fetching assignments for progress:', assignmentsError);
+            throw new Error(`Failed to fetch assignments: ${assignmentsError.message}`);
+        }
+
+        if (reviewsError) {
+            console.error('Error fetching completed reviews:', reviewsError);
+            throw new Error(`Failed to fetch reviews: ${reviewsError.message}`);
+        }
+
+        // Matched on reviewer id, so renaming a reviewer keeps their progress
+        const decided = new Set(
+            (reviews || []).map((r: { applicant_id: string; reviewer_id: string | null }) => `${r.applicant_id}|${r.reviewer_id}`)
+        );
+
+        return ((assignments as unknown as Array<{
+            applicant_id: string;
+            reviewer_id: string;
+            applicant: { category: ApplicantCategory } | null;
+        }>) || []).map(assignment => ({
+            applicant_id: assignment.applicant_id,
+            reviewer_id: assignment.reviewer_id,
+            category: assignment.applicant?.category || 'regular',
+            completed: decided.has(`${assignment.applicant_id}|${assignment.reviewer_id}`)
+        }));
+    }
+
+    /**
+     * Count a cycle's applicants in each category
+     */
+    private static async getApplicantCountsByCategory(cycleId: string): Promise<Map<ApplicantCategory, number>> {
+        const { data, error } = await fetchAllRows((from, to) => supabaseAdmin
+            .from('urology_applicants')
+            .select('id, category')
+            .eq('cycle_id', cycleId)
+            .eq('site_name', getSiteName())
+            .order('id')
+            .range(from, to));
+
+        if (error) {
+            console.error('Error fetching applicant categories:', error);
+            throw new Error(`Failed to fetch applicants: ${error.message}`);
+        }
+
+        const counts = new Map<ApplicantCategory, number>();
+        for (const applicant of (data || []) as Array<{ category: ApplicantCategory }>) {
+            counts.set(applicant.category, (counts.get(applicant.category) || 0) + 1);
+        }
+        return counts;
+    }
+
+    /**
+     * Get every reviewer's id and name
+     */
+    private static async getReviewers(): Promise<Array<{ id: string; name: string }>> {
+        const { data, error } = await supabaseAdmin
+            .from('urology_reviewers')
+            .select('id, name')
+            .eq('site_name', getSiteName())
+            .order('name');
+
+        if (error) {
+            console.error('Error fetching reviewers:', error);
+            throw new Error(`Failed to fetch reviewers: ${error.message}`);
+        }
+
+        return data || [];
+    }
+
+    /**
+     * Completed and total assigned pairs
+     */
+    private static summarizeOverall(pairs: AssignmentPair[]): ProgressInfo {
+        return {
+            completed: pairs.filter(pair => pair.completed).length,
+            total: pairs.length
+        };
+    }
+
+    /**
+     * Pairs per applicant category, plus applicants with no reviewer yet
+     */
+    private static summarizeByCategory(
+        pairs: AssignmentPair[],
+        applicantCounts: Map<ApplicantCategory, number>
+    ): CategoryProgress[] {
+        return this.CATEGORIES.map(category => {
+            const categoryPairs = pairs.filter(pair => pair.category === category);
+            const completed = categoryPairs.filter(pair => pair.completed).length;
+            const applicants = applicantCounts.get(category) || 0;
+            const assignedApplicants = new Set(categoryPairs.map(pair => pair.applicant_id)).size;
+            return {
+                category,
+                applicants,
+                unassigned: Math.max(0, applicants - assignedApplicants),
+                assigned: categoryPairs.length,
+                completed,
+                percentage: this.percentage(completed, categoryPairs.length)
+            };
+        });
+    }
+
+    /**
+     * Pairs per reviewer, most complete first; reviewers with no assignments show 0 of 0
+     */
+    private static summarizeByReviewer(
+        pairs: AssignmentPair[],
+        reviewers: Array<{ id: string; name: string }>
+    ): ReviewerStats[] {
+        const stats: ReviewerStats[] = reviewers.map(reviewer => {
+            const reviewerPairs = pairs.filter(pair => pair.reviewer_id === reviewer.id);
+            const completed = reviewerPairs.filter(pair => pair.completed).length;
+            return {
+                name: reviewer.name,
+                assigned: reviewerPairs.length,
+                completed,
+                percentage: this.percentage(completed, reviewerPairs.length)
+            };
+        });
+
+        return stats.sort((a, b) => b.percentage - a.percentage);
+    }
+
+    /**
+     * Whole-number completion percentage, 0 when nothing is assigned
+     */
+    private static percentage(completed: number, assigned: number): number {
+        return assigned > 0 ? Math.round((completed / assigned) * 100) : 0;
+    }
+}
@@ -0,0 +1,133 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { RankListService } from './rankListService';
+import { ReviewService } from './reviewService';
+import { InterviewEvaluationService } from './interviewEvaluationService';
+import {
+    AdminDecision,
+    ApplicantInterviewScore,
+    DatabaseApplicant,
+    DatabaseFinalSelection,
+    DatabaseRankList,
+    RankListEntry
+} from '../types';
+
+jest.mock('../config/supabase', () => ({
+    supabaseAdmin: require('../test/fakeSupabase').fakeSupabase.client
+}));
+
+const applicants = ['a1', 'a2', 'a3', 'a4', 'a5'].map(id => ({ id, name: `Applicant ${id}` }) as DatabaseApplicant);
+
+const entry = (applicant_id: string, locked = false): RankListEntry => ({ applicant_id, locked });
+
+function rankList(entries: RankListEntry[]): DatabaseRankList {
+    return { id: 'list-1', cycle_id: 'cycle-1', entries, revision: 1 } as DatabaseRankList;
+}
+
+describe('RankListService.validateEntries', () => {
+    const current = rankList([entry('a1', true), entry('a2'), entry('a3', true)]);
+
+    it('accepts a reorder that leaves locked entries in place', () => {
+        const entries = [entry('a1', true), entry('a4'), entry('a3', true), entry('a2')];
+
+        expect(RankListService.validateEntries(entries, current, applicants)).toBeNull();
+    });
+
+    it('accepts any order for a list that has not been saved yet', () => {
+        expect(RankListService.validateEntries([entry('a2', true), entry('a1')], null, applicants)).toBeNull();
+    });
+
+    it('rejects moving an entry that stays locked', () => {
+        const entries = [entry('a2'), entry('a1', true), entry('a3', true)];
+
+        expect(RankListService.validateEntries(entries, current, applicants))
+            .toBe('Applicant a1 is locked at rank 1; unlock them before moving them');
+    });
+
+    it('lets an entry move in the same save that unlocks it', () => {
+        const entries = [entry('a2'), entry('a1'), entry('a3', true)];
+
+        expect(RankListService.validateEntries(entries, current, applicants)).toBeNull();
+    });
+
+    it('rejects leaving out a locked entry', () => {
+        const entries = [entry('a1', true), entry('a2')];
+
+        expect(RankListService.validateEntries(entries, current, applicants))
+            .toBe('Applicant a3 is locked at rank 3; unlock them before removing them');
+    });
+
+    it('lets an unlocked entry be left out', () => {
+        expect(RankListService.validateEntries([entry('a1', true), entry('a4'), entry('a3', true)], current, applicants)).toBeNull();
+    });
+
+    it('does not hold on to a locked applicant who has since been deleted', () => {
+        const withDeleted = rankList([entry('a1', true), entry('gone', true)]);
+
+        expect(RankListService.validateEntries([entry('a1', true)], withDeleted, applicants)).toBeNull();
+    });
+
+    it('rejects applicants from outside the cycle', () => {
+        expect(RankListService.validateEntries([entry('a1'), entry('x9')], null, applicants))
+            .toBe('Not applicants in this cycle: x9');
+    });
+
+    it('rejects ranking an applicant twice', () => {
+        expect(RankListService.validateEntries([entry('a1'), entry('a1')], null, applicants))
+            .toBe('An applicant can only be ranked once');
+    });
+
+    it('rejects lists longer than the limit', () => {
+        const entries = Array.from({ length: RankListService.MAX_ENTRIES + 1 }, (_, index) => entry(`a${index}`));
+
+        expect(RankListService.validateEntries(entries, null, applicants))
+            .toBe(`A rank list can hold at most ${RankListService.MAX_ENTRIES} applicants`);
+    });
+});
+
+describe('RankListService.seedEntries', () => {
+    const selection = (applicant_id: string, admin_decision: AdminDecision = 'Selected') =>
+        ({ applicant_id, admin_decision }) as DatabaseFinalSelection;
+
+    beforeEach(() => {
+        jest.restoreAllMocks();
+        // Highest average score first, as getAllFinalSelections returns them
+        jest.spyOn(ReviewService, 'getAllFinalSelections').mockResolvedValue([
+            selection('a1'),
+            selection('a2'),
+            selection('a3', 'Waitlisted'),
+            selection('a4'),
+            selection('a5')
+        ]);
+        jest.spyOn(InterviewEvaluationService, 'getApplicantScores').mockResolvedValue([
+            { applicant_id: 'a4', interview_score: 4.5 },
+            { applicant_id: 'a2', interview_score: 3 }
+        ] as ApplicantInterviewScore[]);
+    });
+
+    it('orders selected applicants by interview score, then by average score', async () => {
+        const seeded = await RankListService.seedEntries('cycle-1', []);
+
+        expect(seeded).toEqual([entry('a4'), entry('a2'), entry('a1'), entry('a5')]);
+    });
+
+    it('keeps locked entries at their ranks and fills the places around them', async () => {
+        const seeded = await RankListService.seedEntries('cycle-1', [entry('a1', true), entry('a4'), entry('a5', true)]);
+
+        expect(seeded).toEqual([entry('a1', true), entry('a4'), entry('a5', true), entry('a2')]);
+    });
+
+    it('keeps locked applicants who are no longer selected', async () => {
+        const seeded = await RankListService.seedEntries('cycle-1', [entry('a4'), entry('a3', true)]);
+
+        expect(seeded).toEqual([entry('a4'), entry('a3', true), entry('a2'), entry('a1'), entry('a5')]);
+    });
+
+    it('moves a locked entry up to the end of a shorter list', async () => {
+        jest.spyOn(ReviewService, 'getAllFinalSelections').mockResolvedValue([selection('a1')]);
+        const current = [entry('a2'), entry('a4'), entry('a5'), entry('a3', true)];
+
+        const seeded = await RankListService.seedEntries('cycle-1', current);
+
+        expect(seeded).toEqual([entry('a1'), entry('a3', true)]);
+    });
+});
@@ -0,0 +1,330 @@
+import { supabaseAdmin } from '../config/supabase';
+import { getSiteName } from '../config/tenant';
+import { ApplicantService } from './applicantService';
+import { ReviewService } from './reviewService';
+import { InterviewEvaluationService } from './interviewEvaluationService';
+import { toCsv } from '../utils/csv';
+import {
+    DatabaseApplicant,
+    DatabaseRankList,
+    DatabaseRankListVersion,
+    RankList,
+    RankListEntry
+} from '../types';
+
+export class RankListService {
+    static readonly MAX_ENTRIES = 1000;
+
+    /**
+     * Get a cycle's rank list, or null if none has been started
+     */
+    static async getRankList(cycleId: string): Promise<DatabaseRankList | null> {
+        try {
+            const { data, error } = await supabaseAdmin
+                .from('urology_rank_lists')
+                .select('*')
+                .eq('cycle_id', cycleId)
+                .eq('site_name', getSiteName())
+                .maybeSingle();
+
+            if (error) {
+                console.error('Error fetching rank list:', error);
+                throw new Error(`Failed to fetch rank list: ${error.message}`);
+            }
+
+            return data;
+        } catch (err) {
+            console.error('RankListService.getRankList error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Add each entry's rank, applicant details, average and interview scores and decision
+     * Entries for applicants deleted since the list was saved are left out
+     */
+    static async withItems(rankList: DatabaseRankList): Promise<RankList> {
+        try {
+            const [applicants, selections, interviewScores] = await Promise.all([
+                ApplicantService.getAllApplicants(rankList.cycle_id),
+                ReviewService.getAllFinalSelections(rankList.cycle_id),
+                InterviewEvaluationService.getApplicantScores(rankList.cycle_id)
+            ]);
+            const applicantsById = new Map(applicants.map(applicant => [applicant.id, applicant]));
+            const selectionsByApplicant = new Map(selections.map(selection => [selection.applicant_id, selection]));
+            const interviewsByApplicant = new Map(interviewScores.map(score => [score.applicant_id, score.interview_score]));
+
+            const items = rankList.entries
+                .filter(entry => applicantsById.has(entry.applicant_id))
+                .map((entry, index) => {
+                    const applicant = applicantsById.get(entry.applicant_id)!;
+                    const selection = selectionsByApplicant.get(entry.applicant_id);
+                    return {
+                        ...entry,
+                        rank: index + 1,
+                        external_id: applicant.external_id,
+                        name: applicant.name,
+                        category: applicant.category,
+                        medical_school: applicant.medical_school ?? null,
+                        average_score: selection?.average_score ?? null,
+                        interview_score: interviewsByApplicant.get(entry.applicant_id) ?? null,
+                        admin_decision: selection?.admin_decision ?? 'Pending'
+                    };
+                });
+
+            return { ...rankList, items };
+        } catch (err) {
+            console.error('RankListService.withItems error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Build a list from the applicants Selected for interview: interviewed applicants first by mean interview score,
+     * then the rest by average review score
+     * Locked entries keep their positions and everyone else fills the places around them
+     */
+    static async seedEntries(cycleId: string, current: RankListEntry[]): Promise<RankListEntry[]> {
+        try {
+            // Final selections come back highest average score first, and the sort below is stable
+            const [selections, interviewScores] = await Promise.all([
+                ReviewService.getAllFinalSelections(cycleId),
+                InterviewEvaluationService.getApplicantScores(cycleId)
+            ]);
+            const interviewsByApplicant = new Map(interviewScores.map(score => [score.applicant_id, score.interview_score]));
+            const byInterviewScore = (a: string, b: string): number => {
+                const scoreA = interviewsByApplicant.get(a) ?? null;
+                const scoreB = interviewsByApplicant.get(b) ?? null;
+                if (scoreA === null || scoreB === null) {
+                    return (scoreA === null ? 1 : 0) - (scoreB === null ? 1 : 0);
+                }
+                return scoreB - scoreA;
+            };
+            const lockedIds = new Set(current.filter(entry => entry.locked).map(entry => entry.applicant_id));
+            const seeded = selections
+                .filter(selection => selection.admin_decision === 'Selected' && !lockedIds.has(selection.applicant_id))
+                .sort((a, b) => byInterviewScore(a.applicant_id, b.applicant_id))
+                .map(selection => ({ applicant_id: selection.applicant_id, locked: false }));
+
+            return this.placeAroundLocked(current, seeded);
+        } catch (err) {
+            console.error('RankListService.seedEntries error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Check a new order against the cycle's applicants and the stored list, returning an error message or null if valid
+     */
+    static validateEntries(
+        entries: RankListEntry[],
+        current: DatabaseRankList | null,
+        applicants: DatabaseApplicant[]
+    ): string | null {
+        if (entries.length > this.MAX_ENTRIES) {
+            return `A rank list can hold at most ${this.MAX_ENTRIES} applicants`;
+        }
+
+        const applicantsById = new Map(applicants.map(applicant => [applicant.id, applicant]));
+        const unknown = entries.filter(entry => !applicantsById.has(entry.applicant_id));
+        if (unknown.length > 0) {
+            return `Not applicants in this cycle: ${unknown.map(entry => entry.applicant_id).join(', ')}`;
+        }
+
+        if (new Set(entries.map(entry => entry.applicant_id)).size !== entries.length) {
+            return 'An applicant can only be ranked once';
+        }
+
+        // A locked entry cannot be dropped either; unlock it first. Applicants deleted since are already gone
+        const dropped = (current?.entries ?? []).find(entry =>
+            entry.locked && applicantsById.has(entry.applicant_id) &&
+            !entries.some(next => next.applicant_id === entry.applicant_id));
+        if (dropped) {
+            const position = current!.entries.indexOf(dropped) + 1;
+            return `${applicantsById.get(dropped.applicant_id)!.name} is locked at rank ${position}; unlock them before removing them`;
+        }
+
+        // An entry that stays locked cannot move; unlock it first
+        const moved = (current?.entries ?? []).find((entry, index) =>
+            entry.locked && entries.some((next, nextIndex) =>
+                next.applicant_id === entry.applicant_id && next.locked && nextIndex !== index));
+        if (moved) {
+            const position = current!.entries.indexOf(moved) + 1;
+            return `${applicantsById.get(moved.applicant_id)?.name ?? moved.applicant_id} is locked at rank ${position}; unlock them before moving them`;
+        }
+
+        return null;
+    }
+
+    /**
+     * Create or replace a cycle's rank list
+     * Returns null without writing if the list has moved past the expected revision,
+     * or if someone else started the list first
+     */
+    static async saveRankList(
+        cycleId: string,
+        entries: RankListEntry[],
+        existing: DatabaseRankList | null,
+        expectedRevision: number | undefined,
+        updatedBy: string
+    ): Promise<DatabaseRankList | null> {
+        try {
+            const revision = expectedRevision ?? existing?.revision;
+            if (existing && revision !== existing.revision) {
+                return null;
+            }
+
+            // Store only the two fields, whatever else the client sent
+            const stored = entries.map(entry => ({ applicant_id: entry.applicant_id, locked: entry.locked }));
+            const { data, error } = existing
+                ? await supabaseAdmin
+                    .from('urology_rank_lists')
+                    .update({ entries: stored, revision: existing.revision + 1, updated_by: updatedBy })
+                    .eq('id', existing.id)
+                    .eq('revision', existing.revision)
+                    .eq('site_name', getSiteName())
+                    .select()
+                    .maybeSingle()
+                : await supabaseAdmin
+                    .from('urology_rank_lists')
+                    .insert([{
+                        cycle_id: cycleId,
+                        entries: stored,
+                        updated_by: updatedBy,
+                        site_name: getSiteName()
+                    }])
+                    .select()
+                    .maybeSingle();
+
+            if (error) {
+                if (error.code === '23505') {
+                    return null; // Started by someone else since it was read
+                }
+                console.error('Error saving rank list:', error);
+                throw new Error(`Failed to save rank list: ${error.message}`);
+            }
+
+            return data;
+        } catch (err) {
+            console.error('RankListService.saveRankList error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Snapshot the list as it stands under the next version number
+     */
+    static async createVersion(rankList: DatabaseRankList, label: string | undefined, createdBy: string): Promise<DatabaseRankListVersion> {
+        try {
+            const [latest] = await this.getVersions(rankList.id);
+            const { data, error } = await supabaseAdmin
+                .from('urology_rank_list_versions')
+                .insert([{
+                    rank_list_id: rankList.id,
+                    version: (latest?.version ?? 0) + 1,
+                    label,
+                    entries: rankList.entries,
+                    created_by: createdBy,
+                    site_name: getSiteName()
+                }])
+                .select()
+                .single();
+
+            if (error) {
+                console.error('Error creating rank list version:', error);
+                throw new Error(`Failed to create rank list version: ${error.message}`);
+            }
+
+            return data;
+        } catch (err) {
+            console.error('RankListService.createVersion error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Get every snapshot of a rank list, newest first
+     */
+    static async getVersions(rankListId: string): Promise<DatabaseRankListVersion[]> {
+        try {
+            const { data, error } = await supabaseAdmin
+                .from('urology_rank_list_versions')
+                .select('*')
+                .eq('rank_list_id', rankListId)
+                .eq('site_name', getSiteName())
+                .order('version', { ascending: false });
+
+            if (error) {
+                console.error('Error fetching rank list versions:', error);
+                throw new Error(`Failed to fetch rank list versions: ${error.message}`);
+            }
+
+            return data || [];
+        } catch (err) {
+            console.error('RankListService.getVersions error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Get one snapshot of a rank list
+     */
+    static async getVersion(rankListId: string, version: number): Promise<DatabaseRankListVersion | null> {
+        try {
+            const { data, error } = await supabaseAdmin
+                .from('urology_rank_list_versions')
+                .select('*')
+                .eq('rank_list_id', rankListId)
+                .eq('version', version)
+                .eq('site_name', getSiteName())
+                .maybeSingle();
+
+            if (error) {
+                console.error('Error fetching rank list version:', error);
+                throw new Error(`Failed to fetch rank list version: ${error.message}`);
+            }
+
+            return data;
+        } catch (err) {
+            console.error('RankListService.getVersion error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Export the list for match submission: rank and AAMC ID first, one row per ranked applicant
+     */
+    static exportCSV(rankList: RankList): string {
+        return toCsv([
+            ['Rank', 'AAMC ID', 'Applicant Name', 'Medical School', 'Category'],
+            ...rankList.items.map(item => [
+                item.rank,
+                item.external_id,
+                item.name,
+                item.medical_school,
+                item.category === 'i-sub' ? 'I-Sub' : 'Regular'
+            ])
+        ]);
+    }
+
+    /**
+     * Put locked entries back at their positions (or as close as the list's length allows) and fill the rest in order
+     */
+    private static placeAroundLocked(current: RankListEntry[], unlocked: RankListEntry[]): RankListEntry[] {
+        const pending = current
+            .map((entry, index) => ({ entry, index }))
+            .filter(({ entry }) => entry.locked);
+        const queue = [...unlocked];
+        const result: RankListEntry[] = [];
+
+        while (pending.length > 0 || queue.length > 0) {
+            if (pending.length > 0 && (pending[0]!.index <= result.length || queue.length === 0)) {
+                result.push(pending.shift()!.entry);
+            } else {
+                result.push(queue.shift()!);
+            }
+        }
+
+        return result;
+    }
+}
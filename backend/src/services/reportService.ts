@@ -0,0 +1,363 @@
+import PDFDocument from 'pdfkit';
+import { ApplicantService } from './applicantService';
+import { ReviewService } from './reviewService';
+import { RubricService } from './rubricService';
+import { CalibrationService } from './calibrationService';
+import {
+    ApplicantCategory,
+    DatabaseApplicant,
+    DatabaseCycle,
+    DatabaseReview,
+    HonorSocietyStatus,
+    RankList,
+    RankListItem,
+    RankedFinalSelection,
+    RubricWithCriteria,
+    VisaStatus
+} from '../types';
+
+// A table column and how to read its text from one row
+interface TableColumn<T> {
+    header: string;
+    width: number;
+    value: (row: T) => string;
+}
+
+interface SummaryRow {
+    applicant: DatabaseApplicant;
+    selection?: RankedFinalSelection | undefined;
+    rank: number | null;
+}
+
+const HONOR_SOCIETY_LABELS: Record<HonorSocietyStatus, string> = {
+    'member': 'Member',
+    'pending': 'Elections pending',
+    'not_member': 'Not a member',
+    'no_chapter': 'No chapter at school'
+};
+
+const VISA_LABELS: Record<VisaStatus, string> = {
+    'us_citizen': 'US citizen',
+    'permanent_resident': 'Permanent resident',
+    'visa_required': 'Visa sponsorship required'
+};
+
+const NOT_REPORTED = 'Not reported';
+
+export class ReportService {
+    private static readonly CATEGORIES: Array<{ category: ApplicantCategory; label: string }> = [
+        { category: 'regular', label: 'Regular' },
+        { category: 'i-sub', label: 'I-Sub' }
+    ];
+
+    /**
+     * Printable packet for one applicant: profile, every review with its criterion scores, and the committee's aggregate
+     * Returns null if the applicant is not in the cycle
+     */
+    static async applicantPacketPDF(cycle: DatabaseCycle, applicantId: string): Promise<Buffer | null> {
+        try {
+            const [applicant, reviews, selection] = await Promise.all([
+                ApplicantService.getApplicantById(cycle.id, applicantId),
+                ReviewService.getReviewsForApplicant(cycle.id, applicantId),
+                ReviewService.getFinalSelection(cycle.id, applicantId)
+            ]);
+            if (!applicant) {
+                return null;
+            }
+
+            const rubrics = await this.getRubrics(reviews);
+            const sortedReviews = [...reviews].sort((a, b) => a.reviewer_name.localeCompare(b.reviewer_name));
+
+            return await this.render(doc => {
+                doc.fontSize(20).font('Helvetica-Bold').text(applicant.name);
+                doc.fontSize(10).font('Helvetica').fillColor('#555555')
+                    .text(`AAMC ID ${applicant.external_id} · ${this.categoryLabel(applicant.category)} · ${cycle.name} cycle`)
+                    .fillColor('black')
+                    .moveDown();
+
+                this.heading(doc, 'Profile');
+                this.fields(doc, [
+                    ['Medical School', applicant.medical_school || NOT_REPORTED],
+                    ['Graduation Year', applicant.graduation_year?.toString() ?? NOT_REPORTED],
+                    ['Step 2 CK', applicant.step2_ck_score?.toString() ?? NOT_REPORTED],
+                    ['AOA', applicant.aoa_status ? HONOR_SOCIETY_LABELS[applicant.aoa_status] : NOT_REPORTED],
+                    ['GHHS', applicant.ghhs_status ? HONOR_SOCIETY_LABELS[applicant.ghhs_status] : NOT_REPORTED],
+                    ['Publications', applicant.publication_count?.toString() ?? NOT_REPORTED],
+                    ['Clerkship Honors', applicant.clerkship_honors?.length ? applicant.clerkship_honors.join(', ') : NOT_REPORTED],
+                    ['Home Program', applicant.home_program || NOT_REPORTED],
+                    ['Visa Status', applicant.visa_status ? VISA_LABELS[applicant.visa_status] : NOT_REPORTED],
+                    ['Preference Signal', applicant.preference_signal ? 'Signaled this program' : 'No signal']
+                ]);
+
+                this.heading(doc, 'Committee Summary');
+                this.fields(doc, [
+                    ['Average Score', this.formatScore(selection?.average_score)],
+                    ['Average Raw Score', this.formatScore(selection?.raw_average_score)],
+                    ['Reviews', reviews.length.toString()],
+                    ['Final Decision', selection?.admin_decision ?? 'Pending'],
+                    ...(selection?.selection_reason ? [['Decision Reason', selection.selection_reason] as [string, string]] : [])
+                ]);
+
+                this.heading(doc, 'Reviews');
+                if (sortedReviews.length === 0) {
+                    doc.fontSize(10).text('No reviews have been submitted for this applicant.');
+                }
+                for (const review of sortedReviews) {
+                    this.review(doc, review, rubrics.get(review.rubric_id));
+                }
+            });
+        } catch (err) {
+            console.error('ReportService.applicantPacketPDF error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Committee summary ranking every applicant within their category by average score
+     * Applicants without a scored review are listed last, unranked
+     */
+    static async summaryPDF(cycle: DatabaseCycle): Promise<Buffer> {
+        try {
+            const [applicants, selections, calibration] = await Promise.all([
+                ApplicantService.getAllApplicants(cycle.id),
+                ReviewService.getAllFinalSelections(cycle.id),
+                CalibrationService.getCalibration(cycle.id)
+            ]);
+            const selectionsByApplicant = new Map(
+                CalibrationService.rankFinalSelections(selections, calibration).map(selection => [selection.applicant_id, selection])
+            );
+
+            const columns: TableColumn<SummaryRow>[] = [
+                { header: 'Rank', width: 35, value: row => row.rank?.toString() ?? '—' },
+                { header: 'Name', width: 120, value: row => row.applicant.name },
+                { header: 'Medical School', width: 140, value: row => row.applicant.medical_school ?? '' },
+                { header: 'Reviews', width: 45, value: row => (row.selection?.reviewer_count ?? 0).toString() },
+                { header: 'Avg Score', width: 55, value: row => this.formatScore(row.selection?.average_score) },
+                { header: 'Raw Avg', width: 50, value: row => this.formatScore(row.selection?.raw_average_score) },
+                { header: 'Decision', width: 67, value: row => row.selection?.admin_decision ?? 'Pending' }
+            ];
+
+            return await this.render(doc => {
+                doc.fontSize(20).font('Helvetica-Bold').text('Selection Committee Summary');
+                doc.fontSize(10).font('Helvetica').fillColor('#555555')
+                    .text(`${cycle.name} cycle · generated ${new Date().toLocaleDateString('en-US', { dateStyle: 'long' })}`)
+                    .fillColor('black')
+                    .moveDown();
+
+                for (const { category, label } of this.CATEGORIES) {
+                    const rows = this.rankCategory(
+                        applicants.filter(applicant => applicant.category === category),
+                        selectionsByApplicant
+                    );
+                    this.heading(doc, `${label} Applicants (${rows.length})`);
+                    if (rows.length === 0) {
+                        doc.fontSize(10).text('No applicants in this category.').moveDown();
+                        continue;
+                    }
+                    this.table(doc, columns, rows);
+                    doc.moveDown();
+                }
+            });
+        } catch (err) {
+            console.error('ReportService.summaryPDF error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Printable copy of the rank order list, for sign-off before it is entered for the match
+     */
+    static async rankListPDF(cycle: DatabaseCycle, rankList: RankList): Promise<Buffer> {
+        try {
+            const columns: TableColumn<RankListItem>[] = [
+                { header: 'Rank', width: 35, value: item => item.rank.toString() },
+                { header: 'Name', width: 115, value: item => item.name },
+                { header: 'AAMC ID', width: 70, value: item => item.external_id },
+                { header: 'Medical School', width: 95, value: item => item.medical_school ?? '' },
+                { header: 'Category', width: 50, value: item => this.categoryLabel(item.category) },
+                { header: 'Avg Score', width: 55, value: item => this.formatScore(item.average_score) },
+                { header: 'Interview', width: 55, value: item => this.formatScore(item.interview_score) },
+                { header: 'Locked', width: 37, value: item => item.locked ? 'Yes' : '' }
+            ];
+
+            return await this.render(doc => {
+                doc.fontSize(20).font('Helvetica-Bold').text('Rank Order List');
+                doc.fontSize(10).font('Helvetica').fillColor('#555555')
+                    .text(`${cycle.name} cycle · revision ${rankList.revision} · last changed ${new Date(rankList.updated_at).toLocaleDateString('en-US', { dateStyle: 'long' })}`)
+                    .fillColor('black')
+                    .moveDown();
+
+                if (rankList.items.length === 0) {
+                    doc.fontSize(10).text('No applicants have been ranked.');
+                } else {
+                    this.table(doc, columns, rankList.items);
+                }
+
+                doc.moveDown(2).fontSize(10)
+                    .text('Approved by: ______________________________        Date: ______________', doc.page.margins.left);
+            });
+        } catch (err) {
+            console.error('ReportService.rankListPDF error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Order a category by average score, highest first; tied applicants share a rank
+     */
+    private static rankCategory(
+        applicants: DatabaseApplicant[],
+        selections: Map<string, RankedFinalSelection>
+    ): SummaryRow[] {
+        const scoreOf = (applicant: DatabaseApplicant): number | null => {
+            const score = selections.get(applicant.id)?.average_score;
+            return score === null || score === undefined ? null : Number(score);
+        };
+        const sorted = [...applicants].sort((a, b) => {
+            const left = scoreOf(a);
+            const right = scoreOf(b);
+            if (left === right) {
+                return a.name.localeCompare(b.name);
+            }
+            if (left === null) {
+                return 1;
+            }
+            if (right === null) {
+                return -1;
+            }
+            return right - left;
+        });
+
+        const rows: SummaryRow[] = [];
+        sorted.forEach((applicant, index) => {
+            const score = scoreOf(applicant);
+            const previous = rows[index - 1];
+            const rank = score === null
+                ? null
+                : previous && previous.rank !== null && scoreOf(previous.applicant) === score ? previous.rank : index + 1;
+            rows.push({ applicant, selection: selections.get(applicant.id), rank });
+        });
+        return rows;
+    }
+
+    /**
+     * Load each rubric the reviews were scored on, keyed by id
+     */
+    private static async getRubrics(reviews: DatabaseReview[]): Promise<Map<string, RubricWithCriteria>> {
+        const rubricIds = Array.from(new Set(reviews.map(review => review.rubric_id)));
+        const rubrics = await Promise.all(rubricIds.map(id => RubricService.getRubricById(id)));
+        return new Map(rubrics
+            .filter((rubric): rubric is RubricWithCriteria => rubric !== null)
+            .map(rubric => [rubric.id, rubric]));
+    }
+
+    /**
+     * Build a PDF and collect it into a buffer
+     */
+    private static render(build: (doc: PDFKit.PDFDocument) => void): Promise<Buffer> {
+        return new Promise((resolve, reject) => {
+            const doc = new PDFDocument({ size: 'LETTER', margin: 50 });
+            const chunks: Buffer[] = [];
+            doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+            doc.on('end', () => resolve(Buffer.concat(chunks)));
+            doc.on('error', reject);
+            build(doc);
+            doc.end();
+        });
+    }
+
+    private static heading(doc: PDFKit.PDFDocument, text: string): void {
+        doc.moveDown(0.5).fontSize(14).font('Helvetica-Bold').text(text, doc.page.margins.left).moveDown(0.3);
+        doc.font('Helvetica').fontSize(10);
+    }
+
+    /**
+     * Label and value pairs, one per line
+     */
+    private static fields(doc: PDFKit.PDFDocument, fields: Array<[string, string]>): void {
+        doc.fontSize(10);
+        for (const [label, value] of fields) {
+            doc.font('Helvetica-Bold').text(`${label}: `, { continued: true }).font('Helvetica').text(value);
+        }
+        doc.moveDown(0.5);
+    }
+
+    /**
+     * One reviewer's criterion scores, totals, recommendation and notes
+     */
+    private static review(doc: PDFKit.PDFDocument, review: DatabaseReview, rubric: RubricWithCriteria | undefined): void {
+        doc.moveDown(0.5).fontSize(12).font('Helvetica-Bold').text(review.reviewer_name);
+
+        // Older rubrics may have been deleted; fall back to the stored criterion keys
+        const criteria: Array<{ key: string; label: string; max_score: number | null }> = rubric
+            ? [...rubric.criteria].sort((a, b) => a.sort_order - b.sort_order)
+            : Object.keys(review.scores ?? {}).map(key => ({ key, label: key, max_score: null }));
+        this.table(doc, [
+            { header: 'Category', width: 250, value: criterion => criterion.label },
+            {
+                header: 'Score',
+                width: 80,
+                value: criterion => {
+                    const score = review.scores?.[criterion.key];
+                    if (score === undefined) {
+                        return '—';
+                    }
+                    return criterion.max_score !== null ? `${score} / ${criterion.max_score}` : score.toString();
+                }
+            }
+        ], criteria);
+
+        this.fields(doc, [
+            ['Weighted Score', this.formatScore(review.weighted_score)],
+            ['Raw Score', this.formatScore(review.total_score)],
+            ['Interview Recommendation', review.decision ?? 'Not yet recorded'],
+            ['Notes', review.notes?.trim() || 'None']
+        ]);
+    }
+
+    /**
+     * Draw a table with a bold header row, repeating the header on each new page
+     */
+    private static table<T>(doc: PDFKit.PDFDocument, columns: TableColumn<T>[], rows: T[]): void {
+        const left = doc.page.margins.left;
+        const rowHeight = 16;
+        const bottom = (): number => doc.page.height - doc.page.margins.bottom;
+
+        const drawRow = (cells: string[], bold: boolean): void => {
+            const y = doc.y;
+            let x = left;
+            doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(9);
+            cells.forEach((cell, index) => {
+                const width = columns[index]!.width;
+                doc.text(cell, x, y + 3, { width: width - 4, height: rowHeight - 3, ellipsis: true, lineBreak: false });
+                x += width;
+            });
+            doc.moveTo(left, y + rowHeight).lineTo(x, y + rowHeight).strokeColor('#dddddd').stroke();
+            doc.x = left;
+            doc.y = y + rowHeight;
+        };
+
+        const header = columns.map(column => column.header);
+        // Keep the header with at least one row
+        if (doc.y + rowHeight * 2 > bottom()) {
+            doc.addPage();
+        }
+        drawRow(header, true);
+        for (const row of rows) {
+            if (doc.y + rowHeight > bottom()) {
+                doc.addPage();
+                drawRow(header, true);
+            }
+            drawRow(columns.map(column => column.value(row)), false);
+        }
+        doc.font('Helvetica').fontSize(10).moveDown(0.5);
+    }
+
+    private static categoryLabel(category: ApplicantCategory): string {
+        return this.CATEGORIES.find(entry => entry.category === category)?.label ?? category;
+    }
+
+    private static formatScore(score: number | null | undefined): string {
+        return score === null || score === undefined ? '—' : Number(score).toFixed(2);
+    }
+}
@@ -1,29 +1,115 @@
 import { supabase, supabaseAdmin } from '../config/supabase';
+import { getSiteName } from '../config/tenant';
+import { ReviewVersionService } from './reviewVersionService';
+import { searchFilter } from '../utils/listQuery';
+import { fetchAllRows } from '../utils/fetchAll';
 import {
     Review,
     DecisionType,
     AdminDecision,
     DatabaseReview,
+    DatabaseApplicant,
+    DatabaseReviewVersion,
     DatabaseFinalSelection,
     CreateReviewRequest,
     UpdateReviewRequest,
     CreateFinalSelectionRequest,
-    UpdateFinalSelectionRequest
+    UpdateFinalSelectionRequest,
+    ReviewScores,
+    RubricWithCriteria,
+    ListQuery,
+    ReviewListFilters
 } from '../types';
 
 export class ReviewService {
-    private static readonly SITE_NAME = 'urology_review';
+    static readonly DECISIONS: DecisionType[] = ['Definitely Interview', 'Maybe', 'Do Not Interview'];
+
+    static readonly SORT_FIELDS = ['created_at', 'updated_at', 'weighted_score', 'total_score', 'reviewer_name', 'decision'];
 
     /**
-     * Get all reviews for an applicant
+     * Search, filter, sort and page a cycle's reviews, each with its applicant
+     * q searches the applicant's name, AAMC ID and medical school
      */
-    static async getReviewsForApplicant(applicantId: string): Promise<DatabaseReview[]> {
+    static async listReviews(
+        cycleId: string,
+        filters: ReviewListFilters,
+        listQuery: ListQuery
+    ): Promise<{ reviews: (DatabaseReview & { applicant: DatabaseApplicant | null })[]; total: number }> {
+        try {
+            const buildQuery = () => {
+                // An inner join lets applicant filters drop reviews instead of just blanking their applicant
+                let query = supabaseAdmin
+                    .from('urology_reviews')
+                    .select('*, applicant:urology_applicants!inner(*)', { count: 'exact' })
+                    .eq('cycle_id', cycleId)
+                    .eq('site_name', getSiteName());
+
+                if (filters.applicant_id) {
+                    query = query.eq('applicant_id', filters.applicant_id);
+                }
+                if (filters.reviewer_name) {
+                    query = query.eq('reviewer_name', filters.reviewer_name);
+                }
+                if (filters.decision) {
+                    query = query.eq('decision', filters.decision);
+                }
+                if (filters.min_score !== undefined) {
+                    query = query.gte('weighted_score', filters.min_score);
+                }
+                if (filters.max_score !== undefined) {
+                    query = query.lte('weighted_score', filters.max_score);
+                }
+                if (filters.category) {
+                    query = query.eq('applicant.category', filters.category);
+                }
+                if (listQuery.search) {
+                    query = query.or(searchFilter(listQuery.search, ['name', 'external_id', 'medical_school']), { referencedTable: 'applicant' });
+                }
+                for (const key of listQuery.sort) {
+                    query = query.order(key.field, { ascending: key.direction === 'asc', nullsFirst: false });
+                }
+                // Ties break on id so pages never overlap
+                return query.order('id');
+            };
+
+            if (listQuery.limit !== undefined) {
+                const { data, error, count } = await buildQuery()
+                    .range(listQuery.offset, listQuery.offset + listQuery.limit - 1);
+
+                if (error) {
+                    console.error('Error listing reviews:', error);
+                    throw new Error(`Failed to fetch reviews: ${error.message}`);
+                }
+
+                return { reviews: data || [], total: count ?? 0 };
+            }
+
+            // Without a limit the caller wants every match, more than one response can hold
+            const { data, error } = await fetchAllRows((from, to) => buildQuery().range(from, to));
+
+            if (error) {
+                console.error('Error listing reviews:', error);
+                throw new Error(`Failed to fetch reviews: ${error.message}`);
+            }
+
+            return { reviews: data || [], total: data?.length ?? 0 };
+        } catch (err) {
+            console.error('ReviewService.listReviews error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Get all reviews for an applicant in a cycle
+     */
+    static async getReviewsForApplicant(cycleId: string, applicantId: string): Promise<DatabaseReview[]> {
         try {
             const { data, error } = await supabaseAdmin
                 .from('urology_reviews')
                 .select('*')
                 .eq('applicant_id', applicantId)
-                .eq('site_name', this.SITE_NAME)
+                .eq('cycle_id', cycleId)
+                .eq('site_name', getSiteName())
                 .order('created_at');
 
             if (error) {
@@ -39,15 +125,16 @@ export class ReviewService {
     }
 
     /**
-     * Get all reviews by reviewer
+     * Get all reviews by reviewer in a cycle
      */
-    static async getReviewsByReviewer(reviewerName: string): Promise<DatabaseReview[]> {
+    static async getReviewsByReviewer(cycleId: string, reviewerName: string): Promise<DatabaseReview[]> {
         try {
             const { data, error } = await supabaseAdmin
                 .from('urology_reviews')
                 .select('*')
                 .eq('reviewer_name', reviewerName)
-                .eq('site_name', this.SITE_NAME)
+                .eq('cycle_id', cycleId)
+                .eq('site_name', getSiteName())
                 .order('created_at');
 
             if (error) {
@@ -63,16 +150,17 @@ export class ReviewService {
     }
 
     /**
-     * Get a specific review
+     * Get a specific review in a cycle
      */
-    static async getReview(applicantId: string, reviewerName: string): Promise<DatabaseReview | null> {
+    static async getReview(cycleId: string, applicantId: string, reviewerName: string): Promise<DatabaseReview | null> {
         try {
             const { data, error } = await supabaseAdmin
                 .from('urology_reviews')
                 .select('*')
                 .eq('applicant_id', applicantId)
                 .eq('reviewer_name', reviewerName)
-                .eq('site_name', this.SITE_NAME)
+                .eq('cycle_id', cycleId)
+                .eq('site_name', getSiteName())
                 .single();
 
             if (error) {
@@ -91,25 +179,25 @@ export class ReviewService {
     }
 
     /**
-     * Create a new review
+     * Create a new review in the applicant's cycle, scored against the given (active) rubric
      */
-    static async createReview(review: CreateReviewRequest): Promise<DatabaseReview> {
+    static async createReview(cycleId: string, review: CreateReviewRequest, rubric: RubricWithCriteria): Promise<DatabaseReview> {
         try {
+            const scores = review.scores || {};
             const { data, error } = await supabaseAdmin
                 .from('urology_reviews')
                 .insert([{
                     applicant_id: review.applicant_id,
+                    cycle_id: cycleId,
+                    reviewer_id: review.reviewer_id,
                     reviewer_name: review.reviewer_name,
-                    preference: review.preference,
-                    pressure: review.pressure,
-                    underserved: review.underserved,
-                    leadership: review.leadership,
-                    academic: review.academic,
-                    research: review.research,
-                    personal: review.personal,
+                    rubric_id: rubric.id,
+                    scores,
+                    total_score: this.calculateTotalScore(scores, rubric),
+                    weighted_score: this.calculateWeightedScore(scores, rubric),
                     notes: review.notes,
                     decision: review.decision,
-                    site_name: this.SITE_NAME
+                    site_name: getSiteName()
                 }])
                 .select()
                 .single();
@@ -119,8 +207,10 @@ export class ReviewService {
                 throw new Error(`Failed to create review: ${error.message}`);
             }
 
+            await ReviewVersionService.recordVersion(data, 'create');
+
             // Update final selection with new average
-            await this.updateFinalSelectionStats(review.applicant_id);
+            await this.updateFinalSelectionStats(cycleId, review.applicant_id);
 
             return data;
         } catch (err) {
@@ -131,29 +221,51 @@ export class ReviewService {
 
     /**
      * Update an existing review
+     * Scores are merged into the stored ones and re-totalled against the review's own rubric
+     * Returns null without writing if the review has moved past the expected revision
      */
     static async updateReview(
-        applicantId: string,
-        reviewerName: string,
-        updates: UpdateReviewRequest
-    ): Promise<DatabaseReview> {
+        existing: DatabaseReview,
+        updates: UpdateReviewRequest,
+        rubric: RubricWithCriteria
+    ): Promise<DatabaseReview | null> {
         try {
+            const revision = updates.expected_revision ?? existing.revision;
+            if (revision !== existing.revision) {
+                return null;
+            }
+
+            const scores: ReviewScores = { ...existing.scores, ...updates.scores };
+            // Matching on the revision makes the check and the write one atomic step
             const { data, error } = await supabaseAdmin
                 .from('urology_reviews')
-                .update(updates)
-                .eq('applicant_id', applicantId)
-                .eq('reviewer_name', reviewerName)
-                .eq('site_name', this.SITE_NAME)
+                .update({
+                    scores,
+                    total_score: this.calculateTotalScore(scores, rubric),
+                    weighted_score: this.calculateWeightedScore(scores, rubric),
+                    ...(updates.notes !== undefined ? { notes: updates.notes } : {}),
+                    ...(updates.decision !== undefined ? { decision: updates.decision } : {}),
+                    revision: revision + 1
+                })
+                .eq('id', existing.id)
+                .eq('revision', revision)
+                .eq('site_name', getSiteName())
                 .select()
-                .single();
+                .maybeSingle();
 
             if (error) {
                 console.error('Error updating review:', error);
                 throw new Error(`Failed to update review: ${error.message}`);
             }
 
+            if (!data) {
+                return null; // Another save got there first
+            }
+
+            await ReviewVersionService.recordVersion(data, 'update');
+
             // Update final selection with new average
-            await this.updateFinalSelectionStats(applicantId);
+            await this.updateFinalSelectionStats(existing.cycle_id, existing.applicant_id);
 
             return data;
         } catch (err) {
@@ -162,17 +274,67 @@ export class ReviewService {
         }
     }
 
+    /**
+     * Put a review back the way it was at an earlier version
+     * Unlike updateReview the scores are replaced, not merged; the restore becomes the newest version
+     * Returns null without writing if the review changed after it was read
+     */
+    static async restoreReview(
+        existing: DatabaseReview,
+        version: DatabaseReviewVersion,
+        rubric: RubricWithCriteria
+    ): Promise<DatabaseReview | null> {
+        try {
+            const scores: ReviewScores = version.scores || {};
+            const { data, error } = await supabaseAdmin
+                .from('urology_reviews')
+                .update({
+                    scores,
+                    total_score: this.calculateTotalScore(scores, rubric),
+                    weighted_score: this.calculateWeightedScore(scores, rubric),
+                    notes: version.notes ?? null,
+                    decision: version.decision ?? null,
+                    revision: existing.revision + 1
+                })
+                .eq('id', existing.id)
+                .eq('revision', existing.revision)
+                .eq('site_name', getSiteName())
+                .select()
+                .maybeSingle();
+
+            if (error) {
+                console.error('Error restoring review:', error);
+                throw new Error(`Failed to restore review: ${error.message}`);
+            }
+
+            if (!data) {
+                return null; // Another save got there first
+            }
+
+            await ReviewVersionService.recordVersion(data, 'restore', version.version);
+
+            // Update final selection with new average
+            await this.updateFinalSelectionStats(existing.cycle_id, existing.applicant_id);
+
+            return data;
+        } catch (err) {
+            console.error('ReviewService.restoreReview error:', err);
+            throw err;
+        }
+    }
+
     /**
      * Delete a review
      */
-    static async deleteReview(applicantId: string, reviewerName: string): Promise<void> {
+    static async deleteReview(cycleId: string, applicantId: string, reviewerName: string): Promise<void> {
         try {
             const { error } = await supabaseAdmin
                 .from('urology_reviews')
                 .delete()
                 .eq('applicant_id', applicantId)
                 .eq('reviewer_name', reviewerName)
-                .eq('site_name', this.SITE_NAME);
+                .eq('cycle_id', cycleId)
+                .eq('site_name', getSiteName());
 
             if (error) {
                 console.error('Error deleting review:', error);
@@ -180,7 +342,7 @@ export class ReviewService {
             }
 
             // Update final selection with new average
-            await this.updateFinalSelectionStats(applicantId);
+            await this.updateFinalSelectionStats(cycleId, applicantId);
         } catch (err) {
             console.error('ReviewService.deleteReview error:', err);
             throw err;
@@ -188,58 +350,79 @@ export class ReviewService {
     }
 
     /**
-     * Get all reviews with applicant info
+     * Calculate total score for a review
+     * Only criteria in the rubric count; unscored criteria add nothing
+     */
+    static calculateTotalScore(scores: ReviewScores, rubric: RubricWithCriteria): number {
+        return rubric.criteria.reduce((sum, criterion) => sum + (scores[criterion.key] || 0), 0);
+    }
+
+    /**
+     * Calculate weighted score for a review: each score times its criterion weight
+     */
+    static calculateWeightedScore(scores: ReviewScores, rubric: RubricWithCriteria): number {
+        const weighted = rubric.criteria.reduce(
+            (sum, criterion) => sum + (scores[criterion.key] || 0) * Number(criterion.weight),
+            0
+        );
+        return parseFloat(weighted.toFixed(2));
+    }
+
+    /**
+     * Recompute weighted scores for a cycle's reviews under a rubric (after its weights change)
+     * Closed cycles keep the scores they were decided on
+     * Returns the number of reviews updated
      */
-    static async getAllReviewsWithApplicants(): Promise<(DatabaseReview & { applicant: any })[]> {
+    static async rescoreReviewsForRubric(cycleId: string, rubric: RubricWithCriteria): Promise<number> {
         try {
-            const { data, error } = await supabaseAdmin
+            const { data: reviews, error } = await supabaseAdmin
                 .from('urology_reviews')
-                .select(`
-          *,
-          applicant:urology_applicants(*)
-        `)
-                .eq('site_name', this.SITE_NAME)
-                .order('created_at');
+                .select('*')
+                .eq('rubric_id', rubric.id)
+                .eq('cycle_id', cycleId)
+                .eq('site_name', getSiteName());
 
             if (error) {
-                console.error('Error fetching reviews with applicants:', error);
+                console.error('Error fetching reviews for rubric:', error);
                 throw new Error(`Failed to fetch reviews: ${error.message}`);
             }
 
-            return data || [];
+            for (const review of (reviews || []) as DatabaseReview[]) {
+                const { error: updateError } = await supabaseAdmin
+                    .from('urology_reviews')
+                    .update({ weighted_score: this.calculateWeightedScore(review.scores || {}, rubric) })
+                    .eq('id', review.id);
+
+                if (updateError) {
+                    console.error('Error rescoring review:', updateError);
+                    throw new Error(`Failed to rescore review: ${updateError.message}`);
+                }
+            }
+
+            // Averages move with the weights too
+            const applicantIds = new Set((reviews || []).map((review: DatabaseReview) => review.applicant_id));
+            for (const applicantId of applicantIds) {
+                await this.updateFinalSelectionStats(cycleId, applicantId);
+            }
+
+            return reviews?.length || 0;
         } catch (err) {
-            console.error('ReviewService.getAllReviewsWithApplicants error:', err);
+            console.error('ReviewService.rescoreReviewsForRubric error:', err);
             throw err;
         }
     }
 
     /**
-     * Calculate total score for a review
+     * Get final selection for an applicant in a cycle
      */
-    static calculateTotalScore(review: DatabaseReview | CreateReviewRequest | UpdateReviewRequest): number {
-        const scores = [
-            review.preference || 0,
-            review.pressure || 0,
-            review.underserved || 0,
-            review.leadership || 0,
-            review.academic || 0,
-            review.research || 0,
-            review.personal || 0
-        ];
-
-        return scores.reduce((sum, score) => sum + score, 0);
-    }
-
-    /**
-     * Get final selection for an applicant
-     */
-    static async getFinalSelection(applicantId: string): Promise<DatabaseFinalSelection | null> {
+    static async getFinalSelection(cycleId: string, applicantId: string): Promise<DatabaseFinalSelection | null> {
         try {
             const { data, error } = await supabaseAdmin
                 .from('urology_final_selections')
                 .select('*')
                 .eq('applicant_id', applicantId)
-                .eq('site_name', this.SITE_NAME)
+                .eq('cycle_id', cycleId)
+                .eq('site_name', getSiteName())
                 .single();
 
             if (error) {
@@ -259,33 +442,54 @@ export class ReviewService {
 
     /**
      * Create or update final selection
+     * Returns null without writing if the decision has moved past the expected revision,
+     * or if another admin created it first
      */
-    static async upsertFinalSelection(selection: CreateFinalSelectionRequest): Promise<DatabaseFinalSelection> {
+    static async upsertFinalSelection(
+        cycleId: string,
+        selection: CreateFinalSelectionRequest,
+        existing: DatabaseFinalSelection | null
+    ): Promise<DatabaseFinalSelection | null> {
         try {
-            // Calculate current stats
-            const reviews = await this.getReviewsForApplicant(selection.applicant_id);
-            const validScores = reviews.filter(r => r.total_score !== null && r.total_score !== undefined);
-            const averageScore = validScores.length > 0
-                ? validScores.reduce((sum, r) => sum + (r.total_score || 0), 0) / validScores.length
-                : 0;
+            const revision = selection.expected_revision ?? existing?.revision;
+            if (existing && revision !== existing.revision) {
+                return null;
+            }
 
-            const { data, error } = await supabaseAdmin
-                .from('urology_final_selections')
-                .upsert([{
-                    applicant_id: selection.applicant_id,
-                    admin_decision: selection.admin_decision,
-                    selection_reason: selection.selection_reason,
-                    average_score: parseFloat(averageScore.toFixed(2)),
-                    reviewer_count: reviews.length,
-                    decided_at: selection.admin_decision !== 'Pending' ? new Date().toISOString() : null,
-                    site_name: this.SITE_NAME
-                }], {
-                    onConflict: 'applicant_id,site_name'
-                })
-                .select()
-                .single();
+            // Calculate current stats
+            const reviews = await this.getReviewsForApplicant(cycleId, selection.applicant_id);
+            const fields = {
+                admin_decision: selection.admin_decision,
+                selection_reason: selection.selection_reason,
+                ...this.calculateAverageScores(reviews),
+                reviewer_count: reviews.length,
+                decided_at: selection.admin_decision !== 'Pending' ? new Date().toISOString() : null
+            };
+
+            const { data, error } = existing
+                ? await supabaseAdmin
+                    .from('urology_final_selections')
+                    .update({ ...fields, revision: existing.revision + 1 })
+                    .eq('id', existing.id)
+                    .eq('revision', existing.revision)
+                    .eq('site_name', getSiteName())
+                    .select()
+                    .maybeSingle()
+                : await supabaseAdmin
+                    .from('urology_final_selections')
+                    .insert([{
+                        applicant_id: selection.applicant_id,
+                        cycle_id: cycleId,
+                        ...fields,
+                        site_name: getSiteName()
+                    }])
+                    .select()
+                    .maybeSingle();
 
             if (error) {
+                if (error.code === '23505') {
+                    return null; // Created by someone else since it was read
+                }
                 console.error('Error upserting final selection:', error);
                 throw new Error(`Failed to upsert final selection: ${error.message}`);
             }
@@ -297,40 +501,55 @@ export class ReviewService {
         }
     }
 
+    /**
+     * Average weighted and raw scores across an applicant's scored reviews
+     */
+    private static calculateAverageScores(reviews: DatabaseReview[]): { average_score: number; raw_average_score: number } {
+        const scored = reviews.filter(r => r.total_score !== null && r.total_score !== undefined);
+        if (scored.length === 0) {
+            return { average_score: 0, raw_average_score: 0 };
+        }
+
+        const weightedSum = scored.reduce((sum, r) => sum + Number(r.weighted_score ?? r.total_score ?? 0), 0);
+        const rawSum = scored.reduce((sum, r) => sum + (r.total_score || 0), 0);
+        return {
+            average_score: parseFloat((weightedSum / scored.length).toFixed(2)),
+            raw_average_score: parseFloat((rawSum / scored.length).toFixed(2))
+        };
+    }
+
     /**
      * Update final selection stats (called after review changes)
      */
-    private static async updateFinalSelectionStats(applicantId: string): Promise<void> {
+    private static async updateFinalSelectionStats(cycleId: string, applicantId: string): Promise<void> {
         try {
-            const reviews = await this.getReviewsForApplicant(applicantId);
-            const validScores = reviews.filter(r => r.total_score !== null && r.total_score !== undefined);
-            const averageScore = validScores.length > 0
-                ? validScores.reduce((sum, r) => sum + (r.total_score || 0), 0) / validScores.length
-                : 0;
+            const reviews = await this.getReviewsForApplicant(cycleId, applicantId);
+            const averages = this.calculateAverageScores(reviews);
 
             // Check if final selection exists
-            const existing = await this.getFinalSelection(applicantId);
+            const existing = await this.getFinalSelection(cycleId, applicantId);
 
             if (existing) {
                 // Update existing
                 await supabaseAdmin
                     .from('urology_final_selections')
                     .update({
-                        average_score: parseFloat(averageScore.toFixed(2)),
+                        ...averages,
                         reviewer_count: reviews.length
                     })
                     .eq('applicant_id', applicantId)
-                    .eq('site_name', this.SITE_NAME);
+                    .eq('site_name', getSiteName());
             } else {
                 // Create new with default pending status
                 await supabaseAdmin
                     .from('urology_final_selections')
                     .insert([{
                         applicant_id: applicantId,
+                        cycle_id: cycleId,
                         admin_decision: 'Pending',
-                        average_score: parseFloat(averageScore.toFixed(2)),
+                        ...averages,
                         reviewer_count: reviews.length,
-                        site_name: this.SITE_NAME
+                        site_name: getSiteName()
                     }]);
             }
         } catch (err) {
@@ -340,15 +559,18 @@ export class ReviewService {
     }
 
     /**
-     * Get all final selections
+     * Get all final selections in a cycle
      */
-    static async getAllFinalSelections(): Promise<DatabaseFinalSelection[]> {
+    static async getAllFinalSelections(cycleId: string): Promise<DatabaseFinalSelection[]> {
         try {
-            const { data, error } = await supabaseAdmin
+            const { data, error } = await fetchAllRows((from, to) => supabaseAdmin
                 .from('urology_final_selections')
                 .select('*')
-                .eq('site_name', this.SITE_NAME)
-                .order('average_score', { ascending: false });
+                .eq('cycle_id', cycleId)
+                .eq('site_name', getSiteName())
+                .order('average_score', { ascending: false })
+                .order('id')
+                .range(from, to));
 
             if (error) {
                 console.error('Error fetching final selections:', error);
@@ -367,13 +589,7 @@ export class ReviewService {
      */
     static toFrontendFormat(dbReview: DatabaseReview): Review {
         return {
-            preference: dbReview.preference || undefined,
-            pressure: dbReview.pressure || undefined,
-            underserved: dbReview.underserved || undefined,
-            leadership: dbReview.leadership || undefined,
-            academic: dbReview.academic || undefined,
-            research: dbReview.research || undefined,
-            personal: dbReview.personal || undefined,
+            scores: dbReview.scores || {},
             notes: dbReview.notes || undefined,
             decision: dbReview.decision || undefined,
             reviewer: dbReview.reviewer_name
@@ -0,0 +1,158 @@
+import { supabaseAdmin } from '../config/supabase';
+import { getSiteName } from '../config/tenant';
+import { DatabaseReview, DatabaseReviewVersion, ReviewVersionSource } from '../types';
+
+export class ReviewVersionService {
+    // Autosave fires while a reviewer types, so note edits this close together share a version
+    private static readonly NOTES_WINDOW_MS = 2 * 60 * 1000;
+
+    /**
+     * Snapshot a review after it was saved
+     * Score and decision changes always get a new version; saves that change nothing are skipped
+     */
+    static async recordVersion(
+        review: DatabaseReview,
+        source: ReviewVersionSource,
+        restoredFrom?: number
+    ): Promise<DatabaseReviewVersion | null> {
+        try {
+            const latest = await this.getLatestVersion(review.id);
+            const snapshot = {
+                scores: review.scores || {},
+                notes: review.notes ?? null,
+                decision: review.decision ?? null,
+                total_score: review.total_score ?? null,
+                weighted_score: review.weighted_score ?? null
+            };
+
+            if (latest && source === 'update') {
+                const sameScores = JSON.stringify(latest.scores || {}) === JSON.stringify(snapshot.scores);
+                const sameDecision = (latest.decision ?? null) === snapshot.decision;
+                const sameNotes = (latest.notes ?? null) === snapshot.notes;
+
+                if (sameScores && sameDecision && sameNotes) {
+                    return latest;
+                }
+
+                const editedRecently = Date.now() - new Date(latest.updated_at).getTime() < this.NOTES_WINDOW_MS;
+                if (sameScores && sameDecision && latest.source === 'update' && editedRecently) {
+                    return await this.updateVersionNotes(latest, snapshot.notes);
+                }
+            }
+
+            const { data, error } = await supabaseAdmin
+                .from('urology_review_versions')
+                .insert([{
+                    review_id: review.id,
+                    version: (latest?.version ?? 0) + 1,
+                    source,
+                    restored_from: restoredFrom,
+                    ...snapshot,
+                    site_name: getSiteName()
+                }])
+                .select()
+                .single();
+
+            if (error) {
+                console.error('Error creating review version:', error);
+                throw new Error(`Failed to create review version: ${error.message}`);
+            }
+
+            return data;
+        } catch (err) {
+            console.error('ReviewVersionService.recordVersion error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Get every version of a review, newest first
+     */
+    static async getVersions(reviewId: string): Promise<DatabaseReviewVersion[]> {
+        try {
+            const { data, error } = await supabaseAdmin
+                .from('urology_review_versions')
+                .select('*')
+                .eq('review_id', reviewId)
+                .eq('site_name', getSiteName())
+                .order('version', { ascending: false });
+
+            if (error) {
+                console.error('Error fetching review versions:', error);
+                throw new Error(`Failed to fetch review versions: ${error.message}`);
+            }
+
+            return data || [];
+        } catch (err) {
+            console.error('ReviewVersionService.getVersions error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Get one numbered version of a review
+     */
+    static async getVersion(reviewId: string, version: number): Promise<DatabaseReviewVersion | null> {
+        try {
+            const { data, error } = await supabaseAdmin
+                .from('urology_review_versions')
+                .select('*')
+                .eq('review_id', reviewId)
+                .eq('version', version)
+                .eq('site_name', getSiteName())
+                .single();
+
+            if (error) {
+                if (error.code === 'PGRST116') {
+                    return null; // Not found
+                }
+                console.error('Error fetching review version:', error);
+                throw new Error(`Failed to fetch review version: ${error.message}`);
+            }
+
+            return data;
+        } catch (err) {
+            console.error('ReviewVersionService.getVersion error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Get the newest version of a review, or null before its first save
+     */
+    private static async getLatestVersion(reviewId: string): Promise<DatabaseReviewVersion | null> {
+        const { data, error } = await supabaseAdmin
+            .from('urology_review_versions')
+            .select('*')
+            .eq('review_id', reviewId)
+            .eq('site_name', getSiteName())
+            .order('version', { ascending: false })
+            .limit(1);
+
+        if (error) {
+            console.error('Error fetching latest review version:', error);
+            throw new Error(`Failed to fetch review versions: ${error.message}`);
+        }
+
+        return data?.[0] ?? null;
+    }
+
+    /**
+     * Fold a further note edit into an existing version
+     */
+    private static async updateVersionNotes(version: DatabaseReviewVersion, notes: string | null): Promise<DatabaseReviewVersion> {
+        const { data, error } = await supabaseAdmin
+            .from('urology_review_versions')
+            .update({ notes })
+            .eq('id', version.id)
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Error updating review version:', error);
+            throw new Error(`Failed to update review version: ${error.message}`);
+        }
+
+        return data;
+    }
+}
@@ -1,9 +1,8 @@
 import { supabase, supabaseAdmin } from '../config/supabase';
-import { DatabaseReviewer } from '../types';
+import { getSiteName } from '../config/tenant';
+import { CreateReviewerRequest, DatabaseReviewer, ReviewerRole, UpdateReviewerRequest } from '../types';
 
 export class ReviewerService {
-    private static readonly SITE_NAME = 'urology_review';
-
     /**
      * Get all reviewers
      */
@@ -12,7 +11,7 @@ export class ReviewerService {
             const { data, error } = await supabaseAdmin
                 .from('urology_reviewers')
                 .select('*')
-                .eq('site_name', this.SITE_NAME)
+                .eq('site_name', getSiteName())
                 .order('name');
 
             if (error) {
@@ -36,7 +35,7 @@ export class ReviewerService {
                 .from('urology_reviewers')
                 .select('*')
                 .eq('id', id)
-                .eq('site_name', this.SITE_NAME)
+                .eq('site_name', getSiteName())
                 .single();
 
             if (error) {
@@ -63,7 +62,7 @@ export class ReviewerService {
                 .from('urology_reviewers')
                 .select('*')
                 .eq('name', name)
-                .eq('site_name', this.SITE_NAME)
+                .eq('site_name', getSiteName())
                 .single();
 
             if (error) {
@@ -81,22 +80,50 @@ export class ReviewerService {
         }
     }
 
+    /**
+     * Get reviewer by email (case-insensitive)
+     */
+    static async getReviewerByEmail(email: string): Promise<DatabaseReviewer | null> {
+        try {
+            const { data, error } = await supabaseAdmin
+                .from('urology_reviewers')
+                .select('*')
+                .eq('email', email.trim().toLowerCase())
+                .eq('site_name', getSiteName())
+                .single();
+
+            if (error) {
+                if (error.code === 'PGRST116') {
+                    return null; // Not found
+                }
+                console.error('Error fetching reviewer by email:', error);
+                throw new Error(`Failed to fetch reviewer: ${error.message}`);
+            }
+
+            return data;
+        } catch (err) {
+            console.error('ReviewerService.getReviewerByEmail error:', err);
+            throw err;
+        }
+    }
+
     /**
      * Create a new reviewer
      */
-    static async createReviewer(reviewer: {
-        name: string;
-        email?: string;
-        is_admin?: boolean;
-    }): Promise<DatabaseReviewer> {
+    static async createReviewer(reviewer: CreateReviewerRequest): Promise<DatabaseReviewer> {
         try {
+            const role = this.resolveRole(reviewer.role, reviewer.is_admin) || 'reviewer';
+
             const { data, error } = await supabaseAdmin
                 .from('urology_reviewers')
                 .insert([{
                     name: reviewer.name,
-                    email: reviewer.email,
-                    is_admin: reviewer.is_admin || false,
-                    site_name: this.SITE_NAME
+                    email: reviewer.email?.trim().toLowerCase(),
+                    role,
+                    is_admin: role === 'program_director',
+                    medical_school: reviewer.medical_school,
+                    capacity_weight: reviewer.capacity_weight ?? 1,
+                    site_name: getSiteName()
                 }])
                 .select()
                 .single();
@@ -116,17 +143,24 @@ export class ReviewerService {
     /**
      * Update a reviewer
      */
-    static async updateReviewer(id: string, updates: {
-        name?: string;
-        email?: string;
-        is_admin?: boolean;
-    }): Promise<DatabaseReviewer> {
+    static async updateReviewer(id: string, updates: UpdateReviewerRequest): Promise<DatabaseReviewer> {
         try {
+            const { role: requestedRole, is_admin, ...rest } = updates;
+            const normalizedUpdates: Record<string, unknown> = updates.email
+                ? { ...rest, email: updates.email.trim().toLowerCase() }
+                : { ...rest };
+
+            const role = this.resolveRole(requestedRole, is_admin);
+            if (role) {
+                normalizedUpdates.role = role;
+                normalizedUpdates.is_admin = role === 'program_director';
+            }
+
             const { data, error } = await supabaseAdmin
                 .from('urology_reviewers')
-                .update(updates)
+                .update(normalizedUpdates)
                 .eq('id', id)
-                .eq('site_name', this.SITE_NAME)
+                .eq('site_name', getSiteName())
                 .select()
                 .single();
 
@@ -151,7 +185,7 @@ export class ReviewerService {
                 .from('urology_reviewers')
                 .delete()
                 .eq('id', id)
-                .eq('site_name', this.SITE_NAME);
+                .eq('site_name', getSiteName());
 
             if (error) {
                 console.error('Error deleting reviewer:', error);
@@ -171,7 +205,7 @@ export class ReviewerService {
             const { data, error } = await supabaseAdmin
                 .from('urology_reviewers')
                 .select('*')
-                .eq('site_name', this.SITE_NAME)
+                .eq('site_name', getSiteName())
                 .eq('is_admin', true)
                 .order('name');
 
@@ -195,7 +229,7 @@ export class ReviewerService {
             const { data, error } = await supabaseAdmin
                 .from('urology_reviewers')
                 .select('*')
-                .eq('site_name', this.SITE_NAME)
+                .eq('site_name', getSiteName())
                 .eq('is_admin', false)
                 .order('name');
 
@@ -210,4 +244,18 @@ export class ReviewerService {
             throw err;
         }
     }
-}
\ No newline at end of file
+
+    /**
+     * Work out the role to store, keeping is_admin in sync with program_director
+     * An explicit role wins; is_admin alone promotes to or demotes from program director
+     */
+    private static resolveRole(role?: ReviewerRole, isAdmin?: boolean): ReviewerRole | undefined {
+        if (role) {
+            return role;
+        }
+        if (isAdmin !== undefined) {
+            return isAdmin ? 'program_director' : 'reviewer';
+        }
+        return undefined;
+    }
+}
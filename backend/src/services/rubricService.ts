@@ -0,0 +1,382 @@
+import { supabaseAdmin } from '../config/supabase';
+import { getSiteName } from '../config/tenant';
+import {
+    CreateRubricRequest,
+    ReviewScores,
+    RubricStage,
+    RubricWithCriteria
+} from '../types';
+
+export class RubricService {
+    static readonly STAGES: RubricStage[] = ['file_review', 'interview'];
+
+    private static readonly DETAIL_SELECT = '*, criteria:urology_rubric_criteria(*)';
+    private static readonly MAX_WEIGHT = 100;
+
+    /**
+     * Get all rubrics with their criteria, newest first
+     */
+    static async getAllRubrics(): Promise<RubricWithCriteria[]> {
+        try {
+            const { data, error } = await supabaseAdmin
+                .from('urology_rubrics')
+                .select(this.DETAIL_SELECT)
+                .eq('site_name', getSiteName())
+                .order('created_at', { ascending: false });
+
+            if (error) {
+                console.error('Error fetching rubrics:', error);
+                throw new Error(`Failed to fetch rubrics: ${error.message}`);
+            }
+
+            return ((data as unknown as RubricWithCriteria[]) || []).map(rubric => this.sortCriteria(rubric));
+        } catch (err) {
+            console.error('RubricService.getAllRubrics error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Get rubric by ID
+     */
+    static async getRubricById(id: string): Promise<RubricWithCriteria | null> {
+        try {
+            const { data, error } = await supabaseAdmin
+                .from('urology_rubrics')
+                .select(this.DETAIL_SELECT)
+                .eq('id', id)
+                .eq('site_name', getSiteName())
+                .single();
+
+            if (error) {
+                if (error.code === 'PGRST116') {
+                    return null; // Not found
+                }
+                console.error('Error fetching rubric:', error);
+                throw new Error(`Failed to fetch rubric: ${error.message}`);
+            }
+
+            return this.sortCriteria(data as unknown as RubricWithCriteria);
+        } catch (err) {
+            console.error('RubricService.getRubricById error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Get rubric by name
+     */
+    static async getRubricByName(name: string): Promise<RubricWithCriteria | null> {
+        try {
+            const { data, error } = await supabaseAdmin
+                .from('urology_rubrics')
+                .select(this.DETAIL_SELECT)
+                .eq('name', name)
+                .eq('site_name', getSiteName())
+                .maybeSingle();
+
+            if (error) {
+                console.error('Error fetching rubric by name:', error);
+                throw new Error(`Failed to fetch rubric: ${error.message}`);
+            }
+
+            return data ? this.sortCriteria(data as unknown as RubricWithCriteria) : null;
+        } catch (err) {
+            console.error('RubricService.getRubricByName error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Get the rubric new reviews (or, for the interview stage, new interview evaluations) are scored against,
+     * or null if none is active
+     */
+    static async getActiveRubric(stage: RubricStage = 'file_review'): Promise<RubricWithCriteria | null> {
+        try {
+            const { data, error } = await supabaseAdmin
+                .from('urology_rubrics')
+                .select(this.DETAIL_SELECT)
+                .eq('is_active', true)
+                .eq('stage', stage)
+                .eq('site_name', getSiteName())
+                .maybeSingle();
+
+            if (error) {
+                console.error('Error fetching active rubric:', error);
+                throw new Error(`Failed to fetch active rubric: ${error.message}`);
+            }
+
+            return data ? this.sortCriteria(data as unknown as RubricWithCriteria) : null;
+        } catch (err) {
+            console.error('RubricService.getActiveRubric error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Create a rubric and its criteria, optionally making it the active rubric
+     */
+    static async createRubric(rubric: CreateRubricRequest, createdBy?: string): Promise<RubricWithCriteria> {
+        try {
+            const { data, error } = await supabaseAdmin
+                .from('urology_rubrics')
+                .insert([{
+                    name: rubric.name,
+                    stage: rubric.stage ?? 'file_review',
+                    created_by: createdBy,
+                    site_name: getSiteName()
+                }])
+                .select()
+                .single();
+
+            if (error) {
+                console.error('Error creating rubric:', error);
+                throw new Error(`Failed to create rubric: ${error.message}`);
+            }
+
+            const { error: criteriaError } = await supabaseAdmin
+                .from('urology_rubric_criteria')
+                .insert(rubric.criteria.map((criterion, index) => ({
+                    rubric_id: data.id,
+                    key: criterion.key,
+                    label: criterion.label,
+                    description: criterion.description,
+                    min_score: criterion.min_score ?? 1,
+                    max_score: criterion.max_score ?? 5,
+                    weight: criterion.weight ?? 1,
+                    sort_order: index + 1,
+                    site_name: getSiteName()
+                })));
+
+            if (criteriaError) {
+                // Don't leave a rubric with no criteria behind
+                await supabaseAdmin.from('urology_rubrics').delete().eq('id', data.id);
+                console.error('Error creating rubric criteria:', criteriaError);
+                throw new Error(`Failed to create rubric criteria: ${criteriaError.message}`);
+            }
+
+            if (rubric.activate) {
+                await this.activateRubric(data.id, data.stage);
+            }
+
+            return (await this.getRubricById(data.id))!;
+        } catch (err) {
+            console.error('RubricService.createRubric error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Make a rubric the active one for its stage
+     * Reviews and evaluations already scored keep the rubric they were scored under
+     */
+    static async activateRubric(id: string, stage: RubricStage): Promise<RubricWithCriteria> {
+        try {
+            // Deactivate first: a unique index allows only one active rubric per site and stage
+            const { error: deactivateError } = await supabaseAdmin
+                .from('urology_rubrics')
+                .update({ is_active: false })
+                .eq('is_active', true)
+                .eq('stage', stage)
+                .neq('id', id)
+                .eq('site_name', getSiteName());
+
+            if (deactivateError) {
+                console.error('Error deactivating rubrics:', deactivateError);
+                throw new Error(`Failed to deactivate rubrics: ${deactivateError.message}`);
+            }
+
+            const { error } = await supabaseAdmin
+                .from('urology_rubrics')
+                .update({ is_active: true })
+                .eq('id', id)
+                .eq('site_name', getSiteName());
+
+            if (error) {
+                console.error('Error activating rubric:', error);
+                throw new Error(`Failed to activate rubric: ${error.message}`);
+            }
+
+            return (await this.getRubricById(id))!;
+        } catch (err) {
+            console.error('RubricService.activateRubric error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Set new weights on a rubric's criteria
+     * Callers should rescore the rubric's reviews afterwards
+     */
+    static async updateWeights(rubric: RubricWithCriteria, weights: Record<string, number>): Promise<RubricWithCriteria> {
+        try {
+            for (const criterion of rubric.criteria) {
+                const weight = weights[criterion.key];
+                if (weight === undefined || weight === Number(criterion.weight)) {
+                    continue;
+                }
+
+                const { error } = await supabaseAdmin
+                    .from('urology_rubric_criteria')
+                    .update({ weight })
+                    .eq('id', criterion.id);
+
+                if (error) {
+                    console.error('Error updating criterion weight:', error);
+                    throw new Error(`Failed to update weight for ${criterion.key}: ${error.message}`);
+                }
+            }
+
+            return (await this.getRubricById(rubric.id))!;
+        } catch (err) {
+            console.error('RubricService.updateWeights error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Delete a rubric and its criteria
+     */
+    static async deleteRubric(id: string): Promise<void> {
+        try {
+            const { error } = await supabaseAdmin
+                .from('urology_rubrics')
+                .delete()
+                .eq('id', id)
+                .eq('site_name', getSiteName());
+
+            if (error) {
+                console.error('Error deleting rubric:', error);
+                throw new Error(`Failed to delete rubric: ${error.message}`);
+            }
+        } catch (err) {
+            console.error('RubricService.deleteRubric error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Count the reviews scored under a rubric
+     */
+    static async countReviewsUsingRubric(id: string): Promise<number> {
+        try {
+            const { count, error } = await supabaseAdmin
+                .from('urology_reviews')
+                .select('*', { count: 'exact', head: true })
+                .eq('rubric_id', id)
+                .eq('site_name', getSiteName());
+
+            if (error) {
+                console.error('Error counting reviews for rubric:', error);
+                throw new Error(`Failed to count reviews: ${error.message}`);
+            }
+
+            return count || 0;
+        } catch (err) {
+            console.error('RubricService.countReviewsUsingRubric error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Check scores against a rubric, returning an error message or null if valid
+     */
+    static validateScores(rubric: RubricWithCriteria, scores: unknown): string | null {
+        if (typeof scores !== 'object' || scores === null || Array.isArray(scores)) {
+            return 'scores must be an object keyed by criterion';
+        }
+
+        for (const [key, score] of Object.entries(scores as ReviewScores)) {
+            const criterion = rubric.criteria.find(c => c.key === key);
+            if (!criterion) {
+                return `'${key}' is not a criterion of rubric '${rubric.name}'`;
+            }
+            if (!Number.isInteger(score) || score < criterion.min_score || score > criterion.max_score) {
+                return `${criterion.label} must be a whole number between ${criterion.min_score} and ${criterion.max_score}`;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Check a new rubric definition, returning an error message or null if valid
+     */
+    static validateRubric(rubric: CreateRubricRequest): string | null {
+        if (!rubric.name || typeof rubric.name !== 'string') {
+            return 'name is required';
+        }
+        if (rubric.stage !== undefined && !this.STAGES.includes(rubric.stage)) {
+            return `stage must be one of: ${this.STAGES.join(', ')}`;
+        }
+        if (!Array.isArray(rubric.criteria) || rubric.criteria.length === 0) {
+            return 'criteria array is required and must not be empty';
+        }
+
+        const keys = new Set<string>();
+        for (const criterion of rubric.criteria) {
+            if (!criterion.key || !/^[a-z][a-z0-9_]{0,49}$/.test(criterion.key)) {
+                return 'Each criterion key must start with a letter and use only lowercase letters, digits and underscores';
+            }
+            if (keys.has(criterion.key)) {
+                return `Duplicate criterion key: ${criterion.key}`;
+            }
+            keys.add(criterion.key);
+
+            if (!criterion.label) {
+                return `Criterion ${criterion.key} needs a label`;
+            }
+
+            const min = criterion.min_score ?? 1;
+            const max = criterion.max_score ?? 5;
+            if (!Number.isInteger(min) || !Number.isInteger(max) || min < 0 || max <= min) {
+                return `Criterion ${criterion.key} needs whole-number scores with 0 <= min_score < max_score`;
+            }
+
+            const weightError = this.validateWeight(criterion.key, criterion.weight ?? 1);
+            if (weightError) {
+                return weightError;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Check a weights update against a rubric, returning an error message or null if valid
+     */
+    static validateWeights(rubric: RubricWithCriteria, weights: unknown): string | null {
+        if (typeof weights !== 'object' || weights === null || Array.isArray(weights) || Object.keys(weights).length === 0) {
+            return 'weights must be a non-empty object keyed by criterion';
+        }
+
+        for (const [key, weight] of Object.entries(weights as Record<string, unknown>)) {
+            if (!rubric.criteria.some(c => c.key === key)) {
+                return `'${key}' is not a criterion of rubric '${rubric.name}'`;
+            }
+            const weightError = this.validateWeight(key, weight);
+            if (weightError) {
+                return weightError;
+            }
+        }
+
+        return null;
+    }
+
+    private static validateWeight(key: string, weight: unknown): string | null {
+        if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0 || weight > this.MAX_WEIGHT) {
+            return `Criterion ${key} weight must be a number between 0 and ${this.MAX_WEIGHT}`;
+        }
+        return null;
+    }
+
+    /**
+     * Order criteria the way reviewers see them
+     */
+    private static sortCriteria(rubric: RubricWithCriteria): RubricWithCriteria {
+        return {
+            ...rubric,
+            criteria: [...(rubric.criteria || [])].sort((a, b) => a.sort_order - b.sort_order)
+        };
+    }
+}
@@ -0,0 +1,66 @@
+// A stand-in for the Supabase admin client in unit tests
+// Every query chain records its calls and, when awaited, resolves to the next result queued for its table
+
+export interface FakeResult {
+    data?: unknown;
+    error?: { message: string; code?: string } | null;
+    count?: number | null;
+}
+
+export interface RecordedQuery {
+    table: string;
+    calls: { method: string; args: unknown[] }[];
+}
+
+export class FakeSupabase {
+    readonly queries: RecordedQuery[] = [];
+    private readonly results = new Map<string, FakeResult[]>();
+
+    readonly client = {
+        from: (table: string) => this.query(table),
+        rpc: (fn: string, args: unknown) => this.query(`rpc:${fn}`).rpc(args)
+    };
+
+    /**
+     * Queue results for a table, handed out in order to the queries awaited on it
+     * A query with nothing queued resolves to no rows and no error
+     */
+    queue(table: string, ...results: FakeResult[]): void {
+        this.results.set(table, [...(this.results.get(table) || []), ...results]);
+    }
+
+    /**
+     * The queries made on one table, oldest first
+     */
+    queriesOn(table: string): RecordedQuery[] {
+        return this.queries.filter(query => query.table === table);
+    }
+
+    reset(): void {
+        this.queries.length = 0;
+        this.results.clear();
+    }
+
+    private query(table: string): any {
+        const recorded: RecordedQuery = { table, calls: [] };
+        this.queries.push(recorded);
+
+        const builder: any = new Proxy({}, {
+            get: (_target, method) => {
+                if (method === 'then') {
+                    const result = this.results.get(table)?.shift() || {};
+                    return (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+                        Promise.resolve({ data: null, error: null, count: null, ...result }).then(resolve, reject);
+                }
+                return (...args: unknown[]) => {
+                    recorded.calls.push({ method: String(method), args });
+                    return builder;
+                };
+            }
+        });
+        return builder;
+    }
+}
+
+// One instance shared by a test file and its jest.mock of config/supabase
+export const fakeSupabase = new FakeSupabase();
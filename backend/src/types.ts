@@ -5,21 +5,59 @@ export type ViewState = 'login' | 'admin' | 'review' | 'applicant-list' | 'final
 
 export type ApplicantCategory = 'regular' | 'i-sub';
 
-export type AdminDecision = 'Selected' | 'Not Selected' | 'Pending';
+export type AdminDecision = 'Selected' | 'Not Selected' | 'Waitlisted' | 'Pending';
 
 export type DecisionType = 'Definitely Interview' | 'Maybe' | 'Do Not Interview';
 
-// Applicant format: [external_id, name, category, details]
+export type InterviewRecommendation = 'Rank Highly' | 'Rank' | 'Do Not Rank';
+
+export type ReviewerRole = 'reviewer' | 'program_director' | 'coordinator';
+
+export type Permission =
+    | 'applicants:write'
+    | 'applicants:delete'
+    | 'reviewers:manage'
+    | 'assignments:manage'
+    | 'reviews:write'
+    | 'reviews:read_all'
+    | 'final_selections:read'
+    | 'final_selections:decide'
+    | 'progress:read_all'
+    | 'rubrics:manage'
+    | 'interview_targets:manage'
+    | 'cycles:manage'
+    | 'audit:read'
+    | 'data:export'
+    | 'rank_list:manage'
+    | 'interviews:manage'
+    | 'interviews:evaluate';
+
+// Applicant format: [external_id, name, category, medical_school]
 export type Applicant = [string, string, string, string];
 
+export type HonorSocietyStatus = 'member' | 'pending' | 'not_member' | 'no_chapter';
+
+export type VisaStatus = 'us_citizen' | 'permanent_resident' | 'visa_required';
+
+// Structured application data shown to reviewers; null means unknown
+export interface ApplicantProfile {
+    medical_school?: string | null;
+    graduation_year?: number | null;
+    step2_ck_score?: number | null;
+    aoa_status?: HonorSocietyStatus | null; // Alpha Omega Alpha
+    ghhs_status?: HonorSocietyStatus | null; // Gold Humanism Honor Society
+    publication_count?: number | null;
+    clerkship_honors?: string[] | null;
+    home_program?: string | null;
+    visa_status?: VisaStatus | null;
+    preference_signal?: boolean | null; // Signaled this program
+}
+
+// Scores keyed by rubric criterion key
+export type ReviewScores = Record<string, number>;
+
 export interface Review {
-    preference?: number;
-    pressure?: number;
-    underserved?: number;
-    leadership?: number;
-    academic?: number;
-    research?: number;
-    personal?: number;
+    scores: ReviewScores;
     notes?: string;
     decision?: DecisionType;
     reviewer: string;
@@ -38,6 +76,7 @@ export interface FinalSelection {
     selectionReason?: string;
 }
 
+// Distribution entries carry the applicant UUID in place of external_id
 export interface ApplicantDistribution {
     [reviewer: string]: Applicant[];
 }
@@ -54,13 +93,32 @@ export interface ProgressInfo {
     total: number;
 }
 
+export interface CategoryProgress {
+    category: ApplicantCategory;
+    applicants: number;
+    unassigned: number; // Applicants with no reviewer yet
+    assigned: number; // Applicant-reviewer pairs
+    completed: number;
+    percentage: number;
+}
+
 // Database-specific types
-export interface DatabaseApplicant {
+export interface DatabaseCycle {
+    id: string;
+    name: string; // e.g. '2025-2026'
+    is_active: boolean;
+    created_by?: string;
+    site_name: string;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface DatabaseApplicant extends ApplicantProfile {
     id: string;
+    cycle_id: string;
     external_id: string;
     name: string;
     category: ApplicantCategory;
-    details?: string;
     site_name: string;
     created_at: string;
     updated_at: string;
@@ -69,17 +127,35 @@ export interface DatabaseApplicant {
 export interface DatabaseReview {
     id: string;
     applicant_id: string;
+    cycle_id: string;
+    reviewer_id: string | null; // Stays correct when the reviewer is renamed; null once they are deleted
     reviewer_name: string;
-    preference?: number;
-    pressure?: number;
-    underserved?: number;
-    leadership?: number;
-    academic?: number;
-    research?: number;
-    personal?: number;
+    rubric_id: string;
+    scores: ReviewScores;
     notes?: string;
     decision?: DecisionType;
     total_score?: number;
+    weighted_score?: number;
+    revision: number; // Bumped by every reviewer edit; stale writes are rejected
+    site_name: string;
+    created_at: string;
+    updated_at: string;
+}
+
+// How a review version came about; restores copy an earlier version forward
+export type ReviewVersionSource = 'create' | 'update' | 'restore';
+
+export interface DatabaseReviewVersion {
+    id: string;
+    review_id: string;
+    version: number;
+    source: ReviewVersionSource;
+    restored_from?: number;
+    scores: ReviewScores;
+    notes?: string;
+    decision?: DecisionType;
+    total_score?: number;
+    weighted_score?: number;
     site_name: string;
     created_at: string;
     updated_at: string;
@@ -90,18 +166,300 @@ export interface DatabaseReviewer {
     name: string;
     email?: string;
     is_admin: boolean;
+    role: ReviewerRole;
+    medical_school?: string;
+    capacity_weight: number;
+    site_name: string;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface DatabaseSession {
+    id: string;
+    reviewer_id: string;
+    token_hash: string;
+    expires_at: string;
+    site_name: string;
+    created_at: string;
+}
+
+export type DocumentType = 'personal_statement' | 'cv' | 'lor' | 'transcript';
+
+export interface DatabaseApplicantDocument {
+    id: string;
+    applicant_id: string;
+    cycle_id: string;
+    document_type: DocumentType;
+    file_name: string;
+    size_bytes: number;
+    storage_key: string;
+    uploaded_by?: string;
+    site_name: string;
+    created_at: string;
+}
+
+export interface DatabaseAssignment {
+    id: string;
+    applicant_id: string;
+    cycle_id: string;
+    reviewer_id: string;
+    assigned_by?: string;
+    site_name: string;
+    created_at: string;
+}
+
+export interface AssignmentWithDetails extends DatabaseAssignment {
+    applicant: DatabaseApplicant;
+    reviewer: DatabaseReviewer;
+}
+
+// File reviews and interview evaluations are scored on separate rubrics; each stage has its own active rubric
+export type RubricStage = 'file_review' | 'interview';
+
+export interface DatabaseRubric {
+    id: string;
+    name: string;
+    stage: RubricStage;
+    is_active: boolean;
+    created_by?: string;
+    site_name: string;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface RubricCriterion {
+    id: string;
+    rubric_id: string;
+    key: string;
+    label: string;
+    description?: string;
+    min_score: number;
+    max_score: number;
+    weight: number;
+    sort_order: number;
+    site_name: string;
+    created_at: string;
+}
+
+export interface RubricWithCriteria extends DatabaseRubric {
+    criteria: RubricCriterion[];
+}
+
+export interface DatabaseInterviewTarget {
+    id: string;
+    cycle_id: string;
+    category: ApplicantCategory;
+    slots: number;
+    hard_limit: boolean;
+    updated_by?: string;
+    site_name: string;
+    created_at: string;
+    updated_at: string;
+}
+
+// One applicant's place on a rank order list; locked entries stay put when the list is reseeded or reordered
+export interface RankListEntry {
+    applicant_id: string;
+    locked: boolean;
+}
+
+export interface DatabaseRankList {
+    id: string;
+    cycle_id: string;
+    entries: RankListEntry[]; // In rank order, first choice first
+    revision: number; // Bumped by every change; stale writes are rejected
+    updated_by?: string;
+    site_name: string;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface DatabaseRankListVersion {
+    id: string;
+    rank_list_id: string;
+    version: number;
+    label?: string;
+    entries: RankListEntry[];
+    created_by?: string;
+    site_name: string;
+    created_at: string;
+}
+
+// A day the program interviews on; times are local to the program and both absent for an all-day event
+export interface DatabaseInterviewDate {
+    id: string;
+    cycle_id: string;
+    interview_date: string; // YYYY-MM-DD
+    start_time?: string | null; // HH:MM:SS
+    end_time?: string | null;
+    capacity: number;
+    location?: string | null;
+    notes?: string | null;
+    updated_by?: string;
     site_name: string;
     created_at: string;
     updated_at: string;
 }
 
+export interface DatabaseInterviewBooking {
+    id: string;
+    interview_date_id: string;
+    applicant_id: string;
+    cycle_id: string;
+    booked_by?: string;
+    site_name: string;
+    created_at: string;
+    updated_at: string;
+}
+
+// One interviewer's scores for one applicant on interview day, on the interview rubric
+export interface DatabaseInterviewEvaluation {
+    id: string;
+    applicant_id: string;
+    cycle_id: string;
+    interviewer_id: string;
+    rubric_id: string;
+    scores: ReviewScores;
+    notes?: string;
+    recommendation?: InterviewRecommendation;
+    total_score?: number;
+    weighted_score?: number;
+    revision: number; // Bumped by every save; stale writes are rejected
+    site_name: string;
+    created_at: string;
+    updated_at: string;
+}
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'activate';
+
+export type AuditEntityType =
+    | 'applicant'
+    | 'document'
+    | 'reviewer'
+    | 'review'
+    | 'final_selection'
+    | 'assignment'
+    | 'rubric'
+    | 'interview_target'
+    | 'rank_list'
+    | 'rank_list_version'
+    | 'interview_date'
+    | 'interview_booking'
+    | 'interview_evaluation'
+    | 'cycle'
+    | 'password';
+
+// One append-only audit row; before is null for creates and after is null for deletes
+export interface DatabaseAuditEntry {
+    id: string;
+    actor_id?: string;
+    actor_name?: string;
+    action: AuditAction;
+    entity_type: AuditEntityType;
+    entity_id: string;
+    applicant_id?: string;
+    cycle_id?: string;
+    before: Record<string, unknown> | null;
+    after: Record<string, unknown> | null;
+    site_name: string;
+    created_at: string;
+}
+
+// A category's target against the applicants already Selected; slots is null when no target is set
+export interface InterviewCapacity {
+    cycle_id: string;
+    cycle: string; // Cycle name
+    category: ApplicantCategory;
+    slots: number | null;
+    hard_limit: boolean;
+    selected: number;
+    remaining: number | null;
+}
+
+// A rank list entry with what the committee needs to see while ordering it
+export interface RankListItem extends RankListEntry {
+    rank: number;
+    external_id: string;
+    name: string;
+    category: ApplicantCategory;
+    medical_school?: string | null;
+    average_score: number | null;
+    interview_score: number | null;
+    admin_decision: AdminDecision;
+}
+
+export interface RankList extends DatabaseRankList {
+    items: RankListItem[];
+}
+
+// A booking with the applicant it is for; admin_decision shows bookings left over after a decision changed
+export interface InterviewEvaluationWithInterviewer extends DatabaseInterviewEvaluation {
+    interviewer_name: string;
+}
+
+// Mean weighted interview score over the evaluations that have scores; null until one does
+export interface ApplicantInterviewScore {
+    applicant_id: string;
+    interview_score: number | null;
+    interview_count: number;
+}
+
+export interface InterviewBookingWithApplicant extends DatabaseInterviewBooking {
+    name: string;
+    external_id: string;
+    category: ApplicantCategory;
+    admin_decision: AdminDecision;
+}
+
+export interface InterviewDateWithBookings extends DatabaseInterviewDate {
+    bookings: InterviewBookingWithApplicant[];
+    remaining: number;
+}
+
+// A Selected applicant without a date yet
+export interface UnbookedApplicant {
+    applicant_id: string;
+    name: string;
+    external_id: string;
+    category: ApplicantCategory;
+}
+
+// Places on interview dates against the cycle's interview targets; target_slots is null unless every category has a target
+export interface InterviewScheduleCapacity {
+    target_slots: number | null;
+    hard_limit: boolean;
+    date_capacity: number;
+    selected: number;
+    booked: number;
+}
+
+export interface InterviewSchedule {
+    dates: InterviewDateWithBookings[];
+    unbooked: UnbookedApplicant[];
+    capacity: InterviewScheduleCapacity;
+}
+
+// One VEVENT in an iCalendar export; all-day events have no times
+export interface CalendarEvent {
+    uid: string;
+    date: string; // YYYY-MM-DD
+    start_time?: string | null;
+    end_time?: string | null;
+    summary: string;
+    description?: string;
+    location?: string | null;
+}
+
 export interface DatabaseFinalSelection {
     id: string;
     applicant_id: string;
+    cycle_id: string;
     admin_decision: AdminDecision;
     selection_reason?: string;
-    average_score?: number;
+    average_score?: number; // Weighted
+    raw_average_score?: number;
     reviewer_count: number;
+    revision: number; // Bumped by every decision; score recalculation leaves it alone
     site_name: string;
     decided_at?: string;
     created_at: string;
@@ -109,49 +467,219 @@ export interface DatabaseFinalSelection {
 }
 
 // API Request/Response types
-export interface CreateApplicantRequest {
+export interface CreateApplicantRequest extends ApplicantProfile {
     external_id: string;
     name: string;
     category?: ApplicantCategory;
-    details?: string;
 }
 
-export interface UpdateApplicantRequest {
+// Profile fields sent as null are cleared
+export interface UpdateApplicantRequest extends ApplicantProfile {
+    name?: string;
+    category?: ApplicantCategory;
+}
+
+// Applicant fields a CSV column can be mapped to; a full name column or first and last name columns
+export type ApplicantImportField = 'external_id' | 'name' | 'first_name' | 'last_name' | 'category' | keyof ApplicantProfile;
+
+// Applicant field -> CSV column header
+export type ApplicantImportMapping = Partial<Record<ApplicantImportField, string>>;
+
+export interface ApplicantImportRequest {
+    csv: string;
+    mapping?: ApplicantImportMapping; // Guessed from the ERAS headers when left out
+    default_category?: ApplicantCategory; // For files without a category column
+    dry_run?: boolean;
+}
+
+export type ApplicantImportAction = 'insert' | 'update' | 'unchanged' | 'error';
+
+// Profile fields hold what the row's mapped cells parsed to; empty cells are null
+export interface ApplicantImportRow extends ApplicantProfile {
+    row: number; // Row in the file, counting the header as row 1
+    action: ApplicantImportAction;
+    external_id?: string;
     name?: string;
     category?: ApplicantCategory;
-    details?: string;
+    applicant_id?: string; // Existing applicant for updates, new applicant once inserted
+    changes?: string[]; // Fields an update changes
+    errors: string[];
+}
+
+// An uploaded file split into its header row and the data rows under it
+export interface ParsedImportFile {
+    columns: string[];
+    records: string[][];
+}
+
+export interface ApplicantImportResult {
+    dry_run: boolean;
+    columns: string[];
+    mapping: ApplicantImportMapping;
+    mapping_errors: string[];
+    rows: ApplicantImportRow[];
+    summary: Record<ApplicantImportAction, number>;
 }
 
 export interface CreateReviewRequest {
     applicant_id: string;
+    reviewer_id: string;
     reviewer_name: string;
-    preference?: number;
-    pressure?: number;
-    underserved?: number;
-    leadership?: number;
-    academic?: number;
-    research?: number;
-    personal?: number;
+    scores?: ReviewScores;
     notes?: string;
     decision?: DecisionType;
 }
 
 export interface UpdateReviewRequest {
-    preference?: number;
-    pressure?: number;
-    underserved?: number;
-    leadership?: number;
-    academic?: number;
-    research?: number;
-    personal?: number;
+    scores?: ReviewScores; // Merged into the stored scores
     notes?: string;
     decision?: DecisionType;
+    expected_revision?: number; // Reject the update if the review has changed since this revision
+}
+
+export interface CreateRubricCriterionRequest {
+    key: string;
+    label: string;
+    description?: string;
+    min_score?: number;
+    max_score?: number;
+    weight?: number;
+}
+
+// New weight for each criterion key; criteria left out keep their weight
+export interface UpdateRubricWeightsRequest {
+    weights: Record<string, number>;
+}
+
+export interface CreateRubricRequest {
+    name: string;
+    stage?: RubricStage; // file_review unless given
+    criteria: CreateRubricCriterionRequest[];
+    activate?: boolean;
 }
 
 export interface CreateFinalSelectionRequest {
     applicant_id: string;
     admin_decision: AdminDecision;
     selection_reason?: string;
+    expected_revision?: number; // Reject the decision if it has changed since this revision
+}
+
+export interface SetInterviewTargetRequest {
+    slots: number;
+    hard_limit?: boolean;
+}
+
+export interface InterviewDateRequest {
+    interview_date: string;
+    start_time?: string | null;
+    end_time?: string | null;
+    capacity: number;
+    location?: string | null;
+    notes?: string | null;
+}
+
+// Scores are merged into the stored ones, like review updates
+export interface SaveInterviewEvaluationRequest {
+    scores?: ReviewScores;
+    notes?: string;
+    recommendation?: InterviewRecommendation;
+    expected_revision?: number; // Reject the save if the evaluation has changed since this revision
+}
+
+export interface InterviewEvaluationListFilters {
+    applicant_id?: string;
+    interviewer_id?: string;
+}
+
+export interface BookInterviewRequest {
+    interview_date_id: string;
+}
+
+export interface UpdateRankListRequest {
+    entries: RankListEntry[];
+    expected_revision?: number;
+}
+
+export interface CreateCycleRequest {
+    name: string;
+    activate?: boolean;
+}
+
+// A change to record; before is omitted for creates and after for deletes
+export interface AuditChange {
+    action: AuditAction;
+    entity_type: AuditEntityType;
+    entity_id: string;
+    applicant_id?: string;
+    cycle_id?: string;
+    before?: object | null;
+    after?: object | null;
+}
+
+export interface AuditLogFilters {
+    entity_type?: AuditEntityType;
+    entity_id?: string;
+    applicant_id?: string;
+    cycle_id?: string;
+    actor_id?: string;
+    action?: AuditAction;
+    from?: string;
+    to?: string;
+    limit?: number;
+}
+
+// One row per review, or one row per applicant with their reviews aggregated
+export type ExportLayout = 'reviews' | 'applicants';
+
+// A column an export can include; criterion columns are keyed score:<criterion key> or average:<criterion key>
+export interface ExportColumn {
+    key: string;
+    header: string;
+}
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortKey {
+    field: string;
+    direction: SortDirection;
+}
+
+// Search, sort and paging parameters shared by the list endpoints; no limit means every match
+export interface ListQuery {
+    search?: string;
+    sort: SortKey[];
+    limit?: number;
+    offset: number;
+}
+
+// Returned alongside a list; next_cursor is null on the last page
+export interface PageInfo {
+    total: number;
+    limit: number | null;
+    next_cursor: string | null;
+}
+
+// Score bounds are inclusive and compare weighted scores
+export interface ScoreRange {
+    min_score?: number;
+    max_score?: number;
+}
+
+export interface ApplicantListFilters {
+    category?: ApplicantCategory;
+}
+
+export interface ReviewListFilters extends ScoreRange {
+    applicant_id?: string;
+    reviewer_name?: string;
+    decision?: DecisionType;
+    category?: ApplicantCategory;
+}
+
+export interface FinalSelectionListFilters extends ScoreRange {
+    decision?: AdminDecision;
+    category?: ApplicantCategory;
 }
 
 export interface UpdateFinalSelectionRequest {
@@ -159,8 +687,148 @@ export interface UpdateFinalSelectionRequest {
     selection_reason?: string;
 }
 
+export interface LoginRequest {
+    email: string;
+    password: string;
+}
+
+export interface LoginCodeRequest {
+    email: string;
+}
+
+export interface VerifyLoginCodeRequest {
+    email: string;
+    code: string;
+}
+
+export interface ChangePasswordRequest {
+    current_password?: string;
+    new_password: string;
+}
+
+export interface CreateReviewerRequest {
+    name: string;
+    email?: string;
+    role?: ReviewerRole;
+    is_admin?: boolean;
+    medical_school?: string;
+    capacity_weight?: number;
+}
+
+export interface UpdateReviewerRequest {
+    name?: string;
+    email?: string;
+    role?: ReviewerRole;
+    is_admin?: boolean;
+    medical_school?: string;
+    capacity_weight?: number;
+}
+
+export interface CreateAssignmentRequest {
+    applicant_id: string;
+    reviewer_id: string;
+    override_conflict?: boolean;
+}
+
+export interface AssignmentPlanOptions {
+    reviewers_per_applicant?: number;
+    categories?: ApplicantCategory[];
+    dry_run?: boolean;
+}
+
+export interface PlannedAssignment {
+    applicant_id: string;
+    applicant_name: string;
+    reviewer_id: string;
+    reviewer_name: string;
+}
+
+export interface UnfilledAssignment {
+    applicant_id: string;
+    applicant_name: string;
+    missing: number;
+    reason: string;
+}
+
+export interface ReviewerLoad {
+    reviewer_id: string;
+    reviewer_name: string;
+    capacity_weight: number;
+    current: number;
+    planned: number;
+}
+
+export interface AssignmentPlan {
+    reviewers_per_applicant: number;
+    categories: ApplicantCategory[];
+    assignments: PlannedAssignment[];
+    unfilled: UnfilledAssignment[];
+    conflicts_avoided: number;
+    reviewer_loads: ReviewerLoad[];
+    dry_run: boolean;
+}
+
+// Scoring habits of one reviewer on one rubric; weighted scores are only comparable within a rubric
+export interface ReviewerCalibration {
+    reviewer_name: string;
+    rubric_id: string;
+    review_count: number;
+    mean: number;
+    std_dev: number;
+    calibrated: boolean; // False when there are too few reviews or no spread to normalize against
+}
+
+export interface CalibratedReview {
+    review_id: string;
+    applicant_id: string;
+    reviewer_name: string;
+    rubric_id: string;
+    weighted_score: number;
+    z_score: number | null; // Null when the reviewer is not calibrated
+}
+
+export interface ApplicantCalibration {
+    applicant_id: string;
+    review_count: number;
+    raw_score: number; // Mean weighted score, uncalibrated
+    normalized_score: number | null; // Mean z-score of the calibrated reviews
+}
+
+export interface CalibrationReport {
+    min_reviews: number;
+    reviewers: ReviewerCalibration[];
+    reviews: CalibratedReview[];
+    applicants: ApplicantCalibration[];
+}
+
+export type RankingMode = 'raw' | 'normalized';
+
+// Final selection with its place in both rankings (1 = best)
+export interface RankedFinalSelection extends DatabaseFinalSelection {
+    normalized_score: number | null;
+    raw_rank: number;
+    normalized_rank: number | null;
+}
+
+// What Final Approval lists: the ranked selection with the applicant's interview-day scores
+export interface FinalSelectionWithInterviews extends RankedFinalSelection {
+    interview_score: number | null;
+    interview_count: number;
+}
+
+export interface AuthenticatedReviewer extends DatabaseReviewer {
+    permissions: Permission[];
+}
+
+export interface AuthSession {
+    token: string;
+    expires_at: string;
+    reviewer: AuthenticatedReviewer;
+}
+
 export interface ProgressResponse {
     overall: ProgressInfo;
+    byCategory: CategoryProgress[];
     byReviewer: ReviewerStats[];
 }
 
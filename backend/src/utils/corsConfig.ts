@@ -204,7 +204,7 @@ export function createCorsOptions(additionalOptions: Partial<CorsOptions> = {}):
             }
         },
         methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-        allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+        allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-Cycle-Id', 'X-Site-Name'],
         credentials: true,
         maxAge: 86400, // 24 hours
     };
@@ -0,0 +1,65 @@
+/**
+ * Parse CSV text into rows of fields (RFC 4180)
+ * Handles quoted fields with embedded commas, quotes and line breaks, CRLF line endings
+ * and the byte order mark Excel adds; blank lines are skipped
+ */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+    const endRow = (): void => {
+        row.push(field);
+        if (row.length > 1 || row[0]!.trim() !== '') {
+            rows.push(row);
+        }
+        row = [];
+        field = '';
+    };
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n') {
+            endRow();
+        } else if (char !== '\r') {
+            field += char;
+        }
+    }
+
+    if (field !== '' || row.length > 0) {
+        endRow();
+    }
+
+    return rows;
+}
+
+/**
+ * Write rows as CSV text (RFC 4180)
+ * Fields holding commas, quotes or line breaks are quoted with embedded quotes doubled; lines end in CRLF
+ */
+export function toCsv(rows: Array<Array<string | number | null | undefined>>): string {
+    const escapeField = (value: string | number | null | undefined): string => {
+        const text = value === null || value === undefined ? '' : String(value);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    return rows.map(row => row.map(escapeField).join(',')).join('\r\n') + '\r\n';
+}
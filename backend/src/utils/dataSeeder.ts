@@ -1,9 +1,13 @@
 import { supabaseAdmin } from '../config/supabase';
-import { ApplicantCategory, DatabaseApplicant, DatabaseReviewer } from '../types';
+import { getSiteName } from '../config/tenant';
+import { AuthService } from '../services/authService';
+import { AssignmentService } from '../services/assignmentService';
+import { RubricService } from '../services/rubricService';
+import { ReviewService } from '../services/reviewService';
+import { CycleService } from '../services/cycleService';
+import { ApplicantCategory, DatabaseApplicant, DatabaseCycle, DatabaseReviewer } from '../types';
 
 export class DataSeeder {
-    private static readonly SITE_NAME = 'urology_review';
-
     /**
      * Check if data has already been seeded
      */
@@ -18,11 +22,11 @@ export class DataSeeder {
                 supabaseAdmin
                     .from('urology_applicants')
                     .select('*', { count: 'exact', head: true })
-                    .eq('site_name', this.SITE_NAME),
+                    .eq('site_name', getSiteName()),
                 supabaseAdmin
                     .from('urology_reviewers')
                     .select('*', { count: 'exact', head: true })
-                    .eq('site_name', this.SITE_NAME)
+                    .eq('site_name', getSiteName())
             ]);
 
             const applicantCount = applicantsResult.count || 0;
@@ -46,9 +50,36 @@ export class DataSeeder {
     }
 
     /**
-     * Seed sample applicants
+     * Get the active cycle, creating one for the current season if none exists
+     * Seasons start in June, when ERAS opens
+     */
+    static async seedCycle(): Promise<DatabaseCycle> {
+        try {
+            const activeCycle = await CycleService.getActiveCycle();
+            if (activeCycle) {
+                console.log(`✓ Active cycle found (${activeCycle.name})`);
+                return activeCycle;
+            }
+
+            const now = new Date();
+            const year = now.getFullYear();
+            const name = now.getMonth() >= 5 ? `${year}-${year + 1}` : `${year - 1}-${year}`;
+            console.log(`🌱 Creating the ${name} cycle...`);
+
+            const existing = await CycleService.getCycleByName(name);
+            return existing
+                ? await CycleService.activateCycle(existing.id)
+                : await CycleService.createCycle({ name, activate: true });
+        } catch (err) {
+            console.error('DataSeeder.seedCycle error:', err);
+            throw err;
+        }
+    }
+
+    /**
+     * Seed sample applicants into a cycle
      */
-    static async seedApplicants(): Promise<DatabaseApplicant[]> {
+    static async seedApplicants(cycleId: string): Promise<DatabaseApplicant[]> {
         try {
             const sampleApplicants = [
                 // I-Sub Applicants (Albert Einstein College of Medicine)
@@ -56,450 +87,450 @@ export class DataSeeder {
                     external_id: '15469503',
                     name: 'Tyler Bergeron',
                     category: 'i-sub' as ApplicantCategory,
-                    details: 'Albert Einstein College of Medicine',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Albert Einstein College of Medicine',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15467447',
                     name: 'David Hanelin',
                     category: 'i-sub' as ApplicantCategory,
-                    details: 'Albert Einstein College of Medicine',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Albert Einstein College of Medicine',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15254686',
                     name: 'Grace Khaner',
                     category: 'i-sub' as ApplicantCategory,
-                    details: 'Albert Einstein College of Medicine',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Albert Einstein College of Medicine',
+                    site_name: getSiteName()
                 },
                 // Regular Applicants (61 total)
                 {
                     external_id: '14384852',
                     name: 'Shawn Alex',
                     category: 'regular' as ApplicantCategory,
-                    details: 'Texas Tech University Health Sciences Center Paul L. Foster School of Medicine',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Texas Tech University Health Sciences Center Paul L. Foster School of Medicine',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15474804',
                     name: 'Diego Alvarez Vega',
                     category: 'regular' as ApplicantCategory,
-                    details: 'NYU Grossman Long Island School of Medicine',
-                    site_name: this.SITE_NAME
+                    medical_school: 'NYU Grossman Long Island School of Medicine',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15355716',
                     name: 'Nkiru Anigbogu',
                     category: 'regular' as ApplicantCategory,
-                    details: 'Ross University School of Medicine',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Ross University School of Medicine',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15189920',
                     name: 'Ryan Antar',
                     category: 'regular' as ApplicantCategory,
-                    details: 'George Washington University School of Medicine and Health Sciences',
-                    site_name: this.SITE_NAME
+                    medical_school: 'George Washington University School of Medicine and Health Sciences',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '14277647',
                     name: 'Matthew Antonellis',
                     category: 'regular' as ApplicantCategory,
-                    details: 'SUNY Downstate Health Sciences University College of Medicine',
-                    site_name: this.SITE_NAME
+                    medical_school: 'SUNY Downstate Health Sciences University College of Medicine',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15839653',
                     name: 'Mariya Antonyuk',
                     category: 'regular' as ApplicantCategory,
-                    details: 'St. George\'s University School of Medicine',
-                    site_name: this.SITE_NAME
+                    medical_school: 'St. George\'s University School of Medicine',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15321399',
                     name: 'Juan Arroyave Villada',
                     category: 'regular' as ApplicantCategory,
-                    details: 'Icahn School of Medicine at Mount Sinai',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Icahn School of Medicine at Mount Sinai',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15363098',
                     name: 'Jared Benjamin',
                     category: 'regular' as ApplicantCategory,
-                    details: 'Rutgers New Jersey Medical School',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Rutgers New Jersey Medical School',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '14803322',
                     name: 'Richard Berman',
                     category: 'regular' as ApplicantCategory,
-                    details: 'Columbia University Vagelos College of Physicians and Surgeons',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Columbia University Vagelos College of Physicians and Surgeons',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15115380',
                     name: 'Rachel Bernardo',
                     category: 'regular' as ApplicantCategory,
-                    details: 'George Washington University School of Medicine and Health Sciences',
-                    site_name: this.SITE_NAME
+                    medical_school: 'George Washington University School of Medicine and Health Sciences',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15276217',
                     name: 'Parker Blasdel',
                     category: 'regular' as ApplicantCategory,
-                    details: 'University of Michigan Medical School',
-                    site_name: this.SITE_NAME
+                    medical_school: 'University of Michigan Medical School',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '14224412',
                     name: 'Fernando Bomfim',
                     category: 'regular' as ApplicantCategory,
-                    details: 'Jacobs School of Medicine and Biomedical Sciences at the University at Buffalo',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Jacobs School of Medicine and Biomedical Sciences at the University at Buffalo',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '14499043',
                     name: 'Zachary Boston',
                     category: 'regular' as ApplicantCategory,
-                    details: 'Rutgers New Jersey Medical School',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Rutgers New Jersey Medical School',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15055326',
                     name: 'Gustavo Capo Fernandez',
                     category: 'regular' as ApplicantCategory,
-                    details: 'Medical College of Georgia at Augusta University',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Medical College of Georgia at Augusta University',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15237069',
                     name: 'Christopher Caputo',
                     category: 'regular' as ApplicantCategory,
-                    details: 'Lewis Katz School of Medicine at Temple University',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Lewis Katz School of Medicine at Temple University',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15686241',
                     name: 'Anjalika Chalamgari',
                     category: 'regular' as ApplicantCategory,
-                    details: 'University of Florida College of Medicine',
-                    site_name: this.SITE_NAME
+                    medical_school: 'University of Florida College of Medicine',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15045209',
                     name: 'Stephanie Chan',
                     category: 'regular' as ApplicantCategory,
-                    details: 'Columbia University Vagelos College of Physicians and Surgeons',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Columbia University Vagelos College of Physicians and Surgeons',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15171916',
                     name: 'Bradley Christensen',
                     category: 'regular' as ApplicantCategory,
-                    details: 'Western Michigan University Homer Stryker M.D. School of Medicine',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Western Michigan University Homer Stryker M.D. School of Medicine',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15293356',
                     name: 'Sawania Christolin',
                     category: 'regular' as ApplicantCategory,
-                    details: 'SUNY Downstate Health Sciences University College of Medicine',
-                    site_name: this.SITE_NAME
+                    medical_school: 'SUNY Downstate Health Sciences University College of Medicine',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15446523',
                     name: 'William Crockett',
                     category: 'regular' as ApplicantCategory,
-                    details: 'Chicago College of Osteopathic Medicine of Midwestern University',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Chicago College of Osteopathic Medicine of Midwestern University',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15206259',
                     name: 'Benjamin Davelman',
                     category: 'regular' as ApplicantCategory,
-                    details: 'SUNY Downstate Health Sciences University College of Medicine',
-                    site_name: this.SITE_NAME
+                    medical_school: 'SUNY Downstate Health Sciences University College of Medicine',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '16401642',
                     name: 'Elizabeth DeSellier',
                     category: 'regular' as ApplicantCategory,
-                    details: 'Philadelphia College of Osteopathic Medicine',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Philadelphia College of Osteopathic Medicine',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15570320',
                     name: 'Peace Deh',
                     category: 'regular' as ApplicantCategory,
-                    details: 'SUNY Downstate Health Sciences University College of Medicine',
-                    site_name: this.SITE_NAME
+                    medical_school: 'SUNY Downstate Health Sciences University College of Medicine',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '14998002',
                     name: 'Avani Desai',
                     category: 'regular' as ApplicantCategory,
-                    details: 'University of North Carolina at Chapel Hill School of Medicine',
-                    site_name: this.SITE_NAME
+                    medical_school: 'University of North Carolina at Chapel Hill School of Medicine',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15488543',
                     name: 'Orlando Diaz Ramos',
                     category: 'regular' as ApplicantCategory,
-                    details: 'Universidad Central del Caribe School of Medicine',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Universidad Central del Caribe School of Medicine',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15002787',
                     name: 'Jack Dowd',
                     category: 'regular' as ApplicantCategory,
-                    details: 'Georgetown University School of Medicine',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Georgetown University School of Medicine',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '14766334',
                     name: 'Kiarad Fendereski',
                     category: 'regular' as ApplicantCategory,
-                    details: 'Tehran University of Medical Sciences School of Medicine',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Tehran University of Medical Sciences School of Medicine',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '14735551',
                     name: 'Jason Fier',
                     category: 'regular' as ApplicantCategory,
-                    details: 'American University of the Caribbean School of Medicine',
-                    site_name: this.SITE_NAME
+                    medical_school: 'American University of the Caribbean School of Medicine',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15016909',
                     name: 'Eve Frangopoulos',
                     category: 'regular' as ApplicantCategory,
-                    details: 'SUNY Downstate Health Sciences University College of Medicine',
-                    site_name: this.SITE_NAME
+                    medical_school: 'SUNY Downstate Health Sciences University College of Medicine',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15170868',
                     name: 'Adam Geffner',
                     category: 'regular' as ApplicantCategory,
-                    details: 'Icahn School of Medicine at Mount Sinai',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Icahn School of Medicine at Mount Sinai',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15741383',
                     name: 'Owais Ghammaz',
                     category: 'regular' as ApplicantCategory,
-                    details: 'Jordan University of Science and Technology Faculty of Medicine',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Jordan University of Science and Technology Faculty of Medicine',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15022794',
                     name: 'Katie Gilman',
                     category: 'regular' as ApplicantCategory,
-                    details: 'Arizona College of Osteopathic Medicine of Midwestern University',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Arizona College of Osteopathic Medicine of Midwestern University',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '14999723',
                     name: 'Stella Glykos',
                     category: 'regular' as ApplicantCategory,
-                    details: 'A.T. Still University of Health Sciences Kirksville College of Osteopathic Medicine',
-                    site_name: this.SITE_NAME
+                    medical_school: 'A.T. Still University of Health Sciences Kirksville College of Osteopathic Medicine',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15073322',
                     name: 'Adam Greenstein',
                     category: 'regular' as ApplicantCategory,
-                    details: 'Jacobs School of Medicine and Biomedical Sciences at the University at Buffalo',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Jacobs School of Medicine and Biomedical Sciences at the University at Buffalo',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15448446',
                     name: 'Akiva Grimaldi',
                     category: 'regular' as ApplicantCategory,
-                    details: 'Donald and Barbara Zucker School of Medicine at Hofstra/Northwell',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Donald and Barbara Zucker School of Medicine at Hofstra/Northwell',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15463439',
                     name: 'Christina Grindley',
                     category: 'regular' as ApplicantCategory,
-                    details: 'Sidney Kimmel Medical College at Thomas Jefferson University',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Sidney Kimmel Medical College at Thomas Jefferson University',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15991250',
                     name: 'Rumaan Gul',
                     category: 'regular' as ApplicantCategory,
-                    details: 'Shifa College of Medicine',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Shifa College of Medicine',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15007122',
                     name: 'SIQI HU',
                     category: 'regular' as ApplicantCategory,
-                    details: 'Shenzhen University College of Medicine',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Shenzhen University College of Medicine',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15039975',
                     name: 'Gilad Hampel',
                     category: 'regular' as ApplicantCategory,
-                    details: 'Tulane University School of Medicine',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Tulane University School of Medicine',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '14849500',
                     name: 'Katya Hanessian',
                     category: 'regular' as ApplicantCategory,
-                    details: 'Loma Linda University School of Medicine',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Loma Linda University School of Medicine',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '14789330',
                     name: 'Jaya Harrell',
                     category: 'regular' as ApplicantCategory,
-                    details: 'California Health Sciences University College of Osteopathic Medicine',
-                    site_name: this.SITE_NAME
+                    medical_school: 'California Health Sciences University College of Osteopathic Medicine',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '14997481',
                     name: 'Marek Harris',
                     category: 'regular' as ApplicantCategory,
-                    details: 'Howard University College of Medicine',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Howard University College of Medicine',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15008551',
                     name: 'Mandy Hsu',
                     category: 'regular' as ApplicantCategory,
-                    details: 'Pennsylvania State University College of Medicine',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Pennsylvania State University College of Medicine',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '14716743',
                     name: 'Brenda Hug',
                     category: 'regular' as ApplicantCategory,
-                    details: 'Drexel University College of Medicine',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Drexel University College of Medicine',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '14994108',
                     name: 'Aditya Jadcherla',
                     category: 'regular' as ApplicantCategory,
-                    details: 'Medical College of Wisconsin',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Medical College of Wisconsin',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '16309760',
                     name: 'Salvador Jaime Casas',
                     category: 'regular' as ApplicantCategory,
-                    details: 'Universidad Panamericana Escuela de Medicina',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Universidad Panamericana Escuela de Medicina',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '16350159',
                     name: 'Shiney James',
                     category: 'regular' as ApplicantCategory,
-                    details: 'Jawaharlal Nehru Medical College, Wardha',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Jawaharlal Nehru Medical College, Wardha',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15511670',
                     name: 'Kyle Johnson',
                     category: 'regular' as ApplicantCategory,
-                    details: 'Arizona College of Osteopathic Medicine of Midwestern University',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Arizona College of Osteopathic Medicine of Midwestern University',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15184727',
                     name: 'Megan Khuu',
                     category: 'regular' as ApplicantCategory,
-                    details: 'University of North Texas Health Science Center at Fort Worth - Texas COM',
-                    site_name: this.SITE_NAME
+                    medical_school: 'University of North Texas Health Science Center at Fort Worth - Texas COM',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15393103',
                     name: 'Nathan Klausner',
                     category: 'regular' as ApplicantCategory,
-                    details: 'Central Michigan University College of Medicine',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Central Michigan University College of Medicine',
+                    site_name: getSiteName()
                 },
                 // Additional Regular Applicants (continuing to reach 61 total)
                 {
                     external_id: '15000001',
                     name: 'James Anderson',
                     category: 'regular' as ApplicantCategory,
-                    details: 'Harvard Medical School',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Harvard Medical School',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15000002',
                     name: 'Maria Rodriguez',
                     category: 'regular' as ApplicantCategory,
-                    details: 'Stanford University School of Medicine',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Stanford University School of Medicine',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15000003',
                     name: 'Michael Johnson',
                     category: 'regular' as ApplicantCategory,
-                    details: 'Johns Hopkins University School of Medicine',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Johns Hopkins University School of Medicine',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15000004',
                     name: 'Sarah Williams',
                     category: 'regular' as ApplicantCategory,
-                    details: 'University of Pennsylvania Perelman School of Medicine',
-                    site_name: this.SITE_NAME
+                    medical_school: 'University of Pennsylvania Perelman School of Medicine',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15000005',
                     name: 'David Brown',
                     category: 'regular' as ApplicantCategory,
-                    details: 'Washington University School of Medicine in St. Louis',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Washington University School of Medicine in St. Louis',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15000006',
                     name: 'Jennifer Davis',
                     category: 'regular' as ApplicantCategory,
-                    details: 'Duke University School of Medicine',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Duke University School of Medicine',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15000007',
                     name: 'Robert Miller',
                     category: 'regular' as ApplicantCategory,
-                    details: 'Vanderbilt University School of Medicine',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Vanderbilt University School of Medicine',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15000008',
                     name: 'Lisa Wilson',
                     category: 'regular' as ApplicantCategory,
-                    details: 'Northwestern University Feinberg School of Medicine',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Northwestern University Feinberg School of Medicine',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15000009',
                     name: 'Christopher Moore',
                     category: 'regular' as ApplicantCategory,
-                    details: 'Emory University School of Medicine',
-                    site_name: this.SITE_NAME
+                    medical_school: 'Emory University School of Medicine',
+                    site_name: getSiteName()
                 },
                 {
                     external_id: '15000010',
                     name: 'Amanda Taylor',
                     category: 'regular' as ApplicantCategory,
-                    details: 'University of California, San Francisco School of Medicine',
-                    site_name: this.SITE_NAME
+                    medical_school: 'University of California, San Francisco School of Medicine',
+                    site_name: getSiteName()
                 }
             ]; console.log('🌱 Seeding applicants...');
 
             const { data, error } = await supabaseAdmin
                 .from('urology_applicants')
-                .insert(sampleApplicants)
+                .insert(sampleApplicants.map(applicant => ({ ...applicant, cycle_id: cycleId })))
                 .select();
 
             if (error) {
@@ -524,62 +555,72 @@ export class DataSeeder {
                 {
                     name: 'Marissa Theofanides',
                     email: 'mtheofanides@hospital.edu',
+                    role: 'program_director',
                     is_admin: true,
-                    site_name: this.SITE_NAME
+                    site_name: getSiteName()
                 },
                 {
                     name: 'Michael Lipsky',
                     email: 'mlipsky@hospital.edu',
+                    role: 'reviewer',
                     is_admin: false,
-                    site_name: this.SITE_NAME
+                    site_name: getSiteName()
                 },
                 {
                     name: 'Miriam Harel',
                     email: 'mharel@hospital.edu',
+                    role: 'reviewer',
                     is_admin: false,
-                    site_name: this.SITE_NAME
+                    site_name: getSiteName()
                 },
                 {
                     name: 'Jillian Donnelly',
                     email: 'jdonnelly@hospital.edu',
+                    role: 'reviewer',
                     is_admin: false,
-                    site_name: this.SITE_NAME
+                    site_name: getSiteName()
                 },
                 {
                     name: 'Stephen Reese',
                     email: 'sreese@hospital.edu',
+                    role: 'reviewer',
                     is_admin: false,
-                    site_name: this.SITE_NAME
+                    site_name: getSiteName()
                 },
                 {
                     name: 'Dima Raskolnikov',
                     email: 'draskolnikov@hospital.edu',
+                    role: 'reviewer',
                     is_admin: false,
-                    site_name: this.SITE_NAME
+                    site_name: getSiteName()
                 },
                 {
                     name: 'Matt Danzig',
                     email: 'mdanzig@hospital.edu',
+                    role: 'reviewer',
                     is_admin: false,
-                    site_name: this.SITE_NAME
+                    site_name: getSiteName()
                 },
                 {
                     name: 'Frank Lowe',
                     email: 'flowe@hospital.edu',
+                    role: 'program_director',
                     is_admin: true,
-                    site_name: this.SITE_NAME
+                    site_name: getSiteName()
                 },
                 {
                     name: 'Nitya Abraham',
                     email: 'nabraham@hospital.edu',
+                    role: 'reviewer',
                     is_admin: false,
-                    site_name: this.SITE_NAME
+                    site_name: getSiteName()
                 },
                 {
                     name: 'Amanda North',
                     email: 'anorth@hospital.edu',
+                    role: 'reviewer',
                     is_admin: false,
-                    site_name: this.SITE_NAME
+                    site_name: getSiteName()
                 }
             ]; console.log('🌱 Seeding reviewers...');
 
@@ -594,6 +635,16 @@ export class DataSeeder {
             }
 
             console.log(`✅ Successfully seeded ${data?.length || 0} reviewers`);
+
+            // Give seeded accounts a starter password when one is configured
+            const seedPassword = process.env.SEED_REVIEWER_PASSWORD;
+            if (seedPassword && data) {
+                for (const reviewer of data) {
+                    await AuthService.setPassword(reviewer.id, seedPassword);
+                }
+                console.log(`🔑 Set starter passwords for ${data.length} reviewers`);
+            }
+
             return data || [];
         } catch (err) {
             console.error('DataSeeder.seedReviewers error:', err);
@@ -602,75 +653,23 @@ export class DataSeeder {
     }
 
     /**
-     * Distribute applicants to reviewers (create assignment logic)
-     * This is a simplified implementation - in production you might want a more sophisticated assignment system
+     * Distribute a cycle's applicants to reviewers by storing assignments
      */
-    static async distributeApplicantsToReviewers(): Promise<void> {
+    static async distributeApplicantsToReviewers(cycleId: string): Promise<void> {
         try {
             console.log('🔄 Distributing applicants to reviewers...');
 
-            // Get all applicants and reviewers
-            const [applicantsResult, reviewersResult] = await Promise.all([
-                supabaseAdmin
-                    .from('urology_applicants')
-                    .select('*')
-                    .eq('site_name', this.SITE_NAME),
-                supabaseAdmin
-                    .from('urology_reviewers')
-                    .select('*')
-                    .eq('site_name', this.SITE_NAME)
-            ]);
+            const { plan } = await AssignmentService.distribute(cycleId);
 
-            if (applicantsResult.error) {
-                throw new Error(`Failed to fetch applicants: ${applicantsResult.error.message}`);
-            }
-
-            if (reviewersResult.error) {
-                throw new Error(`Failed to fetch reviewers: ${reviewersResult.error.message}`);
-            }
-
-            const applicants = applicantsResult.data || [];
-            const reviewers = reviewersResult.data || [];
-
-            if (applicants.length === 0 || reviewers.length === 0) {
-                console.log('⚠️ No applicants or reviewers found for distribution');
+            if (plan.assignments.length === 0) {
+                console.log('⚠️ No unassigned applicants or eligible reviewers found for distribution');
                 return;
             }
 
-            // Create sample reviews (partial assignments)
-            // In practice, you might create assignment records or initial empty reviews
-            const sampleReviews = [];
-
-            // Assign only regular applicants to reviewers (exclude I-Sub applicants from automatic assignment)
-            const regularApplicants = applicants.filter(applicant => applicant.category === 'regular');
-
-            // Assign each regular applicant to 1 reviewer in a round-robin fashion
-            for (let i = 0; i < regularApplicants.length; i++) {
-                const applicant = regularApplicants[i];
-                const reviewerIndex = i % reviewers.length;
-                const reviewer = reviewers[reviewerIndex];
-
-                // Create placeholder review entry (without scores, to be filled later)
-                sampleReviews.push({
-                    applicant_id: applicant.id,
-                    reviewer_name: reviewer.name,
-                    site_name: this.SITE_NAME
-                    // No scores initially - reviewers will fill these in
-                });
-            } if (sampleReviews.length > 0) {
-                const { data, error } = await supabaseAdmin
-                    .from('urology_reviews')
-                    .insert(sampleReviews)
-                    .select();
-
-                if (error) {
-                    console.error('Error creating review assignments:', error);
-                    throw new Error(`Failed to create assignments: ${error.message}`);
-                }
-
-                console.log(`✅ Successfully created ${data?.length || 0} review assignments`);
+            console.log(`✅ Successfully created ${plan.assignments.length} review assignments`);
+            if (plan.unfilled.length > 0) {
+                console.log(`⚠️ ${plan.unfilled.length} applicants could not be fully assigned`);
             }
-
         } catch (err) {
             console.error('DataSeeder.distributeApplicantsToReviewers error:', err);
             throw err;
@@ -680,64 +679,70 @@ export class DataSeeder {
     /**
      * Seed some sample review scores for demonstration
      */
-    static async seedSampleReviews(): Promise<void> {
+    static async seedSampleReviews(cycleId: string): Promise<void> {
         try {
             console.log('🌱 Seeding sample reviews...');
 
-            // Get existing review assignments
-            const { data: reviews, error } = await supabaseAdmin
-                .from('urology_reviews')
-                .select('*')
-                .eq('site_name', this.SITE_NAME)
-                .is('decision', null)
-                .limit(10); // Only seed first 10 for demo
+            // Score the first few stored assignments
+            const assignments = (await AssignmentService.getAllAssignments(cycleId)).slice(0, 5);
 
-            if (error) {
-                console.error('Error fetching reviews for seeding:', error);
+            if (assignments.length === 0) {
+                console.log('⚠️ No review assignments found to seed');
                 return;
             }
 
-            if (!reviews || reviews.length === 0) {
-                console.log('⚠️ No review assignments found to seed');
+            const rubric = await RubricService.getActiveRubric();
+            if (!rubric) {
+                console.log('⚠️ No active rubric found, skipping sample reviews');
                 return;
             }
 
+            // Levels on a 1-5 scale, stretched onto each criterion's own range
             const sampleScores = [
-                { preference: 4, pressure: 3, underserved: 5, leadership: 4, academic: 5, research: 3, personal: 4, decision: 'Definitely Interview' },
-                { preference: 3, pressure: 4, underserved: 3, leadership: 3, academic: 4, research: 4, personal: 3, decision: 'Maybe' },
-                { preference: 2, pressure: 2, underserved: 2, leadership: 2, academic: 3, research: 2, personal: 2, decision: 'Do Not Interview' },
-                { preference: 5, pressure: 4, underserved: 4, leadership: 5, academic: 5, research: 5, personal: 5, decision: 'Definitely Interview' },
-                { preference: 3, pressure: 3, underserved: 3, leadership: 3, academic: 3, research: 3, personal: 3, decision: 'Maybe' }
+                { levels: [4, 3, 5, 4, 5, 3, 4], decision: 'Definitely Interview' },
+                { levels: [3, 4, 3, 3, 4, 4, 3], decision: 'Maybe' },
+                { levels: [2, 2, 2, 2, 3, 2, 2], decision: 'Do Not Interview' },
+                { levels: [5, 4, 4, 5, 5, 5, 5], decision: 'Definitely Interview' },
+                { levels: [3, 3, 3, 3, 3, 3, 3], decision: 'Maybe' }
             ];
 
-            const updates = reviews.slice(0, 5).map((review: any, index: number) => ({
-                id: review.id,
-                ...sampleScores[index],
-                notes: `Sample review notes for applicant - ${sampleScores[index].decision.toLowerCase()}.`
-            }));
-
-            for (const update of updates) {
-                const { error: updateError } = await supabaseAdmin
-                    .from('urology_reviews')
-                    .update({
-                        preference: update.preference,
-                        pressure: update.pressure,
-                        underserved: update.underserved,
-                        leadership: update.leadership,
-                        academic: update.academic,
-                        research: update.research,
-                        personal: update.personal,
-                        decision: update.decision,
-                        notes: update.notes
-                    })
-                    .eq('id', update.id);
-
-                if (updateError) {
-                    console.error('Error updating sample review:', updateError);
-                }
+            const sampleReviews = assignments.map((assignment, index) => {
+                const sample = sampleScores[index];
+                const scores = Object.fromEntries(rubric.criteria.map((criterion, i) => {
+                    const level = sample.levels[i % sample.levels.length];
+                    const range = criterion.max_score - criterion.min_score;
+                    return [criterion.key, criterion.min_score + Math.round(((level - 1) / 4) * range)];
+                }));
+
+                return {
+                    applicant_id: assignment.applicant_id,
+                    cycle_id: cycleId,
+                    reviewer_id: assignment.reviewer.id,
+                    reviewer_name: assignment.reviewer.name,
+                    rubric_id: rubric.id,
+                    scores,
+                    total_score: ReviewService.calculateTotalScore(scores, rubric),
+                    weighted_score: ReviewService.calculateWeightedScore(scores, rubric),
+                    decision: sample.decision,
+                    notes: `Sample review notes for applicant - ${sample.decision.toLowerCase()}.`,
+                    site_name: getSiteName()
+                };
+            });
+
+            const { data, error } = await supabaseAdmin
+                .from('urology_reviews')
+                .upsert(sampleReviews, {
+                    onConflict: 'applicant_id,reviewer_name,site_name',
+                    ignoreDuplicates: true
+                })
+                .select();
+
+            if (error) {
+                console.error('Error seeding sample reviews:', error);
+                return;
             }
 
-            console.log(`✅ Successfully seeded ${updates.length} sample reviews`);
+            console.log(`✅ Successfully seeded ${data?.length || 0} sample reviews`);
         } catch (err) {
             console.error('DataSeeder.seedSampleReviews error:', err);
             throw err;
@@ -752,20 +757,22 @@ export class DataSeeder {
             console.log('🚀 Starting data seeding process...');
 
             const seededStatus = await this.isDataSeeded();
+            const cycle = await this.seedCycle();
 
             let applicants: DatabaseApplicant[] = [];
             let reviewers: DatabaseReviewer[] = [];
 
             // Seed applicants if not already present
             if (!seededStatus.hasApplicants) {
-                applicants = await this.seedApplicants();
+                applicants = await this.seedApplicants(cycle.id);
             } else {
                 console.log(`✓ Applicants already seeded (${seededStatus.applicantCount} found)`);
                 // Get existing applicants
                 const { data } = await supabaseAdmin
                     .from('urology_applicants')
                     .select('*')
-                    .eq('site_name', this.SITE_NAME);
+                    .eq('cycle_id', cycle.id)
+                    .eq('site_name', getSiteName());
                 applicants = data || [];
             }
 
@@ -778,20 +785,21 @@ export class DataSeeder {
                 const { data } = await supabaseAdmin
                     .from('urology_reviewers')
                     .select('*')
-                    .eq('site_name', this.SITE_NAME);
+                    .eq('site_name', getSiteName());
                 reviewers = data || [];
             }
 
             // Check if assignments exist
             const { count: assignmentCount } = await supabaseAdmin
-                .from('urology_reviews')
+                .from('urology_assignments')
                 .select('*', { count: 'exact', head: true })
-                .eq('site_name', this.SITE_NAME);
+                .eq('cycle_id', cycle.id)
+                .eq('site_name', getSiteName());
 
             // Distribute applicants if no assignments exist
             if (!assignmentCount || assignmentCount === 0) {
-                await this.distributeApplicantsToReviewers();
-                await this.seedSampleReviews();
+                await this.distributeApplicantsToReviewers(cycle.id);
+                await this.seedSampleReviews(cycle.id);
             } else {
                 console.log(`✓ Review assignments already exist (${assignmentCount} found)`);
             }
@@ -815,6 +823,7 @@ export class DataSeeder {
             // Delete in reverse order of dependencies
             const tables = [
                 'urology_final_selections',
+                'urology_assignments',
                 'urology_reviews',
                 'urology_applicants',
                 'urology_reviewers'
@@ -824,7 +833,7 @@ export class DataSeeder {
                 const { error } = await supabaseAdmin
                     .from(table)
                     .delete()
-                    .eq('site_name', this.SITE_NAME);
+                    .eq('site_name', getSiteName());
 
                 if (error) {
                     console.error(`Error clearing ${table}:`, error);
@@ -0,0 +1,29 @@
+import { PostgrestError } from '@supabase/supabase-js';
+
+// PostgREST's default max-rows; a page this size always comes back whole
+const PAGE_SIZE = 1000;
+
+type PageResult<T> = { data: T[] | null; error: PostgrestError | null };
+
+/**
+ * Read every row a query matches, one range at a time until a page comes back short
+ * PostgREST silently caps each response at max-rows, so an unpaged select on a large cycle loses rows.
+ * buildQuery gets the range to apply and must order on a unique column so pages do not overlap
+ */
+export async function fetchAllRows<T>(
+    buildQuery: (from: number, to: number) => PromiseLike<PageResult<T>>
+): Promise<PageResult<T>> {
+    const rows: T[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await buildQuery(from, from + PAGE_SIZE - 1);
+        if (error) {
+            return { data: null, error };
+        }
+
+        rows.push(...(data || []));
+        if (!data || data.length < PAGE_SIZE) {
+            return { data: rows, error: null };
+        }
+    }
+}
@@ -0,0 +1,95 @@
+import { CalendarEvent } from '../types';
+
+const PRODUCT_ID = '-//Urology Review System//Interview Schedule//EN';
+
+/**
+ * Escape text for an iCalendar property value (RFC 5545 section 3.3.11)
+ */
+function escapeText(text: string): string {
+    return text
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line so no line is longer than 75 octets; continuation lines start with a space
+ * Splits between characters, never inside a multi-byte one
+ */
+function foldLine(line: string): string {
+    const parts: string[] = [];
+    let current = '';
+    let octets = 0;
+
+    for (const char of line) {
+        const size = Buffer.byteLength(char);
+        const limit = parts.length === 0 ? 75 : 74;
+        if (octets + size > limit) {
+            parts.push(current);
+            current = '';
+            octets = 0;
+        }
+        current += char;
+        octets += size;
+    }
+    parts.push(current);
+
+    return parts.join('\r\n ');
+}
+
+const compactDate = (date: string): string => date.replace(/-/g, '');
+
+// Floating local time: calendars show it as written, wherever the reader is
+const localDateTime = (date: string, time: string): string =>
+    `${compactDate(date)}T${time.replace(/:/g, '').padEnd(6, '0').slice(0, 6)}`;
+
+const nextDay = (date: string): string => {
+    const next = new Date(`${date}T00:00:00Z`);
+    next.setUTCDate(next.getUTCDate() + 1);
+    return next.toISOString().slice(0, 10);
+};
+
+/**
+ * Write events as an iCalendar file (RFC 5545)
+ * Events without times become all-day events; lines end in CRLF and are folded at 75 octets
+ */
+export function toIcs(events: CalendarEvent[], calendarName: string): string {
+    const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+    const lines: string[] = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${PRODUCT_ID}`,
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(calendarName)}`
+    ];
+
+    for (const event of events) {
+        lines.push('BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${stamp}`);
+        if (event.start_time && event.end_time) {
+            lines.push(
+                `DTSTART:${localDateTime(event.date, event.start_time)}`,
+                `DTEND:${localDateTime(event.date, event.end_time)}`
+            );
+        } else {
+            lines.push(
+                `DTSTART;VALUE=DATE:${compactDate(event.date)}`,
+                `DTEND;VALUE=DATE:${compactDate(nextDay(event.date))}`
+            );
+        }
+        lines.push(`SUMMARY:${escapeText(event.summary)}`);
+        if (event.location) {
+            lines.push(`LOCATION:${escapeText(event.location)}`);
+        }
+        if (event.description) {
+            lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+        }
+        lines.push('END:VEVENT');
+    }
+
+    lines.push('END:VCALENDAR');
+
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+}
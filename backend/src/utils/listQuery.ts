@@ -0,0 +1,164 @@
+import { ListQuery, PageInfo, ScoreRange, SortKey } from '../types';
+
+const MAX_LIMIT = 500;
+const MAX_SEARCH_LENGTH = 100;
+
+type QueryParams = Record<string, unknown>;
+
+/**
+ * Parse the q, sort, limit and cursor parameters every list endpoint accepts
+ * sort is a comma-separated list of fields, each prefixed with - for descending, e.g. sort=-weighted_score,name
+ */
+export function parseListQuery(
+    query: QueryParams,
+    sortFields: string[],
+    defaultSort: SortKey[]
+): { listQuery: ListQuery } | { error: string } {
+    for (const param of ['q', 'sort', 'limit', 'cursor']) {
+        if (query[param] !== undefined && typeof query[param] !== 'string') {
+            return { error: `${param} can only be given once` };
+        }
+    }
+    const { q, sort, limit, cursor } = query as Record<string, string | undefined>;
+
+    const search = q?.trim();
+    if (search && search.length > MAX_SEARCH_LENGTH) {
+        return { error: `q must be at most ${MAX_SEARCH_LENGTH} characters` };
+    }
+
+    const sortKeys: SortKey[] = [];
+    for (const part of sort ? sort.split(',') : []) {
+        const field = part.trim().replace(/^-/, '');
+        if (!sortFields.includes(field)) {
+            return { error: `sort fields must be from: ${sortFields.join(', ')}` };
+        }
+        if (sortKeys.some(key => key.field === field)) {
+            return { error: `sort names ${field} more than once` };
+        }
+        sortKeys.push({ field, direction: part.trim().startsWith('-') ? 'desc' : 'asc' });
+    }
+
+    const pageSize = limit !== undefined ? Number(limit) : undefined;
+    if (pageSize !== undefined && (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_LIMIT)) {
+        return { error: `limit must be a whole number from 1 to ${MAX_LIMIT}` };
+    }
+
+    if (cursor !== undefined && pageSize === undefined) {
+        return { error: 'cursor needs the same limit as the page it came from' };
+    }
+
+    const offset = cursor !== undefined ? decodeCursor(cursor) : 0;
+    if (offset === null) {
+        return { error: 'cursor is not valid; pass the next_cursor from the previous page' };
+    }
+
+    return {
+        listQuery: {
+            ...(search ? { search } : {}),
+            sort: sortKeys.length > 0 ? sortKeys : defaultSort,
+            ...(pageSize !== undefined ? { limit: pageSize } : {}),
+            offset
+        }
+    };
+}
+
+/**
+ * Parse the inclusive min_score and max_score filters
+ */
+export function parseScoreRange(query: QueryParams): { range: ScoreRange } | { error: string } {
+    const range: ScoreRange = {};
+    for (const bound of ['min_score', 'max_score'] as const) {
+        if (query[bound] === undefined) {
+            continue;
+        }
+        const value = typeof query[bound] === 'string' ? Number(query[bound]) : NaN;
+        if (!Number.isFinite(value)) {
+            return { error: `${bound} must be a number` };
+        }
+        range[bound] = value;
+    }
+
+    if (range.min_score !== undefined && range.max_score !== undefined && range.min_score > range.max_score) {
+        return { error: 'min_score cannot be greater than max_score' };
+    }
+
+    return { range };
+}
+
+/**
+ * Build a PostgREST or() filter matching the search text anywhere in any of the columns, ignoring case
+ * LIKE wildcards in the text are matched literally and the pattern is quoted so commas and parentheses cannot break the filter
+ */
+export function searchFilter(search: string, columns: string[]): string {
+    const pattern = `%${search.replace(/[\\%_]/g, '\\$&')}%`;
+    const quoted = `"${pattern.replace(/["\\]/g, '\\$&')}"`;
+    return columns.map(column => `${column}.ilike.${quoted}`).join(',');
+}
+
+/**
+ * Sort in memory the same way the database does for list endpoints: keys in order, missing values last
+ */
+export function sortItems<T>(
+    items: T[],
+    sort: SortKey[],
+    valueOf: (item: T, field: string) => string | number | null | undefined
+): T[] {
+    return [...items].sort((a, b) => {
+        for (const key of sort) {
+            const left = valueOf(a, key.field);
+            const right = valueOf(b, key.field);
+            if (left === right) {
+                continue;
+            }
+            if (left === null || left === undefined) {
+                return 1;
+            }
+            if (right === null || right === undefined) {
+                return -1;
+            }
+            const order = typeof left === 'number' && typeof right === 'number'
+                ? left - right
+                : String(left).localeCompare(String(right));
+            if (order !== 0) {
+                return key.direction === 'asc' ? order : -order;
+            }
+        }
+        return 0;
+    });
+}
+
+/**
+ * Cut one page out of a list already filtered and sorted in memory
+ */
+export function pageItems<T>(items: T[], listQuery: ListQuery): T[] {
+    return listQuery.limit !== undefined
+        ? items.slice(listQuery.offset, listQuery.offset + listQuery.limit)
+        : items;
+}
+
+/**
+ * Describe the page just returned and where the next one starts
+ */
+export function pageInfo(total: number, listQuery: ListQuery, returned: number): PageInfo {
+    const nextOffset = listQuery.offset + returned;
+    return {
+        total,
+        limit: listQuery.limit ?? null,
+        next_cursor: listQuery.limit !== undefined && returned > 0 && nextOffset < total ? encodeCursor(nextOffset) : null
+    };
+}
+
+// Cursors are opaque offset tokens, not keyset cursors: they hold the next page's first row number,
+// so rows added or removed between requests shift the pages after them
+function encodeCursor(offset: number): string {
+    return Buffer.from(JSON.stringify({ offset })).toString('base64url');
+}
+
+function decodeCursor(cursor: string): number | null {
+    try {
+        const { offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+        return Number.isInteger(offset) && offset >= 0 ? offset : null;
+    } catch {
+        return null;
+    }
+}
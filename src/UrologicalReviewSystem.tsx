@@ -1,11 +1,12 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { Users, FileText, BarChart3, Download, CheckCircle, Clock, Star, User, GraduationCap, Heart, Brain, Zap, Award, MessageCircle, Eye } from 'lucide-react';
+import { Users, FileText, BarChart3, Download, CheckCircle, Clock, Star, User, GraduationCap, Heart, Brain, Zap, Award, MessageCircle, Eye, History, Upload, ListOrdered, Calendar } from 'lucide-react';
 import {
     ViewState,
     DecisionType,
     Applicant,
     ApiApplicant,
-    ScoringCategory,
+    CriterionStyle,
+    RubricCriterion,
     Review,
     Reviews,
     ApplicantDistribution,
@@ -14,36 +15,107 @@ import {
     UrologicalReviewSystemProps,
     ApplicantCategory,
     AdminDecision,
-    FinalSelection
+    RankingMode,
+    InterviewCapacity,
+    DocumentType
 } from './types';
 import { useApiData } from './hooks/useApiData';
+import { useAuth } from './hooks/useAuth';
 import LoadingSpinner from './components/LoadingSpinner';
 import ErrorMessage from './components/ErrorMessage';
+import AssignmentPlanner from './components/AssignmentPlanner';
+import ApplicantImportWizard from './components/ApplicantImportWizard';
+import ApplicantProfileCard from './components/ApplicantProfileCard';
+import RubricWeightsEditor from './components/RubricWeightsEditor';
+import InterviewTargetsPanel from './components/InterviewTargetsPanel';
+import CycleSelector from './components/CycleSelector';
+import AuditLogViewer from './components/AuditLogViewer';
+import ReviewHistory from './components/ReviewHistory';
+import DocumentViewer from './components/DocumentViewer';
+import ExportPanel from './components/ExportPanel';
+import RankListBuilder from './components/RankListBuilder';
+import InterviewSchedulePanel from './components/InterviewSchedulePanel';
+import InterviewEvaluationScreen from './components/InterviewEvaluationScreen';
+import SaveConflictBanner from './components/SaveConflictBanner';
+import { finalSelectionConflictFields, reviewConflictFields } from './utils/conflicts';
+import { saveFile } from './utils/download';
+
+// Criteria come from the active rubric; these icons decorate the standard criteria
+const CRITERION_STYLES: Record<string, CriterionStyle> = {
+    preference: { icon: Heart, color: 'text-red-500' },
+    pressure: { icon: Zap, color: 'text-yellow-500' },
+    underserved: { icon: Users, color: 'text-blue-500' },
+    leadership: { icon: Award, color: 'text-purple-500' },
+    academic: { icon: GraduationCap, color: 'text-green-500' },
+    research: { icon: Brain, color: 'text-indigo-500' },
+    personal: { icon: Star, color: 'text-orange-500' }
+};
 
-// Scoring categories remain static as they define the UI structure
-
-// Scoring categories with icons
-const SCORING_CATEGORIES: ScoringCategory[] = [
-    { key: 'preference', label: 'Preference for Program', icon: Heart, color: 'text-red-500' },
-    { key: 'pressure', label: 'Ability to Handle Pressure', icon: Zap, color: 'text-yellow-500' },
-    { key: 'underserved', label: 'Commitment to Underserved', icon: Users, color: 'text-blue-500' },
-    { key: 'leadership', label: 'Leadership', icon: Award, color: 'text-purple-500' },
-    { key: 'academic', label: 'Academic Performance', icon: GraduationCap, color: 'text-green-500' },
-    { key: 'research', label: 'Research', icon: Brain, color: 'text-indigo-500' },
-    { key: 'personal', label: 'Personal Attributes/Grit', icon: Star, color: 'text-orange-500' }
-];
+const DEFAULT_CRITERION_STYLE: CriterionStyle = { icon: Star, color: 'text-gray-500' };
 
 const UrologicalReviewSystem: React.FC<UrologicalReviewSystemProps> = () => {
-    const [isAuthenticated, setIsAuthenticated] = useState<boolean>(false);
-    const [currentUser, setCurrentUser] = useState<string | null>(null);
     const [view, setView] = useState<ViewState>('login');
     const [currentApplicantIndex, setCurrentApplicantIndex] = useState<number>(0);
+    const [email, setEmail] = useState<string>('');
     const [password, setPassword] = useState<string>('');
-    const [loginError, setLoginError] = useState<boolean>(false);
+    const [loginMode, setLoginMode] = useState<'password' | 'code'>('password');
+    const [loginCode, setLoginCode] = useState<string>('');
+    const [loginCodeSent, setLoginCodeSent] = useState<boolean>(false);
+    const [newPassword, setNewPassword] = useState<string>('');
+    const [currentPassword, setCurrentPassword] = useState<string>('');
+    const [passwordStatus, setPasswordStatus] = useState<'idle' | 'saved' | 'error'>('idle');
+    const [showAssignmentPlanner, setShowAssignmentPlanner] = useState<boolean>(false);
+    const [showImportWizard, setShowImportWizard] = useState<boolean>(false);
+    const [showWeightsEditor, setShowWeightsEditor] = useState<boolean>(false);
+    const [showAuditLog, setShowAuditLog] = useState<boolean>(false);
+    const [showReviewHistory, setShowReviewHistory] = useState<boolean>(false);
+    const [showDocuments, setShowDocuments] = useState<boolean>(false);
+    const [showExportPanel, setShowExportPanel] = useState<boolean>(false);
+    const [showRankList, setShowRankList] = useState<boolean>(false);
+    const [showInterviewSchedule, setShowInterviewSchedule] = useState<boolean>(false);
+    const [rankBy, setRankBy] = useState<RankingMode>('raw');
+    const [selectionReasons, setSelectionReasons] = useState<Record<string, string>>({});
     const [saveStatus, setSaveStatus] = useState<{ [key: string]: 'idle' | 'saving' | 'saved' | 'error' }>({});
 
-    // Use API data hook
-    const apiData = useApiData();
+    // Use auth and API data hooks
+    const auth = useAuth();
+    const apiData = useApiData({
+        canViewProgress: auth.can('progress:read_all'),
+        canViewFinalSelections: auth.can('final_selections:read')
+    });
+
+    // The signed-in reviewer is the only identity the UI acts as
+    const currentUser: string | null = auth.reviewer?.name ?? null;
+
+    // Past cycles can be browsed but not changed
+    const readOnlyCycle = !!apiData.selectedCycle && !apiData.selectedCycle.is_active;
+
+    // Load data once a session is established (or restored)
+    useEffect(() => {
+        if (auth.isAuthenticated) {
+            apiData.refreshAll();
+        }
+    }, [auth.isAuthenticated]);
+
+    // Rankings move whenever reviews change, so reload them on the way in
+    useEffect(() => {
+        if (view === 'final-approval') {
+            apiData.refreshFinalSelections();
+            apiData.refreshInterviewCapacity();
+        }
+    }, [view]);
+
+    // Send reviewers back home if they land on a view their role cannot use
+    useEffect(() => {
+        const allowed =
+            (view !== 'admin' || auth.can('progress:read_all')) &&
+            (view !== 'final-approval' || auth.can('final_selections:read')) &&
+            (view !== 'i-sub' || auth.can('applicants:write')) &&
+            (view !== 'interview' || auth.can('interviews:evaluate'));
+        if (auth.isAuthenticated && !allowed) {
+            setView('login');
+        }
+    }, [view, auth.isAuthenticated, auth.can]);
 
     // Convert ApiApplicant to legacy format for UI compatibility
     const convertToLegacyApplicant = (apiApplicant: ApiApplicant): Applicant => {
@@ -51,7 +123,7 @@ const UrologicalReviewSystem: React.FC<UrologicalReviewSystemProps> = () => {
             apiApplicant.external_id,
             apiApplicant.name.split(' ')[0] || '',
             apiApplicant.name.split(' ').slice(1).join(' ') || '',
-            apiApplicant.details || ''
+            apiApplicant.medical_school || ''
         ];
     };
 
@@ -113,23 +185,51 @@ const UrologicalReviewSystem: React.FC<UrologicalReviewSystemProps> = () => {
         [apiData, currentUser]
     );
 
-    const handlePasswordSubmit = (e: React.FormEvent<HTMLFormElement>): void => {
+    const handleLoginSubmit = async (e: React.FormEvent<HTMLFormElement>): Promise<void> => {
         e.preventDefault();
-        if (password === 'Urology2026') {
-            setIsAuthenticated(true);
-            setLoginError(false);
-        } else {
-            setLoginError(true);
-            setTimeout(() => setLoginError(false), 3000);
+
+        if (loginMode === 'password') {
+            const success = await auth.login(email, password);
+            if (success) {
+                setPassword('');
+                setView('login');
+            }
+            return;
+        }
+
+        if (!loginCodeSent) {
+            const response = await auth.requestLoginCode(email);
+            if (response) {
+                setLoginCodeSent(true);
+            }
+            return;
+        }
+
+        const success = await auth.verifyLoginCode(email, loginCode);
+        if (success) {
+            setLoginCode('');
+            setLoginCodeSent(false);
+            setView('login');
         }
     };
 
-    const handleLogin = (reviewer: string): void => {
-        setCurrentUser(reviewer);
-        setView('review');
+    const handleLogout = async (): Promise<void> => {
+        await auth.logout();
+        setCurrentApplicantIndex(0);
+        setView('login');
     };
 
-    const handleScoreChange = (applicantId: string, category: string, score: number): void => {
+    const handlePasswordChange = async (e: React.FormEvent<HTMLFormElement>): Promise<void> => {
+        e.preventDefault();
+        const success = await auth.changePassword(newPassword, currentPassword || undefined);
+        setPasswordStatus(success ? 'saved' : 'error');
+        if (success) {
+            setNewPassword('');
+            setCurrentPassword('');
+        }
+    };
+
+    const handleScoreChange = (applicantId: string, criterionKey: string, score: number): void => {
         // Get current review data from API
         const existingReview = apiData.reviews.find(r =>
             r.applicant_id === applicantId && r.reviewer_name === currentUser
@@ -137,7 +237,7 @@ const UrologicalReviewSystem: React.FC<UrologicalReviewSystemProps> = () => {
 
         const updatedReview: Partial<Review> = {
             ...existingReview,
-            [category]: score,
+            scores: { ...existingReview?.scores, [criterionKey]: score },
             reviewer_name: currentUser!,
             category: regularApplicants.some(([id]) => id === applicantId) ? 'regular' : 'i-sub'
         };
@@ -177,46 +277,70 @@ const UrologicalReviewSystem: React.FC<UrologicalReviewSystemProps> = () => {
         debouncedSave(applicantId, updatedReview);
     };
 
-    const handleAdminDecision = async (applicantId: string, decision: AdminDecision): Promise<void> => {
+    const handleAdminDecision = async (applicantId: string, decision: AdminDecision, selectionReason: string): Promise<void> => {
         try {
-            await apiData.saveFinalSelection(
-                applicantId,
-                decision === 'Selected' ? 'interview' : decision === 'Not Selected' ? 'reject' : 'waitlist'
-            );
+            const saved = await apiData.saveFinalSelection(applicantId, decision, selectionReason);
+            if (saved) {
+                // The stored reason is now the source of truth
+                setSelectionReasons(({ [applicantId]: _saved, ...drafts }) => drafts);
+            }
         } catch (error) {
             console.error('Error saving admin decision:', error);
         }
     };
 
+    const downloadSummaryPDF = async (): Promise<void> => {
+        const blob = await apiData.downloadSummaryPDF();
+        if (blob) {
+            saveFile(blob, `urology_summary_${apiData.selectedCycle?.name ?? 'cycle'}.pdf`);
+        }
+    };
+
+    const downloadApplicantPacket = async (applicant: ApiApplicant): Promise<void> => {
+        const blob = await apiData.downloadApplicantPacketPDF(applicant.id);
+        if (blob) {
+            saveFile(blob, `urology_packet_${applicant.name}.pdf`);
+        }
+    };
+
     const getReviewerRecommendations = (applicantId: string): Review[] => {
         return apiData.reviews.filter(r => r.applicant_id === applicantId);
     };
 
-    const getFinalSelectionStats = (): { regularSelected: number; iSubSelected: number; totalSelected: number; target: number } => {
-        const finalSelections = apiData.finalSelections || [];
-        const regularSelected = finalSelections.filter(selection => {
-            const applicant = regularApplicants.find(([aid]) => aid === selection.applicant_id);
-            return applicant && selection.admin_decision === 'Selected';
-        }).length;
-        const iSubSelected = finalSelections.filter(selection => {
-            const applicant = iSubApplicants.find(([aid]) => aid === selection.applicant_id);
-            return applicant && selection.admin_decision === 'Selected';
-        }).length;
-        const totalSelected = regularSelected + iSubSelected;
-        return { regularSelected, iSubSelected, totalSelected, target: 51 };
+    // Selected counts and targets come from the stored interview targets for the cycle
+    const getFinalSelectionStats = (): { regular: InterviewCapacity | undefined; iSub: InterviewCapacity | undefined; totalSelected: number; target: number | null; waitlisted: number } => {
+        const regular = apiData.interviewCapacity.find(capacity => capacity.category === 'regular');
+        const iSub = apiData.interviewCapacity.find(capacity => capacity.category === 'i-sub');
+        const totalSelected = (regular?.selected ?? 0) + (iSub?.selected ?? 0);
+        const slots = [regular?.slots, iSub?.slots].filter((value): value is number => typeof value === 'number');
+        const target = slots.length > 0 ? slots.reduce((sum, value) => sum + value, 0) : null;
+        const waitlisted = apiData.finalSelections.filter(selection => selection.admin_decision === 'Waitlisted').length;
+        return { regular, iSub, totalSelected, target, waitlisted };
     };
 
-    const getTotalScore = (applicantId: string): number => {
-        const review = apiData.reviews.find(r =>
-            r.applicant_id === applicantId && r.reviewer_name === currentUser
-        );
-        if (!review) return 0;
+    const formatRemaining = (remaining: number | null | undefined): string => {
+        if (remaining === null || remaining === undefined) return 'No target set';
+        return remaining < 0 ? `${-remaining} over target` : `${remaining} remaining`;
+    };
 
-        return SCORING_CATEGORIES.reduce((total: number, category: ScoringCategory) => {
-            return total + (review[category.key as keyof Review] as number || 0);
-        }, 0);
+    const getCurrentUserReview = (applicantId: string): Review | undefined =>
+        apiData.reviews.find(r => r.applicant_id === applicantId && r.reviewer_name === currentUser);
+
+    // Totals are computed server-side against the rubric the review was scored under
+    const getTotalScore = (applicantId: string): number => {
+        const review = getCurrentUserReview(applicantId);
+        return Number(review?.weighted_score ?? review?.total_score ?? 0);
     };
 
+    const getRawScore = (applicantId: string): number =>
+        getCurrentUserReview(applicantId)?.total_score ?? 0;
+
+    const rubricCriteria: RubricCriterion[] = apiData.rubric?.criteria || [];
+    const maxRawScore: number = rubricCriteria.reduce((total, criterion) => total + criterion.max_score, 0);
+    const maxTotalScore: number = parseFloat(rubricCriteria
+        .reduce((total, criterion) => total + criterion.max_score * Number(criterion.weight), 0)
+        .toFixed(2));
+
     const getCompletedReviews = (): ProgressInfo => {
         if (!currentUser) return { completed: 0, total: 0 };
         const userApplicants: Applicant[] = applicantDistribution[currentUser] || [];
@@ -229,52 +353,12 @@ const UrologicalReviewSystem: React.FC<UrologicalReviewSystemProps> = () => {
         return { completed, total: userApplicants.length };
     };
 
-    const exportData = async (): Promise<void> => {
-        try {
-            const data = await apiData.exportReviewData();
-            const csvData = data.applicants.map((applicant: ApiApplicant) => {
-                const review = data.reviews.find((r: Review) => r.applicant_id === applicant.id);
-                const finalSelection = data.finalSelections.find((f: FinalSelection) => f.applicant_id === applicant.id);
-                const isRegular = applicant.category === 'regular';
-                return {
-                    'AAMC ID': applicant.external_id,
-                    'First Name': applicant.name.split(' ')[0] || '',
-                    'Last Name': applicant.name.split(' ').slice(1).join(' ') || '',
-                    'Medical School': applicant.details || '',
-                    'Category': isRegular ? 'Regular' : 'I-Sub',
-                    'Reviewer': review?.reviewer_name || '',
-                    'Preference for Program': review?.preference || '',
-                    'Ability to Handle Pressure': review?.pressure || '',
-                    'Commitment to Underserved': review?.underserved || '',
-                    'Leadership': review?.leadership || '',
-                    'Academic Performance': review?.academic || '',
-                    'Research': review?.research || '',
-                    'Personal Attributes/Grit': review?.personal || '',
-                    'Total Score': review?.total_score || 0,
-                    'Notes': review?.notes || '',
-                    'Interview Recommendation': review?.decision || '',
-                    'Final Admin Decision': finalSelection?.admin_decision || 'Pending'
-                };
-            });
-
-            const csvContent = [
-                Object.keys(csvData[0] || {}).join(','),
-                ...csvData.map((row: any) => Object.values(row).map((val: any) => `"${val}"`).join(','))
-            ].join('\n');
-
-            const blob = new Blob([csvContent], { type: 'text/csv' });
-            const url = window.URL.createObjectURL(blob);
-            const a = document.createElement('a');
-            a.href = url;
-            a.download = 'urology_reviews_with_final_selections.csv';
-            a.click();
-        } catch (error) {
-            console.error('Error exporting data:', error);
+    // Sign-in Screen
+    if (!auth.isAuthenticated) {
+        if (auth.authLoading && !email) {
+            return <LoadingSpinner variant="fullscreen" size="large" text="Restoring your session..." />;
         }
-    };
 
-    // Password Screen
-    if (!isAuthenticated) {
         return (
             <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-blue-50 flex items-center justify-center">
                 <div className="bg-white rounded-xl shadow-2xl p-8 w-full max-w-md">
@@ -282,40 +366,92 @@ const UrologicalReviewSystem: React.FC<UrologicalReviewSystemProps> = () => {
                         <div className="inline-flex items-center justify-center w-20 h-20 bg-blue-100 rounded-full mb-6">
                             <FileText className="w-10 h-10 text-blue-600" />
                         </div>
-                        <h1 className="text-2xl font-bold text-gray-900 mb-2">Secure Access Required</h1>
-                        <p className="text-gray-600">Enter the system password to continue</p>
+                        <h1 className="text-2xl font-bold text-gray-900 mb-2">Reviewer Sign In</h1>
+                        <p className="text-gray-600">
+                            {loginMode === 'password' ? 'Sign in with your email and password' : 'We will send a one-time code to your email'}
+                        </p>
                     </div>
 
-                    <form onSubmit={handlePasswordSubmit} className="space-y-6">
+                    <form onSubmit={handleLoginSubmit} className="space-y-6">
                         <div>
-                            <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
-                                System Password
+                            <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
+                                Email
                             </label>
                             <input
-                                type="password"
-                                id="password"
-                                value={password}
-                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPassword(e.target.value)}
-                                className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${loginError ? 'border-red-500 bg-red-50' : 'border-gray-300'
-                                    }`}
-                                placeholder="Enter password"
+                                type="email"
+                                id="email"
+                                value={email}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEmail(e.target.value)}
+                                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                                placeholder="you@hospital.edu"
                                 required
                             />
-                            {loginError && (
-                                <p className="mt-2 text-sm text-red-600">
-                                    Incorrect password. Please try again.
-                                </p>
-                            )}
                         </div>
 
+                        {loginMode === 'password' && (
+                            <div>
+                                <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
+                                    Password
+                                </label>
+                                <input
+                                    type="password"
+                                    id="password"
+                                    value={password}
+                                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPassword(e.target.value)}
+                                    className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${auth.authError ? 'border-red-500 bg-red-50' : 'border-gray-300'
+                                        }`}
+                                    placeholder="Enter password"
+                                    required
+                                />
+                            </div>
+                        )}
+
+                        {loginMode === 'code' && loginCodeSent && (
+                            <div>
+                                <label htmlFor="login-code" className="block text-sm font-medium text-gray-700 mb-2">
+                                    Sign-in Code
+                                </label>
+                                <input
+                                    type="text"
+                                    id="login-code"
+                                    inputMode="numeric"
+                                    value={loginCode}
+                                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setLoginCode(e.target.value)}
+                                    className="w-full px-4 py-3 border border-gray-300 rounded-lg tracking-widest focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                                    placeholder="6-digit code"
+                                    required
+                                />
+                            </div>
+                        )}
+
+                        {auth.authError && (
+                            <ErrorMessage message={auth.authError} onDismiss={auth.clearAuthError} />
+                        )}
+
                         <button
                             type="submit"
-                            className="w-full bg-blue-600 text-white py-3 px-4 rounded-lg hover:bg-blue-700 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors font-medium"
+                            disabled={auth.authLoading}
+                            className="w-full bg-blue-600 text-white py-3 px-4 rounded-lg hover:bg-blue-700 disabled:bg-blue-300 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors font-medium"
                         >
-                            Access System
+                            {loginMode === 'password' ? 'Sign In' : loginCodeSent ? 'Verify Code' : 'Email Me a Code'}
                         </button>
                     </form>
 
+                    <div className="mt-4 text-center">
+                        <button
+                            type="button"
+                            onClick={() => {
+                                setLoginMode(loginMode === 'password' ? 'code' : 'password');
+                                setLoginCodeSent(false);
+                                setLoginCode('');
+                                auth.clearAuthError();
+                            }}
+                            className="text-sm text-blue-600 hover:underline"
+                        >
+                            {loginMode === 'password' ? 'Sign in with an email code instead' : 'Sign in with a password instead'}
+                        </button>
+                    </div>
+
                     <div className="mt-6 text-center text-xs text-gray-500">
                         Urology Residency Review System 2025
                     </div>
@@ -324,8 +460,9 @@ const UrologicalReviewSystem: React.FC<UrologicalReviewSystemProps> = () => {
         );
     }
 
-    // Login Screen
+    // Home Screen
     if (view === 'login') {
+        const assignedApplicants: Applicant[] = applicantDistribution[currentUser!] || [];
         return (
             <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-blue-50">
                 <div className="container mx-auto px-4 py-8">
@@ -334,45 +471,85 @@ const UrologicalReviewSystem: React.FC<UrologicalReviewSystemProps> = () => {
                             <FileText className="w-10 h-10 text-blue-600" />
                         </div>
                         <h1 className="text-4xl font-bold text-gray-900 mb-4">Urology Residency Review System</h1>
-                        <p className="text-xl text-gray-600">Select your reviewer profile to begin</p>
+                        <p className="text-xl text-gray-600">Welcome, {currentUser}</p>
                     </div>
 
-                    <div className="max-w-4xl mx-auto grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                        {reviewers.map((reviewer: string, index: number) => {
-                            const stats: Applicant[] = applicantDistribution[reviewer] || [];
-                            return (
-                                <div
-                                    key={reviewer}
-                                    onClick={() => handleLogin(reviewer)}
-                                    className="bg-white rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 cursor-pointer border border-gray-200 hover:border-blue-300 p-6"
-                                >
-                                    <div className="flex items-center mb-4">
-                                        <div className="w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center mr-4">
-                                            <User className="w-6 h-6 text-blue-600" />
-                                        </div>
-                                        <div>
-                                            <h3 className="font-semibold text-gray-900">{reviewer}</h3>
-                                            <p className="text-sm text-gray-500">Reviewer</p>
-                                        </div>
-                                    </div>
-                                    <div className="border-t pt-4">
-                                        <div className="flex justify-between text-sm">
-                                            <span className="text-gray-600">Applications:</span>
-                                            <span className="font-semibold text-blue-600">{stats.length}</span>
-                                        </div>
-                                    </div>
+                    <div className="max-w-md mx-auto">
+                        <div
+                            onClick={() => setView('review')}
+                            className="bg-white rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 cursor-pointer border border-gray-200 hover:border-blue-300 p-6"
+                        >
+                            <div className="flex items-center mb-4">
+                                <div className="w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center mr-4">
+                                    <User className="w-6 h-6 text-blue-600" />
                                 </div>
-                            );
-                        })}
+                                <div>
+                                    <h3 className="font-semibold text-gray-900">{currentUser}</h3>
+                                    <p className="text-sm text-gray-500">{auth.reviewer?.email}</p>
+                                </div>
+                            </div>
+                            <div className="border-t pt-4">
+                                <div className="flex justify-between text-sm">
+                                    <span className="text-gray-600">Applications:</span>
+                                    <span className="font-semibold text-blue-600">{assignedApplicants.length}</span>
+                                </div>
+                                <p className="text-blue-600 font-medium text-sm mt-3">Start Reviewing →</p>
+                            </div>
+                        </div>
+
+                        <form onSubmit={handlePasswordChange} className="bg-white rounded-xl shadow-lg border border-gray-200 p-6 mt-6 space-y-3">
+                            <h3 className="font-semibold text-gray-900">Set Password</h3>
+                            <input
+                                type="password"
+                                value={currentPassword}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCurrentPassword(e.target.value)}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                                placeholder="Current password (leave blank if none set)"
+                            />
+                            <input
+                                type="password"
+                                value={newPassword}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewPassword(e.target.value)}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                                placeholder="New password (8+ characters)"
+                                minLength={8}
+                                required
+                            />
+                            {passwordStatus === 'saved' && <p className="text-sm text-green-600">Password updated.</p>}
+                            {passwordStatus === 'error' && auth.authError && <p className="text-sm text-red-600">{auth.authError}</p>}
+                            <button
+                                type="submit"
+                                className="w-full px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                            >
+                                Update Password
+                            </button>
+                        </form>
                     </div>
 
-                    <div className="mt-12 text-center">
+                    <div className="mt-12 text-center space-x-3">
+                        {auth.can('interviews:evaluate') && (
+                            <button
+                                onClick={() => setView('interview')}
+                                className="inline-flex items-center px-6 py-3 bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 transition-colors"
+                            >
+                                <Calendar className="w-5 h-5 mr-2" />
+                                Interview Evaluations
+                            </button>
+                        )}
+                        {auth.can('progress:read_all') && (
+                            <button
+                                onClick={() => setView('admin')}
+                                className="inline-flex items-center px-6 py-3 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                            >
+                                <BarChart3 className="w-5 h-5 mr-2" />
+                                Admin Dashboard
+                            </button>
+                        )}
                         <button
-                            onClick={() => setView('admin')}
-                            className="inline-flex items-center px-6 py-3 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                            onClick={handleLogout}
+                            className="inline-flex items-center px-6 py-3 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
                         >
-                            <BarChart3 className="w-5 h-5 mr-2" />
-                            Admin Dashboard
+                            Sign Out
                         </button>
                     </div>
                 </div>
@@ -387,45 +564,38 @@ const UrologicalReviewSystem: React.FC<UrologicalReviewSystemProps> = () => {
         const iSubApplicantsCount = apiData.iSubApplicants.length;
         const totalApplicants = regularApplicantsCount + iSubApplicantsCount;
 
-        // Calculate completion rates using API data
-        const regularReviews = apiData.reviews.filter(r =>
-            apiData.regularApplicants.some(app => app.id === r.applicant_id)
-        );
-        const completedRegularReviews = regularReviews.filter(r => r.decision).length;
-
-        const iSubReviews = apiData.reviews.filter(r =>
-            apiData.iSubApplicants.some(app => app.id === r.applicant_id)
-        );
-        const completedISubReviews = iSubReviews.filter(r => r.decision).length;
-
-        const reviewerStats: ReviewerStats[] = reviewers.map((reviewer: string) => {
-            const assignedApplicants: Applicant[] = applicantDistribution[reviewer] || [];
-            const completed: number = assignedApplicants.filter(([id]) => {
-                const review = apiData.reviews.find(r => r.applicant_id === id && r.reviewer_name === reviewer);
-                return review && review.decision;
-            }).length;
-            return {
-                name: reviewer,
-                assigned: assignedApplicants.length,
-                completed,
-                percentage: assignedApplicants.length > 0 ? Math.round((completed / assignedApplicants.length) * 100) : 0
-            };
-        });
+        // Completion is counted over assigned applicant-reviewer pairs by the backend
+        const regularProgress = apiData.progress?.byCategory.find(c => c.category === 'regular');
+        const iSubProgress = apiData.progress?.byCategory.find(c => c.category === 'i-sub');
+        const reviewerStats: ReviewerStats[] = apiData.progress?.byReviewer || [];
+        const allReviewsComplete = !!apiData.progress &&
+            apiData.progress.overall.total > 0 &&
+            apiData.progress.overall.completed === apiData.progress.overall.total;
 
         return (
             <div className="min-h-screen bg-gray-50">
                 <div className="bg-white shadow-sm border-b">
                     <div className="container mx-auto px-4 py-4 flex justify-between items-center">
-                        <h1 className="text-2xl font-bold text-gray-900">Admin Dashboard</h1>
+                        <div className="flex items-center space-x-4">
+                            <h1 className="text-2xl font-bold text-gray-900">Admin Dashboard</h1>
+                            <CycleSelector
+                                cycles={apiData.cycles}
+                                selectedCycle={apiData.selectedCycle}
+                                onSelect={apiData.selectCycle}
+                                {...(auth.can('cycles:manage') ? { onCreate: apiData.createCycle, onActivate: apiData.activateCycle } : {})}
+                            />
+                        </div>
                         <div className="flex space-x-3">
-                            <button
-                                onClick={exportData}
-                                className="inline-flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
-                            >
-                                <Download className="w-4 h-4 mr-2" />
-                                Export Data
-                            </button>
-                            {(completedRegularReviews === regularApplicantsCount && completedISubReviews === iSubApplicantsCount) && (
+                            {auth.can('data:export') && (
+                                <button
+                                    onClick={() => setShowExportPanel(!showExportPanel)}
+                                    className="inline-flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                                >
+                                    <Download className="w-4 h-4 mr-2" />
+                                    Export Data
+                                </button>
+                            )}
+                            {auth.can('final_selections:read') && allReviewsComplete && (
                                 <button
                                     onClick={() => setView('final-approval')}
                                     className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
@@ -434,23 +604,171 @@ const UrologicalReviewSystem: React.FC<UrologicalReviewSystemProps> = () => {
                                     Final Approval
                                 </button>
                             )}
-                            <button
-                                onClick={() => setView('i-sub')}
-                                className="inline-flex items-center px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
-                            >
-                                Manage I Sub
-                            </button>
+                            {auth.can('final_selections:read') && (
+                                <button
+                                    onClick={() => setShowInterviewSchedule(true)}
+                                    className="inline-flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+                                >
+                                    <Calendar className="w-4 h-4 mr-2" />
+                                    Interview Schedule
+                                </button>
+                            )}
+                            {auth.can('assignments:manage') && !readOnlyCycle && (
+                                <button
+                                    onClick={() => setShowAssignmentPlanner(true)}
+                                    className="inline-flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+                                >
+                                    <Users className="w-4 h-4 mr-2" />
+                                    Assign Applicants
+                                </button>
+                            )}
+                            {auth.can('rubrics:manage') && apiData.rubric && (
+                                <button
+                                    onClick={() => setShowWeightsEditor(true)}
+                                    className="inline-flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+                                >
+                                    <BarChart3 className="w-4 h-4 mr-2" />
+                                    Criterion Weights
+                                </button>
+                            )}
+                            {auth.can('audit:read') && (
+                                <button
+                                    onClick={() => setShowAuditLog(true)}
+                                    className="inline-flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+                                >
+                                    <History className="w-4 h-4 mr-2" />
+                                    Audit Log
+                                </button>
+                            )}
+                            {auth.can('applicants:write') && !readOnlyCycle && (
+                                <button
+                                    onClick={() => setShowImportWizard(true)}
+                                    className="inline-flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+                                >
+                                    <Upload className="w-4 h-4 mr-2" />
+                                    Import Applicants
+                                </button>
+                            )}
+                            {auth.can('applicants:write') && !readOnlyCycle && (
+                                <button
+                                    onClick={() => setView('i-sub')}
+                                    className="inline-flex items-center px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
+                                >
+                                    Manage I Sub
+                                </button>
+                            )}
                             <button
                                 onClick={() => setView('login')}
                                 className="inline-flex items-center px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
                             >
-                                Back to Login
+                                Back to Home
                             </button>
                         </div>
                     </div>
                 </div>
 
                 <div className="container mx-auto px-4 py-8">
+                    {apiData.cyclesError && (
+                        <div className="mb-6">
+                            <ErrorMessage message={apiData.cyclesError} onRetry={apiData.refreshCycles} />
+                        </div>
+                    )}
+                    {readOnlyCycle && (
+                        <div className="mb-6 p-4 bg-gray-100 border border-gray-300 rounded-lg text-gray-700">
+                            The {apiData.selectedCycle!.name} cycle is closed and read-only.
+                        </div>
+                    )}
+                    {apiData.distributionError && (
+                        <div className="mb-6">
+                            <ErrorMessage message={apiData.distributionError} onRetry={apiData.refreshDistribution} />
+                        </div>
+                    )}
+                    {apiData.progressError && (
+                        <div className="mb-6">
+                            <ErrorMessage message={apiData.progressError} onRetry={apiData.refreshProgress} />
+                        </div>
+                    )}
+                    {showExportPanel && apiData.exportError && (
+                        <div className="mb-6">
+                            <ErrorMessage message={apiData.exportError} />
+                        </div>
+                    )}
+                    {showExportPanel && (
+                        <ExportPanel
+                            cycleName={apiData.selectedCycle?.name}
+                            onLoadColumns={apiData.fetchExportColumns}
+                            onDownload={apiData.downloadExportCSV}
+                            onDownloadWorkbook={apiData.downloadExportXLSX}
+                            onClose={() => setShowExportPanel(false)}
+                        />
+                    )}
+                    {showImportWizard && apiData.importError && (
+                        <div className="mb-6">
+                            <ErrorMessage message={apiData.importError} />
+                        </div>
+                    )}
+                    {showImportWizard && !readOnlyCycle && (
+                        <ApplicantImportWizard
+                            onImport={apiData.importApplicants}
+                            onClose={() => setShowImportWizard(false)}
+                        />
+                    )}
+                    {showAssignmentPlanner && (
+                        <AssignmentPlanner
+                            onDistribute={apiData.distributeApplicants}
+                            onClose={() => setShowAssignmentPlanner(false)}
+                        />
+                    )}
+                    {showWeightsEditor && apiData.rubric && (
+                        <RubricWeightsEditor
+                            rubric={apiData.rubric}
+                            onSave={apiData.updateRubricWeights}
+                            onClose={() => setShowWeightsEditor(false)}
+                        />
+                    )}
+                    {showAuditLog && apiData.auditError && (
+                        <div className="mb-6">
+                            <ErrorMessage message={apiData.auditError} />
+                        </div>
+                    )}
+                    {showAuditLog && (
+                        <AuditLogViewer
+                            applicants={apiData.applicants}
+                            reviewers={apiData.reviewers}
+                            onSearch={apiData.fetchAuditLog}
+                            onClose={() => setShowAuditLog(false)}
+                        />
+                    )}
+                    {showInterviewSchedule && apiData.interviewsError && (
+                        <div className="mb-6">
+                            <ErrorMessage message={apiData.interviewsError} />
+                        </div>
+                    )}
+                    {showInterviewSchedule && (
+                        <InterviewSchedulePanel
+                            onLoad={apiData.fetchInterviewSchedule}
+                            {...(auth.can('interviews:manage') && !readOnlyCycle ? {
+                                onCreateDate: apiData.createInterviewDate,
+                                onUpdateDate: apiData.updateInterviewDate,
+                                onDeleteDate: apiData.deleteInterviewDate,
+                                onBook: apiData.bookInterview,
+                                onCancelBooking: apiData.cancelInterviewBooking
+                            } : {})}
+                            onDownloadDateICS={apiData.downloadInterviewDateICS}
+                            onDownloadApplicantICS={apiData.downloadApplicantInterviewICS}
+                            onClose={() => setShowInterviewSchedule(false)}
+                        />
+                    )}
+                    {apiData.interviewCapacityError && (
+                        <div className="mb-6">
+                            <ErrorMessage message={apiData.interviewCapacityError} onRetry={apiData.refreshInterviewCapacity} />
+                        </div>
+                    )}
+                    <InterviewTargetsPanel
+                        capacity={apiData.interviewCapacity}
+                        {...(auth.can('interview_targets:manage') && !readOnlyCycle ? { onSave: apiData.updateInterviewTarget } : {})}
+                    />
+
                     {/* Regular Applicants Statistics */}
                     <div className="mb-6">
                         <h2 className="text-xl font-bold text-gray-900 mb-4">Regular Applicants</h2>
@@ -463,6 +781,9 @@ const UrologicalReviewSystem: React.FC<UrologicalReviewSystemProps> = () => {
                                     <div>
                                         <p className="text-sm text-gray-600">Total Regular Applications</p>
                                         <p className="text-2xl font-bold text-gray-900">{regularApplicantsCount}</p>
+                                        {!!regularProgress?.unassigned && (
+                                            <p className="text-xs text-orange-600">{regularProgress.unassigned} not yet assigned</p>
+                                        )}
                                     </div>
                                 </div>
                             </div>
@@ -474,7 +795,9 @@ const UrologicalReviewSystem: React.FC<UrologicalReviewSystemProps> = () => {
                                     </div>
                                     <div>
                                         <p className="text-sm text-gray-600">Completed Regular Reviews</p>
-                                        <p className="text-2xl font-bold text-gray-900">{completedRegularReviews}</p>
+                                        <p className="text-2xl font-bold text-gray-900">
+                                            {regularProgress?.completed ?? 0}/{regularProgress?.assigned ?? 0}
+                                        </p>
                                     </div>
                                 </div>
                             </div>
@@ -487,7 +810,7 @@ const UrologicalReviewSystem: React.FC<UrologicalReviewSystemProps> = () => {
                                     <div>
                                         <p className="text-sm text-gray-600">Regular Completion Rate</p>
                                         <p className="text-2xl font-bold text-gray-900">
-                                            {regularApplicantsCount > 0 ? Math.round((completedRegularReviews / regularApplicantsCount) * 100) : 0}%
+                                            {regularProgress?.percentage ?? 0}%
                                         </p>
                                     </div>
                                 </div>
@@ -507,6 +830,9 @@ const UrologicalReviewSystem: React.FC<UrologicalReviewSystemProps> = () => {
                                     <div>
                                         <p className="text-sm text-gray-600">Total I Sub Applications</p>
                                         <p className="text-2xl font-bold text-gray-900">{iSubApplicantsCount}</p>
+                                        {!!iSubProgress?.unassigned && (
+                                            <p className="text-xs text-orange-600">{iSubProgress.unassigned} not yet assigned</p>
+                                        )}
                                     </div>
                                 </div>
                             </div>
@@ -518,7 +844,9 @@ const UrologicalReviewSystem: React.FC<UrologicalReviewSystemProps> = () => {
                                     </div>
                                     <div>
                                         <p className="text-sm text-gray-600">Completed I Sub Reviews</p>
-                                        <p className="text-2xl font-bold text-gray-900">{completedISubReviews}</p>
+                                        <p className="text-2xl font-bold text-gray-900">
+                                            {iSubProgress?.completed ?? 0}/{iSubProgress?.assigned ?? 0}
+                                        </p>
                                     </div>
                                 </div>
                             </div>
@@ -531,7 +859,7 @@ const UrologicalReviewSystem: React.FC<UrologicalReviewSystemProps> = () => {
                                     <div>
                                         <p className="text-sm text-gray-600">I Sub Completion Rate</p>
                                         <p className="text-2xl font-bold text-gray-900">
-                                            {iSubApplicantsCount > 0 ? Math.round((completedISubReviews / iSubApplicantsCount) * 100) : 0}%
+                                            {iSubProgress?.percentage ?? 0}%
                                         </p>
                                     </div>
                                 </div>
@@ -568,7 +896,17 @@ const UrologicalReviewSystem: React.FC<UrologicalReviewSystemProps> = () => {
 
     if (view === 'final-approval') {
         const stats = getFinalSelectionStats();
-        const allApplicants = [...apiData.regularApplicants, ...apiData.iSubApplicants];
+        const canDecide = auth.can('final_selections:decide') && !readOnlyCycle;
+        const selectionsByApplicant = new Map(apiData.finalSelections.map(selection => [selection.applicant_id, selection]));
+
+        // Unranked applicants (no reviews, or no calibrated reviewers) sort last
+        const rankOf = (applicantId: string): number => {
+            const selection = selectionsByApplicant.get(applicantId);
+            const rank = rankBy === 'normalized' ? selection?.normalized_rank : selection?.raw_rank;
+            return rank ?? Number.MAX_SAFE_INTEGER;
+        };
+        const allApplicants = [...apiData.regularApplicants, ...apiData.iSubApplicants]
+            .sort((a, b) => rankOf(a.id) - rankOf(b.id));
 
         return (
             <div className="min-h-screen bg-gray-50">
@@ -577,12 +915,30 @@ const UrologicalReviewSystem: React.FC<UrologicalReviewSystemProps> = () => {
                         <h1 className="text-2xl font-bold text-gray-900">Final Approval</h1>
                         <div className="flex space-x-3">
                             <button
-                                onClick={exportData}
-                                className="inline-flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                                onClick={() => setShowRankList(!showRankList)}
+                                className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
                             >
-                                <Download className="w-4 h-4 mr-2" />
-                                Export Data
+                                <ListOrdered className="w-4 h-4 mr-2" />
+                                Rank List
                             </button>
+                            {auth.can('data:export') && (
+                                <button
+                                    onClick={downloadSummaryPDF}
+                                    className="inline-flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+                                >
+                                    <FileText className="w-4 h-4 mr-2" />
+                                    Summary PDF
+                                </button>
+                            )}
+                            {auth.can('data:export') && (
+                                <button
+                                    onClick={() => setShowExportPanel(!showExportPanel)}
+                                    className="inline-flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                                >
+                                    <Download className="w-4 h-4 mr-2" />
+                                    Export Data
+                                </button>
+                            )}
                             <button
                                 onClick={() => setView('admin')}
                                 className="inline-flex items-center px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
@@ -594,6 +950,43 @@ const UrologicalReviewSystem: React.FC<UrologicalReviewSystemProps> = () => {
                 </div>
 
                 <div className="container mx-auto px-4 py-8">
+                    {apiData.exportError && (
+                        <div className="mb-6">
+                            <ErrorMessage message={apiData.exportError} />
+                        </div>
+                    )}
+                    {showExportPanel && (
+                        <ExportPanel
+                            cycleName={apiData.selectedCycle?.name}
+                            onLoadColumns={apiData.fetchExportColumns}
+                            onDownload={apiData.downloadExportCSV}
+                            onDownloadWorkbook={apiData.downloadExportXLSX}
+                            onClose={() => setShowExportPanel(false)}
+                        />
+                    )}
+                    {showRankList && apiData.rankListError && (
+                        <div className="mb-6">
+                            <ErrorMessage message={apiData.rankListError} />
+                        </div>
+                    )}
+                    {showRankList && (
+                        <RankListBuilder
+                            cycleName={apiData.selectedCycle?.name}
+                            onLoad={apiData.fetchRankList}
+                            onLoadVersions={apiData.fetchRankListVersions}
+                            {...(auth.can('rank_list:manage') && !readOnlyCycle ? {
+                                onSave: apiData.saveRankList,
+                                onSeed: apiData.seedRankList,
+                                onCreateVersion: apiData.createRankListVersion,
+                                onRestore: apiData.restoreRankListVersion
+                            } : {})}
+                            {...(auth.can('data:export') ? {
+                                onDownloadCSV: apiData.downloadRankListCSV,
+                                onDownloadPDF: apiData.downloadRankListPDF
+                            } : {})}
+                            onClose={() => setShowRankList(false)}
+                        />
+                    )}
                     <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
                         <div className="bg-white rounded-xl shadow-lg p-6">
                             <div className="flex items-center">
@@ -602,7 +995,8 @@ const UrologicalReviewSystem: React.FC<UrologicalReviewSystemProps> = () => {
                                 </div>
                                 <div>
                                     <p className="text-sm text-gray-600">Regular Selected</p>
-                                    <p className="text-2xl font-bold text-gray-900">{stats.regularSelected}/48</p>
+                                    <p className="text-2xl font-bold text-gray-900">{stats.regular?.selected ?? 0}/{stats.regular?.slots ?? '-'}</p>
+                                    <p className="text-sm text-gray-500">{formatRemaining(stats.regular?.remaining)}</p>
                                 </div>
                             </div>
                         </div>
@@ -614,7 +1008,8 @@ const UrologicalReviewSystem: React.FC<UrologicalReviewSystemProps> = () => {
                                 </div>
                                 <div>
                                     <p className="text-sm text-gray-600">I-Sub Selected</p>
-                                    <p className="text-2xl font-bold text-gray-900">{stats.iSubSelected}/3</p>
+                                    <p className="text-2xl font-bold text-gray-900">{stats.iSub?.selected ?? 0}/{stats.iSub?.slots ?? '-'}</p>
+                                    <p className="text-sm text-gray-500">{formatRemaining(stats.iSub?.remaining)}</p>
                                 </div>
                             </div>
                         </div>
@@ -626,19 +1021,53 @@ const UrologicalReviewSystem: React.FC<UrologicalReviewSystemProps> = () => {
                                 </div>
                                 <div>
                                     <p className="text-sm text-gray-600">Total Selected</p>
-                                    <p className="text-2xl font-bold text-gray-900">{stats.totalSelected}/51</p>
+                                    <p className="text-2xl font-bold text-gray-900">{stats.totalSelected}/{stats.target ?? '-'}</p>
+                                    {stats.waitlisted > 0 && <p className="text-sm text-gray-500">{stats.waitlisted} waitlisted</p>}
                                 </div>
                             </div>
                         </div>
                     </div>
 
+                    {apiData.finalSelectionsError && (
+                        <div className="mb-6">
+                            <ErrorMessage message={apiData.finalSelectionsError} onRetry={apiData.refreshFinalSelections} />
+                        </div>
+                    )}
+                    {apiData.finalSelectionConflict && (
+                        <SaveConflictBanner
+                            title={`Someone else changed the decision for ${allApplicants.find(applicant => applicant.id === apiData.finalSelectionConflict!.applicantId)?.name ?? 'this applicant'}`}
+                            fields={finalSelectionConflictFields(apiData.finalSelectionConflict)}
+                            onResolve={apiData.resolveFinalSelectionConflict}
+                        />
+                    )}
+
                     <div className="bg-white rounded-xl shadow-lg p-6">
-                        <h2 className="text-xl font-bold text-gray-900 mb-6">All Applicants</h2>
+                        <div className="flex justify-between items-center mb-6">
+                            <div>
+                                <h2 className="text-xl font-bold text-gray-900">All Applicants</h2>
+                                <p className="text-sm text-gray-600">
+                                    Normalized scores compare each review with the reviewer's own average, so harsh and generous reviewers count equally.
+                                </p>
+                            </div>
+                            <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+                                {(['raw', 'normalized'] as RankingMode[]).map(mode => (
+                                    <button
+                                        key={mode}
+                                        onClick={() => setRankBy(mode)}
+                                        className={`px-4 py-2 text-sm ${rankBy === mode ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                                    >
+                                        {mode === 'raw' ? 'Raw Ranking' : 'Normalized Ranking'}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
                         <div className="space-y-4">
                             {allApplicants.map((applicant: ApiApplicant) => {
                                 const recommendations = getReviewerRecommendations(applicant.id);
-                                const decision = 'Pending'; // TODO: Get from actual final selections
-                                const totalScore = getTotalScore(applicant.id);
+                                const selection = selectionsByApplicant.get(applicant.id);
+                                const decision: AdminDecision = selection?.admin_decision ?? 'Pending';
+                                const storedReason = selection?.selection_reason ?? '';
+                                const reason = selectionReasons[applicant.id] ?? storedReason;
                                 const isRegular = apiData.regularApplicants.some(app => app.id === applicant.id);
 
                                 return (
@@ -646,12 +1075,41 @@ const UrologicalReviewSystem: React.FC<UrologicalReviewSystemProps> = () => {
                                         <div className="flex justify-between items-start mb-4">
                                             <div>
                                                 <h3 className="font-bold text-lg text-gray-900">{applicant.name}</h3>
-                                                <p className="text-gray-600">ID: {applicant.id} | {applicant.details}</p>
+                                                <p className="text-gray-600">ID: {applicant.id} | {applicant.medical_school}</p>
                                                 <p className="text-sm text-gray-500">Category: {isRegular ? 'Regular' : 'I-Sub'}</p>
+                                                {auth.can('data:export') && (
+                                                    <button
+                                                        onClick={() => downloadApplicantPacket(applicant)}
+                                                        className="mt-1 inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+                                                    >
+                                                        <Download className="w-4 h-4 mr-1" />
+                                                        Applicant packet (PDF)
+                                                    </button>
+                                                )}
                                             </div>
                                             <div className="text-right">
-                                                <p className="text-sm text-gray-600">Total Score</p>
-                                                <p className="text-xl font-bold text-blue-600">{totalScore}/35</p>
+                                                <p className="text-sm text-gray-600">
+                                                    Average Score{selection?.raw_rank ? ` (#${selection.raw_rank})` : ''}
+                                                </p>
+                                                <p className="text-xl font-bold text-blue-600">{selection?.average_score ?? '-'}/{maxTotalScore}</p>
+                                                <p className="text-xs text-gray-500">Raw: {selection?.raw_average_score ?? '-'}/{maxRawScore}</p>
+                                                <p className="text-sm text-gray-600 mt-2">
+                                                    Normalized{selection?.normalized_rank ? ` (#${selection.normalized_rank})` : ''}
+                                                </p>
+                                                <p className="text-lg font-semibold text-purple-600">
+                                                    {typeof selection?.normalized_score === 'number'
+                                                        ? `${selection.normalized_score > 0 ? '+' : ''}${selection.normalized_score.toFixed(2)}`
+                                                        : 'Not calibrated'}
+                                                </p>
+                                                <p className="text-sm text-gray-600 mt-2">Interview</p>
+                                                <p className="text-lg font-semibold text-green-600">
+                                                    {selection?.interview_score ?? 'Not interviewed'}
+                                                </p>
+                                                {!!selection?.interview_count && (
+                                                    <p className="text-xs text-gray-500">
+                                                        {selection.interview_count} interviewer{selection.interview_count === 1 ? '' : 's'}
+                                                    </p>
+                                                )}
                                             </div>
                                         </div>
 
@@ -668,16 +1126,39 @@ const UrologicalReviewSystem: React.FC<UrologicalReviewSystemProps> = () => {
 
                                         <div className="flex items-center justify-between">
                                             <label className="text-sm font-semibold text-gray-700">Final Decision:</label>
-                                            <select
-                                                value={decision}
-                                                onChange={(e) => handleAdminDecision(applicantId, e.target.value as AdminDecision)}
-                                                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                                            >
-                                                <option value="Pending">Pending</option>
-                                                <option value="Selected">Selected</option>
-                                                <option value="Not Selected">Not Selected</option>
-                                            </select>
+                                            <div className="flex items-center space-x-3">
+                                                {selection?.decided_at && decision !== 'Pending' && (
+                                                    <span className="text-xs text-gray-500">
+                                                        Decided {new Date(selection.decided_at).toLocaleDateString()}
+                                                    </span>
+                                                )}
+                                                <select
+                                                    value={decision}
+                                                    onChange={(e) => handleAdminDecision(applicant.id, e.target.value as AdminDecision, reason)}
+                                                    disabled={!canDecide}
+                                                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100 disabled:text-gray-500"
+                                                >
+                                                    <option value="Pending">Pending</option>
+                                                    <option value="Selected">Selected</option>
+                                                    <option value="Waitlisted">Waitlisted</option>
+                                                    <option value="Not Selected">Not Selected</option>
+                                                </select>
+                                            </div>
                                         </div>
+                                        <textarea
+                                            value={reason}
+                                            onChange={(e) => setSelectionReasons(prev => ({ ...prev, [applicant.id]: e.target.value }))}
+                                            onBlur={() => {
+                                                if (reason !== storedReason) {
+                                                    handleAdminDecision(applicant.id, decision, reason);
+                                                }
+                                            }}
+                                            readOnly={!canDecide}
+                                            maxLength={2000}
+                                            rows={2}
+                                            placeholder={canDecide ? 'Reason for this decision (optional)' : 'No reason recorded'}
+                                            className="mt-3 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 read-only:bg-gray-100"
+                                        />
                                     </div>
                                 );
                             })}
@@ -707,7 +1188,7 @@ const UrologicalReviewSystem: React.FC<UrologicalReviewSystemProps> = () => {
                                     Progress: {progress.completed}/{progress.total} ({Math.round((progress.completed / progress.total) * 100)}%)
                                 </div>
                                 <button
-                                    onClick={() => setView('login')}
+                                    onClick={handleLogout}
                                     className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
                                 >
                                     Logout
@@ -766,7 +1247,7 @@ const UrologicalReviewSystem: React.FC<UrologicalReviewSystemProps> = () => {
                                                 )}
                                                 <div className="text-right">
                                                     <p className="text-sm text-gray-600">Score:</p>
-                                                    <p className="text-xl font-bold text-blue-600">{totalScore}/35</p>
+                                                    <p className="text-xl font-bold text-blue-600">{totalScore}/{maxTotalScore}</p>
                                                 </div>
                                             </div>
                                         </div>
@@ -804,6 +1285,43 @@ const UrologicalReviewSystem: React.FC<UrologicalReviewSystemProps> = () => {
     }
 
     // I Sub Management View
+    // Interview-day scoring against the interview rubric
+    if (view === 'interview') {
+        return (
+            <div className="min-h-screen bg-gray-50">
+                <div className="bg-white shadow-sm border-b">
+                    <div className="container mx-auto px-4 py-4 flex justify-between items-center">
+                        <div>
+                            <h1 className="text-2xl font-bold text-gray-900">Interview Evaluations</h1>
+                            <p className="text-gray-600">Interviewer: {currentUser}</p>
+                        </div>
+                        <button
+                            onClick={() => setView('login')}
+                            className="inline-flex items-center px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+                        >
+                            Back to Home
+                        </button>
+                    </div>
+                </div>
+
+                <div className="container mx-auto px-4 py-8">
+                    {apiData.interviewEvaluationsError && (
+                        <div className="max-w-4xl mx-auto mb-6">
+                            <ErrorMessage message={apiData.interviewEvaluationsError} />
+                        </div>
+                    )}
+                    <InterviewEvaluationScreen
+                        applicants={[...apiData.regularApplicants, ...apiData.iSubApplicants]}
+                        onLoadRubric={apiData.fetchInterviewRubric}
+                        onLoadDays={apiData.fetchInterviewDays}
+                        onLoadEvaluations={apiData.fetchInterviewEvaluations}
+                        {...(!readOnlyCycle ? { onSave: apiData.saveInterviewEvaluation } : {})}
+                    />
+                </div>
+            </div>
+        );
+    }
+
     if (view === 'i-sub') {
         return (
             <div className="min-h-screen bg-gray-50">
@@ -901,7 +1419,7 @@ const UrologicalReviewSystem: React.FC<UrologicalReviewSystemProps> = () => {
                                                     <h3 className="font-semibold text-gray-900">
                                                         {applicant.name}
                                                     </h3>
-                                                    <p className="text-sm text-gray-600">{applicant.details}</p>
+                                                    <p className="text-sm text-gray-600">{applicant.medical_school}</p>
                                                     <p className="text-xs text-purple-600 font-medium mt-1">I Sub</p>
                                                 </div>
                                             </div>
@@ -948,6 +1466,8 @@ const UrologicalReviewSystem: React.FC<UrologicalReviewSystemProps> = () => {
 
     const [applicantId, firstName, lastName, medicalSchool] = currentApplicant;
     const currentReview: Review = apiData.reviews.find(r => r.applicant_id === applicantId) || {};
+    // Full profile; the distribution entry only carries the name and school
+    const applicantProfile: ApiApplicant | undefined = apiData.applicants.find(applicant => applicant.id === applicantId);
 
     return (
         <div className="min-h-screen bg-gray-50">
@@ -969,7 +1489,7 @@ const UrologicalReviewSystem: React.FC<UrologicalReviewSystemProps> = () => {
                                 View All Applicants
                             </button>
                             <button
-                                onClick={() => setView('login')}
+                                onClick={handleLogout}
                                 className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
                             >
                                 Logout
@@ -987,89 +1507,165 @@ const UrologicalReviewSystem: React.FC<UrologicalReviewSystemProps> = () => {
             </div>
 
             <div className="container mx-auto px-4 py-8">
-                <div className="max-w-4xl mx-auto">
-                    <div className="bg-white rounded-xl shadow-lg p-6 mb-6">
-                        <div className="flex justify-between items-start mb-6">
-                            <div>
-                                <h2 className="text-2xl font-bold text-gray-900 mb-2">{firstName} {lastName}</h2>
-                                <p className="text-gray-600 mb-2">AAMC ID: {applicantId}</p>
-                                <p className="text-gray-700">{medicalSchool}</p>
-                            </div>
-                            <div className="text-right">
-                                <p className="text-sm text-gray-600">Application {currentApplicantIndex + 1} of {userApplicants.length}</p>
-                                <p className="text-2xl font-bold text-blue-600">Total: {getTotalScore(applicantId)}/35</p>
+                <div className={`${showDocuments ? 'max-w-7xl' : 'max-w-4xl'} mx-auto`}>
+                    {apiData.reviewConflict?.applicantId === applicantId && (
+                        <SaveConflictBanner
+                            title="This review was changed in another tab or by someone else"
+                            fields={reviewConflictFields(apiData.reviewConflict, rubricCriteria)}
+                            onResolve={apiData.resolveReviewConflict}
+                        />
+                    )}
+                    {/* With documents open, the PDF sits beside the scoring criteria */}
+                    <div className={showDocuments ? 'lg:grid lg:grid-cols-2 lg:gap-6 lg:items-start' : ''}>
+                        <div className="bg-white rounded-xl shadow-lg p-6 mb-6">
+                            <div className="flex justify-between items-start mb-6">
+                                {applicantProfile ? (
+                                    <ApplicantProfileCard applicant={applicantProfile} />
+                                ) : (
+                                    <div>
+                                        <h2 className="text-2xl font-bold text-gray-900 mb-2">{firstName} {lastName}</h2>
+                                        <p className="text-gray-700">{medicalSchool}</p>
+                                    </div>
+                                )}
+                                <div className="text-right">
+                                    <p className="text-sm text-gray-600">Application {currentApplicantIndex + 1} of {userApplicants.length}</p>
+                                    <p className="text-2xl font-bold text-blue-600">Total: {getTotalScore(applicantId)}/{maxTotalScore}</p>
+                                    <p className="text-sm text-gray-500">Raw: {getRawScore(applicantId)}/{maxRawScore}</p>
+                                    <button
+                                        onClick={() => setShowReviewHistory(!showReviewHistory)}
+                                        disabled={!currentReview.id}
+                                        className="mt-2 text-sm text-blue-600 hover:text-blue-800 disabled:text-gray-400 disabled:cursor-not-allowed"
+                                    >
+                                        {showReviewHistory ? 'Hide History' : 'History'}
+                                    </button>
+                                    <button
+                                        onClick={() => setShowDocuments(!showDocuments)}
+                                        className="mt-2 ml-4 text-sm text-blue-600 hover:text-blue-800"
+                                    >
+                                        {showDocuments ? 'Hide Documents' : 'Documents'}
+                                    </button>
+                                </div>
                             </div>
-                        </div>
 
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
-                            {SCORING_CATEGORIES.map((category: ScoringCategory) => {
-                                const IconComponent = category.icon;
-                                return (
-                                    <div key={category.key} className="border rounded-lg p-4">
-                                        <div className="flex items-center mb-3">
-                                            <IconComponent className={`w-5 h-5 ${category.color} mr-2`} />
-                                            <h3 className="font-semibold text-gray-900">{category.label}</h3>
-                                        </div>
-                                        <div className="flex space-x-2">
-                                            {[1, 2, 3, 4, 5].map((score: number) => (
-                                                <button
-                                                    key={score}
-                                                    onClick={() => handleScoreChange(applicantId, category.key, score)}
-                                                    className={`w-10 h-10 rounded-full border-2 font-semibold transition-all ${currentReview[category.key as keyof Review] === score
-                                                        ? 'bg-blue-600 text-white border-blue-600'
-                                                        : 'bg-white text-gray-600 border-gray-300 hover:border-blue-400 hover:text-blue-600'
-                                                        }`}
-                                                >
-                                                    {score}
-                                                </button>
-                                            ))}
+                            {apiData.rubricError && (
+                                <div className="mb-6">
+                                    <ErrorMessage message={apiData.rubricError} onRetry={apiData.refreshRubric} />
+                                </div>
+                            )}
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+                                {rubricCriteria.map((criterion: RubricCriterion) => {
+                                    const style = CRITERION_STYLES[criterion.key] || DEFAULT_CRITERION_STYLE;
+                                    const IconComponent = style.icon;
+                                    const scoreOptions = Array.from(
+                                        { length: criterion.max_score - criterion.min_score + 1 },
+                                        (_, i) => criterion.min_score + i
+                                    );
+                                    return (
+                                        <div key={criterion.key} className="border rounded-lg p-4">
+                                            <div className="flex items-center mb-3">
+                                                <IconComponent className={`w-5 h-5 ${style.color} mr-2`} />
+                                                <h3 className="font-semibold text-gray-900">{criterion.label}</h3>
+                                            </div>
+                                            {criterion.description && (
+                                                <p className="text-sm text-gray-600 mb-3">{criterion.description}</p>
+                                            )}
+                                            <div className="flex flex-wrap gap-2">
+                                                {scoreOptions.map((score: number) => (
+                                                    <button
+                                                        key={score}
+                                                        onClick={() => handleScoreChange(applicantId, criterion.key, score)}
+                                                        className={`w-10 h-10 rounded-full border-2 font-semibold transition-all ${currentReview.scores?.[criterion.key] === score
+                                                            ? 'bg-blue-600 text-white border-blue-600'
+                                                            : 'bg-white text-gray-600 border-gray-300 hover:border-blue-400 hover:text-blue-600'
+                                                            }`}
+                                                    >
+                                                        {score}
+                                                    </button>
+                                                ))}
+                                            </div>
                                         </div>
+                                    );
+                                })}
+                            </div>
+
+                            <div className="space-y-4">
+                                <div>
+                                    <label className="block text-sm font-semibold text-gray-700 mb-2">
+                                        <MessageCircle className="w-4 h-4 inline mr-1" />
+                                        Reviewer Notes
+                                    </label>
+                                    <textarea
+                                        value={currentReview.notes || ''}
+                                        onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => handleNotesChange(applicantId, e.target.value)}
+                                        className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                                        rows={3}
+                                        placeholder="Add your notes about this applicant..."
+                                    />
+                                </div>
+
+                                <div>
+                                    <label className="block text-sm font-semibold text-gray-700 mb-2">
+                                        <Eye className="w-4 h-4 inline mr-1" />
+                                        Interview Recommendation
+                                    </label>
+                                    <div className="flex space-x-3">
+                                        {(['Definitely Interview', 'Maybe', 'Do Not Interview'] as DecisionType[]).map((decision: DecisionType) => (
+                                            <button
+                                                key={decision}
+                                                onClick={() => handleDecisionChange(applicantId, decision)}
+                                                className={`px-4 py-2 rounded-lg font-medium transition-all ${currentReview.decision === decision
+                                                    ? decision === 'Definitely Interview'
+                                                        ? 'bg-green-600 text-white'
+                                                        : decision === 'Maybe'
+                                                            ? 'bg-yellow-600 text-white'
+                                                            : 'bg-red-600 text-white'
+                                                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                                                    }`}
+                                            >
+                                                {decision}
+                                            </button>
+                                        ))}
                                     </div>
-                                );
-                            })}
+                                </div>
+                            </div>
                         </div>
 
-                        <div className="space-y-4">
+                        {showDocuments && (
                             <div>
-                                <label className="block text-sm font-semibold text-gray-700 mb-2">
-                                    <MessageCircle className="w-4 h-4 inline mr-1" />
-                                    Reviewer Notes
-                                </label>
-                                <textarea
-                                    value={currentReview.notes || ''}
-                                    onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => handleNotesChange(applicantId, e.target.value)}
-                                    className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                                    rows={3}
-                                    placeholder="Add your notes about this applicant..."
+                                {apiData.documentsError && (
+                                    <div className="mb-6">
+                                        <ErrorMessage message={apiData.documentsError} />
+                                    </div>
+                                )}
+                                <DocumentViewer
+                                    key={applicantId}
+                                    onLoad={() => apiData.fetchApplicantDocuments(applicantId)}
+                                    onOpen={(documentId: string) => apiData.fetchApplicantDocumentFile(applicantId, documentId)}
+                                    {...(auth.can('applicants:write') && !readOnlyCycle ? {
+                                        onUpload: (file: File, documentType: DocumentType) => apiData.uploadApplicantDocument(applicantId, file, documentType),
+                                        onDelete: (documentId: string) => apiData.deleteApplicantDocument(applicantId, documentId)
+                                    } : {})}
+                                    onClose={() => setShowDocuments(false)}
                                 />
                             </div>
+                        )}
+                    </div>
 
-                            <div>
-                                <label className="block text-sm font-semibold text-gray-700 mb-2">
-                                    <Eye className="w-4 h-4 inline mr-1" />
-                                    Interview Recommendation
-                                </label>
-                                <div className="flex space-x-3">
-                                    {(['Definitely Interview', 'Maybe', 'Do Not Interview'] as DecisionType[]).map((decision: DecisionType) => (
-                                        <button
-                                            key={decision}
-                                            onClick={() => handleDecisionChange(applicantId, decision)}
-                                            className={`px-4 py-2 rounded-lg font-medium transition-all ${currentReview.decision === decision
-                                                ? decision === 'Definitely Interview'
-                                                    ? 'bg-green-600 text-white'
-                                                    : decision === 'Maybe'
-                                                        ? 'bg-yellow-600 text-white'
-                                                        : 'bg-red-600 text-white'
-                                                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-                                                }`}
-                                        >
-                                            {decision}
-                                        </button>
-                                    ))}
-                                </div>
-                            </div>
+                    {showReviewHistory && apiData.reviewHistoryError && (
+                        <div className="mb-6">
+                            <ErrorMessage message={apiData.reviewHistoryError} />
                         </div>
-                    </div>
+                    )}
+                    {showReviewHistory && currentReview.id && (
+                        <ReviewHistory
+                            key={applicantId}
+                            criteria={rubricCriteria}
+                            refreshKey={currentReview.updated_at}
+                            onLoad={() => apiData.fetchReviewVersions(applicantId, currentUser!)}
+                            {...(!readOnlyCycle ? { onRestore: (version: number) => apiData.restoreReviewVersion(applicantId, currentUser!, version) } : {})}
+                            onClose={() => setShowReviewHistory(false)}
+                        />
+                    )}
 
                     <div className="flex justify-between">
                         <button
@@ -0,0 +1,225 @@
+import React, { useState } from 'react';
+import {
+    ApplicantCategory,
+    ApplicantImportAction,
+    ApplicantImportField,
+    ApplicantImportMapping,
+    ApplicantImportRequest,
+    ApplicantImportResult
+} from '../types';
+import LoadingSpinner from './LoadingSpinner';
+
+interface ApplicantImportWizardProps {
+    onImport: (request: ApplicantImportRequest) => Promise<ApplicantImportResult | null>;
+    onClose: () => void;
+}
+
+const FIELD_LABELS: Record<ApplicantImportField, string> = {
+    'external_id': 'AAMC ID',
+    'name': 'Full name',
+    'first_name': 'First name',
+    'last_name': 'Last name',
+    'category': 'Category',
+    'medical_school': 'Medical school',
+    'graduation_year': 'Graduation year',
+    'step2_ck_score': 'Step 2 CK score',
+    'aoa_status': 'AOA',
+    'ghhs_status': 'GHHS',
+    'publication_count': 'Publications',
+    'clerkship_honors': 'Clerkship honors',
+    'home_program': 'Home program',
+    'visa_status': 'Visa status',
+    'preference_signal': 'Preference signal'
+};
+
+const ACTION_STYLES: Record<ApplicantImportAction, { label: string; className: string }> = {
+    'insert': { label: 'New', className: 'text-green-700' },
+    'update': { label: 'Update', className: 'text-blue-700' },
+    'unchanged': { label: 'Unchanged', className: 'text-gray-500' },
+    'error': { label: 'Error', className: 'text-red-700' }
+};
+
+export default function ApplicantImportWizard({ onImport, onClose }: ApplicantImportWizardProps) {
+    const [fileName, setFileName] = useState<string>('');
+    const [csv, setCsv] = useState<string>('');
+    const [defaultCategory, setDefaultCategory] = useState<ApplicantCategory>('regular');
+    const [mapping, setMapping] = useState<ApplicantImportMapping | null>(null);
+    const [result, setResult] = useState<ApplicantImportResult | null>(null);
+    const [status, setStatus] = useState<'idle' | 'previewing' | 'importing' | 'imported'>('idle');
+
+    const runImport = async (dryRun: boolean, nextMapping: ApplicantImportMapping | null = mapping): Promise<void> => {
+        setStatus(dryRun ? 'previewing' : 'importing');
+        const response = await onImport({
+            csv,
+            ...(nextMapping ? { mapping: nextMapping } : {}),
+            default_category: defaultCategory,
+            dry_run: dryRun
+        });
+        setResult(response);
+        // The first preview fills the mapping with what the server guessed from the headers
+        if (response) {
+            setMapping(response.mapping);
+        }
+        setStatus(response && !dryRun ? 'imported' : 'idle');
+    };
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>): Promise<void> => {
+        const file = e.target.files?.[0];
+        if (!file) {
+            return;
+        }
+        setFileName(file.name);
+        setCsv(await file.text());
+        setMapping(null);
+        setResult(null);
+        setStatus('idle');
+    };
+
+    const updateMapping = (field: ApplicantImportField, column: string): void => {
+        const next: ApplicantImportMapping = { ...mapping };
+        if (column) {
+            next[field] = column;
+        } else {
+            delete next[field];
+        }
+        setMapping(next);
+        runImport(true, next);
+    };
+
+    const busy = status === 'previewing' || status === 'importing';
+    const canImport = result !== null && result.dry_run && result.mapping_errors.length === 0 &&
+        result.summary.insert + result.summary.update > 0;
+    const selectClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+    return (
+        <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
+            <div className="flex justify-between items-start mb-4">
+                <div>
+                    <h2 className="text-xl font-bold text-gray-900">Import Applicants</h2>
+                    <p className="text-sm text-gray-600">
+                        Upload an ERAS CSV export. Applicants are matched by AAMC ID, so re-importing a file updates them instead of adding duplicates.
+                    </p>
+                </div>
+                <button
+                    onClick={onClose}
+                    className="text-sm text-gray-500 hover:text-gray-700"
+                >
+                    Close
+                </button>
+            </div>
+
+            <div className="flex flex-wrap items-end gap-6 mb-6">
+                <label className="block">
+                    <span className="block text-sm font-semibold text-gray-700 mb-1">CSV file</span>
+                    <input
+                        type="file"
+                        accept=".csv,text/csv"
+                        onChange={handleFile}
+                        disabled={busy}
+                        className="text-sm text-gray-700"
+                    />
+                </label>
+                <label className="block">
+                    <span className="block text-sm font-semibold text-gray-700 mb-1">Category when the file has none</span>
+                    <select
+                        value={defaultCategory}
+                        onChange={(e: React.ChangeEvent<HTMLSelectElement>) => {
+                            setDefaultCategory(e.target.value as ApplicantCategory);
+                            setResult(null);
+                            setStatus('idle');
+                        }}
+                        className={selectClass}
+                    >
+                        <option value="regular">Regular</option>
+                        <option value="i-sub">I-Sub</option>
+                    </select>
+                </label>
+                <button
+                    onClick={() => runImport(true)}
+                    disabled={busy || !csv}
+                    className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+                >
+                    Preview
+                </button>
+                <button
+                    onClick={() => runImport(false)}
+                    disabled={busy || !canImport}
+                    className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+                >
+                    Import
+                </button>
+                {busy && <LoadingSpinner size="small" text={status === 'previewing' ? 'Checking file...' : 'Importing...'} />}
+            </div>
+
+            {result && mapping && status !== 'imported' && (
+                <div className="mb-6">
+                    <h3 className="font-semibold text-gray-900 mb-2">Columns in {fileName}</h3>
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                        {(Object.keys(FIELD_LABELS) as ApplicantImportField[]).map(field => (
+                            <label key={field} className="block">
+                                <span className="block text-sm text-gray-700 mb-1">{FIELD_LABELS[field]}</span>
+                                <select
+                                    value={mapping[field] ?? ''}
+                                    onChange={(e: React.ChangeEvent<HTMLSelectElement>) => updateMapping(field, e.target.value)}
+                                    disabled={busy}
+                                    className={selectClass}
+                                >
+                                    <option value="">Not in file</option>
+                                    {result.columns.map(column => (
+                                        <option key={column} value={column}>{column}</option>
+                                    ))}
+                                </select>
+                            </label>
+                        ))}
+                    </div>
+                    {result.mapping_errors.length > 0 && (
+                        <ul className="mt-3 text-sm text-red-700 space-y-1">
+                            {result.mapping_errors.map(error => <li key={error}>{error}</li>)}
+                        </ul>
+                    )}
+                </div>
+            )}
+
+            {result && result.rows.length > 0 && (
+                <div>
+                    <p className="text-sm text-gray-700 mb-4">
+                        {status === 'imported' ? 'Added' : 'Would add'} <strong>{result.summary.insert}</strong> and
+                        {' '}{status === 'imported' ? 'updated' : 'update'} <strong>{result.summary.update}</strong> applicants.
+                        {' '}{result.summary.unchanged} unchanged, {result.summary.error} with errors
+                        {result.summary.error > 0 ? (status === 'imported' ? ' were skipped.' : ' will be skipped.') : '.'}
+                    </p>
+
+                    <div className="max-h-96 overflow-y-auto">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-left text-gray-600 border-b">
+                                    <th className="py-2">Row</th>
+                                    <th className="py-2">AAMC ID</th>
+                                    <th className="py-2">Name</th>
+                                    <th className="py-2">Category</th>
+                                    <th className="py-2">Result</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {result.rows.map(row => (
+                                    <tr key={row.row} className="border-b last:border-0 align-top">
+                                        <td className="py-2 text-gray-500">{row.row}</td>
+                                        <td className="py-2">{row.external_id ?? '-'}</td>
+                                        <td className="py-2 font-medium text-gray-900">{row.name ?? '-'}</td>
+                                        <td className="py-2">{row.category ?? '-'}</td>
+                                        <td className={`py-2 ${ACTION_STYLES[row.action].className}`}>
+                                            {ACTION_STYLES[row.action].label}
+                                            {row.changes && row.changes.length > 0 &&
+                                                ` (${row.changes.map(field => FIELD_LABELS[field as ApplicantImportField] ?? field).join(', ')})`}
+                                            {row.errors.length > 0 && `: ${row.errors.join('; ')}`}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
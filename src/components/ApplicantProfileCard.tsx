@@ -0,0 +1,102 @@
+import React from 'react';
+import { ApiApplicant, HonorSocietyStatus, VisaStatus } from '../types';
+
+interface ApplicantProfileCardProps {
+    applicant: ApiApplicant;
+}
+
+const HONOR_SOCIETY_LABELS: Record<HonorSocietyStatus, string> = {
+    'member': 'Member',
+    'pending': 'Elections pending',
+    'not_member': 'Not a member',
+    'no_chapter': 'No chapter at school'
+};
+
+const VISA_LABELS: Record<VisaStatus, string> = {
+    'us_citizen': 'US citizen',
+    'permanent_resident': 'Permanent resident',
+    'visa_required': 'Visa sponsorship required'
+};
+
+// Shown for any field ERAS did not report
+const NOT_REPORTED = <span className="text-gray-400">Not reported</span>;
+
+/**
+ * Header of the review screen: who the applicant is and the profile fields reviewers score against
+ */
+export default function ApplicantProfileCard({ applicant }: ApplicantProfileCardProps) {
+    const honors = applicant.clerkship_honors ?? null;
+
+    const fields: Array<{ label: string; value: React.ReactNode }> = [
+        {
+            label: 'Step 2 CK',
+            value: applicant.step2_ck_score ?? NOT_REPORTED
+        },
+        {
+            label: 'Publications',
+            value: applicant.publication_count ?? NOT_REPORTED
+        },
+        {
+            label: 'AOA',
+            value: applicant.aoa_status ? HONOR_SOCIETY_LABELS[applicant.aoa_status] : NOT_REPORTED
+        },
+        {
+            label: 'GHHS',
+            value: applicant.ghhs_status ? HONOR_SOCIETY_LABELS[applicant.ghhs_status] : NOT_REPORTED
+        },
+        {
+            label: 'Home Program',
+            value: applicant.home_program || NOT_REPORTED
+        },
+        {
+            label: 'Visa Status',
+            value: applicant.visa_status ? VISA_LABELS[applicant.visa_status] : NOT_REPORTED
+        }
+    ];
+
+    return (
+        <div className="flex-1 mr-6">
+            <div className="flex flex-wrap items-center gap-2 mb-1">
+                <h2 className="text-2xl font-bold text-gray-900">{applicant.name}</h2>
+                <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-gray-100 text-gray-700">
+                    {applicant.category === 'i-sub' ? 'I-Sub' : 'Regular'}
+                </span>
+                {applicant.preference_signal && (
+                    <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-green-100 text-green-800">
+                        Signaled this program
+                    </span>
+                )}
+            </div>
+            <p className="text-gray-600 mb-1">AAMC ID: {applicant.external_id}</p>
+            <p className="text-gray-700 mb-4">
+                {applicant.medical_school || 'Medical school not reported'}
+                {applicant.graduation_year ? ` · Class of ${applicant.graduation_year}` : ''}
+            </p>
+
+            <dl className="grid grid-cols-2 md:grid-cols-3 gap-x-6 gap-y-3 text-sm">
+                {fields.map(field => (
+                    <div key={field.label}>
+                        <dt className="text-gray-500">{field.label}</dt>
+                        <dd className="font-semibold text-gray-900">{field.value}</dd>
+                    </div>
+                ))}
+                <div className="col-span-2 md:col-span-3">
+                    <dt className="text-gray-500">Clerkship Honors</dt>
+                    <dd>
+                        {honors === null ? NOT_REPORTED : honors.length === 0 ? (
+                            <span className="font-semibold text-gray-900">None</span>
+                        ) : (
+                            <div className="flex flex-wrap gap-2 mt-1">
+                                {honors.map(clerkship => (
+                                    <span key={clerkship} className="px-2 py-0.5 text-xs rounded-full bg-blue-50 text-blue-800 border border-blue-200">
+                                        {clerkship}
+                                    </span>
+                                ))}
+                            </div>
+                        )}
+                    </dd>
+                </div>
+            </dl>
+        </div>
+    );
+}
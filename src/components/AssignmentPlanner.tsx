@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { AssignmentPlan, AssignmentPlanOptions, ApplicantCategory } from '../types';
+import LoadingSpinner from './LoadingSpinner';
+
+interface AssignmentPlannerProps {
+    onDistribute: (options: AssignmentPlanOptions) => Promise<AssignmentPlan | null>;
+    onClose: () => void;
+}
+
+export default function AssignmentPlanner({
+    onDistribute,
+    onClose
+}: AssignmentPlannerProps) {
+    const [reviewersPerApplicant, setReviewersPerApplicant] = useState<number>(2);
+    const [includeISub, setIncludeISub] = useState<boolean>(true);
+    const [plan, setPlan] = useState<AssignmentPlan | null>(null);
+    const [status, setStatus] = useState<'idle' | 'previewing' | 'committing' | 'committed'>('idle');
+
+    const categories: ApplicantCategory[] = includeISub ? ['regular', 'i-sub'] : ['regular'];
+
+    const runPlan = async (dryRun: boolean): Promise<void> => {
+        setStatus(dryRun ? 'previewing' : 'committing');
+        const result = await onDistribute({
+            reviewers_per_applicant: reviewersPerApplicant,
+            categories,
+            dry_run: dryRun
+        });
+        setPlan(result);
+        setStatus(result && !dryRun ? 'committed' : 'idle');
+    };
+
+    // Any change to the options invalidates the current preview
+    const updateOptions = (update: () => void): void => {
+        update();
+        setPlan(null);
+        setStatus('idle');
+    };
+
+    const busy = status === 'previewing' || status === 'committing';
+
+    return (
+        <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
+            <div className="flex justify-between items-start mb-4">
+                <div>
+                    <h2 className="text-xl font-bold text-gray-900">Assign Applicants</h2>
+                    <p className="text-sm text-gray-600">
+                        Only applicants still short of reviewers are assigned. Existing assignments never move.
+                    </p>
+                </div>
+                <button
+                    onClick={onClose}
+                    className="text-sm text-gray-500 hover:text-gray-700"
+                >
+                    Close
+                </button>
+            </div>
+
+            <div className="flex flex-wrap items-end gap-6 mb-6">
+                <label className="block">
+                    <span className="block text-sm font-semibold text-gray-700 mb-1">Reviewers per applicant</span>
+                    <input
+                        type="number"
+                        min={1}
+                        max={10}
+                        value={reviewersPerApplicant}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                            updateOptions(() => setReviewersPerApplicant(Math.max(1, parseInt(e.target.value, 10) || 1)))}
+                        className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                </label>
+                <label className="inline-flex items-center space-x-2 pb-2">
+                    <input
+                        type="checkbox"
+                        checked={includeISub}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateOptions(() => setIncludeISub(e.target.checked))}
+                    />
+                    <span className="text-sm text-gray-700">Include I-Sub applicants</span>
+                </label>
+                <button
+                    onClick={() => runPlan(true)}
+                    disabled={busy}
+                    className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+                >
+                    Preview
+                </button>
+                <button
+                    onClick={() => runPlan(false)}
+                    disabled={busy || !plan || !plan.dry_run || plan.assignments.length === 0}
+                    className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+                >
+                    Commit Assignments
+                </button>
+                {busy && <LoadingSpinner size="small" text={status === 'previewing' ? 'Planning...' : 'Saving...'} />}
+            </div>
+
+            {plan && (
+                <div>
+                    <p className="text-sm text-gray-700 mb-4">
+                        {status === 'committed' ? 'Created' : 'Would create'} <strong>{plan.assignments.length}</strong> assignments.
+                        {' '}{plan.conflicts_avoided} conflict{plan.conflicts_avoided === 1 ? '' : 's'} of interest avoided.
+                    </p>
+
+                    <table className="w-full text-sm mb-4">
+                        <thead>
+                            <tr className="text-left text-gray-600 border-b">
+                                <th className="py-2">Reviewer</th>
+                                <th className="py-2">Capacity</th>
+                                <th className="py-2">Current</th>
+                                <th className="py-2">New</th>
+                                <th className="py-2">Total</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {plan.reviewer_loads.map(load => (
+                                <tr key={load.reviewer_id} className="border-b last:border-0">
+                                    <td className="py-2 font-medium text-gray-900">{load.reviewer_name}</td>
+                                    <td className="py-2">{load.capacity_weight}x</td>
+                                    <td className="py-2">{load.current}</td>
+                                    <td className="py-2 text-indigo-600">+{load.planned}</td>
+                                    <td className="py-2 font-semibold">{load.current + load.planned}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+
+                    {plan.unfilled.length > 0 && (
+                        <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+                            <h3 className="font-semibold text-yellow-800 mb-2">
+                                {plan.unfilled.length} applicant{plan.unfilled.length === 1 ? '' : 's'} could not be fully assigned
+                            </h3>
+                            <ul className="text-sm text-yellow-800 space-y-1">
+                                {plan.unfilled.map(item => (
+                                    <li key={item.applicant_id}>
+                                        {item.applicant_name}: {item.missing} short ({item.reason})
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,215 @@
+import React, { useEffect, useState } from 'react';
+import { ApiApplicant, AuditAction, AuditEntityType, AuditEntry, AuditLogFilters, Reviewer } from '../types';
+import LoadingSpinner from './LoadingSpinner';
+
+interface AuditLogViewerProps {
+    applicants: ApiApplicant[];
+    reviewers: Reviewer[];
+    onSearch: (filters: AuditLogFilters) => Promise<AuditEntry[] | null>;
+    onClose: () => void;
+}
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+    'applicant': 'Applicant',
+    'document': 'Document',
+    'reviewer': 'Reviewer',
+    'review': 'Review',
+    'final_selection': 'Final decision',
+    'assignment': 'Assignment',
+    'rubric': 'Rubric',
+    'interview_target': 'Interview target',
+    'cycle': 'Cycle',
+    'password': 'Password',
+    'rank_list': 'Rank list',
+    'rank_list_version': 'Rank list version',
+    'interview_date': 'Interview date',
+    'interview_booking': 'Interview booking',
+    'interview_evaluation': 'Interview evaluation'
+};
+
+const ACTIONS: AuditAction[] = ['create', 'update', 'delete', 'activate'];
+
+// Bookkeeping columns that change on every write
+const IGNORED_FIELDS = new Set(['updated_at', 'created_at', 'decided_at']);
+
+const formatValue = (value: unknown): string => {
+    if (value === null || value === undefined || value === '') {
+        return '-';
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+/**
+ * List the fields an update changed, e.g. "admin_decision: Selected → Not Selected"
+ */
+const describeChanges = (entry: AuditEntry): string[] => {
+    if (!entry.before || !entry.after) {
+        return [];
+    }
+
+    const before = entry.before;
+    const after = entry.after;
+    return Object.keys(after)
+        .filter(key => !IGNORED_FIELDS.has(key) && JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+        .map(key => `${key}: ${formatValue(before[key])} → ${formatValue(after[key])}`);
+};
+
+export default function AuditLogViewer({ applicants, reviewers, onSearch, onClose }: AuditLogViewerProps) {
+    const [entityType, setEntityType] = useState<AuditEntityType | ''>('');
+    const [action, setAction] = useState<AuditAction | ''>('');
+    const [applicantId, setApplicantId] = useState<string>('');
+    const [actorId, setActorId] = useState<string>('');
+    const [from, setFrom] = useState<string>('');
+    const [to, setTo] = useState<string>('');
+    const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+    const [loading, setLoading] = useState<boolean>(false);
+
+    const applicantNames = new Map(applicants.map(applicant => [applicant.id, applicant.name]));
+
+    const search = async (): Promise<void> => {
+        setLoading(true);
+        const result = await onSearch({
+            ...(entityType ? { entity_type: entityType } : {}),
+            ...(action ? { action } : {}),
+            ...(applicantId ? { applicant_id: applicantId } : {}),
+            ...(actorId ? { actor_id: actorId } : {}),
+            ...(from ? { from } : {}),
+            // Include the whole of the last day
+            ...(to ? { to: `${to}T23:59:59.999Z` } : {})
+        });
+        setEntries(result);
+        setLoading(false);
+    };
+
+    useEffect(() => {
+        search();
+    }, []);
+
+    const selectClass = 'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+    return (
+        <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
+            <div className="flex justify-between items-start mb-4">
+                <div>
+                    <h2 className="text-xl font-bold text-gray-900">Audit Log</h2>
+                    <p className="text-sm text-gray-600">
+                        Every change to applicants, reviews, decisions and settings, newest first. Entries can never be edited.
+                    </p>
+                </div>
+                <button
+                    onClick={onClose}
+                    className="text-sm text-gray-500 hover:text-gray-700"
+                >
+                    Close
+                </button>
+            </div>
+
+            <div className="flex flex-wrap items-end gap-4 mb-6">
+                <select
+                    value={entityType}
+                    onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setEntityType(e.target.value as AuditEntityType | '')}
+                    className={selectClass}
+                >
+                    <option value="">All records</option>
+                    {(Object.keys(ENTITY_LABELS) as AuditEntityType[]).map(type => (
+                        <option key={type} value={type}>{ENTITY_LABELS[type]}</option>
+                    ))}
+                </select>
+                <select
+                    value={action}
+                    onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setAction(e.target.value as AuditAction | '')}
+                    className={selectClass}
+                >
+                    <option value="">All actions</option>
+                    {ACTIONS.map(a => <option key={a} value={a}>{a}</option>)}
+                </select>
+                <select
+                    value={applicantId}
+                    onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setApplicantId(e.target.value)}
+                    className={selectClass}
+                >
+                    <option value="">All applicants</option>
+                    {applicants.map(applicant => (
+                        <option key={applicant.id} value={applicant.id}>{applicant.name}</option>
+                    ))}
+                </select>
+                <select
+                    value={actorId}
+                    onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setActorId(e.target.value)}
+                    className={selectClass}
+                >
+                    <option value="">Anyone</option>
+                    {reviewers.map(reviewer => (
+                        <option key={reviewer.id} value={reviewer.id}>{reviewer.name}</option>
+                    ))}
+                </select>
+                <label className="block">
+                    <span className="block text-sm font-semibold text-gray-700 mb-1">From</span>
+                    <input
+                        type="date"
+                        value={from}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFrom(e.target.value)}
+                        className={selectClass}
+                    />
+                </label>
+                <label className="block">
+                    <span className="block text-sm font-semibold text-gray-700 mb-1">To</span>
+                    <input
+                        type="date"
+                        value={to}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTo(e.target.value)}
+                        className={selectClass}
+                    />
+                </label>
+                <button
+                    onClick={search}
+                    disabled={loading}
+                    className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+                >
+                    Search
+                </button>
+                {loading && <LoadingSpinner size="small" text="Loading..." />}
+            </div>
+
+            {entries && entries.length === 0 && (
+                <p className="text-sm text-gray-500">No changes match these filters.</p>
+            )}
+
+            {entries && entries.length > 0 && (
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-left text-gray-600 border-b">
+                            <th className="py-2">When</th>
+                            <th className="py-2">Who</th>
+                            <th className="py-2">Action</th>
+                            <th className="py-2">Record</th>
+                            <th className="py-2">Applicant</th>
+                            <th className="py-2">Changes</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {entries.map(entry => {
+                            const changes = describeChanges(entry);
+                            return (
+                                <tr key={entry.id} className="border-b last:border-0 align-top">
+                                    <td className="py-2 whitespace-nowrap">{new Date(entry.created_at).toLocaleString()}</td>
+                                    <td className="py-2">{entry.actor_name ?? 'System'}</td>
+                                    <td className="py-2 capitalize">{entry.action}</td>
+                                    <td className="py-2">{ENTITY_LABELS[entry.entity_type] ?? entry.entity_type}</td>
+                                    <td className="py-2">
+                                        {entry.applicant_id ? applicantNames.get(entry.applicant_id) ?? entry.applicant_id : '-'}
+                                    </td>
+                                    <td className="py-2 text-gray-700">
+                                        {changes.length > 0
+                                            ? changes.map(change => <div key={change} className="break-all">{change}</div>)
+                                            : '-'}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+}
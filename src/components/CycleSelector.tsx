@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { Cycle } from '../types';
+
+interface CycleSelectorProps {
+    cycles: Cycle[];
+    selectedCycle: Cycle | null;
+    onSelect: (cycle: Cycle) => void;
+    // Only passed when the signed-in role may manage cycles
+    onCreate?: (name: string, activate: boolean) => Promise<Cycle | null>;
+    onActivate?: (cycleId: string) => Promise<Cycle | null>;
+}
+
+export default function CycleSelector({ cycles, selectedCycle, onSelect, onCreate, onActivate }: CycleSelectorProps) {
+    const [creating, setCreating] = useState<boolean>(false);
+    const [name, setName] = useState<string>('');
+    const [activate, setActivate] = useState<boolean>(true);
+    const [saving, setSaving] = useState<boolean>(false);
+
+    const match = /^(\d{4})-(\d{4})$/.exec(name);
+    const invalid = !match || Number(match[2]) !== Number(match[1]) + 1;
+
+    const handleChange = (e: React.ChangeEvent<HTMLSelectElement>): void => {
+        const cycle = cycles.find(c => c.id === e.target.value);
+        if (cycle) {
+            onSelect(cycle);
+        }
+    };
+
+    const create = async (): Promise<void> => {
+        setSaving(true);
+        const cycle = await onCreate!(name, activate);
+        setSaving(false);
+        if (cycle) {
+            setCreating(false);
+            setName('');
+        }
+    };
+
+    const makeActive = async (): Promise<void> => {
+        setSaving(true);
+        await onActivate!(selectedCycle!.id);
+        setSaving(false);
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-3">
+            <select
+                value={selectedCycle?.id ?? ''}
+                onChange={handleChange}
+                className="px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+                {cycles.map(cycle => (
+                    <option key={cycle.id} value={cycle.id}>
+                        {cycle.name}{cycle.is_active ? ' (active)' : ''}
+                    </option>
+                ))}
+            </select>
+
+            {selectedCycle && !selectedCycle.is_active && (
+                <span className="px-2 py-1 text-xs font-semibold rounded-full bg-gray-200 text-gray-700">
+                    Read-only
+                </span>
+            )}
+
+            {onActivate && selectedCycle && !selectedCycle.is_active && (
+                <button
+                    onClick={makeActive}
+                    disabled={saving}
+                    className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                >
+                    Make Active
+                </button>
+            )}
+
+            {onCreate && !creating && (
+                <button
+                    onClick={() => setCreating(true)}
+                    className="text-sm text-blue-600 hover:text-blue-800"
+                >
+                    New Cycle
+                </button>
+            )}
+
+            {creating && (
+                <>
+                    <input
+                        type="text"
+                        placeholder="2026-2027"
+                        value={name}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value.trim())}
+                        className="w-28 px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                    <label className="inline-flex items-center space-x-2">
+                        <input
+                            type="checkbox"
+                            checked={activate}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setActivate(e.target.checked)}
+                        />
+                        <span className="text-sm text-gray-700">Make active</span>
+                    </label>
+                    <button
+                        onClick={create}
+                        disabled={invalid || saving}
+                        className="px-3 py-1 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+                    >
+                        {saving ? 'Saving...' : 'Create'}
+                    </button>
+                    <button
+                        onClick={() => setCreating(false)}
+                        className="text-sm text-gray-500 hover:text-gray-700"
+                    >
+                        Cancel
+                    </button>
+                </>
+            )}
+        </div>
+    );
+}
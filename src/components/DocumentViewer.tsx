@@ -0,0 +1,203 @@
+import React, { useEffect, useState } from 'react';
+import { ApplicantDocument, DocumentType } from '../types';
+import LoadingSpinner from './LoadingSpinner';
+
+interface DocumentViewerProps {
+    onLoad: () => Promise<ApplicantDocument[] | null>;
+    onOpen: (documentId: string) => Promise<Blob | null>;
+    // Omitted for reviewers who cannot edit applicants and for read-only cycles
+    onUpload?: (file: File, documentType: DocumentType) => Promise<ApplicantDocument | null>;
+    onDelete?: (documentId: string) => Promise<boolean>;
+    onClose: () => void;
+}
+
+const TYPE_LABELS: Record<DocumentType, string> = {
+    'personal_statement': 'Personal Statement',
+    'cv': 'CV',
+    'lor': 'Letter of Recommendation',
+    'transcript': 'Transcript'
+};
+
+const formatSize = (bytes: number): string =>
+    bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+export default function DocumentViewer({ onLoad, onOpen, onUpload, onDelete, onClose }: DocumentViewerProps) {
+    const [documents, setDocuments] = useState<ApplicantDocument[] | null>(null);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [fileUrl, setFileUrl] = useState<string | null>(null);
+    const [loading, setLoading] = useState<boolean>(false);
+    const [opening, setOpening] = useState<boolean>(false);
+    const [uploadType, setUploadType] = useState<DocumentType>('personal_statement');
+    const [uploadFile, setUploadFile] = useState<File | null>(null);
+    const [uploading, setUploading] = useState<boolean>(false);
+    // Bumped after an upload to clear the file input
+    const [uploadCount, setUploadCount] = useState<number>(0);
+
+    useEffect(() => {
+        let cancelled = false;
+        setLoading(true);
+        onLoad().then(result => {
+            if (cancelled) {
+                return;
+            }
+            setDocuments(result);
+            setLoading(false);
+            // Open the first document so reviewers can start reading straight away
+            if (result && result.length > 0) {
+                setSelectedId(result[0]!.id);
+            }
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    // The API needs the sign-in token, so the PDF is fetched here and shown through an object URL
+    useEffect(() => {
+        if (!selectedId) {
+            setFileUrl(null);
+            return;
+        }
+
+        let cancelled = false;
+        let url: string | null = null;
+        setOpening(true);
+        onOpen(selectedId).then(blob => {
+            if (cancelled) {
+                return;
+            }
+            url = blob ? URL.createObjectURL(blob) : null;
+            setFileUrl(url);
+            setOpening(false);
+        });
+        return () => {
+            cancelled = true;
+            if (url) {
+                URL.revokeObjectURL(url);
+            }
+        };
+    }, [selectedId]);
+
+    const handleUpload = async (): Promise<void> => {
+        if (!onUpload || !uploadFile) {
+            return;
+        }
+        setUploading(true);
+        const uploaded = await onUpload(uploadFile, uploadType);
+        setUploading(false);
+        if (uploaded) {
+            setDocuments(prev => [...(prev ?? []), uploaded]);
+            setSelectedId(uploaded.id);
+            setUploadFile(null);
+            setUploadCount(count => count + 1);
+        }
+    };
+
+    const handleDelete = async (document: ApplicantDocument): Promise<void> => {
+        if (!onDelete || !window.confirm(`Delete ${document.file_name}?`)) {
+            return;
+        }
+        if (await onDelete(document.id)) {
+            const remaining = (documents ?? []).filter(d => d.id !== document.id);
+            setDocuments(remaining);
+            if (selectedId === document.id) {
+                setSelectedId(remaining[0]?.id ?? null);
+            }
+        }
+    };
+
+    const selectClass = 'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+    return (
+        <div className="bg-white rounded-xl shadow-lg p-6 mb-6">
+            <div className="flex justify-between items-start mb-4">
+                <div>
+                    <h2 className="text-xl font-bold text-gray-900">Documents</h2>
+                    <p className="text-sm text-gray-600">Application PDFs for this applicant</p>
+                </div>
+                <button
+                    onClick={onClose}
+                    className="text-sm text-gray-500 hover:text-gray-700"
+                >
+                    Close
+                </button>
+            </div>
+
+            {loading ? (
+                <LoadingSpinner size="small" text="Loading documents..." />
+            ) : documents && documents.length === 0 ? (
+                <p className="text-sm text-gray-500 mb-4">No documents have been uploaded for this applicant.</p>
+            ) : documents && (
+                <ul className="divide-y border rounded-lg mb-4">
+                    {documents.map(document => (
+                        <li
+                            key={document.id}
+                            className={`flex items-center justify-between px-3 py-2 text-sm ${document.id === selectedId ? 'bg-blue-50' : ''}`}
+                        >
+                            <button
+                                onClick={() => setSelectedId(document.id)}
+                                className="flex-1 text-left"
+                            >
+                                <span className="font-medium text-gray-900">{TYPE_LABELS[document.document_type]}</span>
+                                <span className="text-gray-500"> · {document.file_name} · {formatSize(document.size_bytes)}</span>
+                            </button>
+                            {onDelete && (
+                                <button
+                                    onClick={() => handleDelete(document)}
+                                    className="ml-3 text-red-600 hover:text-red-800"
+                                >
+                                    Delete
+                                </button>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {opening && <LoadingSpinner size="small" text="Opening document..." />}
+            {fileUrl && !opening && (
+                <iframe
+                    src={fileUrl}
+                    title="Applicant document"
+                    className="w-full h-screen border rounded-lg mb-4"
+                />
+            )}
+
+            {onUpload && (
+                <div className="flex flex-wrap items-end gap-3 pt-4 border-t">
+                    <label className="block">
+                        <span className="block text-sm font-semibold text-gray-700 mb-1">Type</span>
+                        <select
+                            value={uploadType}
+                            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setUploadType(e.target.value as DocumentType)}
+                            disabled={uploading}
+                            className={selectClass}
+                        >
+                            {(Object.keys(TYPE_LABELS) as DocumentType[]).map(type => (
+                                <option key={type} value={type}>{TYPE_LABELS[type]}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="block">
+                        <span className="block text-sm font-semibold text-gray-700 mb-1">PDF file</span>
+                        <input
+                            key={uploadCount}
+                            type="file"
+                            accept=".pdf,application/pdf"
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setUploadFile(e.target.files?.[0] ?? null)}
+                            disabled={uploading}
+                            className="text-sm text-gray-700"
+                        />
+                    </label>
+                    <button
+                        onClick={handleUpload}
+                        disabled={uploading || !uploadFile}
+                        className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+                    >
+                        {uploading ? 'Uploading...' : 'Upload'}
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
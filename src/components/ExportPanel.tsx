@@ -0,0 +1,173 @@
+import React, { useEffect, useState } from 'react';
+import { ExportColumn, ExportLayout } from '../types';
+import LoadingSpinner from './LoadingSpinner';
+import { saveFile } from '../utils/download';
+
+interface ExportPanelProps {
+    // Names the downloaded file, e.g. the cycle being viewed
+    cycleName?: string | undefined;
+    onLoadColumns: (layout: ExportLayout) => Promise<ExportColumn[] | null>;
+    onDownload: (layout: ExportLayout, columns: string[]) => Promise<Blob | null>;
+    onDownloadWorkbook: () => Promise<Blob | null>;
+    onClose: () => void;
+}
+
+const LAYOUT_OPTIONS: Array<{ layout: ExportLayout; label: string; description: string }> = [
+    { layout: 'reviews', label: 'One row per review', description: 'Every reviewer\'s scores, notes and recommendation' },
+    { layout: 'applicants', label: 'One row per applicant', description: 'Review counts, averages, ranks and the final decision' }
+];
+
+export default function ExportPanel({ cycleName, onLoadColumns, onDownload, onDownloadWorkbook, onClose }: ExportPanelProps) {
+    const [layout, setLayout] = useState<ExportLayout>('reviews');
+    const [columns, setColumns] = useState<ExportColumn[] | null>(null);
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [loading, setLoading] = useState<boolean>(false);
+    const [downloading, setDownloading] = useState<boolean>(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        setLoading(true);
+        onLoadColumns(layout).then(result => {
+            if (cancelled) {
+                return;
+            }
+            setColumns(result);
+            // Start with everything; most exports want the full picture
+            setSelected(new Set(result?.map(column => column.key) ?? []));
+            setLoading(false);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [layout]);
+
+    const toggleColumn = (key: string): void => {
+        const next = new Set(selected);
+        if (next.has(key)) {
+            next.delete(key);
+        } else {
+            next.add(key);
+        }
+        setSelected(next);
+    };
+
+    const handleDownload = async (): Promise<void> => {
+        if (!columns) {
+            return;
+        }
+        setDownloading(true);
+        // Keep the export's own column order rather than the order boxes were ticked
+        const blob = await onDownload(layout, columns.filter(column => selected.has(column.key)).map(column => column.key));
+        setDownloading(false);
+        if (blob) {
+            saveFile(blob, `urology_${layout}${cycleName ? `_${cycleName}` : ''}.csv`);
+        }
+    };
+
+    const handleDownloadWorkbook = async (): Promise<void> => {
+        setDownloading(true);
+        const blob = await onDownloadWorkbook();
+        setDownloading(false);
+        if (blob) {
+            saveFile(blob, `urology_review${cycleName ? `_${cycleName}` : ''}.xlsx`);
+        }
+    };
+
+    return (
+        <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
+            <div className="flex justify-between items-start mb-4">
+                <div>
+                    <h2 className="text-xl font-bold text-gray-900">Export Data</h2>
+                    <p className="text-sm text-gray-600">Download the cycle's reviews and decisions as a CSV file or an Excel workbook.</p>
+                </div>
+                <button
+                    onClick={onClose}
+                    className="text-sm text-gray-500 hover:text-gray-700"
+                >
+                    Close
+                </button>
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-4 mb-6">
+                {LAYOUT_OPTIONS.map(option => (
+                    <label
+                        key={option.layout}
+                        className={`border rounded-lg p-4 cursor-pointer ${layout === option.layout ? 'border-blue-500 bg-blue-50' : 'border-gray-300'}`}
+                    >
+                        <input
+                            type="radio"
+                            name="export-layout"
+                            value={option.layout}
+                            checked={layout === option.layout}
+                            onChange={() => setLayout(option.layout)}
+                            disabled={downloading}
+                            className="mr-2"
+                        />
+                        <span className="font-semibold text-gray-900">{option.label}</span>
+                        <p className="text-sm text-gray-600 mt-1">{option.description}</p>
+                    </label>
+                ))}
+            </div>
+
+            {loading ? (
+                <LoadingSpinner size="small" text="Loading columns..." />
+            ) : columns && (
+                <div className="mb-6">
+                    <div className="flex items-center justify-between mb-2">
+                        <h3 className="font-semibold text-gray-900">Columns</h3>
+                        <div className="space-x-4 text-sm">
+                            <button
+                                onClick={() => setSelected(new Set(columns.map(column => column.key)))}
+                                className="text-blue-600 hover:text-blue-800"
+                            >
+                                Select all
+                            </button>
+                            <button
+                                onClick={() => setSelected(new Set())}
+                                className="text-blue-600 hover:text-blue-800"
+                            >
+                                Clear
+                            </button>
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                        {columns.map(column => (
+                            <label key={column.key} className="flex items-center text-sm text-gray-700">
+                                <input
+                                    type="checkbox"
+                                    checked={selected.has(column.key)}
+                                    onChange={() => toggleColumn(column.key)}
+                                    disabled={downloading}
+                                    className="mr-2"
+                                />
+                                {column.header}
+                            </label>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            <button
+                onClick={handleDownload}
+                disabled={loading || downloading || selected.size === 0}
+                className="inline-flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+            >
+                {downloading ? 'Preparing...' : 'Download CSV'}
+            </button>
+
+            <div className="mt-6 pt-6 border-t">
+                <h3 className="font-semibold text-gray-900">Excel workbook</h3>
+                <p className="text-sm text-gray-600 mb-3">
+                    Applicants, reviews, final selections (all, regular and I-Sub, by rank) and reviewer progress on separate sheets, ready for committee meetings.
+                </p>
+                <button
+                    onClick={handleDownloadWorkbook}
+                    disabled={downloading}
+                    className="inline-flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                >
+                    Download Excel
+                </button>
+            </div>
+        </div>
+    );
+}
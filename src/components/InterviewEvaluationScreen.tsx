@@ -0,0 +1,342 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Award, MessageCircle, Star } from 'lucide-react';
+import {
+    ApiApplicant,
+    InterviewDateWithBookings,
+    InterviewEvaluation,
+    InterviewEvaluationRequest,
+    InterviewRecommendation,
+    Rubric
+} from '../types';
+import ApplicantProfileCard from './ApplicantProfileCard';
+import LoadingSpinner from './LoadingSpinner';
+
+interface InterviewEvaluationScreenProps {
+    // Full profiles for the header; bookings only carry the name and AAMC ID
+    applicants: ApiApplicant[];
+    onLoadRubric: () => Promise<Rubric | null>;
+    onLoadDays: () => Promise<InterviewDateWithBookings[] | null>;
+    onLoadEvaluations: () => Promise<InterviewEvaluation[] | null>;
+    // Omitted for read-only cycles
+    onSave?: (applicantId: string, request: InterviewEvaluationRequest) => Promise<InterviewEvaluation | null>;
+}
+
+type EvaluationDraft = Pick<InterviewEvaluation, 'scores'> & Partial<Pick<InterviewEvaluation, 'notes' | 'recommendation'>>;
+
+const RECOMMENDATIONS: InterviewRecommendation[] = ['Rank Highly', 'Rank', 'Do Not Rank'];
+
+const RECOMMENDATION_STYLES: Record<InterviewRecommendation, string> = {
+    'Rank Highly': 'bg-green-600 text-white',
+    'Rank': 'bg-yellow-600 text-white',
+    'Do Not Rank': 'bg-red-600 text-white'
+};
+
+const todayString = (): string => {
+    const now = new Date();
+    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+const formatDay = (date: string): string =>
+    new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+// Apply changes not yet saved on top of an evaluation
+const withChanges = (draft: EvaluationDraft, changes: InterviewEvaluationRequest | undefined): EvaluationDraft => ({
+    ...draft,
+    scores: { ...draft.scores, ...changes?.scores },
+    ...(changes?.notes !== undefined ? { notes: changes.notes } : {}),
+    ...(changes?.recommendation !== undefined ? { recommendation: changes.recommendation } : {})
+});
+
+/**
+ * Interview-day scoring screen: the interviewer picks a day, then scores each applicant booked on it
+ * against the interview rubric; changes save themselves half a second after the last edit
+ */
+export default function InterviewEvaluationScreen({
+    applicants,
+    onLoadRubric,
+    onLoadDays,
+    onLoadEvaluations,
+    onSave
+}: InterviewEvaluationScreenProps) {
+    const [rubric, setRubric] = useState<Rubric | null>(null);
+    const [days, setDays] = useState<InterviewDateWithBookings[]>([]);
+    const [evaluations, setEvaluations] = useState<Record<string, EvaluationDraft>>({});
+    const [dayId, setDayId] = useState<string>('');
+    const [applicantIndex, setApplicantIndex] = useState<number>(0);
+    const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+    const [loading, setLoading] = useState<boolean>(false);
+    const [reloadKey, setReloadKey] = useState<number>(0);
+
+    // Saves run one at a time so each sends the revision the previous one returned
+    const revisions = useRef<Record<string, number>>({});
+    const pending = useRef<Record<string, InterviewEvaluationRequest>>({});
+    const timers = useRef<Record<string, number>>({});
+    const queue = useRef<Promise<void>>(Promise.resolve());
+
+    useEffect(() => {
+        let cancelled = false;
+        setLoading(true);
+        Promise.all([onLoadRubric(), onLoadDays(), onLoadEvaluations()]).then(([interviewRubric, interviewDays, stored]) => {
+            if (cancelled) {
+                return;
+            }
+            setRubric(interviewRubric);
+            setDays(interviewDays ?? []);
+            revisions.current = Object.fromEntries((stored ?? []).map(evaluation => [evaluation.applicant_id, evaluation.revision]));
+            setEvaluations(Object.fromEntries((stored ?? []).map(evaluation => [evaluation.applicant_id, evaluation])));
+            // Open on today's interviews, or the next ones coming up
+            const today = todayString();
+            const upcoming = (interviewDays ?? []).find(day => day.interview_date >= today) ?? interviewDays?.[interviewDays.length - 1];
+            setDayId(current => current && interviewDays?.some(day => day.id === current) ? current : upcoming?.id ?? '');
+            setLoading(false);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [reloadKey]);
+
+    useEffect(() => () => {
+        Object.values(timers.current).forEach(timer => window.clearTimeout(timer));
+    }, []);
+
+    const day = days.find(candidate => candidate.id === dayId);
+    const bookings = day?.bookings ?? [];
+    const booking = bookings[Math.min(applicantIndex, Math.max(bookings.length - 1, 0))];
+    const criteria = rubric?.criteria ?? [];
+    const canEdit = !!onSave && !!rubric;
+
+    const save = (applicantId: string): void => {
+        const request = pending.current[applicantId];
+        delete pending.current[applicantId];
+        if (!request || !onSave) {
+            return;
+        }
+
+        queue.current = queue.current.then(async () => {
+            const revision = revisions.current[applicantId];
+            const saved = await onSave(applicantId, { ...request, ...(revision ? { expected_revision: revision } : {}) });
+            if (!saved) {
+                // Most likely changed in another tab; start again from what is stored
+                setSaveStatus('error');
+                setReloadKey(key => key + 1);
+                return;
+            }
+            revisions.current[applicantId] = saved.revision;
+            // Keep edits made while this save was in flight
+            setEvaluations(prev => ({ ...prev, [applicantId]: withChanges(saved, pending.current[applicantId]) }));
+            if (Object.keys(pending.current).length === 0) {
+                setSaveStatus('saved');
+            }
+        });
+    };
+
+    const change = (applicantId: string, changes: InterviewEvaluationRequest): void => {
+        const queued = pending.current[applicantId];
+        pending.current[applicantId] = {
+            ...queued,
+            ...changes,
+            ...(changes.scores ? { scores: { ...queued?.scores, ...changes.scores } } : {})
+        };
+        setEvaluations(prev => ({ ...prev, [applicantId]: withChanges(prev[applicantId] ?? { scores: {} }, changes) }));
+        setSaveStatus('saving');
+
+        window.clearTimeout(timers.current[applicantId]);
+        timers.current[applicantId] = window.setTimeout(() => save(applicantId), 500);
+    };
+
+    const selectDay = (id: string): void => {
+        setDayId(id);
+        setApplicantIndex(0);
+    };
+
+    if (loading && days.length === 0) {
+        return <LoadingSpinner text="Loading interviews..." />;
+    }
+
+    if (days.length === 0) {
+        return (
+            <div className="bg-white rounded-xl shadow-lg p-6 text-center text-gray-600">
+                No interview dates have been set up for this cycle yet.
+            </div>
+        );
+    }
+
+    const evaluation: EvaluationDraft | undefined = booking ? evaluations[booking.applicant_id] : undefined;
+    const profile = booking ? applicants.find(applicant => applicant.id === booking.applicant_id) : undefined;
+    const weightedTotal = parseFloat(criteria
+        .reduce((sum, criterion) => sum + (evaluation?.scores[criterion.key] ?? 0) * Number(criterion.weight), 0)
+        .toFixed(2));
+    const maxTotal = parseFloat(criteria
+        .reduce((sum, criterion) => sum + criterion.max_score * Number(criterion.weight), 0)
+        .toFixed(2));
+    const completed = bookings.filter(candidate => evaluations[candidate.applicant_id]?.recommendation).length;
+
+    return (
+        <div className="max-w-4xl mx-auto">
+            <div className="bg-white rounded-xl shadow-lg p-4 mb-6">
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                    <div className="flex items-center space-x-3">
+                        <label htmlFor="interview-day" className="text-sm font-semibold text-gray-700">Interview day</label>
+                        <select
+                            id="interview-day"
+                            value={dayId}
+                            onChange={(e) => selectDay(e.target.value)}
+                            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        >
+                            {days.map(candidate => (
+                                <option key={candidate.id} value={candidate.id}>
+                                    {formatDay(candidate.interview_date)} ({candidate.bookings.length} booked)
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="text-sm text-gray-600">
+                        Evaluated: {completed}/{bookings.length}
+                        {saveStatus === 'saving' && <span className="ml-3 text-gray-500">Saving...</span>}
+                        {saveStatus === 'saved' && <span className="ml-3 text-green-600">Saved</span>}
+                        {saveStatus === 'error' && <span className="ml-3 text-red-600">Not saved</span>}
+                    </div>
+                </div>
+                {bookings.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mt-4">
+                        {bookings.map((candidate, index) => (
+                            <button
+                                key={candidate.applicant_id}
+                                onClick={() => setApplicantIndex(index)}
+                                className={`px-3 py-1 rounded-full text-sm border transition-colors ${candidate.applicant_id === booking?.applicant_id
+                                    ? 'bg-blue-600 text-white border-blue-600'
+                                    : evaluations[candidate.applicant_id]?.recommendation
+                                        ? 'bg-green-50 text-green-800 border-green-200 hover:border-green-400'
+                                        : 'bg-white text-gray-700 border-gray-300 hover:border-blue-400'
+                                    }`}
+                            >
+                                {candidate.name}
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {!booking ? (
+                <div className="bg-white rounded-xl shadow-lg p-6 text-center text-gray-600">
+                    Nobody is booked on this day.
+                </div>
+            ) : (
+                <div className="bg-white rounded-xl shadow-lg p-6 mb-6">
+                    <div className="flex justify-between items-start mb-6">
+                        {profile ? (
+                            <ApplicantProfileCard applicant={profile} />
+                        ) : (
+                            <div>
+                                <h2 className="text-2xl font-bold text-gray-900 mb-2">{booking.name}</h2>
+                                <p className="text-gray-700">AAMC ID: {booking.external_id}</p>
+                            </div>
+                        )}
+                        <div className="text-right">
+                            <p className="text-sm text-gray-600">Interview {applicantIndex + 1} of {bookings.length}</p>
+                            <p className="text-2xl font-bold text-blue-600">Total: {weightedTotal}/{maxTotal}</p>
+                        </div>
+                    </div>
+
+                    {!rubric && (
+                        <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg text-amber-800">
+                            No interview rubric is active. A program director must activate one before interviews can be scored.
+                        </div>
+                    )}
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+                        {criteria.map(criterion => {
+                            const scoreOptions = Array.from(
+                                { length: criterion.max_score - criterion.min_score + 1 },
+                                (_, i) => criterion.min_score + i
+                            );
+                            return (
+                                <div key={criterion.key} className="border rounded-lg p-4">
+                                    <div className="flex items-center mb-3">
+                                        <Star className="w-5 h-5 text-orange-500 mr-2" />
+                                        <h3 className="font-semibold text-gray-900">{criterion.label}</h3>
+                                    </div>
+                                    {criterion.description && (
+                                        <p className="text-sm text-gray-600 mb-3">{criterion.description}</p>
+                                    )}
+                                    <div className="flex flex-wrap gap-2">
+                                        {scoreOptions.map(score => (
+                                            <button
+                                                key={score}
+                                                onClick={() => change(booking.applicant_id, { scores: { [criterion.key]: score } })}
+                                                disabled={!canEdit}
+                                                className={`w-10 h-10 rounded-full border-2 font-semibold transition-all disabled:cursor-not-allowed ${evaluation?.scores[criterion.key] === score
+                                                    ? 'bg-blue-600 text-white border-blue-600'
+                                                    : 'bg-white text-gray-600 border-gray-300 hover:border-blue-400 hover:text-blue-600'
+                                                    }`}
+                                            >
+                                                {score}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+
+                    <div className="space-y-4">
+                        <div>
+                            <label className="block text-sm font-semibold text-gray-700 mb-2">
+                                <MessageCircle className="w-4 h-4 inline mr-1" />
+                                Interviewer Notes
+                            </label>
+                            <textarea
+                                value={evaluation?.notes || ''}
+                                onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => change(booking.applicant_id, { notes: e.target.value })}
+                                readOnly={!canEdit}
+                                className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 read-only:bg-gray-100"
+                                rows={3}
+                                placeholder="Add your notes from the interview..."
+                            />
+                        </div>
+
+                        <div>
+                            <label className="block text-sm font-semibold text-gray-700 mb-2">
+                                <Award className="w-4 h-4 inline mr-1" />
+                                Ranking Recommendation
+                            </label>
+                            <div className="flex space-x-3">
+                                {RECOMMENDATIONS.map(recommendation => (
+                                    <button
+                                        key={recommendation}
+                                        onClick={() => change(booking.applicant_id, { recommendation })}
+                                        disabled={!canEdit}
+                                        className={`px-4 py-2 rounded-lg font-medium transition-all disabled:cursor-not-allowed ${evaluation?.recommendation === recommendation
+                                            ? RECOMMENDATION_STYLES[recommendation]
+                                            : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                                            }`}
+                                    >
+                                        {recommendation}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {bookings.length > 1 && (
+                <div className="flex justify-between">
+                    <button
+                        onClick={() => setApplicantIndex(Math.max(0, applicantIndex - 1))}
+                        disabled={applicantIndex === 0}
+                        className="px-6 py-3 bg-gray-600 text-white rounded-lg hover:bg-gray-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+                    >
+                        Previous Applicant
+                    </button>
+                    <button
+                        onClick={() => setApplicantIndex(Math.min(bookings.length - 1, applicantIndex + 1))}
+                        disabled={applicantIndex >= bookings.length - 1}
+                        className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+                    >
+                        Next Applicant
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
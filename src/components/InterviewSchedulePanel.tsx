@@ -0,0 +1,517 @@
+import React, { useEffect, useState } from 'react';
+import { InterviewDate, InterviewDateRequest, InterviewDateWithBookings, InterviewSchedule } from '../types';
+import LoadingSpinner from './LoadingSpinner';
+import { saveFile } from '../utils/download';
+
+interface InterviewSchedulePanelProps {
+    onLoad: () => Promise<InterviewSchedule | null>;
+    // Omitted for reviewers who cannot manage interviews and for read-only cycles
+    onCreateDate?: (request: InterviewDateRequest) => Promise<InterviewDate | null>;
+    onUpdateDate?: (dateId: string, request: InterviewDateRequest) => Promise<InterviewDate | null>;
+    onDeleteDate?: (dateId: string) => Promise<boolean>;
+    onBook?: (applicantId: string, dateId: string) => Promise<boolean>;
+    onCancelBooking?: (applicantId: string) => Promise<boolean>;
+    onDownloadDateICS: (dateId: string) => Promise<Blob | null>;
+    onDownloadApplicantICS: (applicantId: string) => Promise<Blob | null>;
+    onClose: () => void;
+}
+
+interface DateForm {
+    interview_date: string;
+    start_time: string;
+    end_time: string;
+    capacity: string;
+    location: string;
+    notes: string;
+}
+
+const EMPTY_FORM: DateForm = { interview_date: '', start_time: '08:00', end_time: '16:00', capacity: '', location: '', notes: '' };
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Dates are plain days at the program, so build and read them in UTC to stay clear of the browser's time zone
+const monthKey = (date: string): string => date.slice(0, 7);
+
+const shiftMonth = (month: string, step: number): string => {
+    const date = new Date(`${month}-01T00:00:00Z`);
+    date.setUTCMonth(date.getUTCMonth() + step);
+    return date.toISOString().slice(0, 7);
+};
+
+const monthLabel = (month: string): string =>
+    new Date(`${month}-01T00:00:00Z`).toLocaleDateString(undefined, { month: 'long', year: 'numeric', timeZone: 'UTC' });
+
+const dayLabel = (date: string): string =>
+    new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+
+const timeLabel = (date: InterviewDate): string =>
+    date.start_time && date.end_time ? `${date.start_time.slice(0, 5)}–${date.end_time.slice(0, 5)}` : 'All day';
+
+/**
+ * The days of a month laid out in weeks, with null for the blanks before the 1st and after the last day
+ */
+const calendarDays = (month: string): Array<string | null> => {
+    const first = new Date(`${month}-01T00:00:00Z`);
+    const daysInMonth = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + 1, 0)).getUTCDate();
+    const days: Array<string | null> = Array(first.getUTCDay()).fill(null);
+    for (let day = 1; day <= daysInMonth; day++) {
+        days.push(`${month}-${String(day).padStart(2, '0')}`);
+    }
+    while (days.length % 7 !== 0) {
+        days.push(null);
+    }
+    return days;
+};
+
+const toForm = (date: InterviewDate): DateForm => ({
+    interview_date: date.interview_date,
+    start_time: date.start_time?.slice(0, 5) ?? '',
+    end_time: date.end_time?.slice(0, 5) ?? '',
+    capacity: String(date.capacity),
+    location: date.location ?? '',
+    notes: date.notes ?? ''
+});
+
+const toRequest = (form: DateForm): InterviewDateRequest => ({
+    interview_date: form.interview_date,
+    start_time: form.start_time || null,
+    end_time: form.end_time || null,
+    capacity: Number(form.capacity),
+    location: form.location || null,
+    notes: form.notes || null
+});
+
+export default function InterviewSchedulePanel({
+    onLoad,
+    onCreateDate,
+    onUpdateDate,
+    onDeleteDate,
+    onBook,
+    onCancelBooking,
+    onDownloadDateICS,
+    onDownloadApplicantICS,
+    onClose
+}: InterviewSchedulePanelProps) {
+    const [schedule, setSchedule] = useState<InterviewSchedule | null>(null);
+    const [month, setMonth] = useState<string>(new Date().toISOString().slice(0, 7));
+    const [selectedDateId, setSelectedDateId] = useState<string | null>(null);
+    const [form, setForm] = useState<DateForm>(EMPTY_FORM);
+    const [editing, setEditing] = useState<boolean>(false);
+    const [bookingApplicantId, setBookingApplicantId] = useState<string>('');
+    const [loading, setLoading] = useState<boolean>(false);
+    const [working, setWorking] = useState<boolean>(false);
+    const [reloadKey, setReloadKey] = useState<number>(0);
+
+    useEffect(() => {
+        let cancelled = false;
+        setLoading(true);
+        onLoad().then(result => {
+            if (cancelled) {
+                return;
+            }
+            setSchedule(result);
+            setLoading(false);
+            // Open on the month of the next interview, or the last one once they are all past
+            if (reloadKey === 0 && result && result.dates.length > 0) {
+                const today = new Date().toISOString().slice(0, 10);
+                const next = result.dates.find(date => date.interview_date >= today) ?? result.dates[result.dates.length - 1]!;
+                setMonth(monthKey(next.interview_date));
+            }
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [reloadKey]);
+
+    const canManage = !!onCreateDate;
+    const datesByDay = new Map((schedule?.dates ?? []).map(date => [date.interview_date, date]));
+    const selectedDate = schedule?.dates.find(date => date.id === selectedDateId) ?? null;
+    const capacity = schedule?.capacity;
+
+    // Run a change, then reload the schedule so counts and the unbooked list stay in step
+    const run = async (change: () => Promise<unknown>): Promise<boolean> => {
+        setWorking(true);
+        const result = await change();
+        setWorking(false);
+        if (result) {
+            setReloadKey(reloadKey + 1);
+        }
+        return !!result;
+    };
+
+    const selectDate = (date: InterviewDateWithBookings | null): void => {
+        setSelectedDateId(date?.id ?? null);
+        setEditing(false);
+        setBookingApplicantId('');
+    };
+
+    const handleSubmitDate = async (): Promise<void> => {
+        const request = toRequest(form);
+        const saved = await run(() => editing && selectedDate && onUpdateDate
+            ? onUpdateDate(selectedDate.id, request)
+            : onCreateDate ? onCreateDate(request) : Promise.resolve(null));
+        if (saved) {
+            setForm(EMPTY_FORM);
+            setEditing(false);
+            setMonth(monthKey(request.interview_date));
+        }
+    };
+
+    const handleDeleteDate = async (date: InterviewDateWithBookings): Promise<void> => {
+        if (!onDeleteDate || !window.confirm(`Delete the interview date on ${dayLabel(date.interview_date)}?`)) {
+            return;
+        }
+        if (await run(() => onDeleteDate(date.id))) {
+            selectDate(null);
+        }
+    };
+
+    const handleBook = async (applicantId: string, dateId: string): Promise<void> => {
+        if (!onBook) {
+            return;
+        }
+        if (await run(() => onBook(applicantId, dateId))) {
+            setBookingApplicantId('');
+        }
+    };
+
+    const handleCancelBooking = async (applicantId: string, name: string): Promise<void> => {
+        if (!onCancelBooking || !window.confirm(`Cancel ${name}'s interview booking?`)) {
+            return;
+        }
+        await run(() => onCancelBooking(applicantId));
+    };
+
+    const handleDownload = async (download: Promise<Blob | null>, fileName: string): Promise<void> => {
+        setWorking(true);
+        const blob = await download;
+        setWorking(false);
+        if (blob) {
+            saveFile(blob, fileName);
+        }
+    };
+
+    const inputClass = 'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+    const buttonClass = 'inline-flex items-center px-4 py-2 text-white rounded-lg transition-colors disabled:opacity-50';
+    const formValid = !!form.interview_date && Number.isInteger(Number(form.capacity)) && Number(form.capacity) > 0;
+
+    return (
+        <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
+            <div className="flex justify-between items-start mb-4">
+                <div>
+                    <h2 className="text-xl font-bold text-gray-900">Interview Schedule</h2>
+                    <p className="text-sm text-gray-600">
+                        Interview dates for the cycle and which Selected applicant comes on each. Calendar files open in Outlook, Google Calendar and Apple Calendar.
+                    </p>
+                </div>
+                <button
+                    onClick={onClose}
+                    className="text-sm text-gray-500 hover:text-gray-700"
+                >
+                    Close
+                </button>
+            </div>
+
+            {loading && !schedule && <LoadingSpinner size="small" text="Loading schedule..." />}
+
+            {schedule && capacity && (
+                <>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4 text-sm">
+                        <div className="border rounded-lg p-3">
+                            <p className="text-gray-600">Places on {schedule.dates.length} dates</p>
+                            <p className="text-xl font-bold text-gray-900">{capacity.date_capacity}</p>
+                        </div>
+                        <div className="border rounded-lg p-3">
+                            <p className="text-gray-600">Interview slots (targets)</p>
+                            <p className="text-xl font-bold text-gray-900">{capacity.target_slots ?? 'Not set'}</p>
+                        </div>
+                        <div className="border rounded-lg p-3">
+                            <p className="text-gray-600">Selected</p>
+                            <p className="text-xl font-bold text-gray-900">{capacity.selected}</p>
+                        </div>
+                        <div className="border rounded-lg p-3">
+                            <p className="text-gray-600">Booked</p>
+                            <p className="text-xl font-bold text-gray-900">{capacity.booked}</p>
+                        </div>
+                    </div>
+                    {capacity.target_slots !== null && capacity.date_capacity < capacity.target_slots && (
+                        <p className="text-sm text-amber-700 mb-2">
+                            The dates offer {capacity.target_slots - capacity.date_capacity} fewer places than the cycle's interview slots.
+                        </p>
+                    )}
+                    {capacity.target_slots !== null && capacity.date_capacity > capacity.target_slots && (
+                        <p className="text-sm text-amber-700 mb-2">
+                            The dates offer {capacity.date_capacity - capacity.target_slots} more places than the cycle's interview slots.
+                        </p>
+                    )}
+
+                    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mt-4">
+                        <div className="lg:col-span-2">
+                            <div className="flex justify-between items-center mb-2">
+                                <button onClick={() => setMonth(shiftMonth(month, -1))} className="text-sm text-blue-600 hover:text-blue-800">
+                                    ← Previous
+                                </button>
+                                <h3 className="font-semibold text-gray-900">{monthLabel(month)}</h3>
+                                <button onClick={() => setMonth(shiftMonth(month, 1))} className="text-sm text-blue-600 hover:text-blue-800">
+                                    Next →
+                                </button>
+                            </div>
+                            <div className="grid grid-cols-7 gap-1 text-center text-xs">
+                                {WEEKDAYS.map(weekday => (
+                                    <div key={weekday} className="font-semibold text-gray-500 py-1">{weekday}</div>
+                                ))}
+                                {calendarDays(month).map((day, index) => {
+                                    const date = day ? datesByDay.get(day) : undefined;
+                                    if (!day) {
+                                        return <div key={`blank-${index}`} />;
+                                    }
+                                    return (
+                                        <button
+                                            key={day}
+                                            onClick={() => date ? selectDate(date) : setForm({ ...form, interview_date: day })}
+                                            disabled={!date && !canManage}
+                                            className={`h-16 border rounded-lg p-1 text-left ${date
+                                                ? `${date.id === selectedDateId ? 'border-blue-500 bg-blue-50' : 'border-blue-200'} hover:border-blue-500`
+                                                : 'border-gray-200 hover:border-gray-400 disabled:hover:border-gray-200'}`}
+                                        >
+                                            <span className="text-gray-700">{Number(day.slice(8))}</span>
+                                            {date && (
+                                                <span className={`block mt-1 font-semibold ${date.remaining === 0 ? 'text-green-700' : 'text-blue-700'}`}>
+                                                    {date.bookings.length}/{date.capacity}
+                                                </span>
+                                            )}
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                            {canManage && (
+                                <p className="text-xs text-gray-500 mt-2">Click an empty day to fill it into the new date form.</p>
+                            )}
+
+                            {schedule.dates.length > 0 && (
+                                <ul className="mt-4 divide-y border rounded-lg text-sm">
+                                    {schedule.dates.map(date => (
+                                        <li key={date.id}>
+                                            <button
+                                                onClick={() => { selectDate(date); setMonth(monthKey(date.interview_date)); }}
+                                                className={`w-full flex justify-between px-3 py-2 text-left hover:bg-gray-50 ${date.id === selectedDateId ? 'bg-blue-50' : ''}`}
+                                            >
+                                                <span className="text-gray-900">{dayLabel(date.interview_date)} · {timeLabel(date)}</span>
+                                                <span className="text-gray-600">{date.bookings.length} of {date.capacity} booked</span>
+                                            </button>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+
+                        <div className="space-y-6">
+                            {selectedDate && (
+                                <div className="border rounded-lg p-4">
+                                    <div className="flex justify-between items-start mb-2">
+                                        <div>
+                                            <h3 className="font-semibold text-gray-900">{dayLabel(selectedDate.interview_date)}</h3>
+                                            <p className="text-sm text-gray-600">
+                                                {timeLabel(selectedDate)}{selectedDate.location ? ` · ${selectedDate.location}` : ''}
+                                            </p>
+                                            {selectedDate.notes && <p className="text-sm text-gray-600 mt-1">{selectedDate.notes}</p>}
+                                        </div>
+                                        <button onClick={() => selectDate(null)} className="text-sm text-gray-500 hover:text-gray-700">
+                                            Close
+                                        </button>
+                                    </div>
+
+                                    <div className="flex flex-wrap gap-3 text-sm mb-3">
+                                        <button
+                                            onClick={() => handleDownload(onDownloadDateICS(selectedDate.id), `urology_interviews_${selectedDate.interview_date}.ics`)}
+                                            disabled={working}
+                                            className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                                        >
+                                            Day calendar (.ics)
+                                        </button>
+                                        {onUpdateDate && (
+                                            <button
+                                                onClick={() => { setForm(toForm(selectedDate)); setEditing(true); }}
+                                                className="text-blue-600 hover:text-blue-800"
+                                            >
+                                                Edit date
+                                            </button>
+                                        )}
+                                        {onDeleteDate && selectedDate.bookings.length === 0 && (
+                                            <button
+                                                onClick={() => handleDeleteDate(selectedDate)}
+                                                disabled={working}
+                                                className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                                            >
+                                                Delete date
+                                            </button>
+                                        )}
+                                    </div>
+
+                                    {selectedDate.bookings.length === 0 ? (
+                                        <p className="text-sm text-gray-500">No one is booked on this date yet.</p>
+                                    ) : (
+                                        <ul className="divide-y text-sm">
+                                            {selectedDate.bookings.map(booking => (
+                                                <li key={booking.id} className="py-2">
+                                                    <p className="font-semibold text-gray-900">
+                                                        {booking.name}
+                                                        <span className="ml-2 text-xs font-normal text-gray-500">
+                                                            {booking.external_id} · {booking.category === 'i-sub' ? 'I-Sub' : 'Regular'}
+                                                        </span>
+                                                    </p>
+                                                    {booking.admin_decision !== 'Selected' && (
+                                                        <p className="text-xs text-amber-700">Decision is now {booking.admin_decision}</p>
+                                                    )}
+                                                    <div className="flex flex-wrap items-center gap-3 mt-1">
+                                                        <button
+                                                            onClick={() => handleDownload(onDownloadApplicantICS(booking.applicant_id), `interview_${booking.name}.ics`)}
+                                                            disabled={working}
+                                                            className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                                                        >
+                                                            Calendar (.ics)
+                                                        </button>
+                                                        {onBook && schedule.dates.length > 1 && (
+                                                            <select
+                                                                value=""
+                                                                onChange={event => event.target.value && handleBook(booking.applicant_id, event.target.value)}
+                                                                disabled={working}
+                                                                className="text-sm border border-gray-300 rounded"
+                                                            >
+                                                                <option value="">Move to...</option>
+                                                                {schedule.dates
+                                                                    .filter(date => date.id !== selectedDate.id && date.remaining > 0)
+                                                                    .map(date => (
+                                                                        <option key={date.id} value={date.id}>{date.interview_date}</option>
+                                                                    ))}
+                                                            </select>
+                                                        )}
+                                                        {onCancelBooking && (
+                                                            <button
+                                                                onClick={() => handleCancelBooking(booking.applicant_id, booking.name)}
+                                                                disabled={working}
+                                                                className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                                                            >
+                                                                Cancel
+                                                            </button>
+                                                        )}
+                                                    </div>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+
+                                    {onBook && selectedDate.remaining > 0 && schedule.unbooked.length > 0 && (
+                                        <div className="flex gap-2 mt-3">
+                                            <select
+                                                value={bookingApplicantId}
+                                                onChange={event => setBookingApplicantId(event.target.value)}
+                                                className={`flex-1 ${inputClass}`}
+                                            >
+                                                <option value="">Book an applicant...</option>
+                                                {schedule.unbooked.map(applicant => (
+                                                    <option key={applicant.applicant_id} value={applicant.applicant_id}>
+                                                        {applicant.name} ({applicant.category === 'i-sub' ? 'I-Sub' : 'Regular'})
+                                                    </option>
+                                                ))}
+                                            </select>
+                                            <button
+                                                onClick={() => handleBook(bookingApplicantId, selectedDate.id)}
+                                                disabled={working || !bookingApplicantId}
+                                                className={`${buttonClass} bg-blue-600 hover:bg-blue-700`}
+                                            >
+                                                Book
+                                            </button>
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+
+                            {canManage && (
+                                <div className="border rounded-lg p-4 space-y-3">
+                                    <h3 className="font-semibold text-gray-900">{editing ? 'Edit interview date' : 'Add interview date'}</h3>
+                                    <input
+                                        type="date"
+                                        value={form.interview_date}
+                                        onChange={event => setForm({ ...form, interview_date: event.target.value })}
+                                        className={`w-full ${inputClass}`}
+                                    />
+                                    <div className="flex gap-2 items-center text-sm">
+                                        <input
+                                            type="time"
+                                            value={form.start_time}
+                                            onChange={event => setForm({ ...form, start_time: event.target.value })}
+                                            className={`flex-1 ${inputClass}`}
+                                        />
+                                        <span>to</span>
+                                        <input
+                                            type="time"
+                                            value={form.end_time}
+                                            onChange={event => setForm({ ...form, end_time: event.target.value })}
+                                            className={`flex-1 ${inputClass}`}
+                                        />
+                                    </div>
+                                    <p className="text-xs text-gray-500">Clear both times for an all-day interview.</p>
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        value={form.capacity}
+                                        onChange={event => setForm({ ...form, capacity: event.target.value })}
+                                        placeholder="Applicants this day can take"
+                                        className={`w-full ${inputClass}`}
+                                    />
+                                    <input
+                                        type="text"
+                                        value={form.location}
+                                        onChange={event => setForm({ ...form, location: event.target.value })}
+                                        placeholder="Location or video link"
+                                        maxLength={255}
+                                        className={`w-full ${inputClass}`}
+                                    />
+                                    <textarea
+                                        value={form.notes}
+                                        onChange={event => setForm({ ...form, notes: event.target.value })}
+                                        placeholder="Notes, included in calendar files"
+                                        rows={2}
+                                        className={`w-full ${inputClass}`}
+                                    />
+                                    <div className="flex gap-3">
+                                        <button
+                                            onClick={handleSubmitDate}
+                                            disabled={working || !formValid}
+                                            className={`${buttonClass} bg-green-600 hover:bg-green-700`}
+                                        >
+                                            {editing ? 'Save changes' : 'Add date'}
+                                        </button>
+                                        {editing && (
+                                            <button
+                                                onClick={() => { setForm(EMPTY_FORM); setEditing(false); }}
+                                                className="text-sm text-gray-500 hover:text-gray-700"
+                                            >
+                                                Cancel
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+                            )}
+
+                            {schedule.unbooked.length > 0 && (
+                                <div className="border rounded-lg p-4">
+                                    <h3 className="font-semibold text-gray-900 mb-2">Selected without a date ({schedule.unbooked.length})</h3>
+                                    <ul className="text-sm text-gray-700 space-y-1 max-h-48 overflow-y-auto">
+                                        {schedule.unbooked.map(applicant => (
+                                            <li key={applicant.applicant_id}>
+                                                {applicant.name}
+                                                <span className="ml-2 text-xs text-gray-500">{applicant.category === 'i-sub' ? 'I-Sub' : 'Regular'}</span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
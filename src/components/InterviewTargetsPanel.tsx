@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { ApplicantCategory, InterviewCapacity } from '../types';
+
+interface InterviewTargetsPanelProps {
+    capacity: InterviewCapacity[];
+    // Only passed when the signed-in role may change targets
+    onSave?: (category: ApplicantCategory, slots: number, hardLimit: boolean) => Promise<boolean>;
+}
+
+const CATEGORY_LABELS: Record<ApplicantCategory, string> = {
+    'regular': 'Regular',
+    'i-sub': 'I-Sub'
+};
+
+function CapacityCard({ capacity, onSave }: { capacity: InterviewCapacity; onSave?: InterviewTargetsPanelProps['onSave'] }) {
+    const [editing, setEditing] = useState<boolean>(false);
+    const [slots, setSlots] = useState<string>(String(capacity.slots ?? ''));
+    const [hardLimit, setHardLimit] = useState<boolean>(capacity.hard_limit);
+    const [saving, setSaving] = useState<boolean>(false);
+
+    const parsedSlots = parseInt(slots, 10);
+    const invalid = !/^\d+$/.test(slots) || parsedSlots > 1000;
+
+    const save = async (): Promise<void> => {
+        setSaving(true);
+        const saved = await onSave!(capacity.category, parsedSlots, hardLimit);
+        setSaving(false);
+        if (saved) {
+            setEditing(false);
+        }
+    };
+
+    const remainingColor = capacity.remaining === null
+        ? 'text-gray-500'
+        : capacity.remaining < 0
+            ? 'text-red-600'
+            : capacity.remaining === 0
+                ? 'text-orange-600'
+                : 'text-green-600';
+
+    return (
+        <div className="bg-white rounded-xl shadow-lg p-6">
+            <div className="flex justify-between items-start">
+                <div>
+                    <p className="text-sm text-gray-600">{CATEGORY_LABELS[capacity.category]} Interview Slots</p>
+                    <p className="text-2xl font-bold text-gray-900">
+                        {capacity.selected}/{capacity.slots ?? '-'}
+                    </p>
+                    <p className={`text-sm font-semibold ${remainingColor}`}>
+                        {capacity.remaining === null
+                            ? 'No target set'
+                            : capacity.remaining < 0
+                                ? `${-capacity.remaining} over target`
+                                : `${capacity.remaining} remaining`}
+                    </p>
+                    {capacity.hard_limit && <p className="text-xs text-gray-500">Hard limit</p>}
+                </div>
+                {onSave && !editing && (
+                    <button
+                        onClick={() => setEditing(true)}
+                        className="text-sm text-blue-600 hover:text-blue-800"
+                    >
+                        Edit
+                    </button>
+                )}
+            </div>
+
+            {editing && (
+                <div className="mt-4 flex flex-wrap items-center gap-3">
+                    <input
+                        type="number"
+                        min={0}
+                        max={1000}
+                        value={slots}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSlots(e.target.value)}
+                        className="w-24 px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                    <label className="inline-flex items-center space-x-2">
+                        <input
+                            type="checkbox"
+                            checked={hardLimit}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setHardLimit(e.target.checked)}
+                        />
+                        <span className="text-sm text-gray-700">Block selections past target</span>
+                    </label>
+                    <button
+                        onClick={save}
+                        disabled={invalid || saving}
+                        className="px-3 py-1 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+                    >
+                        {saving ? 'Saving...' : 'Save'}
+                    </button>
+                    <button
+                        onClick={() => setEditing(false)}
+                        className="text-sm text-gray-500 hover:text-gray-700"
+                    >
+                        Cancel
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default function InterviewTargetsPanel({ capacity, onSave }: InterviewTargetsPanelProps) {
+    if (capacity.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className="mb-8">
+            <h2 className="text-xl font-bold text-gray-900 mb-4">
+                Interview Capacity <span className="text-sm font-normal text-gray-500">({capacity[0]!.cycle} cycle)</span>
+            </h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {capacity.map(item => (
+                    <CapacityCard
+                        key={`${item.category}-${item.slots}-${item.hard_limit}`}
+                        capacity={item}
+                        {...(onSave ? { onSave } : {})}
+                    />
+                ))}
+            </div>
+        </div>
+    );
+}
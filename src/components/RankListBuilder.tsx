@@ -0,0 +1,390 @@
+import React, { useEffect, useState } from 'react';
+import { RankList, RankListEntry, RankListItem, RankListVersion } from '../types';
+import LoadingSpinner from './LoadingSpinner';
+import { saveFile } from '../utils/download';
+
+interface RankListBuilderProps {
+    // Names the downloaded files, e.g. the cycle being viewed
+    cycleName?: string | undefined;
+    onLoad: () => Promise<RankList | null>;
+    onLoadVersions: () => Promise<RankListVersion[] | null>;
+    // Omitted for reviewers who cannot manage the list and for read-only cycles
+    onSave?: (entries: RankListEntry[], expectedRevision?: number) => Promise<RankList | null>;
+    onSeed?: (expectedRevision?: number) => Promise<RankList | null>;
+    onCreateVersion?: (label?: string) => Promise<RankListVersion | null>;
+    onRestore?: (version: number, expectedRevision?: number) => Promise<RankList | null>;
+    // Omitted for reviewers who cannot export
+    onDownloadCSV?: () => Promise<Blob | null>;
+    onDownloadPDF?: () => Promise<Blob | null>;
+    onClose: () => void;
+}
+
+const toEntries = (items: RankListItem[]): RankListEntry[] =>
+    items.map(item => ({ applicant_id: item.applicant_id, locked: item.locked }));
+
+const sameEntries = (a: RankListEntry[], b: RankListEntry[]): boolean =>
+    a.length === b.length && a.every((entry, index) =>
+        entry.applicant_id === b[index]!.applicant_id && entry.locked === b[index]!.locked);
+
+/**
+ * Move the unlocked item at from to the unlocked slot at to; locked items stay where they are
+ */
+const moveItem = (items: RankListItem[], from: number, to: number): RankListItem[] => {
+    const slots = items.map((item, index) => ({ item, index })).filter(({ item }) => !item.locked).map(({ index }) => index);
+    const unlocked = slots.map(index => items[index]!);
+    const fromSlot = slots.indexOf(from);
+    const toSlot = slots.indexOf(to);
+    if (fromSlot === -1 || toSlot === -1 || fromSlot === toSlot) {
+        return items;
+    }
+
+    const [moved] = unlocked.splice(fromSlot, 1);
+    unlocked.splice(toSlot, 0, moved!);
+
+    const next = [...items];
+    slots.forEach((index, slot) => {
+        next[index] = unlocked[slot]!;
+    });
+    return next;
+};
+
+export default function RankListBuilder({
+    cycleName,
+    onLoad,
+    onLoadVersions,
+    onSave,
+    onSeed,
+    onCreateVersion,
+    onRestore,
+    onDownloadCSV,
+    onDownloadPDF,
+    onClose
+}: RankListBuilderProps) {
+    const [rankList, setRankList] = useState<RankList | null>(null);
+    const [items, setItems] = useState<RankListItem[]>([]);
+    const [versions, setVersions] = useState<RankListVersion[] | null>(null);
+    const [versionLabel, setVersionLabel] = useState<string>('');
+    const [dragIndex, setDragIndex] = useState<number | null>(null);
+    const [loading, setLoading] = useState<boolean>(false);
+    const [working, setWorking] = useState<boolean>(false);
+    const [reloadKey, setReloadKey] = useState<number>(0);
+
+    useEffect(() => {
+        let cancelled = false;
+        setLoading(true);
+        Promise.all([onLoad(), onLoadVersions()]).then(([list, listVersions]) => {
+            if (cancelled) {
+                return;
+            }
+            setRankList(list);
+            setItems(list?.items ?? []);
+            setVersions(listVersions);
+            setLoading(false);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [reloadKey]);
+
+    const canEdit = !!onSave;
+    const dirty = !sameEntries(toEntries(items), rankList?.entries ?? []);
+
+    // Every write replaces the list with what the server stored
+    const applyResult = (list: RankList | null): void => {
+        if (list) {
+            setRankList(list);
+            setItems(list.items);
+        }
+    };
+
+    const move = (from: number, to: number): void => {
+        setItems(moveItem(items, from, to));
+    };
+
+    // The nearest unlocked slot above or below an item, skipping locked ones
+    const neighbour = (index: number, step: -1 | 1): number | null => {
+        for (let next = index + step; next >= 0 && next < items.length; next += step) {
+            if (!items[next]!.locked) {
+                return next;
+            }
+        }
+        return null;
+    };
+
+    const toggleLock = (index: number): void => {
+        setItems(items.map((item, i) => i === index ? { ...item, locked: !item.locked } : item));
+    };
+
+    const handleDrop = (index: number): void => {
+        if (dragIndex !== null) {
+            move(dragIndex, index);
+        }
+        setDragIndex(null);
+    };
+
+    const handleSave = async (): Promise<void> => {
+        if (!onSave) {
+            return;
+        }
+        setWorking(true);
+        applyResult(await onSave(toEntries(items), rankList?.revision));
+        setWorking(false);
+    };
+
+    const handleSeed = async (): Promise<void> => {
+        if (!onSeed) {
+            return;
+        }
+        if (items.length > 0 && !window.confirm('Rebuild the list from applicants selected for interview, highest interview score first, then average review score? Locked applicants keep their ranks; unsaved changes are lost.')) {
+            return;
+        }
+        setWorking(true);
+        applyResult(await onSeed(rankList?.revision));
+        setWorking(false);
+    };
+
+    const handleCreateVersion = async (): Promise<void> => {
+        if (!onCreateVersion) {
+            return;
+        }
+        setWorking(true);
+        const version = await onCreateVersion(versionLabel.trim() || undefined);
+        if (version) {
+            setVersions([version, ...(versions ?? [])]);
+            setVersionLabel('');
+        }
+        setWorking(false);
+    };
+
+    const handleRestore = async (version: number): Promise<void> => {
+        if (!onRestore) {
+            return;
+        }
+        if (dirty && !window.confirm('Restoring a version discards your unsaved changes. Continue?')) {
+            return;
+        }
+        setWorking(true);
+        applyResult(await onRestore(version, rankList?.revision));
+        setWorking(false);
+    };
+
+    const handleDownload = async (download: () => Promise<Blob | null>, extension: string): Promise<void> => {
+        setWorking(true);
+        const blob = await download();
+        setWorking(false);
+        if (blob) {
+            saveFile(blob, `urology_rank_list${cycleName ? `_${cycleName}` : ''}.${extension}`);
+        }
+    };
+
+    const buttonClass = 'inline-flex items-center px-4 py-2 text-white rounded-lg transition-colors disabled:opacity-50';
+    const arrowClass = 'px-2 text-gray-500 hover:text-gray-800 disabled:opacity-30';
+
+    return (
+        <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
+            <div className="flex justify-between items-start mb-4">
+                <div>
+                    <h2 className="text-xl font-bold text-gray-900">Rank Order List</h2>
+                    <p className="text-sm text-gray-600">
+                        {canEdit
+                            ? 'Drag applicants into the order you will submit to the match. Locked applicants keep their rank when you reorder or reseed the list.'
+                            : 'The order the program will submit to the match.'}
+                    </p>
+                    {rankList && (
+                        <p className="text-xs text-gray-500 mt-1">
+                            Revision {rankList.revision} · last changed {new Date(rankList.updated_at).toLocaleString()}
+                        </p>
+                    )}
+                </div>
+                <button
+                    onClick={onClose}
+                    className="text-sm text-gray-500 hover:text-gray-700"
+                >
+                    Close
+                </button>
+            </div>
+
+            {loading && <LoadingSpinner size="small" text="Loading rank list..." />}
+
+            {!loading && (
+                <>
+                    <div className="flex flex-wrap gap-3 mb-4">
+                        {onSeed && (
+                            <button
+                                onClick={handleSeed}
+                                disabled={working}
+                                className={`${buttonClass} bg-blue-600 hover:bg-blue-700`}
+                            >
+                                {items.length > 0 ? 'Reseed from interviews' : 'Seed from interviews'}
+                            </button>
+                        )}
+                        {canEdit && (
+                            <button
+                                onClick={handleSave}
+                                disabled={working || !dirty}
+                                className={`${buttonClass} bg-green-600 hover:bg-green-700`}
+                            >
+                                Save order
+                            </button>
+                        )}
+                        {canEdit && dirty && (
+                            <button
+                                onClick={() => setReloadKey(reloadKey + 1)}
+                                disabled={working}
+                                className={`${buttonClass} bg-gray-600 hover:bg-gray-700`}
+                            >
+                                Discard changes
+                            </button>
+                        )}
+                        {onDownloadCSV && rankList && (
+                            <button
+                                onClick={() => handleDownload(onDownloadCSV, 'csv')}
+                                disabled={working || dirty}
+                                className={`${buttonClass} bg-indigo-600 hover:bg-indigo-700`}
+                            >
+                                Download CSV
+                            </button>
+                        )}
+                        {onDownloadPDF && rankList && (
+                            <button
+                                onClick={() => handleDownload(onDownloadPDF, 'pdf')}
+                                disabled={working || dirty}
+                                className={`${buttonClass} bg-indigo-600 hover:bg-indigo-700`}
+                            >
+                                Printable PDF
+                            </button>
+                        )}
+                    </div>
+
+                    {dirty && (
+                        <p className="text-sm text-amber-700 mb-4">You have unsaved changes. Exports use the last saved order.</p>
+                    )}
+
+                    {items.length === 0 ? (
+                        <p className="text-sm text-gray-500 mb-6">
+                            {onSeed
+                                ? 'The list is empty. Seed it from the applicants selected for interview to get started.'
+                                : 'No rank list has been started for this cycle.'}
+                        </p>
+                    ) : (
+                        <ol className="divide-y border rounded-lg mb-6">
+                            {items.map((item, index) => {
+                                const up = neighbour(index, -1);
+                                const down = neighbour(index, 1);
+                                const movable = canEdit && !item.locked;
+                                return (
+                                    <li
+                                        key={item.applicant_id}
+                                        draggable={movable}
+                                        onDragStart={() => setDragIndex(index)}
+                                        onDragEnd={() => setDragIndex(null)}
+                                        onDragOver={event => {
+                                            if (dragIndex !== null && !item.locked) {
+                                                event.preventDefault();
+                                            }
+                                        }}
+                                        onDrop={() => handleDrop(index)}
+                                        className={`flex items-center px-4 py-2 ${item.locked ? 'bg-gray-50' : ''} ${movable ? 'cursor-move' : ''} ${dragIndex === index ? 'opacity-50' : ''}`}
+                                    >
+                                        <span className="w-10 font-bold text-gray-900">{index + 1}</span>
+                                        <div className="flex-1">
+                                            <p className="font-semibold text-gray-900">
+                                                {item.name}
+                                                <span className="ml-2 text-xs font-normal text-gray-500">{item.category === 'i-sub' ? 'I-Sub' : 'Regular'}</span>
+                                            </p>
+                                            <p className="text-xs text-gray-500">
+                                                {item.external_id}
+                                                {item.medical_school ? ` · ${item.medical_school}` : ''}
+                                                {` · Avg ${item.average_score !== null ? item.average_score.toFixed(1) : '-'}`}
+                                                {` · Interview ${item.interview_score !== null ? item.interview_score.toFixed(1) : '-'}`}
+                                                {item.admin_decision !== 'Selected' ? ` · ${item.admin_decision}` : ''}
+                                            </p>
+                                        </div>
+                                        {canEdit ? (
+                                            <div className="flex items-center">
+                                                <button
+                                                    onClick={() => up !== null && move(index, up)}
+                                                    disabled={item.locked || up === null}
+                                                    className={arrowClass}
+                                                    title="Move up"
+                                                >
+                                                    ↑
+                                                </button>
+                                                <button
+                                                    onClick={() => down !== null && move(index, down)}
+                                                    disabled={item.locked || down === null}
+                                                    className={arrowClass}
+                                                    title="Move down"
+                                                >
+                                                    ↓
+                                                </button>
+                                                <button
+                                                    onClick={() => toggleLock(index)}
+                                                    className={`ml-2 text-sm w-16 ${item.locked ? 'text-amber-700 hover:text-amber-900' : 'text-blue-600 hover:text-blue-800'}`}
+                                                >
+                                                    {item.locked ? 'Unlock' : 'Lock'}
+                                                </button>
+                                            </div>
+                                        ) : item.locked && (
+                                            <span className="text-xs text-amber-700">Locked</span>
+                                        )}
+                                    </li>
+                                );
+                            })}
+                        </ol>
+                    )}
+
+                    <div className="pt-6 border-t">
+                        <h3 className="font-semibold text-gray-900 mb-2">Versions</h3>
+                        {onCreateVersion && rankList && (
+                            <div className="flex gap-3 mb-4">
+                                <input
+                                    type="text"
+                                    value={versionLabel}
+                                    onChange={event => setVersionLabel(event.target.value)}
+                                    placeholder="Label, e.g. After committee meeting"
+                                    maxLength={200}
+                                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                                />
+                                <button
+                                    onClick={handleCreateVersion}
+                                    disabled={working || dirty}
+                                    className={`${buttonClass} bg-blue-600 hover:bg-blue-700`}
+                                >
+                                    Save version
+                                </button>
+                            </div>
+                        )}
+                        {!versions || versions.length === 0 ? (
+                            <p className="text-sm text-gray-500">No versions saved yet.</p>
+                        ) : (
+                            <ul className="space-y-2">
+                                {versions.map(version => (
+                                    <li key={version.version} className="border rounded-lg p-3 flex justify-between items-center">
+                                        <div>
+                                            <span className="font-semibold text-gray-900">
+                                                Version {version.version}{version.label ? ` · ${version.label}` : ''}
+                                            </span>
+                                            <p className="text-xs text-gray-500">
+                                                {new Date(version.created_at).toLocaleString()} · {version.entries.length} ranked
+                                            </p>
+                                        </div>
+                                        {onRestore && (
+                                            <button
+                                                onClick={() => handleRestore(version.version)}
+                                                disabled={working}
+                                                className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                                            >
+                                                Restore
+                                            </button>
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,201 @@
+import React, { useEffect, useState } from 'react';
+import { Review, ReviewVersion, RubricCriterion } from '../types';
+import LoadingSpinner from './LoadingSpinner';
+
+interface ReviewHistoryProps {
+    criteria: RubricCriterion[];
+    // Changes whenever the review is saved so the list picks up new versions
+    refreshKey?: string | undefined;
+    onLoad: () => Promise<ReviewVersion[] | null>;
+    // Omitted for read-only cycles
+    onRestore?: (version: number) => Promise<Review | null>;
+    onClose: () => void;
+}
+
+interface FieldChange {
+    label: string;
+    from: string;
+    to: string;
+}
+
+const SOURCE_LABELS: Record<ReviewVersion['source'], string> = {
+    'create': 'Created',
+    'update': 'Edited',
+    'restore': 'Restored'
+};
+
+const formatValue = (value: string | number | undefined | null): string =>
+    value === undefined || value === null || value === '' ? '-' : String(value);
+
+/**
+ * Compare two versions field by field, criteria first, and keep only what changed
+ */
+const diffVersions = (from: ReviewVersion, to: ReviewVersion, criteria: RubricCriterion[]): FieldChange[] => {
+    const labels = new Map(criteria.map(criterion => [criterion.key, criterion.label]));
+    const keys = Array.from(new Set([...criteria.map(criterion => criterion.key), ...Object.keys(from.scores), ...Object.keys(to.scores)]));
+
+    const fields: FieldChange[] = [
+        ...keys.map(key => ({
+            label: labels.get(key) ?? key,
+            from: formatValue(from.scores[key]),
+            to: formatValue(to.scores[key])
+        })),
+        { label: 'Recommendation', from: formatValue(from.decision), to: formatValue(to.decision) },
+        { label: 'Notes', from: formatValue(from.notes), to: formatValue(to.notes) },
+        { label: 'Total', from: formatValue(from.weighted_score), to: formatValue(to.weighted_score) }
+    ];
+
+    return fields.filter(field => field.from !== field.to);
+};
+
+export default function ReviewHistory({ criteria, refreshKey, onLoad, onRestore, onClose }: ReviewHistoryProps) {
+    const [versions, setVersions] = useState<ReviewVersion[] | null>(null);
+    const [fromVersion, setFromVersion] = useState<number | null>(null);
+    const [toVersion, setToVersion] = useState<number | null>(null);
+    const [loading, setLoading] = useState<boolean>(false);
+    const [restoring, setRestoring] = useState<boolean>(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        setLoading(true);
+        onLoad().then(result => {
+            if (cancelled) {
+                return;
+            }
+            setVersions(result);
+            setLoading(false);
+            // Default to what the latest save changed
+            if (result && result.length > 0) {
+                setToVersion(result[0]!.version);
+                setFromVersion(result[1]?.version ?? result[0]!.version);
+            }
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [refreshKey]);
+
+    const latest = versions?.[0];
+    const from = versions?.find(version => version.version === fromVersion);
+    const to = versions?.find(version => version.version === toVersion);
+    const changes = from && to ? diffVersions(from, to, criteria) : [];
+
+    const handleRestore = async (version: number): Promise<void> => {
+        if (!onRestore) {
+            return;
+        }
+        setRestoring(true);
+        await onRestore(version);
+        setRestoring(false);
+    };
+
+    const selectClass = 'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+    const versionOptions = (versions || []).map(version => (
+        <option key={version.version} value={version.version}>
+            Version {version.version} · {new Date(version.updated_at).toLocaleString()}
+        </option>
+    ));
+
+    return (
+        <div className="bg-white rounded-xl shadow-lg p-6 mb-6">
+            <div className="flex justify-between items-start mb-4">
+                <div>
+                    <h2 className="text-xl font-bold text-gray-900">Review History</h2>
+                    <p className="text-sm text-gray-600">
+                        Every save is kept as a version. Restoring a version saves it again as the newest one, so nothing is lost.
+                    </p>
+                </div>
+                <button
+                    onClick={onClose}
+                    className="text-sm text-gray-500 hover:text-gray-700"
+                >
+                    Close
+                </button>
+            </div>
+
+            {loading && !versions && <LoadingSpinner size="small" text="Loading history..." />}
+
+            {versions && versions.length === 0 && (
+                <p className="text-sm text-gray-500">This review has no saved versions yet.</p>
+            )}
+
+            {versions && versions.length > 0 && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                    <ul className="space-y-2">
+                        {versions.map(version => (
+                            <li key={version.version} className="border rounded-lg p-3">
+                                <div className="flex justify-between items-center">
+                                    <span className="font-semibold text-gray-900">Version {version.version}</span>
+                                    <span className="text-xs text-gray-500">
+                                        {SOURCE_LABELS[version.source]}
+                                        {version.restored_from ? ` from v${version.restored_from}` : ''}
+                                    </span>
+                                </div>
+                                <p className="text-xs text-gray-500">{new Date(version.updated_at).toLocaleString()}</p>
+                                <p className="text-sm text-gray-700">
+                                    {formatValue(version.decision)} · Total {formatValue(version.weighted_score)}
+                                </p>
+                                {onRestore && version.version !== latest?.version && (
+                                    <button
+                                        onClick={() => handleRestore(version.version)}
+                                        disabled={restoring}
+                                        className="mt-2 text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                                    >
+                                        Restore this version
+                                    </button>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+
+                    <div className="md:col-span-2">
+                        <div className="flex flex-wrap items-center gap-3 mb-4">
+                            <span className="text-sm font-semibold text-gray-700">Compare</span>
+                            <select
+                                value={fromVersion ?? ''}
+                                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setFromVersion(Number(e.target.value))}
+                                className={selectClass}
+                            >
+                                {versionOptions}
+                            </select>
+                            <span className="text-sm text-gray-700">with</span>
+                            <select
+                                value={toVersion ?? ''}
+                                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setToVersion(Number(e.target.value))}
+                                className={selectClass}
+                            >
+                                {versionOptions}
+                            </select>
+                        </div>
+
+                        {changes.length === 0 ? (
+                            <p className="text-sm text-gray-500">
+                                {fromVersion === toVersion ? 'Pick two different versions to see what changed.' : 'These versions are the same.'}
+                            </p>
+                        ) : (
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="text-left text-gray-600 border-b">
+                                        <th className="py-2">Field</th>
+                                        <th className="py-2">Version {fromVersion}</th>
+                                        <th className="py-2">Version {toVersion}</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {changes.map(change => (
+                                        <tr key={change.label} className="border-b last:border-0 align-top">
+                                            <td className="py-2 font-medium text-gray-900">{change.label}</td>
+                                            <td className="py-2 text-red-700 whitespace-pre-wrap">{change.from}</td>
+                                            <td className="py-2 text-green-700 whitespace-pre-wrap">{change.to}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
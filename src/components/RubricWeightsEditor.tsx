@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { Rubric } from '../types';
+import LoadingSpinner from './LoadingSpinner';
+
+interface RubricWeightsEditorProps {
+    rubric: Rubric;
+    onSave: (weights: Record<string, number>) => Promise<Rubric | null>;
+    onClose: () => void;
+}
+
+const MAX_WEIGHT = 100;
+
+export default function RubricWeightsEditor({
+    rubric,
+    onSave,
+    onClose
+}: RubricWeightsEditorProps) {
+    const [weights, setWeights] = useState<Record<string, string>>(() =>
+        Object.fromEntries(rubric.criteria.map(criterion => [criterion.key, String(Number(criterion.weight))]))
+    );
+    const [status, setStatus] = useState<'idle' | 'saving' | 'saved'>('idle');
+
+    const parsedWeights: Record<string, number> = Object.fromEntries(
+        Object.entries(weights).map(([key, value]) => [key, Number(value)])
+    );
+    const invalid = Object.values(weights).some(value =>
+        value.trim() === '' || !Number.isFinite(Number(value)) || Number(value) < 0 || Number(value) > MAX_WEIGHT
+    );
+    const maxWeightedTotal = rubric.criteria.reduce(
+        (total, criterion) => total + criterion.max_score * (parsedWeights[criterion.key] ?? 0),
+        0
+    );
+
+    const save = async (): Promise<void> => {
+        setStatus('saving');
+        const result = await onSave(parsedWeights);
+        setStatus(result ? 'saved' : 'idle');
+    };
+
+    return (
+        <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
+            <div className="flex justify-between items-start mb-4">
+                <div>
+                    <h2 className="text-xl font-bold text-gray-900">Criterion Weights: {rubric.name}</h2>
+                    <p className="text-sm text-gray-600">
+                        Each score is multiplied by its weight. Saving rescores every review under this rubric.
+                    </p>
+                </div>
+                <button
+                    onClick={onClose}
+                    className="text-sm text-gray-500 hover:text-gray-700"
+                >
+                    Close
+                </button>
+            </div>
+
+            <table className="w-full text-sm mb-4">
+                <thead>
+                    <tr className="text-left text-gray-600 border-b">
+                        <th className="py-2">Criterion</th>
+                        <th className="py-2">Scale</th>
+                        <th className="py-2">Weight</th>
+                        <th className="py-2">Max Weighted</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {rubric.criteria.map(criterion => (
+                        <tr key={criterion.key} className="border-b last:border-0">
+                            <td className="py-2 font-medium text-gray-900">{criterion.label}</td>
+                            <td className="py-2">{criterion.min_score}-{criterion.max_score}</td>
+                            <td className="py-2">
+                                <input
+                                    type="number"
+                                    min={0}
+                                    max={MAX_WEIGHT}
+                                    step={0.25}
+                                    value={weights[criterion.key] ?? ''}
+                                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                                        setWeights(prev => ({ ...prev, [criterion.key]: e.target.value }));
+                                        setStatus('idle');
+                                    }}
+                                    className="w-24 px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                                />
+                            </td>
+                            <td className="py-2">{(criterion.max_score * (parsedWeights[criterion.key] ?? 0)).toFixed(2)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+
+            <div className="flex items-center justify-between">
+                <p className="text-sm text-gray-700">
+                    Maximum weighted total: <strong>{invalid ? '-' : maxWeightedTotal.toFixed(2)}</strong>
+                </p>
+                <div className="flex items-center space-x-4">
+                    {invalid && (
+                        <span className="text-sm text-red-600">Weights must be between 0 and {MAX_WEIGHT}</span>
+                    )}
+                    {status === 'saving' && <LoadingSpinner size="small" text="Rescoring..." />}
+                    {status === 'saved' && <span className="text-sm text-green-600">Weights saved</span>}
+                    <button
+                        onClick={save}
+                        disabled={invalid || status === 'saving'}
+                        className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+                    >
+                        Save Weights
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { ConflictResolution } from '../types';
+import { ConflictField } from '../utils/conflicts';
+
+interface SaveConflictBannerProps {
+    title: string;
+    fields: ConflictField[];
+    onResolve: (resolution: ConflictResolution) => Promise<unknown>;
+}
+
+export default function SaveConflictBanner({ title, fields, onResolve }: SaveConflictBannerProps) {
+    const [resolving, setResolving] = useState<boolean>(false);
+
+    const resolve = async (resolution: ConflictResolution): Promise<void> => {
+        setResolving(true);
+        await onResolve(resolution);
+        setResolving(false);
+    };
+
+    return (
+        <div className="mb-6 p-4 bg-yellow-50 border border-yellow-300 rounded-lg">
+            <h3 className="font-semibold text-yellow-900">{title}</h3>
+            <p className="text-sm text-yellow-800 mb-3">
+                Your change was not saved. Merge keeps your edits and their edits to other fields.
+            </p>
+
+            {fields.length > 0 && (
+                <table className="w-full text-sm mb-3">
+                    <thead>
+                        <tr className="text-left text-yellow-900 border-b border-yellow-200">
+                            <th className="py-1">Field</th>
+                            <th className="py-1">Yours</th>
+                            <th className="py-1">Saved</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {fields.map(field => (
+                            <tr key={field.label} className="align-top">
+                                <td className="py-1 font-medium text-gray-900">{field.label}</td>
+                                <td className="py-1 text-gray-700 whitespace-pre-wrap">{field.mine}</td>
+                                <td className="py-1 text-gray-700 whitespace-pre-wrap">{field.theirs}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+
+            <div className="flex flex-wrap gap-3">
+                <button
+                    onClick={() => resolve('merge')}
+                    disabled={resolving}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                    Merge
+                </button>
+                <button
+                    onClick={() => resolve('mine')}
+                    disabled={resolving}
+                    className="px-4 py-2 bg-yellow-600 text-white rounded-lg hover:bg-yellow-700 transition-colors disabled:opacity-50"
+                >
+                    Overwrite with Mine
+                </button>
+                <button
+                    onClick={() => resolve('theirs')}
+                    disabled={resolving}
+                    className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors disabled:opacity-50"
+                >
+                    Keep Saved Version
+                </button>
+            </div>
+        </div>
+    );
+}
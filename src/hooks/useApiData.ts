@@ -1,13 +1,41 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import {
     ApiApplicant,
+    ApplicantDocument,
+    ApplicantImportRequest,
+    ApplicantImportResult,
+    DocumentType,
+    ExportColumn,
+    ExportLayout,
+    RankList,
+    RankListEntry,
+    RankListVersion,
+    InterviewSchedule,
+    InterviewDate,
+    InterviewDateRequest,
+    InterviewDateWithBookings,
+    InterviewEvaluation,
+    InterviewEvaluationRequest,
     Review,
+    ReviewVersion,
     Reviewer,
+    Rubric,
+    Cycle,
+    AuditEntry,
+    AuditLogFilters,
     ProgressStats,
     FinalSelection,
+    AdminDecision,
+    ApplicantCategory,
+    InterviewCapacity,
     ApplicantDistribution,
+    AssignmentPlan,
+    AssignmentPlanOptions,
+    SaveConflict,
+    ConflictResolution,
 } from '../types';
 import * as api from '../services/api';
+import { mergeFinalSelection, mergeReview } from '../utils/conflicts';
 import { detectEnvironment, getApiBaseUrl, testApiConnectivity } from '../services/apiConfig';
 
 // Hook return type
@@ -18,9 +46,13 @@ export interface UseApiDataReturn {
     iSubApplicants: ApiApplicant[];
     reviews: Review[];
     reviewers: Reviewer[];
+    rubric: Rubric | null;
     progress: ProgressStats | null;
     finalSelections: FinalSelection[];
+    interviewCapacity: InterviewCapacity[];
     applicantDistribution: ApplicantDistribution | null;
+    cycles: Cycle[];
+    selectedCycle: Cycle | null;
 
     // Loading states
     applicantsLoading: boolean;
@@ -28,15 +60,29 @@ export interface UseApiDataReturn {
     iSubApplicantsLoading: boolean;
     reviewsLoading: boolean;
     reviewersLoading: boolean;
+    rubricLoading: boolean;
     progressLoading: boolean;
+    finalSelectionsLoading: boolean;
     distributionLoading: boolean;
 
     // Error states
     applicantsError: string | null;
     reviewsError: string | null;
     reviewersError: string | null;
+    rubricError: string | null;
     progressError: string | null;
+    finalSelectionsError: string | null;
+    interviewCapacityError: string | null;
     distributionError: string | null;
+    cyclesError: string | null;
+    auditError: string | null;
+    reviewHistoryError: string | null;
+    importError: string | null;
+    documentsError: string | null;
+    exportError: string | null;
+    rankListError: string | null;
+    interviewsError: string | null;
+    interviewEvaluationsError: string | null;
 
     // Refresh functions
     refreshApplicants: () => Promise<void>;
@@ -44,16 +90,86 @@ export interface UseApiDataReturn {
     refreshISubApplicants: () => Promise<void>;
     refreshReviews: (reviewerName?: string) => Promise<void>;
     refreshReviewers: () => Promise<void>;
+    refreshRubric: () => Promise<void>;
     refreshProgress: () => Promise<void>;
+    refreshFinalSelections: () => Promise<void>;
+    refreshInterviewCapacity: () => Promise<void>;
     refreshDistribution: () => Promise<void>;
+    refreshCycles: () => Promise<void>;
     refreshAll: () => Promise<void>;
 
+    // Cycle functions
+    selectCycle: (cycle: Cycle) => void;
+    createCycle: (name: string, activate: boolean) => Promise<Cycle | null>;
+    activateCycle: (cycleId: string) => Promise<Cycle | null>;
+
+    // Audit functions
+    fetchAuditLog: (filters: AuditLogFilters) => Promise<AuditEntry[] | null>;
+
+    // Review history functions
+    fetchReviewVersions: (applicantId: string, reviewerName: string) => Promise<ReviewVersion[] | null>;
+    restoreReviewVersion: (applicantId: string, reviewerName: string, version: number) => Promise<Review | null>;
+
+    // Import functions
+    importApplicants: (request: ApplicantImportRequest) => Promise<ApplicantImportResult | null>;
+
+    // Document functions
+    fetchApplicantDocuments: (applicantId: string) => Promise<ApplicantDocument[] | null>;
+    fetchApplicantDocumentFile: (applicantId: string, documentId: string) => Promise<Blob | null>;
+    uploadApplicantDocument: (applicantId: string, file: File, documentType: DocumentType) => Promise<ApplicantDocument | null>;
+    deleteApplicantDocument: (applicantId: string, documentId: string) => Promise<boolean>;
+
+    // Assignment functions
+    distributeApplicants: (options: AssignmentPlanOptions) => Promise<AssignmentPlan | null>;
+
+    // Rubric functions
+    updateRubricWeights: (weights: Record<string, number>) => Promise<Rubric | null>;
+
+    // Interview target functions
+    updateInterviewTarget: (category: ApplicantCategory, slots: number, hardLimit: boolean) => Promise<boolean>;
+
     // Save functions
     saveReview: (applicantId: string, reviewData: Partial<Review>) => Promise<Review | null>;
-    saveFinalSelection: (applicantId: string, decision: 'interview' | 'reject' | 'waitlist', notes?: string) => Promise<FinalSelection | null>;
+    saveFinalSelection: (applicantId: string, decision: AdminDecision, selectionReason?: string) => Promise<FinalSelection | null>;
+
+    // Saves rejected because someone else changed the record first
+    reviewConflict: SaveConflict<Review> | null;
+    finalSelectionConflict: SaveConflict<FinalSelection> | null;
+    resolveReviewConflict: (resolution: ConflictResolution) => Promise<Review | null>;
+    resolveFinalSelectionConflict: (resolution: ConflictResolution) => Promise<FinalSelection | null>;
+
+    // Export functions
+    fetchExportColumns: (layout: ExportLayout) => Promise<ExportColumn[] | null>;
+    downloadExportCSV: (layout: ExportLayout, columns: string[]) => Promise<Blob | null>;
+    downloadExportXLSX: () => Promise<Blob | null>;
+    downloadSummaryPDF: () => Promise<Blob | null>;
+    downloadApplicantPacketPDF: (applicantId: string) => Promise<Blob | null>;
 
-    // Export function
-    exportReviewData: () => Promise<{ applicants: ApiApplicant[]; reviews: Review[]; finalSelections: FinalSelection[]; }>;
+    // Rank list functions
+    fetchRankList: () => Promise<RankList | null>;
+    saveRankList: (entries: RankListEntry[], expectedRevision?: number) => Promise<RankList | null>;
+    seedRankList: (expectedRevision?: number) => Promise<RankList | null>;
+    fetchRankListVersions: () => Promise<RankListVersion[] | null>;
+    createRankListVersion: (label?: string) => Promise<RankListVersion | null>;
+    restoreRankListVersion: (version: number, expectedRevision?: number) => Promise<RankList | null>;
+    downloadRankListCSV: () => Promise<Blob | null>;
+    downloadRankListPDF: () => Promise<Blob | null>;
+
+    // Interview schedule functions
+    fetchInterviewSchedule: () => Promise<InterviewSchedule | null>;
+    createInterviewDate: (request: InterviewDateRequest) => Promise<InterviewDate | null>;
+    updateInterviewDate: (dateId: string, request: InterviewDateRequest) => Promise<InterviewDate | null>;
+    deleteInterviewDate: (dateId: string) => Promise<boolean>;
+    bookInterview: (applicantId: string, dateId: string) => Promise<boolean>;
+    cancelInterviewBooking: (applicantId: string) => Promise<boolean>;
+    downloadInterviewDateICS: (dateId: string) => Promise<Blob | null>;
+    downloadApplicantInterviewICS: (applicantId: string) => Promise<Blob | null>;
+
+    // Interview evaluation functions
+    fetchInterviewRubric: () => Promise<Rubric | null>;
+    fetchInterviewDays: () => Promise<InterviewDateWithBookings[] | null>;
+    fetchInterviewEvaluations: (applicantId?: string) => Promise<InterviewEvaluation[] | null>;
+    saveInterviewEvaluation: (applicantId: string, request: InterviewEvaluationRequest) => Promise<InterviewEvaluation | null>;
 
     // Health check
     isApiHealthy: boolean;
@@ -67,19 +183,31 @@ export interface UseApiDataReturn {
     refreshApiConfig: () => Promise<void>;
 }
 
+// Hook options
+export interface UseApiDataOptions {
+    // Progress routes are admin-only; reviewers without access skip those fetches
+    canViewProgress?: boolean;
+    // Final selections are limited to roles with final_selections:read
+    canViewFinalSelections?: boolean;
+}
+
 /**
  * Custom hook for managing API data loading and caching
  */
-export function useApiData(): UseApiDataReturn {
+export function useApiData({ canViewProgress = false, canViewFinalSelections = false }: UseApiDataOptions = {}): UseApiDataReturn {
     // Data state
     const [applicants, setApplicants] = useState<ApiApplicant[]>([]);
     const [regularApplicants, setRegularApplicants] = useState<ApiApplicant[]>([]);
     const [iSubApplicants, setISubApplicants] = useState<ApiApplicant[]>([]);
     const [reviews, setReviews] = useState<Review[]>([]);
     const [reviewers, setReviewers] = useState<Reviewer[]>([]);
+    const [rubric, setRubric] = useState<Rubric | null>(null);
     const [progress, setProgress] = useState<ProgressStats | null>(null);
     const [finalSelections, setFinalSelections] = useState<FinalSelection[]>([]);
+    const [interviewCapacity, setInterviewCapacity] = useState<InterviewCapacity[]>([]);
     const [applicantDistribution, setApplicantDistribution] = useState<ApplicantDistribution | null>(null);
+    const [cycles, setCycles] = useState<Cycle[]>([]);
+    const [selectedCycle, setSelectedCycle] = useState<Cycle | null>(null);
 
     // Loading states
     const [applicantsLoading, setApplicantsLoading] = useState(false);
@@ -87,15 +215,45 @@ export function useApiData(): UseApiDataReturn {
     const [iSubApplicantsLoading, setISubApplicantsLoading] = useState(false);
     const [reviewsLoading, setReviewsLoading] = useState(false);
     const [reviewersLoading, setReviewersLoading] = useState(false);
+    const [rubricLoading, setRubricLoading] = useState(false);
     const [progressLoading, setProgressLoading] = useState(false);
+    const [finalSelectionsLoading, setFinalSelectionsLoading] = useState(false);
     const [distributionLoading, setDistributionLoading] = useState(false);
 
     // Error states
     const [applicantsError, setApplicantsError] = useState<string | null>(null);
     const [reviewsError, setReviewsError] = useState<string | null>(null);
     const [reviewersError, setReviewersError] = useState<string | null>(null);
+    const [rubricError, setRubricError] = useState<string | null>(null);
     const [progressError, setProgressError] = useState<string | null>(null);
+    const [finalSelectionsError, setFinalSelectionsError] = useState<string | null>(null);
+    const [interviewCapacityError, setInterviewCapacityError] = useState<string | null>(null);
     const [distributionError, setDistributionError] = useState<string | null>(null);
+    const [cyclesError, setCyclesError] = useState<string | null>(null);
+    const [auditError, setAuditError] = useState<string | null>(null);
+    const [reviewHistoryError, setReviewHistoryError] = useState<string | null>(null);
+    const [importError, setImportError] = useState<string | null>(null);
+    const [documentsError, setDocumentsError] = useState<string | null>(null);
+    const [exportError, setExportError] = useState<string | null>(null);
+    const [rankListError, setRankListError] = useState<string | null>(null);
+    const [interviewsError, setInterviewsError] = useState<string | null>(null);
+    const [interviewEvaluationsError, setInterviewEvaluationsError] = useState<string | null>(null);
+
+    // Set when a different cycle is picked; everything cycle-scoped reloads once the cache is cleared
+    const cycleReloadPending = useRef(false);
+
+    // Conflict state
+    const [reviewConflict, setReviewConflict] = useState<SaveConflict<Review> | null>(null);
+    const [finalSelectionConflict, setFinalSelectionConflict] = useState<SaveConflict<FinalSelection> | null>(null);
+
+    // Latest loaded data, read when a save is rejected to know what this tab started from
+    const reviewsRef = useRef<Review[]>([]);
+    reviewsRef.current = reviews;
+    const finalSelectionsRef = useRef<FinalSelection[]>([]);
+    finalSelectionsRef.current = finalSelections;
+
+    // Saves to one review run in order, each naming the revision the previous one produced
+    const pendingReviewSaves = useRef<Record<string, Promise<Review | null>>>({});
 
     // API health state
     const [isApiHealthy, setIsApiHealthy] = useState(true);
@@ -110,7 +268,9 @@ export function useApiData(): UseApiDataReturn {
         applicants: 0,
         reviews: 0,
         reviewers: 0,
+        rubric: 0,
         progress: 0,
+        finalSelections: 0,
         distribution: 0,
     });
 
@@ -187,7 +347,7 @@ export function useApiData(): UseApiDataReturn {
         setReviewsError(null);
 
         try {
-            const data = await api.fetchReviews(reviewerName);
+            const data = await api.fetchReviews(reviewerName ? { reviewer_name: reviewerName } : {});
             setReviews(data);
             setLastFetch((prev: typeof lastFetch) => ({ ...prev, reviews: Date.now() }));
         } catch (error) {
@@ -219,9 +379,29 @@ export function useApiData(): UseApiDataReturn {
         }
     }, [reviewersLoading, isCacheValid]);
 
+    // Refresh the active rubric
+    const refreshRubric = useCallback(async () => {
+        if (rubricLoading || isCacheValid('rubric')) return;
+
+        setRubricLoading(true);
+        setRubricError(null);
+
+        try {
+            const data = await api.fetchActiveRubric();
+            setRubric(data);
+            setLastFetch((prev: typeof lastFetch) => ({ ...prev, rubric: Date.now() }));
+        } catch (error) {
+            const errorMessage = api.formatApiError(error);
+            setRubricError(errorMessage);
+            console.error('Error fetching rubric:', error);
+        } finally {
+            setRubricLoading(false);
+        }
+    }, [rubricLoading, isCacheValid]);
+
     // Refresh progress
     const refreshProgress = useCallback(async () => {
-        if (progressLoading || isCacheValid('progress')) return;
+        if (!canViewProgress || progressLoading || isCacheValid('progress')) return;
 
         setProgressLoading(true);
         setProgressError(null);
@@ -237,7 +417,43 @@ export function useApiData(): UseApiDataReturn {
         } finally {
             setProgressLoading(false);
         }
-    }, [progressLoading, isCacheValid]);
+    }, [canViewProgress, progressLoading, isCacheValid]);
+
+    // Refresh final selections (with raw and normalized ranks)
+    const refreshFinalSelections = useCallback(async () => {
+        if (!canViewFinalSelections || finalSelectionsLoading || isCacheValid('finalSelections')) return;
+
+        setFinalSelectionsLoading(true);
+        setFinalSelectionsError(null);
+
+        try {
+            const data = await api.fetchFinalSelections();
+            setFinalSelections(data);
+            setLastFetch((prev: typeof lastFetch) => ({ ...prev, finalSelections: Date.now() }));
+        } catch (error) {
+            const errorMessage = api.formatApiError(error);
+            setFinalSelectionsError(errorMessage);
+            console.error('Error fetching final selections:', error);
+        } finally {
+            setFinalSelectionsLoading(false);
+        }
+    }, [canViewFinalSelections, finalSelectionsLoading, isCacheValid]);
+
+    // Refresh interview targets and how many slots each category has left
+    // Not cached: every decision changes the counts
+    const refreshInterviewCapacity = useCallback(async () => {
+        if (!canViewFinalSelections) return;
+
+        setInterviewCapacityError(null);
+
+        try {
+            setInterviewCapacity(await api.fetchInterviewCapacity());
+        } catch (error) {
+            const errorMessage = api.formatApiError(error);
+            setInterviewCapacityError(errorMessage);
+            console.error('Error fetching interview capacity:', error);
+        }
+    }, [canViewFinalSelections]);
 
     // Refresh distribution
     const refreshDistribution = useCallback(async () => {
@@ -259,59 +475,713 @@ export function useApiData(): UseApiDataReturn {
         }
     }, [distributionLoading, isCacheValid]);
 
+    // Refresh the cycle list and work out which one is being viewed
+    const refreshCycles = useCallback(async () => {
+        setCyclesError(null);
+
+        try {
+            const data = await api.fetchCycles();
+            setCycles(data);
+
+            // Fall back to the active cycle if the stored one has gone
+            const selectedId = api.getSelectedCycleId();
+            const selected = data.find(cycle => cycle.id === selectedId) ?? data.find(cycle => cycle.is_active) ?? null;
+            if (selectedId && selected?.id !== selectedId) {
+                api.setSelectedCycleId(null);
+            }
+            setSelectedCycle(selected);
+        } catch (error) {
+            const errorMessage = api.formatApiError(error);
+            setCyclesError(errorMessage);
+            console.error('Error fetching cycles:', error);
+        }
+    }, []);
+
     // Refresh all data
     const refreshAll = useCallback(async () => {
         await Promise.all([
+            refreshCycles(),
             refreshApplicants(),
             refreshRegularApplicants(),
             refreshISubApplicants(),
             refreshReviews(),
             refreshReviewers(),
+            refreshRubric(),
             refreshProgress(),
+            refreshFinalSelections(),
+            refreshInterviewCapacity(),
             refreshDistribution(),
         ]);
-    }, [refreshApplicants, refreshRegularApplicants, refreshISubApplicants, refreshReviews, refreshReviewers, refreshProgress, refreshDistribution]);
+    }, [refreshCycles, refreshApplicants, refreshRegularApplicants, refreshISubApplicants, refreshReviews, refreshReviewers, refreshRubric, refreshProgress, refreshFinalSelections, refreshInterviewCapacity, refreshDistribution]);
+
+    // View another cycle; the active cycle is requested without a header so it follows activation
+    const selectCycle = useCallback((cycle: Cycle) => {
+        api.setSelectedCycleId(cycle.is_active ? null : cycle.id);
+        setSelectedCycle(cycle);
+
+        // Reviewers and the rubric are shared across cycles
+        cycleReloadPending.current = true;
+        setLastFetch((prev: typeof lastFetch) => ({
+            ...prev,
+            applicants: 0,
+            reviews: 0,
+            progress: 0,
+            finalSelections: 0,
+            distribution: 0,
+        }));
+    }, []);
+
+    useEffect(() => {
+        if (cycleReloadPending.current) {
+            cycleReloadPending.current = false;
+            refreshAll();
+        }
+    }, [refreshAll]);
+
+    // Start a new cycle; activating it closes the current one
+    const createCycle = useCallback(async (name: string, activate: boolean): Promise<Cycle | null> => {
+        setCyclesError(null);
 
-    // Save review with optimistic updates
-    const saveReview = useCallback(async (applicantId: string, reviewData: Partial<Review>): Promise<Review | null> => {
         try {
-            const savedReview = await api.saveReview(applicantId, reviewData);
+            const created = await api.createCycle(name, activate);
+            setCycles(await api.fetchCycles());
+            if (activate) {
+                selectCycle(created);
+            }
+            return created;
+        } catch (error) {
+            const errorMessage = api.formatApiError(error);
+            setCyclesError(errorMessage);
+            console.error('Error creating cycle:', error);
+            return null;
+        }
+    }, [selectCycle]);
 
-            // Optimistically update local state
-            setReviews((prevReviews: Review[]) => {
-                const existingIndex = prevReviews.findIndex(
-                    (r: Review) => r.applicant_id === applicantId && r.reviewer_name === (reviewData.reviewer_name || reviewData.reviewer)
-                );
+    // Make a cycle the active one and switch to it
+    const activateCycle = useCallback(async (cycleId: string): Promise<Cycle | null> => {
+        setCyclesError(null);
 
-                if (existingIndex >= 0) {
-                    // Update existing review
-                    const updatedReviews = [...prevReviews];
-                    updatedReviews[existingIndex] = { ...updatedReviews[existingIndex], ...savedReview };
-                    return updatedReviews;
-                } else {
-                    // Add new review
-                    return [...prevReviews, savedReview];
-                }
-            });
+        try {
+            const activated = await api.activateCycle(cycleId);
+            setCycles(await api.fetchCycles());
+            selectCycle(activated);
+            return activated;
+        } catch (error) {
+            const errorMessage = api.formatApiError(error);
+            setCyclesError(errorMessage);
+            console.error('Error activating cycle:', error);
+            return null;
+        }
+    }, [selectCycle]);
+
+    // Search the audit log; entries are not cached since every search has its own filters
+    const fetchAuditLog = useCallback(async (filters: AuditLogFilters): Promise<AuditEntry[] | null> => {
+        setAuditError(null);
 
-            // Refresh progress to get updated statistics
+        try {
+            return await api.fetchAuditLog(filters);
+        } catch (error) {
+            const errorMessage = api.formatApiError(error);
+            setAuditError(errorMessage);
+            console.error('Error fetching audit log:', error);
+            return null;
+        }
+    }, []);
+
+    // Load a review's saved versions; like the audit log these are fetched fresh each time
+    const fetchReviewVersions = useCallback(async (applicantId: string, reviewerName: string): Promise<ReviewVersion[] | null> => {
+        setReviewHistoryError(null);
+
+        try {
+            return await api.fetchReviewVersions(applicantId, reviewerName);
+        } catch (error) {
+            const errorMessage = api.formatApiError(error);
+            setReviewHistoryError(errorMessage);
+            console.error('Error fetching review history:', error);
+            return null;
+        }
+    }, []);
+
+    // Restore an earlier version and swap the restored review into local state
+    const restoreReviewVersion = useCallback(async (
+        applicantId: string,
+        reviewerName: string,
+        version: number
+    ): Promise<Review | null> => {
+        setReviewHistoryError(null);
+
+        try {
+            const restoredReview = await api.restoreReviewVersion(applicantId, reviewerName, version);
+            setReviews((prevReviews: Review[]) => prevReviews.map((r: Review) =>
+                r.applicant_id === applicantId && r.reviewer_name === reviewerName ? { ...r, ...restoredReview } : r
+            ));
+
+            // A restored decision can complete or reopen the review
             refreshProgress();
 
-            return savedReview;
+            return restoredReview;
         } catch (error) {
-            console.error('Error saving review:', error);
+            const errorMessage = api.formatApiError(error);
+            setReviewHistoryError(errorMessage);
+            console.error('Error restoring review version:', error);
             return null;
         }
     }, [refreshProgress]);
 
+    // Preview or run an applicant import; a real run reloads every applicant list
+    const importApplicants = useCallback(async (request: ApplicantImportRequest): Promise<ApplicantImportResult | null> => {
+        setImportError(null);
+
+        try {
+            const result = await api.importApplicants(request);
+            if (!result.dry_run) {
+                const [all, regular, iSub] = await Promise.all([
+                    api.fetchApplicants(),
+                    api.fetchRegularApplicants(),
+                    api.fetchISubApplicants()
+                ]);
+                setApplicants(all);
+                setRegularApplicants(regular);
+                setISubApplicants(iSub);
+                setLastFetch((prev: typeof lastFetch) => ({ ...prev, applicants: Date.now() }));
+
+                // New applicants change every progress total
+                if (canViewProgress) {
+                    setProgress(await api.fetchProgress());
+                    setLastFetch((prev: typeof lastFetch) => ({ ...prev, progress: Date.now() }));
+                }
+            }
+            return result;
+        } catch (error) {
+            const errorMessage = api.formatApiError(error);
+            setImportError(errorMessage);
+            console.error('Error importing applicants:', error);
+            return null;
+        }
+    }, [canViewProgress]);
+
+    // Documents are loaded per applicant when the review screen opens, so they are not cached
+    const fetchApplicantDocuments = useCallback(async (applicantId: string): Promise<ApplicantDocument[] | null> => {
+        setDocumentsError(null);
+
+        try {
+            return await api.fetchApplicantDocuments(applicantId);
+        } catch (error) {
+            const errorMessage = api.formatApiError(error);
+            setDocumentsError(errorMessage);
+            console.error('Error fetching applicant documents:', error);
+            return null;
+        }
+    }, []);
+
+    const fetchApplicantDocumentFile = useCallback(async (applicantId: string, documentId: string): Promise<Blob | null> => {
+        setDocumentsError(null);
+
+        try {
+            return await api.fetchApplicantDocumentFile(applicantId, documentId);
+        } catch (error) {
+            const errorMessage = api.formatApiError(error);
+            setDocumentsError(errorMessage);
+            console.error('Error fetching applicant document file:', error);
+            return null;
+        }
+    }, []);
+
+    const uploadApplicantDocument = useCallback(async (
+        applicantId: string,
+        file: File,
+        documentType: DocumentType
+    ): Promise<ApplicantDocument | null> => {
+        setDocumentsError(null);
+
+        try {
+            return await api.uploadApplicantDocument(applicantId, file, documentType);
+        } catch (error) {
+            const errorMessage = api.formatApiError(error);
+            setDocumentsError(errorMessage);
+            console.error('Error uploading applicant document:', error);
+            return null;
+        }
+    }, []);
+
+    const deleteApplicantDocument = useCallback(async (applicantId: string, documentId: string): Promise<boolean> => {
+        setDocumentsError(null);
+
+        try {
+            await api.deleteApplicantDocument(applicantId, documentId);
+            return true;
+        } catch (error) {
+            const errorMessage = api.formatApiError(error);
+            setDocumentsError(errorMessage);
+            console.error('Error deleting applicant document:', error);
+            return false;
+        }
+    }, []);
+
+    // Exports are built by the backend from the selected cycle's data
+    const fetchExportColumns = useCallback(async (layout: ExportLayout): Promise<ExportColumn[] | null> => {
+        setExportError(null);
+
+        try {
+            return await api.fetchExportColumns(layout);
+        } catch (error) {
+            const errorMessage = api.formatApiError(error);
+            setExportError(errorMessage);
+            console.error('Error fetching export columns:', error);
+            return null;
+        }
+    }, []);
+
+    const downloadExportCSV = useCallback(async (layout: ExportLayout, columns: string[]): Promise<Blob | null> => {
+        setExportError(null);
+
+        try {
+            return await api.downloadExportCSV(layout, columns);
+        } catch (error) {
+            const errorMessage = api.formatApiError(error);
+            setExportError(errorMessage);
+            console.error('Error exporting review data:', error);
+            return null;
+        }
+    }, []);
+
+    const downloadExportXLSX = useCallback(async (): Promise<Blob | null> => {
+        setExportError(null);
+
+        try {
+            return await api.downloadExportXLSX();
+        } catch (error) {
+            const errorMessage = api.formatApiError(error);
+            setExportError(errorMessage);
+            console.error('Error exporting workbook:', error);
+            return null;
+        }
+    }, []);
+
+    const downloadSummaryPDF = useCallback(async (): Promise<Blob | null> => {
+        setExportError(null);
+
+        try {
+            return await api.downloadSummaryPDF();
+        } catch (error) {
+            const errorMessage = api.formatApiError(error);
+            setExportError(errorMessage);
+            console.error('Error generating summary report:', error);
+            return null;
+        }
+    }, []);
+
+    const downloadApplicantPacketPDF = useCallback(async (applicantId: string): Promise<Blob | null> => {
+        setExportError(null);
+
+        try {
+            return await api.downloadApplicantPacketPDF(applicantId);
+        } catch (error) {
+            const errorMessage = api.formatApiError(error);
+            setExportError(errorMessage);
+            console.error('Error generating applicant packet:', error);
+            return null;
+        }
+    }, []);
+
+    // The rank list is fetched on demand by the builder rather than cached here
+    const fetchRankList = useCallback(async (): Promise<RankList | null> => {
+        setRankListError(null);
+
+        try {
+            return await api.fetchRankList();
+        } catch (error) {
+            const errorMessage = api.formatApiError(error);
+            setRankListError(errorMessage);
+            console.error('Error fetching rank list:', error);
+            return null;
+        }
+    }, []);
+
+    const saveRankList = useCallback(async (entries: RankListEntry[], expectedRevision?: number): Promise<RankList | null> => {
+        setRankListError(null);
+
+        try {
+            return await api.saveRankList(entries, expectedRevision);
+        } catch (error) {
+            const errorMessage = api.formatApiError(error);
+            setRankListError(errorMessage);
+            console.error('Error saving rank list:', error);
+            return null;
+        }
+    }, []);
+
+    const seedRankList = useCallback(async (expectedRevision?: number): Promise<RankList | null> => {
+        setRankListError(null);
+
+        try {
+            return await api.seedRankList(expectedRevision);
+        } catch (error) {
+            const errorMessage = api.formatApiError(error);
+            setRankListError(errorMessage);
+            console.error('Error seeding rank list:', error);
+            return null;
+        }
+    }, []);
+
+    const fetchRankListVersions = useCallback(async (): Promise<RankListVersion[] | null> => {
+        setRankListError(null);
+
+        try {
+            return await api.fetchRankListVersions();
+        } catch (error) {
+            const errorMessage = api.formatApiError(error);
+            setRankListError(errorMessage);
+            console.error('Error fetching rank list versions:', error);
+            return null;
+        }
+    }, []);
+
+    const createRankListVersion = useCallback(async (label?: string): Promise<RankListVersion | null> => {
+        setRankListError(null);
+
+        try {
+            return await api.createRankListVersion(label);
+        } catch (error) {
+            const errorMessage = api.formatApiError(error);
+            setRankListError(errorMessage);
+            console.error('Error saving rank list version:', error);
+            return null;
+        }
+    }, []);
+
+    const restoreRankListVersion = useCallback(async (version: number, expectedRevision?: number): Promise<RankList | null> => {
+        setRankListError(null);
+
+        try {
+            return await api.restoreRankListVersion(version, expectedRevision);
+        } catch (error) {
+            const errorMessage = api.formatApiError(error);
+            setRankListError(errorMessage);
+            console.error('Error restoring rank list version:', error);
+            return null;
+        }
+    }, []);
+
+    const downloadRankListCSV = useCallback(async (): Promise<Blob | null> => {
+        setRankListError(null);
+
+        try {
+            return await api.downloadRankListCSV();
+        } catch (error) {
+            const errorMessage = api.formatApiError(error);
+            setRankListError(errorMessage);
+            console.error('Error exporting rank list:', error);
+            return null;
+        }
+    }, []);
+
+    const downloadRankListPDF = useCallback(async (): Promise<Blob | null> => {
+        setRankListError(null);
+
+        try {
+            return await api.downloadRankListPDF();
+        } catch (error) {
+            const errorMessage = api.formatApiError(error);
+            setRankListError(errorMessage);
+            console.error('Error printing rank list:', error);
+            return null;
+        }
+    }, []);
+
+    // The schedule panel reloads the schedule itself after each change
+    const fetchInterviewSchedule = useCallback(async (): Promise<InterviewSchedule | null> => {
+        setInterviewsError(null);
+
+        try {
+            return await api.fetchInterviewSchedule();
+        } catch (error) {
+            const errorMessage = api.formatApiError(error);
+            setInterviewsError(errorMessage);
+            console.error('Error fetching interview schedule:', error);
+            return null;
+        }
+    }, []);
+
+    const createInterviewDate = useCallback(async (request: InterviewDateRequest): Promise<InterviewDate | null> => {
+        setInterviewsError(null);
+
+        try {
+            return await api.createInterviewDate(request);
+        } catch (error) {
+            const errorMessage = api.formatApiError(error);
+            setInterviewsError(errorMessage);
+            console.error('Error creating interview date:', error);
+            return null;
+        }
+    }, []);
+
+    const updateInterviewDate = useCallback(async (dateId: string, request: InterviewDateRequest): Promise<InterviewDate | null> => {
+        setInterviewsError(null);
+
+        try {
+            return await api.updateInterviewDate(dateId, request);
+        } catch (error) {
+            const errorMessage = api.formatApiError(error);
+            setInterviewsError(errorMessage);
+            console.error('Error updating interview date:', error);
+            return null;
+        }
+    }, []);
+
+    const deleteInterviewDate = useCallback(async (dateId: string): Promise<boolean> => {
+        setInterviewsError(null);
+
+        try {
+            await api.deleteInterviewDate(dateId);
+            return true;
+        } catch (error) {
+            const errorMessage = api.formatApiError(error);
+            setInterviewsError(errorMessage);
+            console.error('Error deleting interview date:', error);
+            return false;
+        }
+    }, []);
+
+    const bookInterview = useCallback(async (applicantId: string, dateId: string): Promise<boolean> => {
+        setInterviewsError(null);
+
+        try {
+            await api.bookInterview(applicantId, dateId);
+            return true;
+        } catch (error) {
+            const errorMessage = api.formatApiError(error);
+            setInterviewsError(errorMessage);
+            console.error('Error booking interview:', error);
+            return false;
+        }
+    }, []);
+
+    const cancelInterviewBooking = useCallback(async (applicantId: string): Promise<boolean> => {
+        setInterviewsError(null);
+
+        try {
+            await api.cancelInterviewBooking(applicantId);
+            return true;
+        } catch (error) {
+            const errorMessage = api.formatApiError(error);
+            setInterviewsError(errorMessage);
+            console.error('Error cancelling interview booking:', error);
+            return false;
+        }
+    }, []);
+
+    const downloadInterviewDateICS = useCallback(async (dateId: string): Promise<Blob | null> => {
+        setInterviewsError(null);
+
+        try {
+            return await api.downloadInterviewDateICS(dateId);
+        } catch (error) {
+            const errorMessage = api.formatApiError(error);
+            setInterviewsError(errorMessage);
+            console.error('Error exporting interview date:', error);
+            return null;
+        }
+    }, []);
+
+    const downloadApplicantInterviewICS = useCallback(async (applicantId: string): Promise<Blob | null> => {
+        setInterviewsError(null);
+
+        try {
+            return await api.downloadApplicantInterviewICS(applicantId);
+        } catch (error) {
+            const errorMessage = api.formatApiError(error);
+            setInterviewsError(errorMessage);
+            console.error('Error exporting interview booking:', error);
+            return null;
+        }
+    }, []);
+
+    // Interview evaluations are loaded by the interviewer screen, not cached
+    const fetchInterviewRubric = useCallback(async (): Promise<Rubric | null> => {
+        setInterviewEvaluationsError(null);
+
+        try {
+            return await api.fetchActiveRubric('interview');
+        } catch (error) {
+            const errorMessage = api.formatApiError(error);
+            setInterviewEvaluationsError(errorMessage);
+            console.error('Error fetching interview rubric:', error);
+            return null;
+        }
+    }, []);
+
+    const fetchInterviewDays = useCallback(async (): Promise<InterviewDateWithBookings[] | null> => {
+        setInterviewEvaluationsError(null);
+
+        try {
+            return await api.fetchInterviewDays();
+        } catch (error) {
+            const errorMessage = api.formatApiError(error);
+            setInterviewEvaluationsError(errorMessage);
+            console.error('Error fetching interview days:', error);
+            return null;
+        }
+    }, []);
+
+    const fetchInterviewEvaluations = useCallback(async (applicantId?: string): Promise<InterviewEvaluation[] | null> => {
+        setInterviewEvaluationsError(null);
+
+        try {
+            return await api.fetchInterviewEvaluations(applicantId);
+        } catch (error) {
+            const errorMessage = api.formatApiError(error);
+            setInterviewEvaluationsError(errorMessage);
+            console.error('Error fetching interview evaluations:', error);
+            return null;
+        }
+    }, []);
+
+    const saveInterviewEvaluation = useCallback(async (applicantId: string, request: InterviewEvaluationRequest): Promise<InterviewEvaluation | null> => {
+        setInterviewEvaluationsError(null);
+
+        try {
+            return await api.saveInterviewEvaluation(applicantId, request);
+        } catch (error) {
+            const errorMessage = api.formatApiError(error);
+            setInterviewEvaluationsError(errorMessage);
+            console.error('Error saving interview evaluation:', error);
+            return null;
+        }
+    }, []);
+
+    // Preview or store an assignment plan; stored plans reload the distribution
+    const distributeApplicants = useCallback(async (options: AssignmentPlanOptions): Promise<AssignmentPlan | null> => {
+        setDistributionError(null);
+
+        try {
+            const plan = await api.distributeApplicants(options);
+            if (!plan.dry_run) {
+                const data = await api.fetchApplicantDistribution();
+                setApplicantDistribution(data);
+                setLastFetch((prev: typeof lastFetch) => ({ ...prev, distribution: Date.now() }));
+
+                // New assignments change every progress total
+                if (canViewProgress) {
+                    setProgress(await api.fetchProgress());
+                    setLastFetch((prev: typeof lastFetch) => ({ ...prev, progress: Date.now() }));
+                }
+            }
+            return plan;
+        } catch (error) {
+            const errorMessage = api.formatApiError(error);
+            setDistributionError(errorMessage);
+            console.error('Error distributing applicants:', error);
+            return null;
+        }
+    }, [canViewProgress]);
+
+    // Reweight the active rubric; stored weighted scores change with it
+    const updateRubricWeights = useCallback(async (weights: Record<string, number>): Promise<Rubric | null> => {
+        if (!rubric) return null;
+        setRubricError(null);
+
+        try {
+            const updated = await api.updateRubricWeights(rubric.id, weights);
+            setRubric(updated);
+            setLastFetch((prev: typeof lastFetch) => ({ ...prev, rubric: Date.now() }));
+
+            setReviews(await api.fetchReviews());
+            setLastFetch((prev: typeof lastFetch) => ({ ...prev, reviews: Date.now() }));
+            return updated;
+        } catch (error) {
+            const errorMessage = api.formatApiError(error);
+            setRubricError(errorMessage);
+            console.error('Error updating rubric weights:', error);
+            return null;
+        }
+    }, [rubric]);
+
+    // Set a category's interview slots, then reload the remaining capacity
+    const updateInterviewTarget = useCallback(async (category: ApplicantCategory, slots: number, hardLimit: boolean): Promise<boolean> => {
+        setInterviewCapacityError(null);
+
+        try {
+            await api.setInterviewTarget(category, slots, hardLimit);
+            await refreshInterviewCapacity();
+            return true;
+        } catch (error) {
+            const errorMessage = api.formatApiError(error);
+            setInterviewCapacityError(errorMessage);
+            console.error('Error updating interview target:', error);
+            return false;
+        }
+    }, [refreshInterviewCapacity]);
+
+    // Save review with optimistic updates
+    const saveReview = useCallback((applicantId: string, reviewData: Partial<Review>): Promise<Review | null> => {
+        const reviewerName = reviewData.reviewer_name || reviewData.reviewer;
+        const key = `${applicantId}:${reviewerName}`;
+        const previous = pendingReviewSaves.current[key] ?? Promise.resolve(null);
+
+        const save = previous.then(async (lastSaved: Review | null): Promise<Review | null> => {
+            const revision = lastSaved?.revision ?? reviewData.revision;
+            try {
+                const savedReview = await api.saveReview(applicantId, {
+                    ...reviewData,
+                    ...(revision !== undefined ? { revision } : {})
+                });
+
+                // Optimistically update local state
+                setReviews((prevReviews: Review[]) => {
+                    const existingIndex = prevReviews.findIndex(
+                        (r: Review) => r.applicant_id === applicantId && r.reviewer_name === (reviewData.reviewer_name || reviewData.reviewer)
+                    );
+
+                    if (existingIndex >= 0) {
+                        // Update existing review
+                        const updatedReviews = [...prevReviews];
+                        updatedReviews[existingIndex] = { ...updatedReviews[existingIndex], ...savedReview };
+                        return updatedReviews;
+                    } else {
+                        // Add new review
+                        return [...prevReviews, savedReview];
+                    }
+                });
+
+                // Refresh progress to get updated statistics
+                refreshProgress();
+
+                return savedReview;
+            } catch (error) {
+                if (error instanceof api.ApiError && error.status === 409 && error.details?.current) {
+                    setReviewConflict({
+                        applicantId,
+                        base: reviewsRef.current.find((r: Review) => r.applicant_id === applicantId && r.reviewer_name === reviewerName),
+                        mine: reviewData,
+                        theirs: error.details.current
+                    });
+                }
+                console.error('Error saving review:', error);
+                return null;
+            }
+        });
+
+        pendingReviewSaves.current[key] = save;
+        save.then(() => {
+            if (pendingReviewSaves.current[key] === save) {
+                delete pendingReviewSaves.current[key];
+            }
+        });
+        return save;
+    }, [refreshProgress]);
+
     // Save final selection
     const saveFinalSelection = useCallback(async (
         applicantId: string,
-        decision: 'interview' | 'reject' | 'waitlist',
-        notes?: string
+        decision: AdminDecision,
+        selectionReason?: string
     ): Promise<FinalSelection | null> => {
+        setFinalSelectionsError(null);
+        const loaded = finalSelectionsRef.current.find((s: FinalSelection) => s.applicant_id === applicantId);
+
         try {
-            const savedSelection = await api.saveFinalSelection(applicantId, decision, notes);
+            const savedSelection = await api.saveFinalSelection(applicantId, decision, selectionReason, loaded?.revision);
 
             // Optimistically update local state
             setFinalSelections((prevSelections: FinalSelection[]) => {
@@ -328,12 +1198,70 @@ export function useApiData(): UseApiDataReturn {
                 }
             });
 
+            // Selected counts against the interview targets
+            await refreshInterviewCapacity();
+
             return savedSelection;
         } catch (error) {
+            if (error instanceof api.ApiError && error.status === 409 && error.details?.current) {
+                setFinalSelectionConflict({
+                    applicantId,
+                    base: loaded,
+                    mine: {
+                        ...loaded,
+                        admin_decision: decision,
+                        ...(selectionReason !== undefined ? { selection_reason: selectionReason } : {})
+                    },
+                    theirs: error.details.current
+                });
+                return null;
+            }
+            const errorMessage = api.formatApiError(error);
+            setFinalSelectionsError(errorMessage);
             console.error('Error saving final selection:', error);
             return null;
         }
-    }, []);
+    }, [refreshInterviewCapacity]);
+
+    // Settle a rejected review save: keep the stored review, overwrite it, or merge field by field
+    const resolveReviewConflict = useCallback(async (resolution: ConflictResolution): Promise<Review | null> => {
+        if (!reviewConflict) return null;
+        const { applicantId, theirs } = reviewConflict;
+        setReviewConflict(null);
+
+        if (resolution === 'theirs') {
+            setReviews((prevReviews: Review[]) => prevReviews.map((r: Review) =>
+                r.applicant_id === applicantId && r.reviewer_name === theirs.reviewer_name ? { ...r, ...theirs } : r
+            ));
+            return theirs;
+        }
+
+        const resolved = resolution === 'merge' ? mergeReview(reviewConflict) : reviewConflict.mine;
+        return saveReview(applicantId, { ...resolved, reviewer_name: theirs.reviewer_name!, revision: theirs.revision! });
+    }, [reviewConflict, saveReview]);
+
+    // Settle a rejected decision the same way
+    const resolveFinalSelectionConflict = useCallback(async (resolution: ConflictResolution): Promise<FinalSelection | null> => {
+        if (!finalSelectionConflict) return null;
+        const { applicantId, theirs } = finalSelectionConflict;
+        setFinalSelectionConflict(null);
+
+        // Show the stored decision either way; a save below then replaces it
+        setFinalSelections((prevSelections: FinalSelection[]) => prevSelections.map((s: FinalSelection) =>
+            s.applicant_id === applicantId ? { ...s, ...theirs } : s
+        ));
+        // The save below reads the revision from the ref before React re-renders
+        finalSelectionsRef.current = finalSelectionsRef.current.map((s: FinalSelection) =>
+            s.applicant_id === applicantId ? { ...s, ...theirs } : s
+        );
+
+        if (resolution === 'theirs') {
+            return theirs;
+        }
+
+        const resolved = resolution === 'merge' ? mergeFinalSelection(finalSelectionConflict) : finalSelectionConflict.mine;
+        return saveFinalSelection(applicantId, resolved.admin_decision ?? 'Pending', resolved.selection_reason);
+    }, [finalSelectionConflict, saveFinalSelection]);
 
     // Detect API environment
     const detectApiEnvironment = useCallback(async () => {
@@ -383,7 +1311,8 @@ export function useApiData(): UseApiDataReturn {
             try {
                 await refreshApiConfig();
                 const healthy = await checkApiHealth();
-                if (healthy) {
+                // Data routes require a session; the app refreshes again after sign-in
+                if (healthy && api.getAuthToken()) {
                     await refreshAll();
                 }
             } catch (error) {
@@ -402,9 +1331,13 @@ export function useApiData(): UseApiDataReturn {
         iSubApplicants,
         reviews,
         reviewers,
+        rubric,
         progress,
         finalSelections,
+        interviewCapacity,
         applicantDistribution,
+        cycles,
+        selectedCycle,
 
         // Loading states
         applicantsLoading,
@@ -412,15 +1345,29 @@ export function useApiData(): UseApiDataReturn {
         iSubApplicantsLoading,
         reviewsLoading,
         reviewersLoading,
+        rubricLoading,
         progressLoading,
+        finalSelectionsLoading,
         distributionLoading,
 
         // Error states
         applicantsError,
         reviewsError,
         reviewersError,
+        rubricError,
         progressError,
+        finalSelectionsError,
+        interviewCapacityError,
         distributionError,
+        cyclesError,
+        auditError,
+        reviewHistoryError,
+        importError,
+        documentsError,
+        exportError,
+        rankListError,
+        interviewsError,
+        interviewEvaluationsError,
 
         // Refresh functions
         refreshApplicants,
@@ -428,10 +1375,50 @@ export function useApiData(): UseApiDataReturn {
         refreshISubApplicants,
         refreshReviews,
         refreshReviewers,
+        refreshRubric,
         refreshProgress,
+        refreshFinalSelections,
+        refreshInterviewCapacity,
         refreshDistribution,
+        refreshCycles,
         refreshAll,
 
+        // Cycle functions
+        selectCycle,
+        createCycle,
+        activateCycle,
+
+        // Audit functions
+        fetchAuditLog,
+
+        // Review history functions
+        fetchReviewVersions,
+        restoreReviewVersion,
+
+        // Import functions
+        importApplicants,
+
+        // Document functions
+        fetchApplicantDocuments,
+        fetchApplicantDocumentFile,
+        uploadApplicantDocument,
+        deleteApplicantDocument,
+
+        // Assignment functions
+        distributeApplicants,
+
+        // Rubric functions
+        updateRubricWeights,
+
+        // Interview target functions
+        updateInterviewTarget,
+
+        // Conflict functions
+        reviewConflict,
+        finalSelectionConflict,
+        resolveReviewConflict,
+        resolveFinalSelectionConflict,
+
         // Save functions
         saveReview,
         saveFinalSelection,
@@ -447,7 +1434,37 @@ export function useApiData(): UseApiDataReturn {
         detectApiEnvironment,
         refreshApiConfig,
 
-        // Export function
-        exportReviewData: api.exportReviewData,
+        // Export functions
+        fetchExportColumns,
+        downloadExportCSV,
+        downloadExportXLSX,
+        downloadSummaryPDF,
+        downloadApplicantPacketPDF,
+
+        // Rank list functions
+        fetchRankList,
+        saveRankList,
+        seedRankList,
+        fetchRankListVersions,
+        createRankListVersion,
+        restoreRankListVersion,
+        downloadRankListCSV,
+        downloadRankListPDF,
+
+        // Interview schedule functions
+        fetchInterviewSchedule,
+        createInterviewDate,
+        updateInterviewDate,
+        deleteInterviewDate,
+        bookInterview,
+        cancelInterviewBooking,
+        downloadInterviewDateICS,
+        downloadApplicantInterviewICS,
+
+        // Interview evaluation functions
+        fetchInterviewRubric,
+        fetchInterviewDays,
+        fetchInterviewEvaluations,
+        saveInterviewEvaluation,
     };
 }
\ No newline at end of file
@@ -0,0 +1,135 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AuthenticatedReviewer, LoginCodeResponse, Permission } from '../types';
+import * as api from '../services/api';
+
+// Hook return type
+export interface UseAuthReturn {
+    reviewer: AuthenticatedReviewer | null;
+    isAuthenticated: boolean;
+    authLoading: boolean;
+    authError: string | null;
+
+    login: (email: string, password: string) => Promise<boolean>;
+    requestLoginCode: (email: string) => Promise<LoginCodeResponse | null>;
+    verifyLoginCode: (email: string, code: string) => Promise<boolean>;
+    changePassword: (newPassword: string, currentPassword?: string) => Promise<boolean>;
+    logout: () => Promise<void>;
+    clearAuthError: () => void;
+    can: (permission: Permission) => boolean;
+}
+
+/**
+ * Custom hook for managing the signed-in reviewer's session
+ */
+export function useAuth(): UseAuthReturn {
+    const [reviewer, setReviewer] = useState<AuthenticatedReviewer | null>(null);
+    const [authLoading, setAuthLoading] = useState<boolean>(!!api.getAuthToken());
+    const [authError, setAuthError] = useState<string | null>(null);
+
+    const login = useCallback(async (email: string, password: string): Promise<boolean> => {
+        setAuthLoading(true);
+        setAuthError(null);
+
+        try {
+            const session = await api.login(email, password);
+            setReviewer(session.reviewer);
+            return true;
+        } catch (error) {
+            setAuthError(api.formatApiError(error));
+            return false;
+        } finally {
+            setAuthLoading(false);
+        }
+    }, []);
+
+    const requestLoginCode = useCallback(async (email: string): Promise<LoginCodeResponse | null> => {
+        setAuthError(null);
+
+        try {
+            return await api.requestLoginCode(email);
+        } catch (error) {
+            setAuthError(api.formatApiError(error));
+            return null;
+        }
+    }, []);
+
+    const verifyLoginCode = useCallback(async (email: string, code: string): Promise<boolean> => {
+        setAuthLoading(true);
+        setAuthError(null);
+
+        try {
+            const session = await api.verifyLoginCode(email, code);
+            setReviewer(session.reviewer);
+            return true;
+        } catch (error) {
+            setAuthError(api.formatApiError(error));
+            return false;
+        } finally {
+            setAuthLoading(false);
+        }
+    }, []);
+
+    const changePassword = useCallback(async (newPassword: string, currentPassword?: string): Promise<boolean> => {
+        setAuthError(null);
+
+        try {
+            await api.changePassword(newPassword, currentPassword);
+            return true;
+        } catch (error) {
+            setAuthError(api.formatApiError(error));
+            return false;
+        }
+    }, []);
+
+    const logout = useCallback(async (): Promise<void> => {
+        try {
+            await api.logout();
+        } catch (error) {
+            // The local token is cleared regardless, so a failed request still signs the user out
+            console.error('Error signing out:', error);
+        } finally {
+            setReviewer(null);
+        }
+    }, []);
+
+    const clearAuthError = useCallback(() => setAuthError(null), []);
+
+    // The backend enforces permissions; this only decides what the UI offers
+    const can = useCallback((permission: Permission): boolean => {
+        return reviewer?.permissions.includes(permission) ?? false;
+    }, [reviewer]);
+
+    // Restore an existing session on mount
+    useEffect(() => {
+        if (!api.getAuthToken()) return;
+
+        const restoreSession = async () => {
+            try {
+                const current = await api.fetchCurrentReviewer();
+                setReviewer(current);
+            } catch (error) {
+                console.error('Stored session is no longer valid:', error);
+                api.setAuthToken(null);
+            } finally {
+                setAuthLoading(false);
+            }
+        };
+
+        restoreSession();
+    }, []);
+
+    return {
+        reviewer,
+        isAuthenticated: reviewer !== null,
+        authLoading,
+        authError,
+
+        login,
+        requestLoginCode,
+        verifyLoginCode,
+        changePassword,
+        logout,
+        clearAuthError,
+        can,
+    };
+}
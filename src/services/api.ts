@@ -1,4 +1,4 @@
-import { Applicant, ApiApplicant, Review, Reviewer, ProgressStats, FinalSelection, ApplicantDistribution } from '../types';
+import { Applicant, ApiApplicant, ApplicantDocument, ApplicantImportRequest, ApplicantImportResult, DocumentType, Review, ReviewVersion, Reviewer, Rubric, Cycle, AuditEntry, AuditLogFilters, ProgressStats, FinalSelection, AdminDecision, InterviewCapacity, ApplicantCategory, ApplicantDistribution, AssignmentPlan, AssignmentPlanOptions, AuthSession, AuthenticatedReviewer, LoginCodeResponse, ListParams, ApplicantListParams, ReviewListParams, FinalSelectionListParams, Page, PageInfo, ExportColumn, ExportLayout, RankList, RankListEntry, RankListVersion, InterviewSchedule, InterviewDate, InterviewDateRequest, InterviewDateWithBookings, InterviewEvaluation, InterviewEvaluationRequest, RubricStage } from '../types';
 import { detectEnvironment, getApiBaseUrl } from './apiConfig';
 
 // Initialize current base URL, with fallback to sessionStorage
@@ -6,16 +6,70 @@ let currentBaseUrl = typeof sessionStorage !== 'undefined' && sessionStorage.get
     ? sessionStorage.getItem('apiBaseUrl')!
     : getApiBaseUrl();
 
-// Request headers
+// Session token, persisted for the lifetime of the browser tab
+let authToken: string | null = typeof sessionStorage !== 'undefined'
+    ? sessionStorage.getItem('authToken')
+    : null;
+
+// Cycle picked for viewing; null follows whichever cycle the backend has active
+let selectedCycleId: string | null = typeof sessionStorage !== 'undefined'
+    ? sessionStorage.getItem('cycleId')
+    : null;
+
+// Request headers; REACT_APP_SITE_NAME picks the program when one backend serves several
 const DEFAULT_HEADERS = {
     'Content-Type': 'application/json',
+    ...(process.env.REACT_APP_SITE_NAME ? { 'X-Site-Name': process.env.REACT_APP_SITE_NAME } : {}),
 };
 
+/**
+ * Get the current session token, if signed in
+ */
+export function getAuthToken(): string | null {
+    return authToken;
+}
+
+/**
+ * Set or clear the session token sent with every request
+ */
+export function setAuthToken(token: string | null): void {
+    authToken = token;
+    if (typeof sessionStorage !== 'undefined') {
+        if (token) {
+            sessionStorage.setItem('authToken', token);
+        } else {
+            sessionStorage.removeItem('authToken');
+        }
+    }
+}
+
+/**
+ * Get the cycle sent with every request, or null for the active cycle
+ */
+export function getSelectedCycleId(): string | null {
+    return selectedCycleId;
+}
+
+/**
+ * Set or clear the cycle sent with every request
+ */
+export function setSelectedCycleId(cycleId: string | null): void {
+    selectedCycleId = cycleId;
+    if (typeof sessionStorage !== 'undefined') {
+        if (cycleId) {
+            sessionStorage.setItem('cycleId', cycleId);
+        } else {
+            sessionStorage.removeItem('cycleId');
+        }
+    }
+}
+
 // Success response wrapper
 interface SuccessResponse<T> {
     data: T;
     success: boolean;
     message?: string;
+    page?: PageInfo; // Sent by list endpoints
 }
 
 // Error handling
@@ -23,7 +77,8 @@ export class ApiError extends Error {
     constructor(
         message: string,
         public status?: number,
-        public code?: string
+        public code?: string,
+        public details?: any // e.g. the stored record on a 409 Conflict
     ) {
         super(message);
         this.name = 'ApiError';
@@ -31,26 +86,37 @@ export class ApiError extends Error {
 }
 
 // Helper function to handle API responses
-async function handleResponse<T>(response: Response): Promise<T> {
+async function handleResponse<T>(response: Response): Promise<SuccessResponse<T>> {
     if (!response.ok) {
         const errorText = await response.text();
         let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
+        let details: any;
 
         try {
             const errorData = JSON.parse(errorText);
             errorMessage = errorData.message || errorMessage;
+            details = errorData.details;
         } catch {
             // Use default error message if parsing fails
         }
 
-        throw new ApiError(errorMessage, response.status);
+        throw new ApiError(errorMessage, response.status, undefined, details);
     }
 
     const json = await response.json();
     if (!json.success) {
         throw new ApiError(json.message || 'Request failed', response.status);
     }
-    return json.data;
+    return json;
+}
+
+// Headers for every request: site, session and the cycle being viewed
+function requestHeaders(): Record<string, string> {
+    return {
+        ...DEFAULT_HEADERS,
+        ...(authToken ? { Authorization: `Bearer ${authToken}` } : {}),
+        ...(selectedCycleId ? { 'X-Cycle-Id': selectedCycleId } : {}),
+    };
 }
 
 // Helper function to make API requests with retry logic
@@ -59,6 +125,25 @@ async function makeRequest<T>(
     options: RequestInit = {},
     retries = 2
 ): Promise<T> {
+    const response = await sendRequest<T>(url, options, retries);
+    return response.data;
+}
+
+// Like makeRequest, but keeps the page info list endpoints send alongside the data
+async function makePageRequest<T>(url: string): Promise<Page<T>> {
+    const response = await sendRequest<T[]>(url);
+    return {
+        data: response.data,
+        page: response.page ?? { total: response.data.length, limit: null, next_cursor: null }
+    };
+}
+
+// Send a request, retrying server and network errors with exponential backoff
+async function sendRequest<T>(
+    url: string,
+    options: RequestInit = {},
+    retries = 2
+): Promise<SuccessResponse<T>> {
     const fullUrl = `${currentBaseUrl}${url}`;
 
     for (let attempt = 0; attempt <= retries; attempt++) {
@@ -66,14 +151,16 @@ async function makeRequest<T>(
             const response = await fetch(fullUrl, {
                 ...options,
                 headers: {
-                    ...DEFAULT_HEADERS,
+                    ...requestHeaders(),
                     ...options.headers,
                 },
             });
 
             return await handleResponse<T>(response);
         } catch (error) {
-            if (attempt === retries) {
+            // Client errors (bad input, auth failures, conflicts) will not succeed on retry
+            const isClientError = error instanceof ApiError && error.status !== undefined && error.status < 500;
+            if (attempt === retries || isClientError) {
                 throw error;
             }
 
@@ -85,13 +172,110 @@ async function makeRequest<T>(
     throw new Error('Max retries exceeded');
 }
 
+// Helper function to fetch a file; errors still arrive as JSON
+async function makeBlobRequest(url: string): Promise<Blob> {
+    const response = await fetch(`${currentBaseUrl}${url}`, { headers: requestHeaders() });
+    if (!response.ok) {
+        await handleResponse<never>(response);
+    }
+    return response.blob();
+}
+
+// Build a query string from the set parameters, with its leading ? (empty when none are set)
+function toQueryString(params: object): string {
+    const search = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+        if (value !== undefined && value !== '') {
+            search.set(key, String(value));
+        }
+    }
+    const query = search.toString();
+    return query ? `?${query}` : '';
+}
+
 // API Functions
 
 /**
- * Fetch all applicants from the backend
+ * Sign in with email and password
+ */
+export async function login(email: string, password: string): Promise<AuthSession> {
+    const session = await makeRequest<AuthSession>('/auth/login', {
+        method: 'POST',
+        body: JSON.stringify({ email, password }),
+    });
+    setAuthToken(session.token);
+    return session;
+}
+
+/**
+ * Request a one-time sign-in code by email
  */
-export async function fetchApplicants(): Promise<ApiApplicant[]> {
-    const response = await makeRequest<ApiApplicant[]>('/applicants');
+export async function requestLoginCode(email: string): Promise<LoginCodeResponse> {
+    const response = await makeRequest<LoginCodeResponse>('/auth/login-code', {
+        method: 'POST',
+        body: JSON.stringify({ email }),
+    });
+    return response;
+}
+
+/**
+ * Sign in with a one-time code
+ */
+export async function verifyLoginCode(email: string, code: string): Promise<AuthSession> {
+    const session = await makeRequest<AuthSession>('/auth/login-code/verify', {
+        method: 'POST',
+        body: JSON.stringify({ email, code }),
+    });
+    setAuthToken(session.token);
+    return session;
+}
+
+/**
+ * Fetch the reviewer for the current session
+ */
+export async function fetchCurrentReviewer(): Promise<AuthenticatedReviewer> {
+    const response = await makeRequest<AuthenticatedReviewer>('/auth/me');
+    return response;
+}
+
+/**
+ * End the current session
+ */
+export async function logout(): Promise<void> {
+    try {
+        await makeRequest<void>('/auth/logout', { method: 'POST' });
+    } finally {
+        setAuthToken(null);
+        setSelectedCycleId(null);
+    }
+}
+
+/**
+ * Set or change the signed-in reviewer's password
+ */
+export async function changePassword(newPassword: string, currentPassword?: string): Promise<void> {
+    await makeRequest<void>('/auth/password', {
+        method: 'PUT',
+        body: JSON.stringify({
+            new_password: newPassword,
+            current_password: currentPassword,
+        }),
+    });
+}
+
+/**
+ * Fetch the applicants matching the given search and filters (all of them by default)
+ */
+export async function fetchApplicants(params: ApplicantListParams = {}): Promise<ApiApplicant[]> {
+    const response = await makeRequest<ApiApplicant[]>(`/applicants${toQueryString(params)}`);
+    return response;
+}
+
+/**
+ * Fetch one page of applicants; pass page.next_cursor back as cursor for the next one
+ */
+export async function fetchApplicantPage(params: ApplicantListParams & Required<Pick<ListParams, 'limit'>>): Promise<Page<ApiApplicant>> {
+    const response = await makePageRequest<ApiApplicant>(`/applicants${toQueryString(params)}`);
     return response;
 }
 
@@ -112,10 +296,71 @@ export async function fetchISubApplicants(): Promise<ApiApplicant[]> {
 }
 
 /**
- * Fetch applicant distribution with reviewer assignments
+ * Import applicants from an ERAS CSV export
+ * With dry_run each row's outcome is only previewed; otherwise the rows are saved
+ */
+export async function importApplicants(request: ApplicantImportRequest): Promise<ApplicantImportResult> {
+    const response = await makeRequest<ApplicantImportResult>('/applicants/import', {
+        method: 'POST',
+        body: JSON.stringify(request),
+    });
+    return response;
+}
+
+/**
+ * Fetch the documents attached to an applicant
+ */
+export async function fetchApplicantDocuments(applicantId: string): Promise<ApplicantDocument[]> {
+    const response = await makeRequest<ApplicantDocument[]>(`/applicants/${applicantId}/documents`);
+    return response;
+}
+
+/**
+ * Fetch a document's PDF
+ */
+export async function fetchApplicantDocumentFile(applicantId: string, documentId: string): Promise<Blob> {
+    return makeBlobRequest(`/applicants/${applicantId}/documents/${documentId}/file`);
+}
+
+/**
+ * Upload a PDF and attach it to an applicant
+ */
+export async function uploadApplicantDocument(applicantId: string, file: File, documentType: DocumentType): Promise<ApplicantDocument> {
+    const params = new URLSearchParams({ document_type: documentType, file_name: file.name });
+    const response = await makeRequest<ApplicantDocument>(`/applicants/${applicantId}/documents?${params}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/pdf' },
+        body: file,
+    });
+    return response;
+}
+
+/**
+ * Delete a document from an applicant
+ */
+export async function deleteApplicantDocument(applicantId: string, documentId: string): Promise<void> {
+    await makeRequest<void>(`/applicants/${applicantId}/documents/${documentId}`, {
+        method: 'DELETE',
+    });
+}
+
+/**
+ * Fetch applicant distribution from stored reviewer assignments
  */
 export async function fetchApplicantDistribution(): Promise<ApplicantDistribution> {
-    const response = await makeRequest<ApplicantDistribution>('/applicants/distribution');
+    const response = await makeRequest<ApplicantDistribution>('/assignments/distribution');
+    return response;
+}
+
+/**
+ * Plan assignments for applicants that still need reviewers
+ * With dry_run the plan is only previewed; otherwise it is stored
+ */
+export async function distributeApplicants(options: AssignmentPlanOptions = {}): Promise<AssignmentPlan> {
+    const response = await makeRequest<AssignmentPlan>('/assignments/distribute', {
+        method: 'POST',
+        body: JSON.stringify(options),
+    });
     return response;
 }
 
@@ -128,11 +373,38 @@ export async function fetchReviewers(): Promise<Reviewer[]> {
 }
 
 /**
- * Fetch reviews with optional reviewer filtering
+ * Fetch the rubric new reviews are scored against, or with stage 'interview' the one interview evaluations are
+ */
+export async function fetchActiveRubric(stage: RubricStage = 'file_review'): Promise<Rubric> {
+    const response = await makeRequest<Rubric>(`/rubrics/active${toQueryString({ stage })}`);
+    return response;
+}
+
+/**
+ * Set criterion weights on a rubric
+ * The backend rescores every review under the rubric before responding
+ */
+export async function updateRubricWeights(rubricId: string, weights: Record<string, number>): Promise<Rubric> {
+    const response = await makeRequest<Rubric>(`/rubrics/${rubricId}/weights`, {
+        method: 'PUT',
+        body: JSON.stringify({ weights }),
+    });
+    return response;
+}
+
+/**
+ * Fetch the reviews matching the given search and filters (every visible review by default)
+ */
+export async function fetchReviews(params: ReviewListParams = {}): Promise<Review[]> {
+    const response = await makeRequest<Review[]>(`/reviews${toQueryString(params)}`);
+    return response;
+}
+
+/**
+ * Fetch one page of reviews; pass page.next_cursor back as cursor for the next one
  */
-export async function fetchReviews(reviewerName?: string): Promise<Review[]> {
-    const url = reviewerName ? `/reviews?reviewer_name=${encodeURIComponent(reviewerName)}` : '/reviews';
-    const response = await makeRequest<Review[]>(url);
+export async function fetchReviewPage(params: ReviewListParams & Required<Pick<ListParams, 'limit'>>): Promise<Page<Review>> {
+    const response = await makePageRequest<Review>(`/reviews${toQueryString(params)}`);
     return response;
 }
 
@@ -149,10 +421,13 @@ export async function saveReview(
     }
 
     try {
-        // Try to update existing review
+        // Try to update existing review; the revision makes the backend reject stale writes with 409
         const response = await makeRequest<Review>(`/reviews/${applicantId}/${encodeURIComponent(reviewerName)}`, {
             method: 'PUT',
-            body: JSON.stringify(reviewData),
+            body: JSON.stringify({
+                ...reviewData,
+                expected_revision: reviewData.revision,
+            }),
         });
         return response;
     } catch (error) {
@@ -172,10 +447,31 @@ export async function saveReview(
 }
 
 /**
- * Fetch progress statistics
+ * Fetch every saved version of a review, newest first
+ */
+export async function fetchReviewVersions(applicantId: string, reviewerName: string): Promise<ReviewVersion[]> {
+    const response = await makeRequest<ReviewVersion[]>(
+        `/reviews/${applicantId}/${encodeURIComponent(reviewerName)}/versions`
+    );
+    return response;
+}
+
+/**
+ * Put a review back the way it was at an earlier version
+ */
+export async function restoreReviewVersion(applicantId: string, reviewerName: string, version: number): Promise<Review> {
+    const response = await makeRequest<Review>(
+        `/reviews/${applicantId}/${encodeURIComponent(reviewerName)}/versions/${version}/restore`,
+        { method: 'POST' }
+    );
+    return response;
+}
+
+/**
+ * Fetch progress statistics (overall, by category and by reviewer)
  */
 export async function fetchProgress(): Promise<ProgressStats> {
-    const response = await makeRequest<ProgressStats>('/progress/stats');
+    const response = await makeRequest<ProgressStats>('/progress');
     return response;
 }
 
@@ -184,47 +480,309 @@ export async function fetchProgress(): Promise<ProgressStats> {
  */
 export async function saveFinalSelection(
     applicantId: string,
-    decision: 'interview' | 'reject' | 'waitlist',
-    notes?: string
+    decision: AdminDecision,
+    selectionReason?: string,
+    expectedRevision?: number
 ): Promise<FinalSelection> {
     const response = await makeRequest<FinalSelection>('/reviews/final-selections', {
         method: 'POST',
         body: JSON.stringify({
             applicant_id: applicantId,
-            final_decision: decision,
-            admin_notes: notes,
+            admin_decision: decision,
+            selection_reason: selectionReason,
+            expected_revision: expectedRevision,
         }),
     });
     return response;
 }
 
 /**
- * Fetch final selections for admin dashboard
+ * Fetch final selections with raw and normalized ranks, sorted by params.rank_by unless sort is given
  */
-export async function fetchFinalSelections(): Promise<FinalSelection[]> {
-    const response = await makeRequest<FinalSelection[]>('/reviews/final-selections');
+export async function fetchFinalSelections(params: FinalSelectionListParams = {}): Promise<FinalSelection[]> {
+    const response = await makeRequest<FinalSelection[]>(`/reviews/final-selections${toQueryString(params)}`);
     return response;
 }
 
 /**
- * Export all review data for CSV generation
+ * Fetch one page of final selections; pass page.next_cursor back as cursor for the next one
  */
-export async function exportReviewData(): Promise<{
-    applicants: ApiApplicant[];
-    reviews: Review[];
-    finalSelections: FinalSelection[];
-}> {
-    const [applicants, reviews, finalSelections] = await Promise.all([
-        fetchApplicants(),
-        fetchReviews(),
-        fetchFinalSelections(),
-    ]);
+export async function fetchFinalSelectionPage(params: FinalSelectionListParams & Required<Pick<ListParams, 'limit'>>): Promise<Page<FinalSelection>> {
+    const response = await makePageRequest<FinalSelection>(`/reviews/final-selections${toQueryString(params)}`);
+    return response;
+}
 
-    return {
-        applicants,
-        reviews,
-        finalSelections,
-    };
+/**
+ * Fetch each category's interview target and remaining capacity for the selected cycle
+ */
+export async function fetchInterviewCapacity(): Promise<InterviewCapacity[]> {
+    const response = await makeRequest<InterviewCapacity[]>('/interview-targets');
+    return response;
+}
+
+/**
+ * Set the interview slots for a category in the active cycle
+ */
+export async function setInterviewTarget(category: ApplicantCategory, slots: number, hardLimit: boolean): Promise<void> {
+    await makeRequest<unknown>(`/interview-targets/${category}`, {
+        method: 'PUT',
+        body: JSON.stringify({ slots, hard_limit: hardLimit }),
+    });
+}
+
+/**
+ * Fetch the cycle's interview dates with their bookings and the Selected applicants still without a date
+ */
+export async function fetchInterviewSchedule(): Promise<InterviewSchedule> {
+    const response = await makeRequest<InterviewSchedule>('/interviews');
+    return response;
+}
+
+/**
+ * Add an interview date to the active cycle
+ */
+export async function createInterviewDate(request: InterviewDateRequest): Promise<InterviewDate> {
+    const response = await makeRequest<InterviewDate>('/interviews/dates', {
+        method: 'POST',
+        body: JSON.stringify(request),
+    });
+    return response;
+}
+
+/**
+ * Change an interview date's day, times, capacity, location or notes
+ */
+export async function updateInterviewDate(dateId: string, request: InterviewDateRequest): Promise<InterviewDate> {
+    const response = await makeRequest<InterviewDate>(`/interviews/dates/${dateId}`, {
+        method: 'PUT',
+        body: JSON.stringify(request),
+    });
+    return response;
+}
+
+/**
+ * Delete an interview date that has no bookings
+ */
+export async function deleteInterviewDate(dateId: string): Promise<void> {
+    await makeRequest<void>(`/interviews/dates/${dateId}`, {
+        method: 'DELETE',
+    });
+}
+
+/**
+ * Book an applicant on an interview date, moving them if they already have one
+ */
+export async function bookInterview(applicantId: string, dateId: string): Promise<void> {
+    await makeRequest<unknown>(`/interviews/bookings/${applicantId}`, {
+        method: 'PUT',
+        body: JSON.stringify({ interview_date_id: dateId }),
+    });
+}
+
+/**
+ * Cancel an applicant's interview booking
+ */
+export async function cancelInterviewBooking(applicantId: string): Promise<void> {
+    await makeRequest<void>(`/interviews/bookings/${applicantId}`, {
+        method: 'DELETE',
+    });
+}
+
+/**
+ * Download an interview day as an iCalendar event listing who is booked
+ */
+export async function downloadInterviewDateICS(dateId: string): Promise<Blob> {
+    const response = await makeBlobRequest(`/interviews/dates/${dateId}/ics`);
+    return response;
+}
+
+/**
+ * Download an applicant's booked interview as an iCalendar event
+ */
+export async function downloadApplicantInterviewICS(applicantId: string): Promise<Blob> {
+    const response = await makeBlobRequest(`/interviews/applicants/${applicantId}/ics`);
+    return response;
+}
+
+/**
+ * Fetch the interview days with who is booked on each, for interviewers
+ */
+export async function fetchInterviewDays(): Promise<InterviewDateWithBookings[]> {
+    const response = await makeRequest<InterviewDateWithBookings[]>('/interview-evaluations/schedule');
+    return response;
+}
+
+/**
+ * Fetch interview evaluations; reviewers without reviews:read_all only get their own
+ */
+export async function fetchInterviewEvaluations(applicantId?: string): Promise<InterviewEvaluation[]> {
+    const response = await makeRequest<InterviewEvaluation[]>(`/interview-evaluations${toQueryString(applicantId ? { applicant_id: applicantId } : {})}`);
+    return response;
+}
+
+/**
+ * Save the signed-in interviewer's evaluation of an applicant, starting it if needed
+ * A stale expected_revision is rejected with 409
+ */
+export async function saveInterviewEvaluation(applicantId: string, request: InterviewEvaluationRequest): Promise<InterviewEvaluation> {
+    const response = await makeRequest<InterviewEvaluation>(`/interview-evaluations/${applicantId}`, {
+        method: 'PUT',
+        body: JSON.stringify(request),
+    });
+    return response;
+}
+
+/**
+ * Fetch all recruitment cycles, newest first
+ */
+export async function fetchCycles(): Promise<Cycle[]> {
+    const response = await makeRequest<Cycle[]>('/cycles');
+    return response;
+}
+
+/**
+ * Create a recruitment cycle, optionally making it the active one
+ */
+export async function createCycle(name: string, activate: boolean): Promise<Cycle> {
+    const response = await makeRequest<Cycle>('/cycles', {
+        method: 'POST',
+        body: JSON.stringify({ name, activate }),
+    });
+    return response;
+}
+
+/**
+ * Make a cycle the active one; every other cycle becomes read-only
+ */
+export async function activateCycle(cycleId: string): Promise<Cycle> {
+    const response = await makeRequest<Cycle>(`/cycles/${cycleId}/activate`, {
+        method: 'POST',
+    });
+    return response;
+}
+
+/**
+ * Fetch audit log entries, newest first
+ */
+export async function fetchAuditLog(filters: AuditLogFilters = {}): Promise<AuditEntry[]> {
+    const response = await makeRequest<AuditEntry[]>(`/audit${toQueryString(filters)}`);
+    return response;
+}
+
+/**
+ * Fetch the columns an export layout can include, in export order
+ */
+export async function fetchExportColumns(layout: ExportLayout): Promise<ExportColumn[]> {
+    const response = await makeRequest<ExportColumn[]>(`/export/columns${toQueryString({ layout })}`);
+    return response;
+}
+
+/**
+ * Download the cycle's reviews and decisions as CSV with the chosen columns (all of them when none are given)
+ */
+export async function downloadExportCSV(layout: ExportLayout, columns?: string[]): Promise<Blob> {
+    const response = await makeBlobRequest(`/export/csv${toQueryString({ layout, columns: columns?.join(',') })}`);
+    return response;
+}
+
+/**
+ * Download the cycle as an Excel workbook with one sheet per view of the data
+ */
+export async function downloadExportXLSX(): Promise<Blob> {
+    const response = await makeBlobRequest('/export/xlsx');
+    return response;
+}
+
+/**
+ * Download the committee summary PDF ranking every applicant within their category
+ */
+export async function downloadSummaryPDF(): Promise<Blob> {
+    const response = await makeBlobRequest('/export/summary/pdf');
+    return response;
+}
+
+/**
+ * Download an applicant's printable packet PDF
+ */
+export async function downloadApplicantPacketPDF(applicantId: string): Promise<Blob> {
+    const response = await makeBlobRequest(`/export/applicants/${applicantId}/pdf`);
+    return response;
+}
+
+/**
+ * Fetch the cycle's rank order list, or null if none has been started
+ */
+export async function fetchRankList(): Promise<RankList | null> {
+    const response = await makeRequest<RankList | null>('/rank-list');
+    return response;
+}
+
+/**
+ * Save the rank list's order and locks
+ */
+export async function saveRankList(entries: RankListEntry[], expectedRevision?: number): Promise<RankList> {
+    const response = await makeRequest<RankList>('/rank-list', {
+        method: 'PUT',
+        body: JSON.stringify({ entries, expected_revision: expectedRevision }),
+    });
+    return response;
+}
+
+/**
+ * Rebuild the rank list from applicants selected for interview, keeping locked entries in place
+ */
+export async function seedRankList(expectedRevision?: number): Promise<RankList> {
+    const response = await makeRequest<RankList>('/rank-list/seed', {
+        method: 'POST',
+        body: JSON.stringify({ expected_revision: expectedRevision }),
+    });
+    return response;
+}
+
+/**
+ * Fetch every snapshot of the rank list, newest first
+ */
+export async function fetchRankListVersions(): Promise<RankListVersion[]> {
+    const response = await makeRequest<RankListVersion[]>('/rank-list/versions');
+    return response;
+}
+
+/**
+ * Snapshot the rank list as it stands
+ */
+export async function createRankListVersion(label?: string): Promise<RankListVersion> {
+    const response = await makeRequest<RankListVersion>('/rank-list/versions', {
+        method: 'POST',
+        body: JSON.stringify({ label }),
+    });
+    return response;
+}
+
+/**
+ * Put the rank list back the way it was in a snapshot
+ */
+export async function restoreRankListVersion(version: number, expectedRevision?: number): Promise<RankList> {
+    const response = await makeRequest<RankList>(`/rank-list/versions/${version}/restore`, {
+        method: 'POST',
+        body: JSON.stringify({ expected_revision: expectedRevision }),
+    });
+    return response;
+}
+
+/**
+ * Download the rank list as CSV for match submission
+ */
+export async function downloadRankListCSV(): Promise<Blob> {
+    const response = await makeBlobRequest('/rank-list/export/csv');
+    return response;
+}
+
+/**
+ * Download a printable PDF of the rank list
+ */
+export async function downloadRankListPDF(): Promise<Blob> {
+    const response = await makeBlobRequest('/rank-list/export/pdf');
+    return response;
 }
 
 /**
@@ -37,14 +37,24 @@ export interface EnvironmentInfo {
  */
 export const API_ENDPOINTS = {
     HEALTH: '/health',
+    AUTH_LOGIN: '/auth/login',
+    AUTH_LOGIN_CODE: '/auth/login-code',
+    AUTH_ME: '/auth/me',
     APPLICANTS: '/applicants',
     APPLICANTS_REGULAR: '/applicants/regular',
     APPLICANTS_I_SUB: '/applicants/i-sub',
     APPLICANTS_DISTRIBUTION: '/applicants/distribution',
+    ASSIGNMENTS: '/assignments',
+    ASSIGNMENTS_DISTRIBUTION: '/assignments/distribution',
     REVIEWERS: '/reviewers',
     REVIEWS: '/reviews',
-    PROGRESS_STATS: '/progress/stats',
+    RUBRICS: '/rubrics',
+    RUBRICS_ACTIVE: '/rubrics/active',
+    PROGRESS: '/progress',
     FINAL_SELECTIONS: '/reviews/final-selections',
+    INTERVIEW_TARGETS: '/interview-targets',
+    CYCLES: '/cycles',
+    AUDIT: '/audit',
 } as const;
 
 /**
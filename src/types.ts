@@ -1,71 +1,351 @@
 import { LucideIcon } from 'lucide-react';
 
-export type ViewState = 'login' | 'admin' | 'review' | 'applicant-list' | 'final-approval' | 'i-sub';
+export type ViewState = 'login' | 'admin' | 'review' | 'applicant-list' | 'final-approval' | 'i-sub' | 'interview';
 
 export type ApplicantCategory = 'regular' | 'i-sub';
 
-export type AdminDecision = 'Selected' | 'Not Selected' | 'Pending';
+export type AdminDecision = 'Selected' | 'Not Selected' | 'Waitlisted' | 'Pending';
 
 export type DecisionType = 'Definitely Interview' | 'Maybe' | 'Do Not Interview';
 
-// Legacy format: [external_id, name, category, details]
+export type InterviewRecommendation = 'Rank Highly' | 'Rank' | 'Do Not Rank';
+
+// Legacy format: [external_id, name, category, medical_school]
 export type Applicant = [string, string, string, string];
 
+export type HonorSocietyStatus = 'member' | 'pending' | 'not_member' | 'no_chapter';
+
+export type VisaStatus = 'us_citizen' | 'permanent_resident' | 'visa_required';
+
+// Structured application data shown to reviewers; null means unknown
+export interface ApplicantProfile {
+    medical_school?: string | null;
+    graduation_year?: number | null;
+    step2_ck_score?: number | null;
+    aoa_status?: HonorSocietyStatus | null;
+    ghhs_status?: HonorSocietyStatus | null;
+    publication_count?: number | null;
+    clerkship_honors?: string[] | null;
+    home_program?: string | null;
+    visa_status?: VisaStatus | null;
+    preference_signal?: boolean | null;
+}
+
 // API format for applicants
-export interface ApiApplicant {
+export interface ApiApplicant extends ApplicantProfile {
     id: string;
     external_id: string;
     name: string;
     category: ApplicantCategory;
-    details?: string;
     site_name: string;
     created_at: string;
     updated_at: string;
 }
 
-export interface ScoringCategory {
-    key: string;
-    label: string;
+export type ApplicantImportField = 'external_id' | 'name' | 'first_name' | 'last_name' | 'category' | keyof ApplicantProfile;
+
+// Applicant field -> CSV column header
+export type ApplicantImportMapping = Partial<Record<ApplicantImportField, string>>;
+
+export interface ApplicantImportRequest {
+    csv: string;
+    mapping?: ApplicantImportMapping;
+    default_category?: ApplicantCategory;
+    dry_run?: boolean;
+}
+
+export type ApplicantImportAction = 'insert' | 'update' | 'unchanged' | 'error';
+
+export interface ApplicantImportRow extends ApplicantProfile {
+    row: number;
+    action: ApplicantImportAction;
+    external_id?: string;
+    name?: string;
+    category?: ApplicantCategory;
+    applicant_id?: string;
+    changes?: string[];
+    errors: string[];
+}
+
+export interface ApplicantImportResult {
+    dry_run: boolean;
+    columns: string[];
+    mapping: ApplicantImportMapping;
+    mapping_errors: string[];
+    rows: ApplicantImportRow[];
+    summary: Record<ApplicantImportAction, number>;
+}
+
+// Icon and colour shown next to a rubric criterion on the review screen
+export interface CriterionStyle {
     icon: LucideIcon;
     color: string;
 }
 
+// Scores keyed by rubric criterion key
+export type ReviewScores = Record<string, number>;
+
+export interface RubricCriterion {
+    id: string;
+    rubric_id: string;
+    key: string;
+    label: string;
+    description?: string;
+    min_score: number;
+    max_score: number;
+    weight: number;
+    sort_order: number;
+}
+
+// A recruitment season; only the active cycle can be changed
+export interface Cycle {
+    id: string;
+    name: string; // e.g. '2025-2026'
+    is_active: boolean;
+    created_at: string;
+    updated_at: string;
+}
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'activate';
+
+export type AuditEntityType =
+    | 'applicant'
+    | 'document'
+    | 'reviewer'
+    | 'review'
+    | 'final_selection'
+    | 'assignment'
+    | 'rubric'
+    | 'interview_target'
+    | 'cycle'
+    | 'password'
+    | 'rank_list'
+    | 'rank_list_version'
+    | 'interview_date'
+    | 'interview_booking'
+    | 'interview_evaluation';
+
+// Who changed what; before is null for creates and after is null for deletes
+export interface AuditEntry {
+    id: string;
+    actor_id?: string;
+    actor_name?: string;
+    action: AuditAction;
+    entity_type: AuditEntityType;
+    entity_id: string;
+    applicant_id?: string;
+    cycle_id?: string;
+    before: Record<string, unknown> | null;
+    after: Record<string, unknown> | null;
+    created_at: string;
+}
+
+export interface AuditLogFilters {
+    entity_type?: AuditEntityType;
+    action?: AuditAction;
+    applicant_id?: string;
+    actor_id?: string;
+    from?: string;
+    to?: string;
+    limit?: number;
+}
+
+// One row per review, or one row per applicant with their reviews aggregated
+export type ExportLayout = 'reviews' | 'applicants';
+
+// A column an export can include
+export interface ExportColumn {
+    key: string;
+    header: string;
+}
+
+// A place on the rank order list; locked entries keep their rank when the list is reseeded
+export interface RankListEntry {
+    applicant_id: string;
+    locked: boolean;
+}
+
+// A ranked applicant with the details shown when building the list
+export interface RankListItem extends RankListEntry {
+    rank: number;
+    external_id: string;
+    name: string;
+    category: ApplicantCategory;
+    medical_school?: string | null;
+    average_score: number | null;
+    interview_score: number | null; // Mean weighted interview score; null until someone scores the interview
+    admin_decision: AdminDecision;
+}
+
+// The cycle's rank order list; revision goes up on every save
+export interface RankList {
+    id: string;
+    cycle_id: string;
+    entries: RankListEntry[];
+    items: RankListItem[];
+    revision: number;
+    updated_by?: string;
+    created_at: string;
+    updated_at: string;
+}
+
+// A snapshot of the list's order and locks
+export interface RankListVersion {
+    id: string;
+    rank_list_id: string;
+    version: number;
+    label?: string;
+    entries: RankListEntry[];
+    created_by?: string;
+    created_at: string;
+}
+
+// Parameters shared by the list endpoints; sort is comma-separated fields, - for descending (e.g. '-weighted_score,name')
+export interface ListParams {
+    q?: string;
+    sort?: string;
+    limit?: number;
+    cursor?: string;
+}
+
+// Inclusive bounds on weighted scores
+export interface ScoreRangeParams {
+    min_score?: number;
+    max_score?: number;
+}
+
+export interface ApplicantListParams extends ListParams {
+    category?: ApplicantCategory;
+}
+
+export interface ReviewListParams extends ListParams, ScoreRangeParams {
+    applicant_id?: string;
+    reviewer_name?: string;
+    decision?: DecisionType;
+    category?: ApplicantCategory;
+}
+
+export interface FinalSelectionListParams extends ListParams, ScoreRangeParams {
+    rank_by?: RankingMode;
+    decision?: AdminDecision;
+    category?: ApplicantCategory;
+}
+
+// next_cursor is null on the last page; total counts every match
+export interface PageInfo {
+    total: number;
+    limit: number | null;
+    next_cursor: string | null;
+}
+
+export interface Page<T> {
+    data: T[];
+    page: PageInfo;
+}
+
+// File reviews and interview evaluations are scored on separate rubrics
+export type RubricStage = 'file_review' | 'interview';
+
+export interface Rubric {
+    id: string;
+    name: string;
+    stage: RubricStage;
+    is_active: boolean;
+    criteria: RubricCriterion[];
+    created_at: string;
+    updated_at: string;
+}
+
 export interface Review {
     id?: string;
     applicant_id?: string;
-    preference?: number;
-    pressure?: number;
-    underserved?: number;
-    leadership?: number;
-    academic?: number;
-    research?: number;
-    personal?: number;
+    rubric_id?: string;
+    scores?: ReviewScores;
     notes?: string;
     decision?: DecisionType;
     reviewer_name?: string;
     reviewer?: string; // Keep for backward compatibility
     category?: ApplicantCategory;
     adminDecision?: AdminDecision;
-    total_score?: number;
+    total_score?: number; // Raw sum of the criterion scores
+    weighted_score?: number; // Sum of each score times its criterion weight
+    revision?: number; // Sent back on save so a stale tab cannot overwrite newer changes
     site_name?: string;
     created_at?: string;
     updated_at?: string;
 }
 
+// How a review version came about; restores copy an earlier version forward
+export type ReviewVersionSource = 'create' | 'update' | 'restore';
+
+export interface ReviewVersion {
+    id: string;
+    review_id: string;
+    version: number;
+    source: ReviewVersionSource;
+    restored_from?: number;
+    scores: ReviewScores;
+    notes?: string;
+    decision?: DecisionType;
+    total_score?: number;
+    weighted_score?: number;
+    created_at: string;
+    updated_at: string;
+}
+
 export interface Reviews {
     [applicantId: string]: Review;
 }
 
+export type ReviewerRole = 'reviewer' | 'program_director' | 'coordinator';
+
+export type Permission =
+    | 'applicants:write'
+    | 'applicants:delete'
+    | 'reviewers:manage'
+    | 'assignments:manage'
+    | 'reviews:write'
+    | 'reviews:read_all'
+    | 'final_selections:read'
+    | 'final_selections:decide'
+    | 'progress:read_all'
+    | 'rubrics:manage'
+    | 'interview_targets:manage'
+    | 'cycles:manage'
+    | 'audit:read'
+    | 'data:export'
+    | 'rank_list:manage'
+    | 'interviews:manage'
+    | 'interviews:evaluate';
+
 export interface Reviewer {
     id: string;
     name: string;
     email?: string;
     is_admin: boolean;
+    role: ReviewerRole;
+    medical_school?: string;
+    capacity_weight: number;
     site_name: string;
     created_at: string;
     updated_at: string;
 }
 
+// The signed-in reviewer, with the permissions their role grants
+export interface AuthenticatedReviewer extends Reviewer {
+    permissions: Permission[];
+}
+
+export interface AuthSession {
+    token: string;
+    expires_at: string;
+    reviewer: AuthenticatedReviewer;
+}
+
+export interface LoginCodeResponse {
+    expires_in_minutes: number;
+}
+
 export interface FinalSelection {
     id?: string;
     applicant_id?: string;
@@ -75,14 +355,188 @@ export interface FinalSelection {
     admin_decision?: AdminDecision;
     selectionReason?: string;
     selection_reason?: string;
-    average_score?: number;
+    average_score?: number; // Mean weighted score
+    raw_average_score?: number; // Mean raw score
+    normalized_score?: number | null; // Mean z-score against each reviewer's own scoring habits
+    raw_rank?: number;
+    normalized_rank?: number | null; // Null when none of the applicant's reviewers are calibrated
     reviewer_count?: number;
+    interview_score?: number | null; // Mean weighted interview score; null until an interviewer scores them
+    interview_count?: number;
+    revision?: number; // Sent back on save so a stale decision cannot overwrite a newer one
     site_name?: string;
     decided_at?: string;
     created_at?: string;
     updated_at?: string;
 }
 
+export type RankingMode = 'raw' | 'normalized';
+
+// A save rejected because the record changed elsewhere since this tab loaded it
+export interface SaveConflict<T> {
+    applicantId: string;
+    base: T | undefined; // What this tab last loaded
+    mine: T; // What this tab tried to save
+    theirs: T; // What is stored now
+}
+
+export type ConflictResolution = 'mine' | 'theirs' | 'merge';
+
+// A category's interview target for a cycle against the applicants already Selected
+export interface InterviewCapacity {
+    cycle_id: string;
+    cycle: string; // Cycle name
+    category: ApplicantCategory;
+    slots: number | null; // Null when no target is set
+    hard_limit: boolean;
+    selected: number;
+    remaining: number | null;
+}
+
+// A day the program interviews on; times are local to the program (HH:MM:SS) and null for an all-day event
+export interface InterviewDate {
+    id: string;
+    cycle_id: string;
+    interview_date: string; // YYYY-MM-DD
+    start_time?: string | null;
+    end_time?: string | null;
+    capacity: number;
+    location?: string | null;
+    notes?: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface InterviewBooking {
+    id: string;
+    interview_date_id: string;
+    applicant_id: string;
+    name: string;
+    external_id: string;
+    category: ApplicantCategory;
+    admin_decision: AdminDecision; // No longer Selected when the decision changed after booking
+}
+
+export interface InterviewDateWithBookings extends InterviewDate {
+    bookings: InterviewBooking[];
+    remaining: number;
+}
+
+// A Selected applicant without a date yet
+export interface UnbookedApplicant {
+    applicant_id: string;
+    name: string;
+    external_id: string;
+    category: ApplicantCategory;
+}
+
+export interface InterviewSchedule {
+    dates: InterviewDateWithBookings[];
+    unbooked: UnbookedApplicant[];
+    capacity: {
+        target_slots: number | null; // Null unless every category has an interview target
+        hard_limit: boolean;
+        date_capacity: number;
+        selected: number;
+        booked: number;
+    };
+}
+
+export interface InterviewDateRequest {
+    interview_date: string;
+    start_time?: string | null;
+    end_time?: string | null;
+    capacity: number;
+    location?: string | null;
+    notes?: string | null;
+}
+
+// One interviewer's interview-day scores for an applicant
+export interface InterviewEvaluation {
+    id: string;
+    applicant_id: string;
+    interviewer_id: string;
+    interviewer_name?: string; // Included when listing
+    rubric_id: string;
+    scores: ReviewScores;
+    notes?: string;
+    recommendation?: InterviewRecommendation;
+    total_score?: number;
+    weighted_score?: number;
+    revision: number;
+    created_at: string;
+    updated_at: string;
+}
+
+// Scores are merged into the stored ones
+export interface InterviewEvaluationRequest {
+    scores?: ReviewScores;
+    notes?: string;
+    recommendation?: InterviewRecommendation;
+    expected_revision?: number;
+}
+
+export type DocumentType = 'personal_statement' | 'cv' | 'lor' | 'transcript';
+
+// A PDF attached to an applicant; fetch the file itself with fetchApplicantDocumentFile
+export interface ApplicantDocument {
+    id: string;
+    applicant_id: string;
+    document_type: DocumentType;
+    file_name: string;
+    size_bytes: number;
+    uploaded_by?: string;
+    created_at: string;
+}
+
+export interface Assignment {
+    id: string;
+    applicant_id: string;
+    reviewer_id: string;
+    assigned_by?: string;
+    site_name: string;
+    created_at: string;
+}
+
+export interface AssignmentPlanOptions {
+    reviewers_per_applicant?: number;
+    categories?: ApplicantCategory[];
+    dry_run?: boolean;
+}
+
+export interface PlannedAssignment {
+    applicant_id: string;
+    applicant_name: string;
+    reviewer_id: string;
+    reviewer_name: string;
+}
+
+export interface UnfilledAssignment {
+    applicant_id: string;
+    applicant_name: string;
+    missing: number;
+    reason: string;
+}
+
+export interface ReviewerLoad {
+    reviewer_id: string;
+    reviewer_name: string;
+    capacity_weight: number;
+    current: number;
+    planned: number;
+}
+
+export interface AssignmentPlan {
+    reviewers_per_applicant: number;
+    categories: ApplicantCategory[];
+    assignments: PlannedAssignment[];
+    unfilled: UnfilledAssignment[];
+    conflicts_avoided: number;
+    reviewer_loads: ReviewerLoad[];
+    dry_run: boolean;
+}
+
+// Distribution entries carry the applicant UUID in place of external_id
 export interface ApplicantDistribution {
     [reviewer: string]: Applicant[];
 }
@@ -99,8 +553,18 @@ export interface ProgressInfo {
     total: number;
 }
 
+export interface CategoryProgress {
+    category: ApplicantCategory;
+    applicants: number;
+    unassigned: number; // Applicants with no reviewer yet
+    assigned: number; // Applicant-reviewer pairs
+    completed: number;
+    percentage: number;
+}
+
 export interface ProgressStats {
     overall: ProgressInfo;
+    byCategory: CategoryProgress[];
     byReviewer: ReviewerStats[];
 }
 
@@ -0,0 +1,83 @@
+import { FinalSelection, Review, RubricCriterion, SaveConflict } from '../types';
+
+// One field that differs between what this tab tried to save and what is stored
+export interface ConflictField {
+    label: string;
+    mine: string;
+    theirs: string;
+}
+
+const sameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Three-way merge of one value: keep mine where this tab changed it, otherwise take theirs
+ */
+function mergeValue<V>(base: V, mine: V, theirs: V): V {
+    return sameValue(mine, base) ? theirs : mine;
+}
+
+const formatValue = (value: unknown): string =>
+    value === undefined || value === null || value === '' ? '-' : String(value);
+
+/**
+ * Merge a rejected review save into the stored review, criterion by criterion
+ */
+export function mergeReview({ base, mine, theirs }: SaveConflict<Review>): Review {
+    const keys = new Set([...Object.keys(theirs.scores || {}), ...Object.keys(mine.scores || {})]);
+    const scores: Record<string, number> = {};
+    keys.forEach(key => {
+        const value = mergeValue(base?.scores?.[key], mine.scores?.[key], theirs.scores?.[key]);
+        if (value !== undefined) {
+            scores[key] = value;
+        }
+    });
+
+    const notes = mergeValue(base?.notes, mine.notes, theirs.notes);
+    const decision = mergeValue(base?.decision, mine.decision, theirs.decision);
+    return {
+        ...theirs,
+        scores,
+        ...(notes !== undefined ? { notes } : {}),
+        ...(decision !== undefined ? { decision } : {})
+    };
+}
+
+/**
+ * Merge a rejected final decision into the stored one
+ */
+export function mergeFinalSelection({ base, mine, theirs }: SaveConflict<FinalSelection>): FinalSelection {
+    const decision = mergeValue(base?.admin_decision, mine.admin_decision, theirs.admin_decision);
+    const reason = mergeValue(base?.selection_reason, mine.selection_reason, theirs.selection_reason);
+    return {
+        ...theirs,
+        ...(decision !== undefined ? { admin_decision: decision } : {}),
+        ...(reason !== undefined ? { selection_reason: reason } : {})
+    };
+}
+
+/**
+ * List the review fields where this tab and the stored review disagree
+ */
+export function reviewConflictFields({ mine, theirs }: SaveConflict<Review>, criteria: RubricCriterion[]): ConflictField[] {
+    const fields: ConflictField[] = criteria.map(criterion => ({
+        label: criterion.label,
+        mine: formatValue(mine.scores?.[criterion.key]),
+        theirs: formatValue(theirs.scores?.[criterion.key])
+    }));
+    fields.push(
+        { label: 'Recommendation', mine: formatValue(mine.decision), theirs: formatValue(theirs.decision) },
+        { label: 'Notes', mine: formatValue(mine.notes), theirs: formatValue(theirs.notes) }
+    );
+    return fields.filter(field => field.mine !== field.theirs);
+}
+
+/**
+ * List the decision fields where this tab and the stored decision disagree
+ */
+export function finalSelectionConflictFields({ mine, theirs }: SaveConflict<FinalSelection>): ConflictField[] {
+    const fields: ConflictField[] = [
+        { label: 'Decision', mine: formatValue(mine.admin_decision), theirs: formatValue(theirs.admin_decision) },
+        { label: 'Reason', mine: formatValue(mine.selection_reason), theirs: formatValue(theirs.selection_reason) }
+    ];
+    return fields.filter(field => field.mine !== field.theirs);
+}
@@ -0,0 +1,11 @@
+/**
+ * Save a downloaded file through a temporary object URL
+ */
+export function saveFile(blob: Blob, fileName: string): void {
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    window.URL.revokeObjectURL(url);
+}